@@ -5,20 +5,36 @@ import { ThemeProvider } from "@/components/ui/theme-provider";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { AuthProvider } from "@/contexts/auth-context";
+import { WorkspaceProvider } from "@/contexts/workspace-context";
 import { ProjectProvider } from "@/contexts/project-context";
 import { EditorProvider } from "@/contexts/editor-context";
+import { ProtectedRoute } from "@/components/layout/protected-route";
 import NotFound from "@/pages/not-found";
 import Dashboard from "@/pages/dashboard";
 import Auth from "@/pages/auth";
 import Editor from "@/pages/editor";
+import Settings from "@/pages/settings";
+import ForgotPassword from "@/pages/forgot-password";
+import ResetPassword from "@/pages/reset-password";
+import VerifyEmail from "@/pages/verify-email";
+import WorkspaceSettings from "@/pages/workspace-settings";
+import Invitation from "@/pages/invitation";
+import SharedProject from "@/pages/shared-project";
 
 function Router() {
   return (
     <Switch>
-      <Route path="/" component={Dashboard} />
-      <Route path="/dashboard" component={Dashboard} />
+      <ProtectedRoute path="/" component={Dashboard} />
+      <ProtectedRoute path="/dashboard" component={Dashboard} />
       <Route path="/auth" component={Auth} />
-      <Route path="/editor/:id" component={Editor} />
+      <Route path="/auth/forgot-password" component={ForgotPassword} />
+      <Route path="/auth/reset-password" component={ResetPassword} />
+      <Route path="/auth/verify-email" component={VerifyEmail} />
+      <ProtectedRoute path="/editor/:id" component={Editor} />
+      <ProtectedRoute path="/settings" component={Settings} />
+      <ProtectedRoute path="/workspaces/:id" component={WorkspaceSettings} />
+      <ProtectedRoute path="/invitations/:token" component={Invitation} />
+      <Route path="/share/:token" component={SharedProject} />
       {/* Fallback to 404 */}
       <Route component={NotFound} />
     </Switch>
@@ -31,12 +47,14 @@ function App() {
       <ThemeProvider defaultTheme="system">
         <TooltipProvider>
           <AuthProvider>
-            <ProjectProvider>
-              <EditorProvider>
-                <Toaster />
-                <Router />
-              </EditorProvider>
-            </ProjectProvider>
+            <WorkspaceProvider>
+              <ProjectProvider>
+                <EditorProvider>
+                  <Toaster />
+                  <Router />
+                </EditorProvider>
+              </ProjectProvider>
+            </WorkspaceProvider>
           </AuthProvider>
         </TooltipProvider>
       </ThemeProvider>
@@ -12,7 +12,15 @@ import {
 } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { DeploymentPlatform } from '@/types';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { DeploymentPlatform, ExportOptions } from '@/types';
 import { useToast } from '@/hooks/use-toast';
 
 interface DeploymentOptionsProps {
@@ -29,6 +37,11 @@ const DeploymentOptions: React.FC<DeploymentOptionsProps> = ({ className = '' })
   const [vercelProjectName, setVercelProjectName] = useState('');
   const [showDialog, setShowDialog] = useState(false);
   const [deploying, setDeploying] = useState(false);
+  const [exportOptions, setExportOptions] = useState<ExportOptions>({
+    format: 'zip',
+    readme: false,
+    packageJson: false,
+  });
 
   const handleSelectPlatform = (platform: DeploymentPlatform) => {
     setSelectedPlatform(platform);
@@ -41,7 +54,7 @@ const DeploymentOptions: React.FC<DeploymentOptionsProps> = ({ className = '' })
       } else if (platform === 'replit') {
         handleDeployToReplit();
       } else if (platform === 'download') {
-        handleDownload();
+        setShowDialog(true);
       }
     }
   };
@@ -93,10 +106,11 @@ const DeploymentOptions: React.FC<DeploymentOptionsProps> = ({ className = '' })
     if (currentProject) {
       toast({
         title: "Preparing Download",
-        description: "Your project is being packaged as a ZIP file",
+        description: `Your project is being packaged as a ${exportOptions.format === 'zip' ? 'ZIP' : 'tar.gz'} file`,
       });
       
-      exportProject(currentProject.id);
+      exportProject(currentProject.id, exportOptions);
+      setShowDialog(false);
     }
   };
 
@@ -185,6 +199,58 @@ const DeploymentOptions: React.FC<DeploymentOptionsProps> = ({ className = '' })
           </DialogFooter>
         </>
       );
+    } else if (selectedPlatform === 'download') {
+      return (
+        <>
+          <DialogHeader>
+            <DialogTitle>Download Project</DialogTitle>
+            <DialogDescription>
+              Download every file in the project as a single archive.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label className="text-right">Format</Label>
+              <Select
+                value={exportOptions.format}
+                onValueChange={(format) => setExportOptions({ ...exportOptions, format: format as ExportOptions['format'] })}
+              >
+                <SelectTrigger className="col-span-3">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="zip">ZIP</SelectItem>
+                  <SelectItem value="tar.gz">tar.gz</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="includeReadme"
+                checked={exportOptions.readme}
+                onCheckedChange={(checked) => setExportOptions({ ...exportOptions, readme: checked === true })}
+              />
+              <Label htmlFor="includeReadme">Generate a README.md if the project has none</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="includePackageJson"
+                checked={exportOptions.packageJson}
+                onCheckedChange={(checked) => setExportOptions({ ...exportOptions, packageJson: checked === true })}
+              />
+              <Label htmlFor="includePackageJson">Generate a package.json if the project has none</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowDialog(false)}>
+              {t('cancel')}
+            </Button>
+            <Button onClick={handleDownload}>
+              {t('download')}
+            </Button>
+          </DialogFooter>
+        </>
+      );
     }
     
     return null;
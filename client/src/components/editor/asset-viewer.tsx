@@ -0,0 +1,43 @@
+import React from 'react';
+import { ProjectFile } from '@/types';
+import { formatFileSize, isImageFile, rawFileUrl } from '@/lib/assets';
+import { Button } from '@/components/ui/button';
+
+interface AssetViewerProps {
+  file: ProjectFile;
+  // Where to load the file from, when not from its project's raw route
+  url?: string;
+  className?: string;
+}
+
+/**
+ * Shown in place of the code editor for binary assets, which cannot be edited
+ * as text: images are displayed, anything else can be downloaded
+ */
+export function AssetViewer({ file, url = rawFileUrl(file.projectId, file.path), className = '' }: AssetViewerProps) {
+  return (
+    <div className={`flex flex-col items-center justify-center h-full gap-4 p-6 ${className}`}>
+      {isImageFile(file) ? (
+        <img
+          src={url}
+          alt={file.name}
+          className="max-w-full max-h-[60vh] object-contain rounded border border-gray-200 dark:border-gray-700 bg-[repeating-conic-gradient(#e5e7eb_0%_25%,transparent_0%_50%)] bg-[length:16px_16px]"
+        />
+      ) : (
+        <i className="ri-file-3-line text-5xl text-gray-300 dark:text-gray-600"></i>
+      )}
+      <div className="text-center text-sm text-gray-500 dark:text-gray-400">
+        <p className="font-medium text-gray-700 dark:text-gray-300">{file.name}</p>
+        <p>
+          {file.mimeType}
+          {file.size !== null && ` · ${formatFileSize(file.size)}`}
+        </p>
+      </div>
+      <Button variant="outline" size="sm" asChild>
+        <a href={url} download={file.name}>
+          <i className="ri-download-line mr-1"></i> Download
+        </a>
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import React from 'react';
+
+interface DiffViewProps {
+  diff: string;
+  className?: string;
+}
+
+const diffLineClass = (line: string) => {
+  if (line.startsWith('+') && !line.startsWith('+++')) return 'bg-green-50 text-green-800 dark:bg-green-900/30 dark:text-green-300';
+  if (line.startsWith('-') && !line.startsWith('---')) return 'bg-red-50 text-red-800 dark:bg-red-900/30 dark:text-red-300';
+  if (line.startsWith('@@')) return 'text-blue-600 dark:text-blue-400';
+  return 'text-gray-600 dark:text-gray-300';
+};
+
+/**
+ * Renders a unified diff with added and removed lines highlighted
+ */
+const DiffView: React.FC<DiffViewProps> = ({ diff, className = '' }) => (
+  <pre className={`p-2 text-xs font-mono overflow-x-auto rounded border border-gray-200 dark:border-gray-700 ${className}`}>
+    {diff.split('\n').map((line, index) => (
+      <div key={index} className={diffLineClass(line)}>{line || ' '}</div>
+    ))}
+  </pre>
+);
+
+export { DiffView };
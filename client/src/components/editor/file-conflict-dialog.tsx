@@ -0,0 +1,85 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { createTwoFilesPatch } from 'diff';
+import { ProjectFile } from '@/types';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { DiffView } from '@/components/editor/diff-view';
+
+// How the user settled a save that lost a race with another change
+export type ConflictResolution =
+  | { action: 'save'; content: string }
+  | { action: 'discard' }
+  | { action: 'cancel' };
+
+export interface FileConflict {
+  mine: string;
+  theirs: ProjectFile;
+}
+
+interface FileConflictDialogProps {
+  conflict: FileConflict | null;
+  onResolve: (resolution: ConflictResolution) => void;
+}
+
+/**
+ * Shown when a save is rejected because the file changed on the server. Lets
+ * the user compare both versions, edit a merged result, or take the server's copy.
+ */
+export function FileConflictDialog({ conflict, onResolve }: FileConflictDialogProps) {
+  const [merged, setMerged] = useState('');
+
+  useEffect(() => {
+    setMerged(conflict?.mine ?? '');
+  }, [conflict]);
+
+  const diff = useMemo(() => {
+    if (!conflict) return '';
+    return createTwoFilesPatch(
+      conflict.theirs.path,
+      conflict.theirs.path,
+      conflict.theirs.content,
+      conflict.mine,
+      'server version',
+      'your version',
+    );
+  }, [conflict]);
+
+  return (
+    <Dialog open={conflict !== null} onOpenChange={(open) => !open && onResolve({ action: 'cancel' })}>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>File changed while you were editing</DialogTitle>
+          <DialogDescription>
+            {conflict?.theirs.path} was saved somewhere else since you opened it. Review the
+            differences and save a merged version, or take the version on the server.
+          </DialogDescription>
+        </DialogHeader>
+
+        <DiffView diff={diff} className="max-h-60 overflow-y-auto" />
+
+        <Textarea
+          value={merged}
+          onChange={(e) => setMerged(e.target.value)}
+          className="font-mono text-xs h-48"
+        />
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onResolve({ action: 'discard' })}>
+            Use server version
+          </Button>
+          <Button onClick={() => onResolve({ action: 'save', content: merged })}>
+            Save merged version
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
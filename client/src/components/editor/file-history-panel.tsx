@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useProject } from '@/contexts/project-context';
+import { useEditor } from '@/contexts/editor-context';
+import { apiRequest } from '@/lib/queryClient';
+import { FileRevision, FileRevisionDiff, RevisionSource } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { DiffView } from '@/components/editor/diff-view';
+
+interface FileHistoryPanelProps {
+  className?: string;
+}
+
+const sourceLabels: Record<RevisionSource, string> = {
+  manual: 'Edit',
+  ai: 'AI',
+  clean: 'Cleanup',
+  restore: 'Restore',
+  import: 'Import',
+  replace: 'Replace',
+  duplicate: 'Duplicate',
+};
+
+/**
+ * Lists the saved revisions of the active file, shows a unified diff between
+ * two of them and restores an earlier version.
+ */
+const FileHistoryPanel: React.FC<FileHistoryPanelProps> = ({ className = '' }) => {
+  const { restoreFileRevision } = useProject();
+  const { activeFile, setActiveFile } = useEditor();
+
+  // Up to two revision ids picked for comparison
+  const [selected, setSelected] = useState<number[]>([]);
+  const [diff, setDiff] = useState<FileRevisionDiff | null>(null);
+  const [loadingDiff, setLoadingDiff] = useState(false);
+
+  // Keyed on updatedAt so the list refreshes after every save
+  const { data: revisions, isLoading } = useQuery<FileRevision[]>({
+    queryKey: [`/api/files/${activeFile?.id}/revisions`, activeFile?.updatedAt],
+    enabled: !!activeFile,
+  });
+
+  useEffect(() => {
+    setSelected([]);
+    setDiff(null);
+  }, [activeFile?.id]);
+
+  const latest = revisions && revisions.length > 0 ? revisions[revisions.length - 1] : null;
+
+  const toggleSelected = (revisionId: number) => {
+    setDiff(null);
+    setSelected(prev => {
+      if (prev.includes(revisionId)) return prev.filter(id => id !== revisionId);
+      return [...prev, revisionId].slice(-2);
+    });
+  };
+
+  const handleCompare = async () => {
+    if (!activeFile || !latest || selected.length === 0) return;
+
+    // A single selection is compared against the latest revision
+    const [from, to] = selected.length === 2
+      ? [...selected].sort((a, b) => a - b)
+      : [selected[0], latest.id];
+
+    try {
+      setLoadingDiff(true);
+      const response = await apiRequest('GET', `/api/files/${activeFile.id}/revisions/diff?from=${from}&to=${to}`);
+      setDiff(await response.json());
+    } catch (error) {
+      console.error('Failed to load diff:', error);
+    } finally {
+      setLoadingDiff(false);
+    }
+  };
+
+  const handleRestore = async (revision: FileRevision) => {
+    if (!activeFile) return;
+
+    const restoredFile = await restoreFileRevision(activeFile.id, revision.id);
+    setActiveFile(restoredFile);
+  };
+
+  if (!activeFile) {
+    return (
+      <div className={`p-4 text-sm text-gray-500 dark:text-gray-400 ${className}`}>
+        Select a file to see its history.
+      </div>
+    );
+  }
+
+  return (
+    <div className={`flex flex-col h-full ${className}`}>
+      <div className="p-3 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {selected.length === 0 ? 'Select revisions to compare' : `${selected.length} selected`}
+        </span>
+        <Button size="sm" variant="outline" disabled={selected.length === 0 || loadingDiff} onClick={handleCompare}>
+          Compare
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {isLoading ? (
+          <div className="p-4 text-sm text-gray-500">Loading history...</div>
+        ) : !revisions || revisions.length === 0 ? (
+          <div className="p-4 text-sm text-gray-500">No revisions yet.</div>
+        ) : (
+          <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+            {[...revisions].reverse().map((revision) => (
+              <li
+                key={revision.id}
+                className={`flex items-center justify-between px-3 py-2 text-sm cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700 ${
+                  selected.includes(revision.id) ? 'bg-blue-50 dark:bg-blue-900/30' : ''
+                }`}
+                onClick={() => toggleSelected(revision.id)}
+              >
+                <div className="flex items-center space-x-2">
+                  <Badge variant="secondary">{sourceLabels[revision.source]}</Badge>
+                  <span className="text-gray-600 dark:text-gray-300">
+                    {new Date(revision.createdAt).toLocaleString()}
+                  </span>
+                </div>
+                {revision.id === latest?.id ? (
+                  <span className="text-xs text-gray-400">Current</span>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleRestore(revision);
+                    }}
+                  >
+                    Restore
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {diff && <DiffView diff={diff.diff} className="m-3" />}
+      </div>
+    </div>
+  );
+};
+
+export { FileHistoryPanel };
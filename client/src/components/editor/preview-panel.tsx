@@ -1,6 +1,8 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { useI18n } from '@/lib/i18n';
 import { useEditor } from '@/contexts/editor-context';
+import { isBinaryAsset, isImageFile, rawFileUrl } from '@/lib/assets';
+import { dirName } from '@shared/file-paths';
 import { Button } from '@/components/ui/button';
 import { PreviewDevice } from '@/types';
 
@@ -43,6 +45,30 @@ const PreviewPanel: React.FC<PreviewPanelProps> = ({ className = '' }) => {
 
     const extension = activeFile.name.split('.').pop()?.toLowerCase();
     
+    // Relative URLs in the previewed file (images, fonts, stylesheets) resolve
+    // against the project's raw files, next to the file being previewed
+    const directory = dirName(activeFile.path);
+    const baseUrl = new URL(
+      directory ? `${rawFileUrl(activeFile.projectId, directory)}/` : rawFileUrl(activeFile.projectId, ''),
+      window.location.origin,
+    ).href;
+    
+    if (isBinaryAsset(activeFile)) {
+      return (
+        <div className="flex items-center justify-center h-full">
+          {isImageFile(activeFile) ? (
+            <img
+              src={rawFileUrl(activeFile.projectId, activeFile.path)}
+              alt={activeFile.name}
+              className="max-w-full max-h-full object-contain"
+            />
+          ) : (
+            <p className="text-gray-500 dark:text-gray-400">No preview for {activeFile.mimeType ?? 'this file'}</p>
+          )}
+        </div>
+      );
+    }
+    
     if (extension === 'html' || extension === 'jsx' || extension === 'tsx') {
       // For HTML and React files, provide an enhanced rendering approach
       try {
@@ -55,6 +81,7 @@ const PreviewPanel: React.FC<PreviewPanelProps> = ({ className = '' }) => {
           <head>
             <meta charset="UTF-8">
             <meta name="viewport" content="width=device-width, initial-scale=1.0">
+            <base href="${baseUrl}">
             <link href="https://cdn.jsdelivr.net/npm/tailwindcss@2.2.19/dist/tailwind.min.css" rel="stylesheet">
             <style>
               body { font-family: system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif; padding: 1rem; }
@@ -0,0 +1,222 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useProject } from '@/contexts/project-context';
+import { useI18n } from '@/lib/i18n';
+import { SearchMatch, SearchOptions, SearchResults } from '@/types';
+import { apiErrorMessage } from '@/lib/queryClient';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Loader2 } from 'lucide-react';
+
+interface SearchPanelProps {
+  projectId: number;
+  onOpenMatch: (fileId: number, match: SearchMatch) => void;
+}
+
+// Wait this long after the last keystroke before searching
+const SEARCH_DELAY_MS = 300;
+
+/**
+ * Project-wide search and replace for the editor sidebar. Clicking a match
+ * opens its file with the match selected.
+ */
+export function SearchPanel({ projectId, onOpenMatch }: SearchPanelProps) {
+  const { t } = useI18n();
+  const { projectFiles, replaceInProject } = useProject();
+
+  const [options, setOptions] = useState<SearchOptions>({
+    query: '',
+    regex: false,
+    caseSensitive: false,
+    include: '',
+    exclude: '',
+  });
+  const [searched, setSearched] = useState(options);
+  const [showFilters, setShowFilters] = useState(false);
+  const [replacement, setReplacement] = useState('');
+  const [isReplacing, setIsReplacing] = useState(false);
+  const [collapsed, setCollapsed] = useState<Set<number>>(new Set());
+
+  useEffect(() => {
+    const timer = setTimeout(() => setSearched(options), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [options]);
+
+  const params = new URLSearchParams({
+    query: searched.query,
+    regex: String(searched.regex),
+    caseSensitive: String(searched.caseSensitive),
+    include: searched.include,
+    exclude: searched.exclude,
+  });
+  const { data, error, isFetching, refetch } = useQuery<SearchResults>({
+    queryKey: [`/api/projects/${projectId}/search?${params}`],
+    enabled: searched.query !== '',
+    staleTime: 0,
+  });
+
+  // Files changed elsewhere (saves, AI generation, replace) invalidate the results
+  useEffect(() => {
+    if (searched.query) refetch();
+  }, [projectFiles]);
+
+  const handleReplaceAll = async () => {
+    if (!data || data.matchCount === 0) return;
+    const fileCount = data.results.length;
+    if (!window.confirm(`Replace ${data.matchCount} matches in ${fileCount} files?`)) return;
+
+    setIsReplacing(true);
+    try {
+      await replaceInProject(projectId, searched, replacement);
+    } catch {
+      // The project context has already reported the error
+    } finally {
+      setIsReplacing(false);
+    }
+  };
+
+  const toggleFile = (fileId: number) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(fileId)) {
+        next.delete(fileId);
+      } else {
+        next.add(fileId);
+      }
+      return next;
+    });
+  };
+
+  const toggleClass = (active: boolean) =>
+    `px-1.5 py-0.5 text-xs font-mono rounded ${
+      active ? 'bg-primary-500 text-white' : 'text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700'
+    }`;
+
+  return (
+    <div className="p-2 space-y-2 text-sm">
+      <div className="flex items-center space-x-1">
+        <Input
+          value={options.query}
+          onChange={(e) => setOptions({ ...options, query: e.target.value })}
+          placeholder={t('search')}
+          className="h-8"
+          autoFocus
+        />
+        <button
+          title="Match case"
+          className={toggleClass(options.caseSensitive)}
+          onClick={() => setOptions({ ...options, caseSensitive: !options.caseSensitive })}
+        >
+          Aa
+        </button>
+        <button
+          title="Use regular expression"
+          className={toggleClass(options.regex)}
+          onClick={() => setOptions({ ...options, regex: !options.regex })}
+        >
+          .*
+        </button>
+      </div>
+
+      <div className="flex items-center space-x-1">
+        <Input
+          value={replacement}
+          onChange={(e) => setReplacement(e.target.value)}
+          placeholder={options.regex ? 'Replace ($1 for groups)' : 'Replace'}
+          className="h-8"
+        />
+        <Button
+          size="sm"
+          variant="outline"
+          title={t('replaceAll')}
+          className="h-8 px-2"
+          disabled={isReplacing || !data || data.matchCount === 0}
+          onClick={handleReplaceAll}
+        >
+          {isReplacing ? <Loader2 className="h-4 w-4 animate-spin" /> : <i className="ri-find-replace-line"></i>}
+        </Button>
+      </div>
+
+      <button
+        className="text-xs text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+        onClick={() => setShowFilters(!showFilters)}
+      >
+        <i className={`${showFilters ? 'ri-arrow-down-s-line' : 'ri-arrow-right-s-line'} mr-0.5`}></i>
+        Files to include / exclude
+      </button>
+      {showFilters && (
+        <div className="space-y-1">
+          <Input
+            value={options.include}
+            onChange={(e) => setOptions({ ...options, include: e.target.value })}
+            placeholder="e.g. src/**/*.jsx, *.css"
+            className="h-8"
+          />
+          <Input
+            value={options.exclude}
+            onChange={(e) => setOptions({ ...options, exclude: e.target.value })}
+            placeholder="e.g. *.test.js"
+            className="h-8"
+          />
+        </div>
+      )}
+
+      {error ? (
+        <p className="text-xs text-red-500">{apiErrorMessage(error)}</p>
+      ) : isFetching && !data ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-5 w-5 animate-spin text-primary" />
+        </div>
+      ) : data && searched.query ? (
+        <>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {data.matchCount === 0
+              ? 'No results'
+              : `${data.matchCount}${data.truncated ? '+' : ''} results in ${data.results.length} files`}
+          </p>
+          <div className="space-y-1">
+            {data.results.map(result => (
+              <div key={result.fileId}>
+                <button
+                  className="w-full flex items-center text-left p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-700"
+                  onClick={() => toggleFile(result.fileId)}
+                >
+                  <i className={`${collapsed.has(result.fileId) ? 'ri-arrow-right-s-line' : 'ri-arrow-down-s-line'} mr-0.5 text-gray-400`}></i>
+                  <span className="truncate font-medium">{result.path}</span>
+                  <span className="ml-auto pl-2 text-xs text-gray-400">{result.matches.length}</span>
+                </button>
+                {!collapsed.has(result.fileId) && result.matches.map(match => (
+                  <button
+                    key={`${match.line}:${match.column}`}
+                    className="w-full text-left pl-6 pr-1 py-0.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700 font-mono text-xs truncate"
+                    title={`Line ${match.line}, column ${match.column}`}
+                    onClick={() => onOpenMatch(result.fileId, match)}
+                  >
+                    <MatchPreview match={match} />
+                  </button>
+                ))}
+              </div>
+            ))}
+          </div>
+        </>
+      ) : null}
+    </div>
+  );
+}
+
+// The matching line, trimmed to start near the match, with the match highlighted
+function MatchPreview({ match }: { match: SearchMatch }) {
+  const start = match.column - 1;
+  const lead = match.preview.slice(0, start);
+  const before = lead.length > 20 ? `…${lead.slice(-20)}` : lead;
+
+  return (
+    <>
+      <span className="text-gray-500">{before.trimStart()}</span>
+      <mark className="bg-yellow-200 dark:bg-yellow-700 text-inherit">
+        {match.preview.slice(start, start + match.length)}
+      </mark>
+      <span className="text-gray-500">{match.preview.slice(start + match.length)}</span>
+    </>
+  );
+}
@@ -480,7 +480,7 @@ const SimpleAppPreview: React.FC<SimpleAppPreviewProps> = ({ className = '' }) =
                   <div className="bg-gray-900 rounded-lg overflow-hidden h-full">
                     <div className="p-4 border-b border-gray-800">
                       <div className="font-mono text-sm text-gray-300">
-                        {appFile.path}/{appFile.name}
+                        {appFile.path}
                       </div>
                     </div>
                     
@@ -506,7 +506,7 @@ const SimpleAppPreview: React.FC<SimpleAppPreviewProps> = ({ className = '' }) =
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-2 max-h-60 overflow-y-auto">
               {projectFiles.map((file, index) => (
                 <div key={index} className="p-2 bg-gray-100 dark:bg-gray-800 rounded-md font-mono text-sm flex justify-between">
-                  <span className="truncate">{file.path}/{file.name}</span>
+                  <span className="truncate">{file.path}</span>
                   <span className="text-xs text-gray-500 ml-2 whitespace-nowrap">{file.content.length} bytes</span>
                 </div>
               ))}
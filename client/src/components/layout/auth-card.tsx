@@ -0,0 +1,35 @@
+import React from 'react';
+
+interface AuthCardProps {
+  title: string;
+  children: React.ReactNode;
+}
+
+/**
+ * The branded card, as on the login page, that the pages opened from account
+ * emails sit in
+ */
+export function AuthCard({ title, children }: AuthCardProps) {
+  return (
+    <div className="min-h-screen bg-gradient-to-r from-[#FF9933] via-white to-[#138808] flex items-center justify-center p-4">
+      <div className="bg-white dark:bg-gray-800 shadow-xl rounded-lg w-full max-w-md overflow-hidden">
+        <div className="bg-primary-500 p-4 flex justify-center">
+          <div className="flex items-center gap-2">
+            <div className="bg-white text-primary-500 p-1.5 rounded-lg">
+              <i className="ri-code-box-line text-xl"></i>
+            </div>
+            <span className="font-bold text-xl text-white">Xalgrow</span>
+          </div>
+        </div>
+        
+        <div className="p-6">
+          <h2 className="text-2xl font-bold text-center mb-6">
+            {title}
+          </h2>
+          
+          {children}
+        </div>
+      </div>
+    </div>
+  );
+}
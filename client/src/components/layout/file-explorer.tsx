@@ -1,16 +1,25 @@
-import React, { useState } from 'react';
+import React, { useMemo, useRef, useState } from 'react';
 import { useI18n } from '@/lib/i18n';
 import { useProject } from '@/contexts/project-context';
 import { useEditor } from '@/contexts/editor-context';
 import { ProjectFile } from '@/types';
+import { baseName, dirName, isWithinPath, joinFilePath } from '@shared/file-paths';
+import { buildFileTree, duplicateFilePath, FileTreeNode } from '@/lib/file-tree';
+import { formatFileSize, isBinaryAsset, isImageFile, rawFileUrl } from '@/lib/assets';
 import { Button } from '@/components/ui/button';
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from '@/components/ui/context-menu';
 import {
   Dialog,
   DialogContent,
   DialogFooter,
   DialogHeader,
   DialogTitle,
-  DialogTrigger,
 } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -19,161 +28,393 @@ interface FileExplorerProps {
   className?: string;
 }
 
+// What the name dialog is collecting: a new file or folder inside `directory`,
+// or a new name for `node`
+type NameDialogState =
+  | { mode: 'file' | 'folder'; directory: string }
+  | { mode: 'rename'; node: FileTreeNode };
+
+// dataTransfer type used when dragging tree entries around
+const DRAG_TYPE = 'application/x-xalgrow-path';
+
 const FileExplorer: React.FC<FileExplorerProps> = ({ className = '' }) => {
   const { t } = useI18n();
-  const { currentProject, projectFiles, createFile, deleteFile } = useProject();
+  const {
+    currentProject,
+    projectFiles,
+    createFile,
+    deleteFile,
+    createFolder,
+    uploadAssets,
+    movePath,
+    deletePath,
+  } = useProject();
   const { activeFile, setActiveFile } = useEditor();
-  
-  const [showNewFileDialog, setShowNewFileDialog] = useState(false);
-  const [newFileName, setNewFileName] = useState('');
-  const [newFilePath, setNewFilePath] = useState('');
+
+  const [nameDialog, setNameDialog] = useState<NameDialogState | null>(null);
+  const [nameInput, setNameInput] = useState('');
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  // Hidden file picker for uploads and the folder the picked files go into
+  const uploadInputRef = useRef<HTMLInputElement>(null);
+  const uploadDirectory = useRef('');
+
+  const tree = useMemo(() => buildFileTree(projectFiles), [projectFiles]);
 
   const handleFileClick = (file: ProjectFile) => {
     setActiveFile(file);
   };
 
-  const handleCreateFile = () => {
+  const toggleFolder = (path: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  const openNameDialog = (state: NameDialogState) => {
+    setNameDialog(state);
+    setNameInput(state.mode === 'rename' ? state.node.name : '');
+  };
+
+  // Keep the editor pointed at the open file after it moves
+  const followActiveFile = (movedFiles: ProjectFile[]) => {
+    const movedActiveFile = movedFiles.find(file => file.id === activeFile?.id);
+    if (movedActiveFile) {
+      setActiveFile(movedActiveFile);
+    }
+  };
+
+  const move = async (from: string, to: string) => {
+    if (!currentProject || from === to) return;
+
+    const movedFiles = await movePath(currentProject.id, from, to);
+    followActiveFile(movedFiles);
+
+    // A renamed folder keeps its collapsed state
+    if (collapsed.has(from)) {
+      toggleFolder(from);
+      toggleFolder(to);
+    }
+  };
+
+  const handleNameSubmit = async () => {
+    if (!currentProject || !nameDialog || !nameInput.trim()) return;
+
+    let path: string;
+    try {
+      path = nameDialog.mode === 'rename'
+        ? joinFilePath(dirName(nameDialog.node.path), nameInput.trim())
+        : joinFilePath(nameDialog.directory, nameInput.trim());
+    } catch {
+      return; // Reject names that escape the project
+    }
+
+    try {
+      if (nameDialog.mode === 'file') {
+        const newFile = await createFile({
+          name: baseName(path),
+          content: '',
+          path,
+          projectId: currentProject.id
+        });
+        setActiveFile(newFile);
+      } else if (nameDialog.mode === 'folder') {
+        await createFolder(currentProject.id, path);
+      } else if (nameDialog.mode === 'rename') {
+        await move(nameDialog.node.path, path);
+      }
+      setNameDialog(null);
+    } catch {
+      // The project context has already reported the error
+    }
+  };
+
+  const openUploadPicker = (directory: string) => {
+    uploadDirectory.current = directory;
+    uploadInputRef.current?.click();
+  };
+
+  const upload = async (files: File[], directory: string) => {
+    if (!currentProject || files.length === 0) return;
+    await uploadAssets(currentProject.id, files, directory);
+  };
+
+  const handleUploadPicked = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    upload(files, uploadDirectory.current).catch(() => {});
+  };
+
+  const handleDuplicate = async (file: ProjectFile) => {
     if (!currentProject) return;
-    
-    if (!newFileName) {
-      return; // Validate file name
+
+    const path = duplicateFilePath(file.path, new Set(projectFiles.map(projectFile => projectFile.path)));
+    if (isBinaryAsset(file)) {
+      // Assets are copied by uploading their bytes again under the new name
+      const response = await fetch(rawFileUrl(currentProject.id, file.path), { credentials: 'include' });
+      const bytes = await response.blob();
+      const [copy] = await uploadAssets(currentProject.id, [new File([bytes], baseName(path))], dirName(path));
+      setActiveFile(copy);
+      return;
     }
-    
-    // Default path if none provided
-    const path = newFilePath || `/${newFileName}`;
-    
-    createFile({
-      name: newFileName,
-      content: '',
+
+    const copy = await createFile({
+      name: baseName(path),
+      content: file.content,
       path,
       projectId: currentProject.id
-    }).then((newFile) => {
-      setActiveFile(newFile);
-      setShowNewFileDialog(false);
-      setNewFileName('');
-      setNewFilePath('');
     });
+    setActiveFile(copy);
+  };
+
+  const handleDelete = async (node: FileTreeNode) => {
+    if (!currentProject) return;
+
+    if (node.file) {
+      await deleteFile(node.file.id);
+    } else {
+      if (!window.confirm(`Move "${node.path}" and everything in it to the trash?`)) return;
+      await deletePath(currentProject.id, node.path);
+    }
+
+    if (activeFile && isWithinPath(activeFile.path, node.path)) {
+      setActiveFile(null);
+    }
+  };
+
+  const handleDragStart = (e: React.DragEvent, node: FileTreeNode) => {
+    e.stopPropagation();
+    e.dataTransfer.setData(DRAG_TYPE, node.path);
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  // Accepts tree entries (moved) and files dragged in from the desktop (uploaded)
+  const handleDragOver = (e: React.DragEvent, directory: string) => {
+    const isEntry = e.dataTransfer.types.includes(DRAG_TYPE);
+    if (!isEntry && !e.dataTransfer.types.includes('Files')) return;
+
+    e.preventDefault();
+    e.stopPropagation();
+    e.dataTransfer.dropEffect = isEntry ? 'move' : 'copy';
+    setDropTarget(directory);
+  };
+
+  const handleDrop = (e: React.DragEvent, directory: string) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setDropTarget(null);
+
+    const from = e.dataTransfer.getData(DRAG_TYPE);
+    if (!from && e.dataTransfer.files.length > 0) {
+      upload(Array.from(e.dataTransfer.files), directory).catch(() => {});
+      return;
+    }
+    // Dropping a folder into itself or an entry where it already is does nothing
+    if (!from || dirName(from) === directory || isWithinPath(directory, from)) return;
+
+    move(from, joinFilePath(directory, baseName(from))).catch(() => {});
   };
 
-  // Group files by folder structure
   const getFileIcon = (fileName: string) => {
     const extension = fileName.split('.').pop()?.toLowerCase();
-    
+
+    if (extension === 'woff' || extension === 'woff2' || extension === 'ttf' || extension === 'otf') {
+      return 'ri-font-size text-gray-500';
+    }
+
     if (extension === 'jsx' || extension === 'tsx') return 'ri-reactjs-line text-primary-500';
     if (extension === 'js' || extension === 'ts') return 'ri-file-code-line text-accent3';
     if (extension === 'css' || extension === 'scss') return 'ri-file-list-line text-gray-500';
     if (extension === 'json') return 'ri-settings-line text-gray-500';
     if (extension === 'html') return 'ri-html5-line text-orange-500';
-    
+
     return 'ri-file-text-line text-gray-500';
   };
 
+  const renderNode = (node: FileTreeNode, depth: number): React.ReactNode => {
+    const isFolder = node.type === 'directory';
+    const isOpen = isFolder && !collapsed.has(node.path);
+    // Entries dropped on a file land next to it
+    const directory = isFolder ? node.path : dirName(node.path);
+
+    return (
+      <div key={node.path}>
+        <ContextMenu>
+          <ContextMenuTrigger asChild>
+            <div
+              draggable
+              onDragStart={(e) => handleDragStart(e, node)}
+              onDragOver={(e) => handleDragOver(e, directory)}
+              onDragLeave={() => setDropTarget(null)}
+              onDrop={(e) => handleDrop(e, directory)}
+              className={`flex items-center p-1.5 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md cursor-pointer ${
+                !isFolder && activeFile?.id === node.file?.id ? 'bg-gray-100 dark:bg-gray-700' : ''
+              } ${isFolder && dropTarget === node.path ? 'ring-1 ring-primary-500' : ''}`}
+              style={{ paddingLeft: `${depth * 12 + 6}px` }}
+              onClick={() => (isFolder ? toggleFolder(node.path) : node.file && handleFileClick(node.file))}
+            >
+              {isFolder ? (
+                <>
+                  <i className={`${isOpen ? 'ri-arrow-down-s-line' : 'ri-arrow-right-s-line'} mr-0.5 text-gray-400`}></i>
+                  <i className={`${isOpen ? 'ri-folder-open-line' : 'ri-folder-line'} mr-1.5 text-gray-500`}></i>
+                </>
+              ) : node.file && currentProject && isImageFile(node.file) ? (
+                <img
+                  src={rawFileUrl(currentProject.id, node.path)}
+                  alt=""
+                  loading="lazy"
+                  className="w-4 h-4 object-cover rounded-sm mr-2 ml-4 flex-shrink-0"
+                />
+              ) : (
+                <i className={`${getFileIcon(node.name)} mr-2 ml-4`}></i>
+              )}
+              <span className="text-sm truncate">{node.name}</span>
+              {node.file?.size != null && (
+                <span className="ml-auto pl-2 text-xs text-gray-400 flex-shrink-0">
+                  {formatFileSize(node.file.size)}
+                </span>
+              )}
+            </div>
+          </ContextMenuTrigger>
+          <ContextMenuContent>
+            <ContextMenuItem onSelect={() => openNameDialog({ mode: 'file', directory })}>
+              {t('newFileHere')}
+            </ContextMenuItem>
+            {isFolder && (
+              <ContextMenuItem onSelect={() => openNameDialog({ mode: 'folder', directory })}>
+                {t('newFolder')}
+              </ContextMenuItem>
+            )}
+            <ContextMenuItem onSelect={() => openUploadPicker(directory)}>
+              {t('uploadFilesHere')}
+            </ContextMenuItem>
+            <ContextMenuSeparator />
+            <ContextMenuItem onSelect={() => openNameDialog({ mode: 'rename', node })}>
+              {t('rename')}
+            </ContextMenuItem>
+            {node.file && (
+              <ContextMenuItem onSelect={() => handleDuplicate(node.file!).catch(() => {})}>
+                {t('duplicate')}
+              </ContextMenuItem>
+            )}
+            <ContextMenuItem
+              className="text-red-600 focus:text-red-600"
+              onSelect={() => handleDelete(node).catch(() => {})}
+            >
+              {t('delete')}
+            </ContextMenuItem>
+          </ContextMenuContent>
+        </ContextMenu>
+
+        {isOpen && node.children.map(child => renderNode(child, depth + 1))}
+      </div>
+    );
+  };
+
+  const dialogTitle = nameDialog?.mode === 'rename'
+    ? `${t('rename')} "${nameDialog.node.name}"`
+    : nameDialog?.mode === 'folder'
+      ? t('newFolder')
+      : t('newFile');
+
   return (
     <div className={`p-4 ${className}`}>
       <div className="flex justify-between items-center mb-3">
         <h3 className="font-medium text-sm">{t('files')}</h3>
-        <Button 
-          variant="ghost" 
-          size="sm" 
-          onClick={() => setShowNewFileDialog(true)}
-          className="p-1 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300 text-sm"
-        >
-          <i className="ri-add-line"></i>
-        </Button>
+        <div className="flex items-center">
+          <Button
+            variant="ghost"
+            size="sm"
+            title={t('newFile')}
+            onClick={() => openNameDialog({ mode: 'file', directory: '' })}
+            className="p-1 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300 text-sm"
+          >
+            <i className="ri-file-add-line"></i>
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            title={t('newFolder')}
+            onClick={() => openNameDialog({ mode: 'folder', directory: '' })}
+            className="p-1 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300 text-sm"
+          >
+            <i className="ri-folder-add-line"></i>
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            title={t('uploadFiles')}
+            onClick={() => openUploadPicker('')}
+            className="p-1 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300 text-sm"
+          >
+            <i className="ri-upload-2-line"></i>
+          </Button>
+          <input
+            ref={uploadInputRef}
+            type="file"
+            multiple
+            className="hidden"
+            onChange={handleUploadPicked}
+          />
+        </div>
       </div>
-      
-      {/* File Tree */}
-      <div className="space-y-1">
-        {projectFiles.length === 0 ? (
+
+      {/* File Tree; dropping on the empty area moves entries to the project root */}
+      <div
+        className={`space-y-0.5 min-h-[4rem] rounded-md ${dropTarget === '' ? 'ring-1 ring-primary-500' : ''}`}
+        onDragOver={(e) => handleDragOver(e, '')}
+        onDragLeave={() => setDropTarget(null)}
+        onDrop={(e) => handleDrop(e, '')}
+      >
+        {tree.length === 0 ? (
           <div className="text-sm text-gray-500 dark:text-gray-400 py-2 text-center">
             No files yet. Create a new file to get started.
           </div>
         ) : (
-          <>
-            {/* Group and render files by folder structure */}
-            {(() => {
-              // First, group files by directory
-              const filesByDirectory: Record<string, ProjectFile[]> = {};
-              
-              projectFiles.forEach(file => {
-                const directory = file.path || '/';
-                if (!filesByDirectory[directory]) {
-                  filesByDirectory[directory] = [];
-                }
-                filesByDirectory[directory].push(file);
-              });
-              
-              // Render directories and their files
-              return Object.entries(filesByDirectory).map(([directory, files], index) => (
-                <div key={index} className="mb-2">
-                  {/* Directory header - only show if not root */}
-                  {directory !== '/' && (
-                    <div className="flex items-center py-1 px-1.5 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase mt-2 mb-1">
-                      <i className="ri-folder-line mr-1.5"></i>
-                      {directory.replace(/^\//, '')}
-                    </div>
-                  )}
-                  
-                  {/* Files in this directory */}
-                  <div className="space-y-0.5 pl-1">
-                    {files.map((file) => (
-                      <div 
-                        key={file.id} 
-                        className={`flex items-center p-1.5 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-md cursor-pointer ${
-                          activeFile?.id === file.id ? 'bg-gray-100 dark:bg-gray-700' : ''
-                        }`}
-                        onClick={() => handleFileClick(file)}
-                      >
-                        <i className={`${getFileIcon(file.name)} mr-2`}></i>
-                        <span className="text-sm">{file.name}</span>
-                      </div>
-                    ))}
-                  </div>
-                </div>
-              ));
-            })()}
-          </>
+          tree.map(node => renderNode(node, 0))
         )}
       </div>
-      
-      {/* New File Dialog */}
-      <Dialog open={showNewFileDialog} onOpenChange={setShowNewFileDialog}>
+
+      {/* New file, new folder and rename dialog */}
+      <Dialog open={nameDialog !== null} onOpenChange={(open) => !open && setNameDialog(null)}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Create New File</DialogTitle>
+            <DialogTitle>{dialogTitle}</DialogTitle>
           </DialogHeader>
           <div className="grid gap-4 py-4">
             <div className="grid grid-cols-4 items-center gap-4">
-              <Label htmlFor="fileName" className="text-right">
+              <Label htmlFor="entryName" className="text-right">
                 Name
               </Label>
               <Input
-                id="fileName"
-                value={newFileName}
-                onChange={(e) => setNewFileName(e.target.value)}
-                className="col-span-3"
-                placeholder="e.g., App.jsx"
-              />
-            </div>
-            <div className="grid grid-cols-4 items-center gap-4">
-              <Label htmlFor="filePath" className="text-right">
-                Path
-              </Label>
-              <Input
-                id="filePath"
-                value={newFilePath}
-                onChange={(e) => setNewFilePath(e.target.value)}
+                id="entryName"
+                value={nameInput}
+                onChange={(e) => setNameInput(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleNameSubmit()}
                 className="col-span-3"
-                placeholder="e.g., /src/components/"
+                placeholder={nameDialog?.mode === 'folder' ? 'e.g., components' : 'e.g., App.jsx'}
+                autoFocus
               />
             </div>
+            {nameDialog && nameDialog.mode !== 'rename' && nameDialog.directory && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Inside <span className="font-mono">{nameDialog.directory}</span>
+              </p>
+            )}
           </div>
           <DialogFooter>
-            <Button variant="outline" onClick={() => setShowNewFileDialog(false)}>
+            <Button variant="outline" onClick={() => setNameDialog(null)}>
               {t('cancel')}
             </Button>
-            <Button onClick={handleCreateFile}>
-              {t('create')}
+            <Button onClick={handleNameSubmit}>
+              {nameDialog?.mode === 'rename' ? t('rename') : t('create')}
             </Button>
           </DialogFooter>
         </DialogContent>
@@ -3,6 +3,8 @@ import { Link, useLocation } from 'wouter';
 import { useI18n } from '@/lib/i18n';
 import { useTheme } from '@/components/ui/theme-provider';
 import { LanguageSelector } from '@/components/ui/language-selector';
+import { VerifyEmailBanner } from '@/components/layout/verify-email-banner';
+import { WorkspaceSwitcher } from '@/components/layout/workspace-switcher';
 import { useAuth } from '@/contexts/auth-context';
 import { 
   DropdownMenu,
@@ -71,6 +73,9 @@ const Navbar: React.FC = () => {
             </div>
           </div>
           <div className="hidden sm:ml-6 sm:flex sm:items-center gap-4">
+            {/* Workspace Switcher */}
+            {user && <WorkspaceSwitcher />}
+            
             {/* Language Selector */}
             <LanguageSelector />
             
@@ -186,6 +191,9 @@ const Navbar: React.FC = () => {
         </div>
         {user && (
           <div className="pt-4 pb-3 border-t border-gray-200 dark:border-gray-700">
+            <div className="px-4 pb-3">
+              <WorkspaceSwitcher />
+            </div>
             <div className="flex items-center px-4">
               <div className="flex-shrink-0">
                 <span className="inline-block h-10 w-10 overflow-hidden rounded-full bg-gray-100 dark:bg-gray-700">
@@ -234,6 +242,8 @@ const Navbar: React.FC = () => {
           </div>
         )}
       </div>
+      
+      <VerifyEmailBanner />
     </nav>
   );
 };
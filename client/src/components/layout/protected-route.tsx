@@ -0,0 +1,44 @@
+import React from 'react';
+import { Redirect, Route, useLocation, useSearch } from 'wouter';
+import { Loader2 } from 'lucide-react';
+import { useAuth } from '@/contexts/auth-context';
+
+interface ProtectedRouteProps {
+  path: string;
+  component: React.ComponentType;
+}
+
+/**
+ * A route that needs a signed-in user. Anyone else is sent to the login page,
+ * which brings them back here afterwards.
+ */
+export function ProtectedRoute({ path, component: Component }: ProtectedRouteProps) {
+  const { user, loading } = useAuth();
+  const [location] = useLocation();
+  const search = useSearch();
+  const returnTo = search ? `${location}?${search}` : location;
+
+  return (
+    <Route path={path}>
+      {loading ? (
+        <div className="flex items-center justify-center min-h-screen">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      ) : user ? (
+        <Component />
+      ) : (
+        <Redirect to={`/auth?redirect=${encodeURIComponent(returnTo)}`} />
+      )}
+    </Route>
+  );
+}
+
+// Where to go after logging in: the page that sent the user to log in, as long
+// as it is a path on this site
+export function redirectTarget(search: string): string {
+  const redirect = new URLSearchParams(search).get('redirect');
+  // "//host" and "/\host" would leave the site
+  return redirect && /^\/(?![\/\\])/.test(redirect) && !redirect.startsWith('/auth')
+    ? redirect
+    : '/dashboard';
+}
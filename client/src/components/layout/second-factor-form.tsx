@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { REGEXP_ONLY_DIGITS } from 'input-otp';
+import { useI18n } from '@/lib/i18n';
+import { SecondFactor } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+
+const CODE_LENGTH = 6;
+
+interface SecondFactorFormProps {
+  submitLabel: string;
+  // Reports its own errors; the form is cleared for another try
+  onSubmit: (factor: SecondFactor) => Promise<void>;
+  // Offer a recovery code in place of the app's code
+  allowRecoveryCode?: boolean;
+  // Disables submitting, e.g. until other fields are filled in
+  disabled?: boolean;
+}
+
+/**
+ * Asks for the six-digit code from the user's authenticator app, or one of
+ * their recovery codes instead
+ */
+export function SecondFactorForm({ submitLabel, onSubmit, allowRecoveryCode = true, disabled }: SecondFactorFormProps) {
+  const { t } = useI18n();
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState('');
+  const [recoveryCode, setRecoveryCode] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const complete = useRecoveryCode ? recoveryCode.trim().length > 0 : code.length === CODE_LENGTH;
+
+  const submit = async () => {
+    if (!complete || disabled || isSubmitting) return;
+    setIsSubmitting(true);
+    try {
+      await onSubmit(useRecoveryCode ? { recoveryCode: recoveryCode.trim() } : { code });
+    } catch {
+      setCode('');
+      setRecoveryCode('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    submit();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {useRecoveryCode ? (
+        <Input
+          autoFocus
+          value={recoveryCode}
+          placeholder="xxxxx-xxxxx"
+          autoComplete="off"
+          className="font-mono"
+          onChange={(e) => setRecoveryCode(e.target.value)}
+        />
+      ) : (
+        <div className="flex justify-center">
+          <InputOTP
+            autoFocus
+            maxLength={CODE_LENGTH}
+            pattern={REGEXP_ONLY_DIGITS}
+            value={code}
+            onChange={setCode}
+            disabled={isSubmitting}
+          >
+            <InputOTPGroup>
+              {Array.from({ length: CODE_LENGTH }, (_, index) => (
+                <InputOTPSlot key={index} index={index} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+      )}
+
+      <Button type="submit" className="w-full" disabled={!complete || disabled || isSubmitting}>
+        {isSubmitting ? (
+          <>
+            <i className="ri-loader-4-line animate-spin mr-2"></i>
+            {t('loading')}
+          </>
+        ) : (
+          submitLabel
+        )}
+      </Button>
+
+      {allowRecoveryCode && (
+        <div className="text-center text-sm">
+          <button
+            type="button"
+            className="text-primary-500 hover:underline"
+            onClick={() => setUseRecoveryCode(!useRecoveryCode)}
+          >
+            {useRecoveryCode ? t('useAuthenticatorCode') : t('useRecoveryCode')}
+          </button>
+        </div>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,38 @@
+import React from 'react';
+import { useI18n } from '@/lib/i18n';
+import { SecondFactor } from '@/types';
+import { SecondFactorForm } from '@/components/layout/second-factor-form';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface TwoFactorDialogProps {
+  open: boolean;
+  onVerify: (factor: SecondFactor) => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * Asks for a two-factor code before a sensitive action, such as creating an
+ * access token, on a session that has not passed two-factor authentication
+ */
+export function TwoFactorDialog({ open, onVerify, onCancel }: TwoFactorDialogProps) {
+  const { t } = useI18n();
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{t('twoFactorAuthentication')}</DialogTitle>
+          <DialogDescription>{t('twoFactorStepUpHint')}</DialogDescription>
+        </DialogHeader>
+
+        <SecondFactorForm submitLabel={t('verify')} onSubmit={onVerify} />
+      </DialogContent>
+    </Dialog>
+  );
+}
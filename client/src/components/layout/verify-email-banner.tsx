@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { MailWarning } from 'lucide-react';
+import { useI18n } from '@/lib/i18n';
+import { useAuth } from '@/contexts/auth-context';
+import { Button } from '@/components/ui/button';
+
+/**
+ * Reminds users who have not confirmed their email that some features, AI
+ * generation among them, wait until they do
+ */
+const VerifyEmailBanner: React.FC = () => {
+  const { t } = useI18n();
+  const { user, resendVerification } = useAuth();
+  const [isSending, setIsSending] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  if (!user || user.emailVerifiedAt) return null;
+
+  const handleResend = async () => {
+    setIsSending(true);
+    try {
+      await resendVerification();
+      setSent(true);
+    } catch {
+      // Reported by the auth context
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div className="bg-amber-50 dark:bg-amber-900/30 border-t border-amber-200 dark:border-amber-800 px-4 py-2">
+      <div className="max-w-full mx-auto flex flex-wrap items-center justify-center gap-x-4 gap-y-1 text-sm text-amber-900 dark:text-amber-100">
+        <span className="flex items-center">
+          <MailWarning className="mr-2 h-4 w-4" />
+          {t('verifyEmailBanner')} <span className="font-medium ml-1">{user.email}</span>
+        </span>
+        <Button
+          variant="link"
+          size="sm"
+          className="h-auto p-0 text-amber-900 dark:text-amber-100"
+          disabled={isSending || sent}
+          onClick={handleResend}
+        >
+          {sent ? t('verificationSent') : t('resendVerification')}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export { VerifyEmailBanner };
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { useLocation } from 'wouter';
+import { Check, ChevronsUpDown, Loader2, Plus, Settings, Users } from 'lucide-react';
+import { useI18n } from '@/lib/i18n';
+import { useWorkspace } from '@/contexts/workspace-context';
+import { Workspace } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+// Personal workspaces are named for what they are, in the user's language
+export function useWorkspaceName() {
+  const { t } = useI18n();
+  return (workspace: Workspace) => (workspace.personalUserId !== null ? t('personalWorkspace') : workspace.name);
+}
+
+/**
+ * Picks the workspace the dashboard shows, and creates new ones
+ */
+export function WorkspaceSwitcher() {
+  const { t } = useI18n();
+  const [, setLocation] = useLocation();
+  const { workspaces, currentWorkspace, selectWorkspace, createWorkspace } = useWorkspace();
+  const workspaceName = useWorkspaceName();
+
+  const [showCreate, setShowCreate] = useState(false);
+  const [name, setName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+
+  if (!currentWorkspace) return null;
+
+  const handleSelect = (workspace: Workspace) => {
+    selectWorkspace(workspace.id);
+    setLocation('/dashboard');
+  };
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsCreating(true);
+    try {
+      await createWorkspace(name.trim());
+      setShowCreate(false);
+      setName('');
+      setLocation('/dashboard');
+    } catch {
+      // Reported by the workspace context
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" className="max-w-[12rem] justify-between gap-2">
+            <Users className="h-4 w-4 shrink-0" />
+            <span className="truncate">{workspaceName(currentWorkspace)}</span>
+            <ChevronsUpDown className="h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-56">
+          <DropdownMenuLabel>{t('workspaces')}</DropdownMenuLabel>
+          {workspaces.map((workspace) => (
+            <DropdownMenuItem key={workspace.id} onClick={() => handleSelect(workspace)}>
+              <Check className={`mr-2 h-4 w-4 ${workspace.id === currentWorkspace.id ? 'opacity-100' : 'opacity-0'}`} />
+              <span className="truncate">{workspaceName(workspace)}</span>
+            </DropdownMenuItem>
+          ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => setLocation(`/workspaces/${currentWorkspace.id}`)}>
+            <Settings className="mr-2 h-4 w-4" /> {t('workspaceSettings')}
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => setShowCreate(true)}>
+            <Plus className="mr-2 h-4 w-4" /> {t('newWorkspace')}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={showCreate} onOpenChange={setShowCreate}>
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>{t('newWorkspace')}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleCreate} className="space-y-4">
+            <Input
+              autoFocus
+              value={name}
+              placeholder={t('workspaceName')}
+              maxLength={100}
+              onChange={(e) => setName(e.target.value)}
+            />
+            <DialogFooter>
+              <Button type="submit" disabled={!name.trim() || isCreating}>
+                {isCreating && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} {t('create')}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,272 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Check, Copy, Link2, Loader2, LogOut, Plus, Trash2, UserMinus } from 'lucide-react';
+import { useI18n } from '@/lib/i18n';
+import { useAuth } from '@/contexts/auth-context';
+import { useProject } from '@/contexts/project-context';
+import { useWorkspace } from '@/contexts/workspace-context';
+import { collaboratorRoles, hasRole } from '@shared/workspace-roles';
+import { roleLabels } from '@/components/workspace/members-card';
+import { CollaboratorRole, Project, ProjectCollaborator, ShareLink } from '@/types';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface ShareDialogProps {
+  project: Project;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Choices for how long a new public link works, in days
+const linkExpiries = ['never', '7', '30', '90'] as const;
+
+/**
+ * Shares a project with people outside its workspace and hands out public
+ * read-only links. Only editors in the project's workspace manage either;
+ * collaborators see who else has access and may leave.
+ */
+export function ShareDialog({ project, open, onOpenChange }: ShareDialogProps) {
+  const { t } = useI18n();
+  const { user } = useAuth();
+  const { workspaces } = useWorkspace();
+  const { addCollaborator, changeCollaboratorRole, removeCollaborator, createShareLink, revokeShareLink } = useProject();
+
+  const workspace = workspaces.find((w) => w.id === project.workspaceId);
+  const canManage = hasRole(workspace?.role, 'editor');
+
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<CollaboratorRole>('viewer');
+  const [isAdding, setIsAdding] = useState(false);
+  const [expiry, setExpiry] = useState<typeof linkExpiries[number]>('never');
+  const [isCreating, setIsCreating] = useState(false);
+  // The link just created, shown until the next one; the server keeps only its hash
+  const [createdUrl, setCreatedUrl] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const { data: collaborators, isLoading } = useQuery<ProjectCollaborator[]>({
+    queryKey: [`/api/projects/${project.id}/collaborators`],
+    enabled: open,
+  });
+
+  const { data: links } = useQuery<ShareLink[]>({
+    queryKey: [`/api/projects/${project.id}/share-links`],
+    enabled: open && canManage,
+  });
+
+  const handleAdd = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsAdding(true);
+    try {
+      await addCollaborator(project.id, email.trim(), role);
+      setEmail('');
+    } catch {
+      // Reported by the project context
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleRemove = async (collaborator: ProjectCollaborator) => {
+    const isSelf = collaborator.userId === user?.id;
+    const name = collaborator.displayName || collaborator.username;
+    const question = isSelf
+      ? `Leave "${project.name}"? You will lose access until it is shared with you again.`
+      : `Stop sharing "${project.name}" with ${name}?`;
+    if (!window.confirm(question)) return;
+    await removeCollaborator(project.id, collaborator.userId).then(
+      () => isSelf && onOpenChange(false),
+      () => {}
+    );
+  };
+
+  const handleCreateLink = async () => {
+    setIsCreating(true);
+    try {
+      const link = await createShareLink(project.id, expiry === 'never' ? undefined : Number(expiry));
+      setCreatedUrl(`${window.location.origin}/share/${link.token}`);
+      setCopied(false);
+    } catch {
+      // Reported by the project context
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!createdUrl) return;
+    await navigator.clipboard.writeText(createdUrl);
+    setCopied(true);
+  };
+
+  const handleRevoke = async (link: ShareLink) => {
+    if (!window.confirm('Revoke this link? Anyone using it will lose access.')) return;
+    await revokeShareLink(project.id, link.id).catch(() => {});
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t('shareProject')}</DialogTitle>
+          <DialogDescription>{t('collaboratorsHint')}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <h3 className="text-sm font-medium">{t('collaborators')}</h3>
+
+          {canManage && (
+            <form onSubmit={handleAdd} className="flex gap-2">
+              <Input
+                type="email"
+                value={email}
+                placeholder={t('email')}
+                onChange={(e) => setEmail(e.target.value)}
+              />
+              <Select value={role} onValueChange={(value) => setRole(value as CollaboratorRole)}>
+                <SelectTrigger className="w-32 shrink-0">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {collaboratorRoles.map((value) => (
+                    <SelectItem key={value} value={value}>{t(roleLabels[value])}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button type="submit" size="icon" className="shrink-0" title={t('share')} disabled={!email.trim() || isAdding}>
+                {isAdding ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+              </Button>
+            </form>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : !collaborators || collaborators.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t('noCollaborators')}</p>
+          ) : (
+            <ul className="divide-y divide-border">
+              {collaborators.map((collaborator) => {
+                const isSelf = collaborator.userId === user?.id;
+                return (
+                  <li key={collaborator.userId} className="flex items-center justify-between gap-4 py-3">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2 font-medium">
+                        <span className="truncate">{collaborator.displayName || collaborator.username}</span>
+                        {isSelf && <Badge variant="secondary">{t('you')}</Badge>}
+                      </div>
+                      <div className="truncate text-sm text-muted-foreground">{collaborator.email}</div>
+                    </div>
+
+                    <div className="flex shrink-0 items-center gap-2">
+                      {canManage ? (
+                        <Select
+                          value={collaborator.role}
+                          onValueChange={(value) =>
+                            changeCollaboratorRole(project.id, collaborator.userId, value as CollaboratorRole).catch(() => {})
+                          }
+                        >
+                          <SelectTrigger className="w-28">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {collaboratorRoles.map((value) => (
+                              <SelectItem key={value} value={value}>{t(roleLabels[value])}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <Badge variant="outline">{t(roleLabels[collaborator.role])}</Badge>
+                      )}
+                      {(canManage || isSelf) && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title={isSelf ? t('leaveProject') : t('remove')}
+                          onClick={() => handleRemove(collaborator)}
+                        >
+                          {isSelf ? <LogOut className="h-4 w-4" /> : <UserMinus className="h-4 w-4" />}
+                        </Button>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
+        {canManage && (
+          <div className="space-y-4 border-t border-border pt-4">
+            <div>
+              <h3 className="text-sm font-medium">{t('publicLinks')}</h3>
+              <p className="text-sm text-muted-foreground">{t('publicLinksHint')}</p>
+            </div>
+
+            <div className="flex gap-2">
+              <Select value={expiry} onValueChange={(value) => setExpiry(value as typeof expiry)}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {linkExpiries.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {value === 'never' ? t('expiresNever') : `${t('expires')}: ${value} ${t('days')}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button onClick={handleCreateLink} disabled={isCreating}>
+                {isCreating
+                  ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  : <Link2 className="mr-2 h-4 w-4" />} {t('createLink')}
+              </Button>
+            </div>
+
+            {createdUrl && (
+              <div className="rounded-md border border-primary/40 bg-primary/5 p-4 space-y-2">
+                <p className="text-sm font-medium">{t('copyLinkNow')}</p>
+                <div className="flex gap-2">
+                  <Input readOnly value={createdUrl} className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+                  <Button variant="outline" size="icon" title={t('copy')} onClick={handleCopy}>
+                    {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {links && links.length > 0 && (
+              <ul className="divide-y divide-border">
+                {links.map((link) => (
+                  <li key={link.id} className="flex items-center justify-between gap-4 py-3">
+                    <div className="flex items-center gap-3 min-w-0 text-sm">
+                      <Link2 className="h-4 w-4 shrink-0 text-muted-foreground" />
+                      <div className="min-w-0">
+                        <div>{new Date(link.createdAt).toLocaleString()}</div>
+                        <div className="text-muted-foreground">
+                          {t('expires')}: {link.expiresAt ? new Date(link.expiresAt).toLocaleString() : t('never')}
+                        </div>
+                      </div>
+                    </div>
+                    <Button variant="ghost" size="icon" title={t('revoke')} onClick={() => handleRevoke(link)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useProject } from '@/contexts/project-context';
+import { useEditor } from '@/contexts/editor-context';
+import { ProjectSnapshot } from '@/types';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Loader2 } from 'lucide-react';
+
+interface SnapshotsDialogProps {
+  projectId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Dialog for taking named project snapshots and restoring the project to one
+ */
+export function SnapshotsDialog({ projectId, open, onOpenChange }: SnapshotsDialogProps) {
+  const { createSnapshot, restoreSnapshot } = useProject();
+  const { setActiveFile } = useEditor();
+
+  const [snapshotName, setSnapshotName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [restoringId, setRestoringId] = useState<number | null>(null);
+
+  const { data: snapshots, isLoading, refetch } = useQuery<ProjectSnapshot[]>({
+    queryKey: [`/api/projects/${projectId}/snapshots`],
+    enabled: open,
+  });
+
+  const handleCreate = async () => {
+    if (!snapshotName.trim()) return;
+
+    setIsSaving(true);
+    try {
+      await createSnapshot(projectId, snapshotName.trim());
+      setSnapshotName('');
+      refetch();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRestore = async (snapshot: ProjectSnapshot) => {
+    if (!window.confirm(`Restore "${snapshot.name}"? Files created since then will be removed.`)) {
+      return;
+    }
+
+    setRestoringId(snapshot.id);
+    try {
+      await restoreSnapshot(projectId, snapshot.id);
+      // The open file may no longer exist or may have different content
+      setActiveFile(null);
+      refetch();
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Snapshots</DialogTitle>
+          <DialogDescription>
+            Save a checkpoint of every file in the project, or roll the project back to an earlier one.
+            A snapshot is also taken automatically before each AI generation.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex space-x-2">
+          <Input
+            value={snapshotName}
+            onChange={(e) => setSnapshotName(e.target.value)}
+            placeholder="e.g., Before redesign"
+          />
+          <Button onClick={handleCreate} disabled={isSaving || !snapshotName.trim()}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save
+          </Button>
+        </div>
+
+        <div className="max-h-80 overflow-y-auto">
+          {isLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : !snapshots || snapshots.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No snapshots yet.</p>
+          ) : (
+            <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+              {[...snapshots].reverse().map((snapshot) => (
+                <li key={snapshot.id} className="flex items-center justify-between py-2">
+                  <div>
+                    <div className="flex items-center space-x-2 text-sm font-medium">
+                      <span>{snapshot.name}</span>
+                      {snapshot.automatic && <Badge variant="secondary">Auto</Badge>}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {new Date(snapshot.createdAt).toLocaleString()} · {snapshot.fileCount} files
+                    </div>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={restoringId !== null}
+                    onClick={() => handleRestore(snapshot)}
+                  >
+                    {restoringId === snapshot.id && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Restore
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,168 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Check, Copy, KeyRound, Loader2, Plus, Trash2 } from 'lucide-react';
+import { useI18n } from '@/lib/i18n';
+import { useAuth } from '@/contexts/auth-context';
+import { AccessToken, AccessTokenScope } from '@/types';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+type Access = 'read' | 'read-write';
+
+/**
+ * Personal access tokens: create one for a script or CI job, see when each was
+ * last used, and revoke them
+ */
+export function AccessTokensCard() {
+  const { t } = useI18n();
+  const { createAccessToken, revokeAccessToken } = useAuth();
+
+  const [name, setName] = useState('');
+  const [access, setAccess] = useState<Access>('read');
+  const [allowAI, setAllowAI] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  // The token just created, shown until the next one; the server keeps only its hash
+  const [createdToken, setCreatedToken] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const { data: tokens, isLoading } = useQuery<AccessToken[]>({
+    queryKey: ['/api/auth/tokens'],
+  });
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const scopes: AccessTokenScope[] = access === 'read-write' ? ['read', 'write'] : ['read'];
+    if (allowAI) scopes.push('ai');
+
+    setIsCreating(true);
+    try {
+      const created = await createAccessToken(name.trim(), scopes);
+      setCreatedToken(created.token);
+      setCopied(false);
+      setName('');
+    } catch {
+      // Reported by the auth context
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!createdToken) return;
+    await navigator.clipboard.writeText(createdToken);
+    setCopied(true);
+  };
+
+  const handleRevoke = async (token: AccessToken) => {
+    if (!window.confirm(`Revoke "${token.name}"? Scripts using it will stop working.`)) return;
+    await revokeAccessToken(token.id).catch(() => {});
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('accessTokens')}</CardTitle>
+        <CardDescription>{t('accessTokensHint')}</CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        <form onSubmit={handleCreate} className="flex flex-wrap items-end gap-4">
+          <div className="flex-1 min-w-[12rem] space-y-2">
+            <Label htmlFor="token-name">{t('tokenName')}</Label>
+            <Input
+              id="token-name"
+              value={name}
+              maxLength={100}
+              placeholder="CI deploy"
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>{t('access')}</Label>
+            <Select value={access} onValueChange={(value) => setAccess(value as Access)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="read">{t('readOnly')}</SelectItem>
+                <SelectItem value="read-write">{t('readWrite')}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center gap-2 h-10">
+            <Checkbox
+              id="token-ai"
+              checked={allowAI}
+              onCheckedChange={(checked) => setAllowAI(checked === true)}
+            />
+            <Label htmlFor="token-ai">{t('aiGeneration')}</Label>
+          </div>
+
+          <Button type="submit" disabled={!name.trim() || isCreating}>
+            {isCreating
+              ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              : <Plus className="mr-2 h-4 w-4" />} {t('createToken')}
+          </Button>
+        </form>
+
+        {createdToken && (
+          <div className="rounded-md border border-primary/40 bg-primary/5 p-4 space-y-2">
+            <p className="text-sm font-medium">{t('copyTokenNow')}</p>
+            <div className="flex gap-2">
+              <Input readOnly value={createdToken} className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+              <Button variant="outline" size="icon" title={t('copy')} onClick={handleCopy}>
+                {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : !tokens || tokens.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t('noAccessTokens')}</p>
+        ) : (
+          <ul className="divide-y divide-border">
+            {tokens.map((token) => (
+              <li key={token.id} className="flex items-center justify-between gap-4 py-4">
+                <div className="flex items-center gap-3 min-w-0">
+                  <KeyRound className="h-6 w-6 shrink-0 text-muted-foreground" />
+                  <div className="min-w-0">
+                    <div className="flex flex-wrap items-center gap-2 font-medium">
+                      <span className="truncate">{token.name}</span>
+                      <code className="text-xs text-muted-foreground">{token.prefix}…</code>
+                      {token.scopes.map((scope) => (
+                        <Badge key={scope} variant="secondary">{scope}</Badge>
+                      ))}
+                    </div>
+                    <div className="text-sm text-muted-foreground">
+                      {t('lastUsed')}: {token.lastUsedAt ? new Date(token.lastUsedAt).toLocaleString() : t('never')}
+                    </div>
+                  </div>
+                </div>
+
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  title={t('revoke')}
+                  onClick={() => handleRevoke(token)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
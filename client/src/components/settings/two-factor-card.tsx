@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { Check, Copy, Loader2, ShieldCheck } from 'lucide-react';
+import { useI18n } from '@/lib/i18n';
+import { useAuth } from '@/contexts/auth-context';
+import { SecondFactor, TwoFactorSetup } from '@/types';
+import { SecondFactorForm } from '@/components/layout/second-factor-form';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+/**
+ * Two-factor authentication: set it up with an authenticator app, get new
+ * recovery codes, or turn it off again
+ */
+export function TwoFactorCard() {
+  const { t } = useI18n();
+  const { user, setupTwoFactor, enableTwoFactor, disableTwoFactor, regenerateRecoveryCodes } = useAuth();
+
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  // Codes just created, shown until dismissed; the server keeps only their hashes
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [isDisabling, setIsDisabling] = useState(false);
+  const [password, setPassword] = useState('');
+
+  const enabled = !!user?.totpEnabledAt;
+  const needsPassword = user?.authProvider !== 'firebase';
+
+  const showRecoveryCodes = (codes: string[]) => {
+    setRecoveryCodes(codes);
+    setCopied(false);
+  };
+
+  const handleStart = async () => {
+    setIsStarting(true);
+    try {
+      setSetup(await setupTwoFactor());
+    } catch {
+      // Reported by the auth context
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const handleEnable = async (factor: SecondFactor) => {
+    if (!('code' in factor)) return;
+    showRecoveryCodes(await enableTwoFactor(factor.code));
+    setSetup(null);
+  };
+
+  const handleRegenerate = async () => {
+    if (!window.confirm('Create new recovery codes? The ones you have now will stop working.')) return;
+    await regenerateRecoveryCodes().then(showRecoveryCodes, () => {});
+  };
+
+  const handleDisable = async (factor: SecondFactor) => {
+    await disableTwoFactor(factor, needsPassword ? password : undefined);
+    setIsDisabling(false);
+    setPassword('');
+    setRecoveryCodes(null);
+  };
+
+  const handleCopy = async () => {
+    if (!recoveryCodes) return;
+    await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+    setCopied(true);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('twoFactorAuthentication')}</CardTitle>
+        <CardDescription>{t('twoFactorHint')}</CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        {recoveryCodes && (
+          <div className="rounded-md border border-primary/40 bg-primary/5 p-4 space-y-3">
+            <p className="text-sm font-medium">{t('saveRecoveryCodes')}</p>
+            <ul className="grid grid-cols-2 gap-1 font-mono text-sm">
+              {recoveryCodes.map((code) => (
+                <li key={code}>{code}</li>
+              ))}
+            </ul>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={handleCopy}>
+                {copied ? <Check className="mr-2 h-4 w-4" /> : <Copy className="mr-2 h-4 w-4" />} {t('copy')}
+              </Button>
+              <Button size="sm" onClick={() => setRecoveryCodes(null)}>
+                {t('done')}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {enabled ? (
+          <>
+            <div className="flex items-center gap-3">
+              <ShieldCheck className="h-6 w-6 shrink-0 text-green-600" />
+              <div>
+                <div className="font-medium">
+                  {t('twoFactorEnabled')}: {new Date(user!.totpEnabledAt!).toLocaleDateString()}
+                </div>
+                <div className="text-sm text-muted-foreground">
+                  {t('recoveryCodesLeft')}: {user?.recoveryCodesLeft ?? 0}
+                </div>
+              </div>
+            </div>
+
+            {isDisabling ? (
+              <div className="max-w-sm space-y-4">
+                {needsPassword && (
+                  <div className="space-y-2">
+                    <Label htmlFor="disable-2fa-password">{t('password')}</Label>
+                    <Input
+                      id="disable-2fa-password"
+                      type="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                    />
+                  </div>
+                )}
+                <SecondFactorForm
+                  submitLabel={t('disableTwoFactor')}
+                  onSubmit={handleDisable}
+                  disabled={needsPassword && !password}
+                />
+                <Button variant="ghost" className="w-full" onClick={() => setIsDisabling(false)}>
+                  {t('cancel')}
+                </Button>
+              </div>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" onClick={handleRegenerate}>
+                  {t('newRecoveryCodes')}
+                </Button>
+                <Button variant="outline" onClick={() => setIsDisabling(true)}>
+                  {t('disableTwoFactor')}
+                </Button>
+              </div>
+            )}
+          </>
+        ) : setup ? (
+          <div className="space-y-4">
+            <p className="text-sm">{t('scanQrCode')}</p>
+            <img src={setup.qrCode} alt={setup.uri} className="h-48 w-48 rounded-md border" />
+            <div className="space-y-1">
+              <p className="text-sm text-muted-foreground">{t('enterSecretManually')}</p>
+              <code className="block break-all text-sm">{setup.secret}</code>
+            </div>
+            <div className="max-w-sm space-y-2">
+              <p className="text-sm">{t('enterCodeToConfirm')}</p>
+              <SecondFactorForm submitLabel={t('enableTwoFactor')} onSubmit={handleEnable} allowRecoveryCode={false} />
+              <Button variant="ghost" className="w-full" onClick={() => setSetup(null)}>
+                {t('cancel')}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button onClick={handleStart} disabled={isStarting}>
+            {isStarting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} {t('enableTwoFactor')}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -7,6 +7,8 @@ interface CodeEditorProps {
   language?: string;
   readOnly?: boolean;
   className?: string;
+  // Text to select and scroll to, e.g. a search match (1-based line and column)
+  selection?: { line: number; column: number; length: number } | null;
 }
 
 const CodeEditor: React.FC<CodeEditorProps> = ({
@@ -15,6 +17,7 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
   language = 'javascript',
   readOnly = false,
   className = '',
+  selection = null,
 }) => {
   const editorRef = useRef<HTMLDivElement>(null);
   const { theme } = useTheme();
@@ -49,6 +52,46 @@ const CodeEditor: React.FC<CodeEditorProps> = ({
     }
   }, [value]);
 
+  // Select the requested range once the content it points into is in place
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editor || !selection) return;
+
+    const lines = (editor.textContent || '').split('\n');
+    if (selection.line > lines.length) return;
+    const start = lines
+      .slice(0, selection.line - 1)
+      .reduce((offset, line) => offset + line.length + 1, selection.column - 1);
+
+    const range = document.createRange();
+    let remaining = start;
+    let end = start + selection.length;
+    const walker = document.createTreeWalker(editor, NodeFilter.SHOW_TEXT);
+    let started = false;
+    for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+      const length = node.textContent?.length ?? 0;
+      if (!started && remaining <= length) {
+        range.setStart(node, remaining);
+        started = true;
+      }
+      if (started && end <= length) {
+        range.setEnd(node, end);
+        break;
+      }
+      remaining -= length;
+      end -= length;
+    }
+    if (!started) return;
+
+    editor.focus();
+    const windowSelection = window.getSelection();
+    windowSelection?.removeAllRanges();
+    windowSelection?.addRange(range);
+
+    const box = editor.getBoundingClientRect();
+    editor.scrollTop += range.getBoundingClientRect().top - box.top - box.height / 2;
+  }, [selection]);
+
   return (
     <div className={`flex h-full ${className}`}>
       {/* Line Numbers */}
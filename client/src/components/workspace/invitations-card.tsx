@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Loader2, Mail, Trash2 } from 'lucide-react';
+import { useI18n } from '@/lib/i18n';
+import { useWorkspace } from '@/contexts/workspace-context';
+import { workspaceRoles } from '@shared/workspace-roles';
+import { Workspace, WorkspaceInvitation, WorkspaceRole } from '@/types';
+import { roleLabels } from '@/components/workspace/members-card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+/**
+ * Invite people to a workspace by email, and see or revoke the invitations
+ * not yet accepted. For admins and owners.
+ */
+export function InvitationsCard({ workspace }: { workspace: Workspace }) {
+  const { t } = useI18n();
+  const { inviteMember, revokeInvitation } = useWorkspace();
+
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<WorkspaceRole>('editor');
+  const [isSending, setIsSending] = useState(false);
+
+  const { data: invitations } = useQuery<WorkspaceInvitation[]>({
+    queryKey: [`/api/workspaces/${workspace.id}/invitations`],
+  });
+
+  // Only owners invite owners
+  const assignableRoles = workspaceRoles.filter((r) => workspace.role === 'owner' || r !== 'owner');
+
+  const handleInvite = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSending(true);
+    try {
+      await inviteMember(workspace.id, email.trim(), role);
+      setEmail('');
+    } catch {
+      // Reported by the workspace context
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleRevoke = async (invitation: WorkspaceInvitation) => {
+    if (!window.confirm(`Revoke the invitation to ${invitation.email}? Its link will stop working.`)) return;
+    await revokeInvitation(workspace.id, invitation.id).catch(() => {});
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('inviteMembers')}</CardTitle>
+        <CardDescription>{t('inviteMembersHint')}</CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        <form onSubmit={handleInvite} className="flex flex-wrap items-end gap-4">
+          <div className="flex-1 min-w-[12rem] space-y-2">
+            <Label htmlFor="invite-email">{t('email')}</Label>
+            <Input
+              id="invite-email"
+              type="email"
+              value={email}
+              placeholder="name@example.com"
+              onChange={(e) => setEmail(e.target.value)}
+            />
+          </div>
+          <Select value={role} onValueChange={(value) => setRole(value as WorkspaceRole)}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {assignableRoles.map((r) => (
+                <SelectItem key={r} value={r}>{t(roleLabels[r])}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="submit" disabled={!email.trim() || isSending}>
+            {isSending
+              ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              : <Mail className="mr-2 h-4 w-4" />} {t('sendInvitation')}
+          </Button>
+        </form>
+
+        {invitations && invitations.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="text-sm font-medium">{t('pendingInvitations')}</h3>
+            <ul className="divide-y divide-border">
+              {invitations.map((invitation) => (
+                <li key={invitation.id} className="flex items-center justify-between gap-4 py-3">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="truncate font-medium">{invitation.email}</span>
+                      <Badge variant="outline">{t(roleLabels[invitation.role])}</Badge>
+                    </div>
+                    <div className="text-sm text-muted-foreground">
+                      {t('expires')}: {new Date(invitation.expiresAt).toLocaleDateString()}
+                    </div>
+                  </div>
+                  <Button variant="ghost" size="icon" title={t('revoke')} onClick={() => handleRevoke(invitation)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,116 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Loader2, UserMinus } from 'lucide-react';
+import { useI18n } from '@/lib/i18n';
+import { useAuth } from '@/contexts/auth-context';
+import { useWorkspace } from '@/contexts/workspace-context';
+import { hasRole, workspaceRoles } from '@shared/workspace-roles';
+import { Workspace, WorkspaceMember, WorkspaceRole } from '@/types';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+// Translation keys of the role names
+export const roleLabels: Record<WorkspaceRole, string> = {
+  owner: 'roleOwner',
+  admin: 'roleAdmin',
+  editor: 'roleEditor',
+  viewer: 'roleViewer',
+};
+
+/**
+ * The members of a workspace; admins change their roles or remove them, and
+ * only owners may touch other owners
+ */
+export function MembersCard({ workspace }: { workspace: Workspace }) {
+  const { t } = useI18n();
+  const { user } = useAuth();
+  const { changeMemberRole, removeMember } = useWorkspace();
+
+  const { data: members, isLoading } = useQuery<WorkspaceMember[]>({
+    queryKey: [`/api/workspaces/${workspace.id}/members`],
+  });
+
+  const isOwner = workspace.role === 'owner';
+  const canManage = (member: WorkspaceMember) =>
+    hasRole(workspace.role, 'admin') && (isOwner || member.role !== 'owner');
+  // Only owners hand out the owner role
+  const assignableRoles = workspaceRoles.filter((role) => isOwner || role !== 'owner');
+
+  const handleRemove = async (member: WorkspaceMember) => {
+    const name = member.displayName || member.username;
+    if (!window.confirm(`Remove ${name} from "${workspace.name}"? They will lose access to its projects.`)) return;
+    await removeMember(workspace.id, member.userId).catch(() => {});
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('members')}</CardTitle>
+        <CardDescription>{t('membersHint')}</CardDescription>
+      </CardHeader>
+
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <ul className="divide-y divide-border">
+            {members?.map((member) => {
+              const isSelf = member.userId === user?.id;
+              return (
+                <li key={member.userId} className="flex items-center justify-between gap-4 py-4">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <span className="inline-block h-8 w-8 shrink-0 overflow-hidden rounded-full bg-gray-100 dark:bg-gray-700">
+                      {member.photoURL ? (
+                        <img src={member.photoURL} alt="" className="h-full w-full object-cover" />
+                      ) : (
+                        <div className="h-full w-full flex items-center justify-center text-gray-500 dark:text-gray-400">
+                          <i className="ri-user-line"></i>
+                        </div>
+                      )}
+                    </span>
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2 font-medium">
+                        <span className="truncate">{member.displayName || member.username}</span>
+                        {isSelf && <Badge variant="secondary">{t('you')}</Badge>}
+                      </div>
+                      <div className="truncate text-sm text-muted-foreground">{member.email}</div>
+                    </div>
+                  </div>
+
+                  <div className="flex shrink-0 items-center gap-2">
+                    {canManage(member) ? (
+                      <Select
+                        value={member.role}
+                        onValueChange={(role) => changeMemberRole(workspace.id, member.userId, role as WorkspaceRole).catch(() => {})}
+                      >
+                        <SelectTrigger className="w-32">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {assignableRoles.map((role) => (
+                            <SelectItem key={role} value={role}>{t(roleLabels[role])}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    ) : (
+                      <Badge variant="outline">{t(roleLabels[member.role])}</Badge>
+                    )}
+                    {canManage(member) && !isSelf && (
+                      <Button variant="ghost" size="icon" title={t('remove')} onClick={() => handleRemove(member)}>
+                        <UserMinus className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,301 +1,483 @@
-import React, { createContext, useContext, useEffect, useState } from 'react';
-import { 
-  auth, 
-  getCurrentUser, 
-  loginWithEmail as firebaseLoginWithEmail,
-  registerWithEmail as firebaseRegisterWithEmail,
+import React, { createContext, useContext, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+  getCurrentUser,
   loginWithGoogle as firebaseLoginWithGoogle,
-  logoutUser as firebaseLogout
+  logoutUser as firebaseLogout,
+  reauthenticateWithGoogle
 } from '@/lib/firebase';
-import { apiRequest } from '@/lib/queryClient';
+import { ApiError, apiErrorMessage, apiRequest, queryClient } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
+import { TwoFactorDialog } from '@/components/layout/two-factor-dialog';
+import {
+  AccessTokenScope,
+  CreatedAccessToken,
+  SecondFactor,
+  SignInResult,
+  TwoFactorSetup,
+  User
+} from '@/types';
 
 interface AuthContextType {
-  user: any | null;
+  user: User | null;
   loading: boolean;
   error: string | null;
-  login: (email: string, password: string) => Promise<void>;
+  login: (email: string, password: string) => Promise<SignInResult>;
+  completeTwoFactorLogin: (factor: SecondFactor) => Promise<void>;
   register: (username: string, email: string, password: string) => Promise<void>;
-  loginWithGoogle: () => Promise<void>;
+  loginWithGoogle: () => Promise<SignInResult>;
   logout: () => Promise<void>;
+  requestPasswordReset: (email: string) => Promise<void>;
+  resetPassword: (token: string, password: string) => Promise<void>;
+  verifyEmail: (token: string) => Promise<void>;
+  resendVerification: () => Promise<void>;
+  revokeSession: (sessionId: number, current: boolean) => Promise<void>;
+  createAccessToken: (name: string, scopes: AccessTokenScope[]) => Promise<CreatedAccessToken>;
+  revokeAccessToken: (tokenId: number) => Promise<void>;
+  setupTwoFactor: () => Promise<TwoFactorSetup>;
+  enableTwoFactor: (code: string) => Promise<string[]>;
+  disableTwoFactor: (factor: SecondFactor, password?: string) => Promise<void>;
+  regenerateRecoveryCodes: () => Promise<string[]>;
+  withTwoFactor: <T>(action: () => Promise<T>) => Promise<T>;
 }
 
 const AuthContext = createContext<AuthContextType>({
   user: null,
   loading: true,
   error: null,
-  login: async () => {},
+  login: async () => ({ twoFactorRequired: false }),
+  completeTwoFactorLogin: async () => {},
   register: async () => {},
-  loginWithGoogle: async () => {},
+  loginWithGoogle: async () => ({ twoFactorRequired: false }),
   logout: async () => {},
+  requestPasswordReset: async () => {},
+  resetPassword: async () => {},
+  verifyEmail: async () => {},
+  resendVerification: async () => {},
+  revokeSession: async () => {},
+  createAccessToken: async () => ({ id: 0 } as CreatedAccessToken),
+  revokeAccessToken: async () => {},
+  setupTwoFactor: async () => ({} as TwoFactorSetup),
+  enableTwoFactor: async () => [],
+  disableTwoFactor: async () => {},
+  regenerateRecoveryCodes: async () => [],
+  withTwoFactor: (action) => action(),
 });
 
 export const useAuth = () => useContext(AuthContext);
 
+const ME_QUERY_KEY = ['/api/auth/me'];
+
+// Whether the server refused a request until the user enters a two-factor
+// code: a sign-in waiting for its second step, or a sensitive action
+function isTwoFactorRequired(err: unknown): boolean {
+  if (!(err instanceof ApiError)) return false;
+  try {
+    return JSON.parse(err.body).twoFactorRequired === true;
+  } catch {
+    return false;
+  }
+}
+
+// The signed-in user according to the server session, or null. A Firebase
+// sign-in that outlived the server session is exchanged for a new session.
+async function fetchCurrentUser(): Promise<User | null> {
+  const fetchMe = async (): Promise<User | null> => {
+    try {
+      const response = await apiRequest('GET', '/api/auth/me');
+      return await response.json();
+    } catch (err) {
+      if (err instanceof ApiError && err.status === 401) return null;
+      throw err;
+    }
+  };
+
+  const user = await fetchMe();
+  if (user) return user;
+
+  // getCurrentUser signs a remembered Firebase user in on the server
+  const firebaseUser = await getCurrentUser().catch(() => null);
+  return firebaseUser ? fetchMe() : null;
+}
+
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [user, setUser] = useState<any | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const { toast } = useToast();
+  // A sensitive action waiting for the user to pass two-factor authentication
+  const [stepUp, setStepUp] = useState<{ resolve: () => void; reject: (err: Error) => void } | null>(null);
 
-  useEffect(() => {
-    // For development/testing - provide a mock user to bypass authentication
-    const setupMockUser = () => {
-      const mockUser = {
-        id: 1,
-        username: 'testuser',
-        email: 'test@example.com',
-        displayName: 'Test User',
-        createdAt: new Date(),
-      };
-      
-      console.log('Using mock user for development:', mockUser);
-      setUser(mockUser);
-      setLoading(false);
-    };
-    
-    // Skip actual authentication and use mock user
-    setupMockUser();
-    
-    // Original authentication code (commented out for now)
-    /*
-    const checkAuth = async () => {
-      try {
-        setLoading(true);
-        const firebaseUser = await getCurrentUser();
-        
-        if (firebaseUser) {
-          try {
-            // Get user data from backend
-            const response = await apiRequest('GET', '/api/auth/me');
-            if (response.ok) {
-              const userData = await response.json();
-              setUser(userData);
-            } else {
-              // If the server doesn't recognize us, try to authenticate with firebase
-              const idToken = await firebaseUser.getIdToken();
-              const fbResponse = await fetch('/api/auth/firebase-login', {
-                method: 'POST',
-                headers: {
-                  'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({ idToken }),
-              });
-              
-              if (fbResponse.ok) {
-                const userData = await fbResponse.json();
-                setUser(userData);
-              } else {
-                setUser(null);
-              }
-            }
-          } catch (err) {
-            console.error('Failed to get user data from server', err);
-            setUser(null);
-          }
-        } else {
-          setUser(null);
-        }
-      } catch (err) {
-        setError('Authentication check failed');
-        console.error('Auth check error:', err);
-      } finally {
-        setLoading(false);
-      }
-    };
-    
-    checkAuth();
-    */
-  }, []);
+  const { data: user, isLoading: loading, error } = useQuery<User | null>({
+    queryKey: ME_QUERY_KEY,
+    queryFn: fetchCurrentUser,
+  });
+
+  // Start from a clean cache so nothing of the previous account lingers
+  const setSignedInUser = (signedIn: User | null) => {
+    queryClient.clear();
+    queryClient.setQueryData(ME_QUERY_KEY, signedIn);
+  };
 
-  const login = async (email: string, password: string) => {
+  // Users with two-factor authentication are signed in by completeTwoFactorLogin
+  const login = async (email: string, password: string): Promise<SignInResult> => {
     try {
-      setLoading(true);
-      setError(null);
-      
-      // For development/testing - skip actual authentication
-      console.log('Dev mode: Bypassing actual login with Firebase');
-      
-      // Create mock user with provided email
-      const mockUser = {
-        id: 1,
-        username: email.split('@')[0],
-        email: email,
-        displayName: email.split('@')[0],
-        createdAt: new Date(),
-      };
-      
-      setUser(mockUser);
-      
+      const response = await apiRequest('POST', '/api/auth/login', { email, password });
+      const result = await response.json();
+      if (result.twoFactorRequired) return { twoFactorRequired: true };
+      setSignedInUser(result);
+
       toast({
         title: "Login successful",
-        description: "Welcome back! (Development Mode)",
+        description: "Welcome back!",
+      });
+      return { twoFactorRequired: false };
+    } catch (err: any) {
+      toast({
+        title: "Login failed",
+        description: apiErrorMessage(err) || "Check your credentials and try again",
+        variant: "destructive",
+      });
+      throw err;
+    }
+  };
+
+  const completeTwoFactorLogin = async (factor: SecondFactor) => {
+    try {
+      const response = await apiRequest('POST', '/api/auth/login/2fa', factor);
+      setSignedInUser(await response.json());
+
+      toast({
+        title: "Login successful",
+        description: "Welcome back!",
       });
-      
-      /*
-      // Use Firebase for authentication
-      await firebaseLoginWithEmail(email, password);
-      
-      // Get user data from backend
-      const response = await apiRequest('GET', '/api/auth/me');
-      if (response.ok) {
-        const userData = await response.json();
-        setUser(userData);
-      }
-      */
     } catch (err: any) {
-      setError(err.message || 'Login failed');
       toast({
         title: "Login failed",
-        description: err.message || "Check your credentials and try again",
+        description: apiErrorMessage(err) || "Check the code and try again",
         variant: "destructive",
       });
       throw err;
-    } finally {
-      setLoading(false);
     }
   };
 
   const register = async (username: string, email: string, password: string) => {
     try {
-      setLoading(true);
-      setError(null);
-      
-      // For development/testing - skip actual registration
-      console.log('Dev mode: Bypassing actual registration with Firebase');
-      
-      // Create mock user with provided info
-      const mockUser = {
-        id: 1,
-        username: username,
-        email: email,
-        displayName: username,
-        createdAt: new Date(),
-      };
-      
-      setUser(mockUser);
-      
+      const response = await apiRequest('POST', '/api/auth/register', { username, email, password });
+      setSignedInUser(await response.json());
+
       toast({
         title: "Registration successful",
-        description: "Your account has been created (Development Mode)",
+        description: "Your account has been created",
       });
-      
-      /*
-      // Use Firebase for registration
-      await firebaseRegisterWithEmail(email, password);
-      
-      // Additional registration with our backend is handled in firebaseRegisterWithEmail
-      
-      // Get user data from backend
-      const response = await apiRequest('GET', '/api/auth/me');
-      if (response.ok) {
-        const userData = await response.json();
-        setUser(userData);
-      }
-      */
     } catch (err: any) {
-      setError(err.message || 'Registration failed');
       toast({
         title: "Registration failed",
-        description: err.message || "Please try again with different credentials",
+        description: apiErrorMessage(err) || "Please try again with different credentials",
         variant: "destructive",
       });
       throw err;
-    } finally {
-      setLoading(false);
     }
   };
 
-  const loginWithGoogle = async () => {
+  const loginWithGoogle = async (): Promise<SignInResult> => {
     try {
-      setLoading(true);
-      setError(null);
-      
-      // For development/testing - skip actual Google authentication
-      console.log('Dev mode: Bypassing actual Google login with Firebase');
-      
-      // Create mock user with Google-like info
-      const mockUser = {
-        id: 1,
-        username: 'googleuser',
-        email: 'google-user@example.com',
-        displayName: 'Google User',
-        photoURL: 'https://lh3.googleusercontent.com/a/default-user',
-        createdAt: new Date(),
-      };
-      
-      setUser(mockUser);
-      
+      // Signs in with Firebase, then exchanges the ID token for a server session
+      await firebaseLoginWithGoogle();
+
+      const response = await apiRequest('GET', '/api/auth/me').catch((err) => {
+        if (isTwoFactorRequired(err)) return null;
+        throw err;
+      });
+      if (!response) return { twoFactorRequired: true };
+      setSignedInUser(await response.json());
+
       toast({
         title: "Login successful",
-        description: "You've been signed in with Google (Development Mode)",
+        description: "You've been signed in with Google",
       });
-      
-      /*
-      // Use Firebase for Google authentication
-      await firebaseLoginWithGoogle();
-      
-      // Get user data from backend
-      const response = await apiRequest('GET', '/api/auth/me');
-      if (response.ok) {
-        const userData = await response.json();
-        setUser(userData);
-      }
-      */
+      return { twoFactorRequired: false };
     } catch (err: any) {
-      setError(err.message || 'Google login failed');
       toast({
         title: "Google login failed",
-        description: err.message || "Please try again",
+        description: apiErrorMessage(err) || "Please try again",
         variant: "destructive",
       });
       throw err;
-    } finally {
-      setLoading(false);
     }
   };
 
   const logout = async () => {
     try {
-      setLoading(true);
-      
-      // For development/testing - skip actual logout
-      console.log('Dev mode: Bypassing actual logout from Firebase');
-      
-      setUser(null);
-      
+      // Ends both the Firebase sign-in and the server session
+      await firebaseLogout();
+      setSignedInUser(null);
+
       toast({
         title: "Logged out",
-        description: "You've been successfully logged out (Development Mode)",
+        description: "You've been successfully logged out",
       });
-      
-      /*
-      // Logout from Firebase (which also logs out from our backend)
-      await firebaseLogout();
-      
-      setUser(null);
-      */
     } catch (err: any) {
-      setError(err.message || 'Logout failed');
       toast({
         title: "Logout failed",
-        description: err.message || "Please try again",
+        description: apiErrorMessage(err) || "Please try again",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const requestPasswordReset = async (email: string) => {
+    try {
+      await apiRequest('POST', '/api/auth/forgot-password', { email });
+    } catch (err: any) {
+      toast({
+        title: "Failed to send reset link",
+        description: apiErrorMessage(err) || "Please try again",
+        variant: "destructive",
+      });
+      throw err;
+    }
+  };
+
+  const resetPassword = async (token: string, password: string) => {
+    try {
+      // Every session of the account ends, this browser's included
+      await apiRequest('POST', '/api/auth/reset-password', { token, password });
+      setSignedInUser(null);
+
+      toast({
+        title: "Password reset",
+        description: "Log in with your new password",
+      });
+    } catch (err: any) {
+      toast({
+        title: "Password reset failed",
+        description: apiErrorMessage(err) || "Please try again",
+        variant: "destructive",
+      });
+      throw err;
+    }
+  };
+
+  // Confirms the email address of whichever account the link was sent to
+  const verifyEmail = async (token: string) => {
+    await apiRequest('POST', '/api/auth/verify-email', { token });
+    queryClient.invalidateQueries({ queryKey: ME_QUERY_KEY });
+  };
+
+  const resendVerification = async () => {
+    try {
+      await apiRequest('POST', '/api/auth/resend-verification');
+
+      toast({
+        title: "Verification email sent",
+        description: "Check your inbox for the confirmation link",
+      });
+    } catch (err: any) {
+      toast({
+        title: "Failed to send verification email",
+        description: apiErrorMessage(err) || "Please try again",
+        variant: "destructive",
+      });
+      throw err;
+    }
+  };
+
+  // Sign a device out; revoking the current session signs this browser out too
+  const revokeSession = async (sessionId: number, current: boolean) => {
+    try {
+      await apiRequest('DELETE', `/api/auth/sessions/${sessionId}`);
+      if (current) {
+        await firebaseLogout().catch(() => {});
+        setSignedInUser(null);
+      } else {
+        queryClient.invalidateQueries({ queryKey: ['/api/auth/sessions'] });
+      }
+
+      toast({
+        title: "Session revoked",
+        description: current ? "You've been signed out" : "The device has been signed out",
+      });
+    } catch (err: any) {
+      toast({
+        title: "Failed to revoke session",
+        description: apiErrorMessage(err) || "Please try again",
+        variant: "destructive",
+      });
+      throw err;
+    }
+  };
+
+  // Run a request that may need this session to pass two-factor authentication
+  // first: when the server asks for it, the user enters a code and the request
+  // is sent again
+  const withTwoFactor = async <T,>(action: () => Promise<T>): Promise<T> => {
+    try {
+      return await action();
+    } catch (err) {
+      if (!isTwoFactorRequired(err)) throw err;
+      await new Promise<void>((resolve, reject) => setStepUp({ resolve, reject }));
+      return action();
+    }
+  };
+
+  const handleStepUpVerify = async (factor: SecondFactor) => {
+    try {
+      await apiRequest('POST', '/api/auth/2fa/verify', factor);
+      stepUp?.resolve();
+      setStepUp(null);
+    } catch (err: any) {
+      toast({
+        title: "Verification failed",
+        description: apiErrorMessage(err) || "Check the code and try again",
+        variant: "destructive",
+      });
+      throw err;
+    }
+  };
+
+  const handleStepUpCancel = () => {
+    stepUp?.reject(new Error("Two-factor authentication was cancelled"));
+    setStepUp(null);
+  };
+
+  const createAccessToken = async (name: string, scopes: AccessTokenScope[]) => {
+    try {
+      const response = await withTwoFactor(() => apiRequest('POST', '/api/auth/tokens', { name, scopes }));
+      const created: CreatedAccessToken = await response.json();
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/tokens'] });
+
+      toast({
+        title: "Access token created",
+        description: "Copy it now; it won't be shown again",
+      });
+      return created;
+    } catch (err: any) {
+      toast({
+        title: "Failed to create access token",
+        description: apiErrorMessage(err) || "Please try again",
+        variant: "destructive",
+      });
+      throw err;
+    }
+  };
+
+  const revokeAccessToken = async (tokenId: number) => {
+    try {
+      await apiRequest('DELETE', `/api/auth/tokens/${tokenId}`);
+      queryClient.invalidateQueries({ queryKey: ['/api/auth/tokens'] });
+
+      toast({
+        title: "Access token revoked",
+        description: "Requests using it will be refused",
+      });
+    } catch (err: any) {
+      toast({
+        title: "Failed to revoke access token",
+        description: apiErrorMessage(err) || "Please try again",
         variant: "destructive",
       });
-    } finally {
-      setLoading(false);
+      throw err;
+    }
+  };
+
+  const setupTwoFactor = async (): Promise<TwoFactorSetup> => {
+    try {
+      const response = await apiRequest('POST', '/api/auth/2fa/setup');
+      return await response.json();
+    } catch (err: any) {
+      toast({
+        title: "Failed to set up two-factor authentication",
+        description: apiErrorMessage(err) || "Please try again",
+        variant: "destructive",
+      });
+      throw err;
+    }
+  };
+
+  // Resolves with the recovery codes, which are shown this once
+  const enableTwoFactor = async (code: string): Promise<string[]> => {
+    try {
+      const response = await apiRequest('POST', '/api/auth/2fa/enable', { code });
+      const { recoveryCodes } = await response.json();
+      queryClient.invalidateQueries({ queryKey: ME_QUERY_KEY });
+
+      toast({
+        title: "Two-factor authentication enabled",
+        description: "Save your recovery codes somewhere safe",
+      });
+      return recoveryCodes;
+    } catch (err: any) {
+      toast({
+        title: "Failed to enable two-factor authentication",
+        description: apiErrorMessage(err) || "Check the code and try again",
+        variant: "destructive",
+      });
+      throw err;
+    }
+  };
+
+  // Takes signing in again: the password, or a Google sign-in for Google accounts
+  const disableTwoFactor = async (factor: SecondFactor, password?: string) => {
+    try {
+      const idToken = user?.authProvider === 'firebase' ? await reauthenticateWithGoogle() : undefined;
+      const response = await apiRequest('POST', '/api/auth/2fa/disable', { ...factor, password, idToken });
+      queryClient.setQueryData(ME_QUERY_KEY, await response.json());
+
+      toast({
+        title: "Two-factor authentication disabled",
+        description: "Signing in now takes only your password",
+      });
+    } catch (err: any) {
+      toast({
+        title: "Failed to disable two-factor authentication",
+        description: apiErrorMessage(err) || "Please try again",
+        variant: "destructive",
+      });
+      throw err;
+    }
+  };
+
+  const regenerateRecoveryCodes = async (): Promise<string[]> => {
+    try {
+      const response = await withTwoFactor(() => apiRequest('POST', '/api/auth/2fa/recovery-codes'));
+      const { recoveryCodes } = await response.json();
+      queryClient.invalidateQueries({ queryKey: ME_QUERY_KEY });
+      return recoveryCodes;
+    } catch (err: any) {
+      toast({
+        title: "Failed to create recovery codes",
+        description: apiErrorMessage(err) || "Please try again",
+        variant: "destructive",
+      });
+      throw err;
     }
   };
 
   const value = {
-    user,
+    user: user ?? null,
     loading,
-    error,
+    error: error ? 'Authentication check failed' : null,
     login,
+    completeTwoFactorLogin,
     register,
     loginWithGoogle,
     logout,
+    requestPasswordReset,
+    resetPassword,
+    verifyEmail,
+    resendVerification,
+    revokeSession,
+    createAccessToken,
+    revokeAccessToken,
+    setupTwoFactor,
+    enableTwoFactor,
+    disableTwoFactor,
+    regenerateRecoveryCodes,
+    withTwoFactor,
   };
 
-  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+      <TwoFactorDialog open={stepUp !== null} onVerify={handleStepUpVerify} onCancel={handleStepUpCancel} />
+    </AuthContext.Provider>
+  );
 };
@@ -1,7 +1,38 @@
 import React, { createContext, useContext, useState } from 'react';
-import { apiRequest } from '@/lib/queryClient';
+import { ApiError, apiErrorMessage, apiRequest, queryClient } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
-import { Project, CreateProjectInput, ProjectFile, CreateFileInput } from '@/types';
+import { useAuth } from '@/contexts/auth-context';
+import { useWorkspace } from '@/contexts/workspace-context';
+import {
+  Project,
+  CreateProjectInput,
+  ProjectFile,
+  CreateFileInput,
+  ProjectSnapshot,
+  ExportOptions,
+  SearchOptions,
+  CollaboratorRole,
+  CreatedShareLink,
+  SharedProject,
+} from '@/types';
+import { isWithinPath, joinFilePath } from '@shared/file-paths';
+import { fileETag } from '@shared/file-versions';
+import { FOLDER_PLACEHOLDER } from '@/lib/file-tree';
+import { ConflictResolution, FileConflict, FileConflictDialog } from '@/components/editor/file-conflict-dialog';
+
+// The server's copy of a file when a save was rejected as stale, otherwise undefined
+const conflictingFile = (err: unknown): ProjectFile | undefined => {
+  if (!(err instanceof ApiError) || err.status !== 409) return undefined;
+  try {
+    return JSON.parse(err.body).file;
+  } catch {
+    return undefined;
+  }
+};
+
+// URL of the path-addressed file API for a file or folder
+const fsUrl = (projectId: number, path: string) =>
+  `/api/projects/${projectId}/fs/${path.split('/').map(encodeURIComponent).join('/')}`;
 
 interface ProjectContextType {
   currentProject: Project | null;
@@ -11,14 +42,32 @@ interface ProjectContextType {
   error: string | null;
   setCurrentProject: (project: Project | null) => void;
   createProject: (projectData: CreateProjectInput) => Promise<Project>;
+  importProject: (archive: File) => Promise<Project>;
   updateProject: (id: number, projectData: Partial<CreateProjectInput>) => Promise<Project>;
   deleteProject: (id: number) => Promise<void>;
+  restoreProject: (id: number) => Promise<Project>;
+  duplicateProject: (id: number, name?: string) => Promise<Project>;
+  deleteProjectPermanently: (id: number) => Promise<void>;
   fetchProject: (id: number) => Promise<Project>;
   fetchProjectFiles: (projectId: number) => Promise<ProjectFile[]>;
   createFile: (fileData: CreateFileInput) => Promise<ProjectFile>;
   updateFile: (id: number, fileData: Partial<CreateFileInput>) => Promise<ProjectFile>;
   deleteFile: (id: number) => Promise<void>;
-  exportProject: (id: number) => Promise<void>;
+  createFolder: (projectId: number, path: string) => Promise<ProjectFile>;
+  uploadAssets: (projectId: number, files: File[], directory?: string) => Promise<ProjectFile[]>;
+  movePath: (projectId: number, from: string, to: string) => Promise<ProjectFile[]>;
+  deletePath: (projectId: number, path: string) => Promise<void>;
+  replaceInProject: (projectId: number, options: SearchOptions, replacement: string) => Promise<ProjectFile[]>;
+  restoreFileRevision: (fileId: number, revisionId: number) => Promise<ProjectFile>;
+  createSnapshot: (projectId: number, name: string) => Promise<ProjectSnapshot>;
+  restoreSnapshot: (projectId: number, snapshotId: number) => Promise<ProjectFile[]>;
+  exportProject: (id: number, options?: ExportOptions) => Promise<void>;
+  fetchSharedProject: (token: string) => Promise<SharedProject>;
+  addCollaborator: (projectId: number, email: string, role: CollaboratorRole) => Promise<void>;
+  changeCollaboratorRole: (projectId: number, userId: number, role: CollaboratorRole) => Promise<void>;
+  removeCollaborator: (projectId: number, userId: number) => Promise<void>;
+  createShareLink: (projectId: number, expiresInDays?: number) => Promise<CreatedShareLink>;
+  revokeShareLink: (projectId: number, linkId: number) => Promise<void>;
 }
 
 const ProjectContext = createContext<ProjectContextType>({
@@ -29,14 +78,32 @@ const ProjectContext = createContext<ProjectContextType>({
   error: null,
   setCurrentProject: () => {},
   createProject: async () => ({ id: 0 } as Project),
+  importProject: async () => ({ id: 0 } as Project),
   updateProject: async () => ({ id: 0 } as Project),
   deleteProject: async () => {},
+  restoreProject: async () => ({ id: 0 } as Project),
+  duplicateProject: async () => ({ id: 0 } as Project),
+  deleteProjectPermanently: async () => {},
   fetchProject: async () => ({ id: 0 } as Project),
   fetchProjectFiles: async () => [],
   createFile: async () => ({ id: 0 } as ProjectFile),
   updateFile: async () => ({ id: 0 } as ProjectFile),
   deleteFile: async () => {},
+  createFolder: async () => ({ id: 0 } as ProjectFile),
+  uploadAssets: async () => [],
+  movePath: async () => [],
+  deletePath: async () => {},
+  replaceInProject: async () => [],
+  restoreFileRevision: async () => ({ id: 0 } as ProjectFile),
+  createSnapshot: async () => ({ id: 0 } as ProjectSnapshot),
+  restoreSnapshot: async () => [],
   exportProject: async () => {},
+  fetchSharedProject: async () => ({ project: { id: 0 } as Project, files: [] }),
+  addCollaborator: async () => {},
+  changeCollaboratorRole: async () => {},
+  removeCollaborator: async () => {},
+  createShareLink: async () => ({ id: 0 } as CreatedShareLink),
+  revokeShareLink: async () => {},
 });
 
 export const useProject = () => useContext(ProjectContext);
@@ -47,14 +114,34 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
   const [loadingProject, setLoadingProject] = useState(false);
   const [loadingFiles, setLoadingFiles] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [conflict, setConflict] = useState<(FileConflict & { resolve: (resolution: ConflictResolution) => void }) | null>(null);
   const { toast } = useToast();
+  const { withTwoFactor } = useAuth();
+  const { currentWorkspace, can } = useWorkspace();
+
+  // Ask the user how to settle a rejected save; resolves once they choose
+  const resolveConflict = (mine: string, theirs: ProjectFile) =>
+    new Promise<ConflictResolution>((resolve) => setConflict({ mine, theirs, resolve }));
+
+  const handleConflictResolved = (resolution: ConflictResolution) => {
+    conflict?.resolve(resolution);
+    setConflict(null);
+  };
 
+  // Save a file, guarded by the version it had when this client last saw it
+  const putFile = async (id: number, fileData: Partial<CreateFileInput>, version?: number): Promise<ProjectFile> => {
+    const headers = version !== undefined ? { 'If-Match': fileETag(version) } : undefined;
+    const response = await apiRequest('PUT', `/api/files/${id}`, fileData, headers);
+    return response.json();
+  };
+
+  // New and imported projects go to the current workspace
   const createProject = async (projectData: CreateProjectInput): Promise<Project> => {
     try {
       setLoadingProject(true);
       setError(null);
       
-      const response = await apiRequest('POST', '/api/projects', projectData);
+      const response = await apiRequest('POST', '/api/projects', { ...projectData, workspaceId: currentWorkspace?.id });
       const newProject = await response.json();
       
       setCurrentProject(newProject);
@@ -78,6 +165,40 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
     }
   };
 
+  // Create a project from a zip archive; framework and backend are inferred from it
+  const importProject = async (archive: File): Promise<Project> => {
+    try {
+      setLoadingProject(true);
+      setError(null);
+      
+      const formData = new FormData();
+      formData.append('archive', archive);
+      if (currentWorkspace) formData.append('workspaceId', String(currentWorkspace.id));
+      const response = await apiRequest('POST', '/api/projects/import', formData);
+      const { project, imported, skipped } = await response.json();
+      
+      setCurrentProject(project);
+      toast({
+        title: "Project imported",
+        description: `Imported ${imported} files into "${project.name}"` +
+          (skipped.length > 0 ? ` (${skipped.length} skipped)` : ''),
+      });
+      
+      return project;
+    } catch (err: any) {
+      const errorMsg = err.message || 'Failed to import project';
+      setError(errorMsg);
+      toast({
+        title: "Project import failed",
+        description: errorMsg,
+        variant: "destructive",
+      });
+      throw err;
+    } finally {
+      setLoadingProject(false);
+    }
+  };
+
   const updateProject = async (id: number, projectData: Partial<CreateProjectInput>): Promise<Project> => {
     try {
       setLoadingProject(true);
@@ -122,9 +243,100 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
         setProjectFiles([]);
       }
       
+      toast({
+        title: "Project moved to trash",
+        description: "You can restore it from the trash on the dashboard",
+      });
+    } catch (err: any) {
+      const errorMsg = err.message || 'Failed to delete project';
+      setError(errorMsg);
+      toast({
+        title: "Project deletion failed",
+        description: errorMsg,
+        variant: "destructive",
+      });
+      throw err;
+    } finally {
+      setLoadingProject(false);
+    }
+  };
+
+  const restoreProject = async (id: number): Promise<Project> => {
+    try {
+      setLoadingProject(true);
+      setError(null);
+      
+      const response = await apiRequest('POST', `/api/projects/${id}/restore`);
+      const restoredProject = await response.json();
+      
+      toast({
+        title: "Project restored",
+        description: `Project "${restoredProject.name}" has been restored from the trash`,
+      });
+      
+      return restoredProject;
+    } catch (err: any) {
+      const errorMsg = err.message || 'Failed to restore project';
+      setError(errorMsg);
+      toast({
+        title: "Project restore failed",
+        description: errorMsg,
+        variant: "destructive",
+      });
+      throw err;
+    } finally {
+      setLoadingProject(false);
+    }
+  };
+
+  // Copy a project and its files into the current workspace, or into the
+  // user's personal one where they cannot create projects; works for projects
+  // they may only view too
+  const duplicateProject = async (id: number, name?: string): Promise<Project> => {
+    try {
+      setLoadingProject(true);
+      setError(null);
+      
+      const workspaceId = can('editor') ? currentWorkspace?.id : undefined;
+      const response = await apiRequest('POST', `/api/projects/${id}/duplicate`, { name, workspaceId });
+      const duplicatedProject = await response.json();
+      
+      toast({
+        title: "Project duplicated",
+        description: `Created "${duplicatedProject.name}"`,
+      });
+      
+      return duplicatedProject;
+    } catch (err: any) {
+      const errorMsg = err.message || 'Failed to duplicate project';
+      setError(errorMsg);
+      toast({
+        title: "Project duplication failed",
+        description: errorMsg,
+        variant: "destructive",
+      });
+      throw err;
+    } finally {
+      setLoadingProject(false);
+    }
+  };
+
+  const deleteProjectPermanently = async (id: number): Promise<void> => {
+    try {
+      setLoadingProject(true);
+      setError(null);
+      
+      // Users with two-factor authentication may be asked for a code first
+      await withTwoFactor(() => apiRequest('DELETE', `/api/projects/${id}?permanent=true`));
+      
+      if (currentProject?.id === id) {
+        setCurrentProject(null);
+        setProjectFiles([]);
+      }
+      
       toast({
         title: "Project deleted",
-        description: "Project has been deleted successfully",
+        description: "Project has been deleted permanently",
       });
     } catch (err: any) {
       const errorMsg = err.message || 'Failed to delete project';
@@ -223,8 +435,21 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
       setLoadingFiles(true);
       setError(null);
       
-      const response = await apiRequest('PUT', `/api/files/${id}`, fileData);
-      const updatedFile = await response.json();
+      let updatedFile: ProjectFile;
+      try {
+        updatedFile = await putFile(id, fileData, projectFiles.find(file => file.id === id)?.version);
+      } catch (err) {
+        // Someone else saved first: let the user merge instead of overwriting their change
+        const theirs = conflictingFile(err);
+        if (!theirs || fileData.content === undefined) throw err;
+        
+        const resolution = await resolveConflict(fileData.content, theirs);
+        if (resolution.action === 'cancel') throw new Error('Save cancelled; your changes are still in the editor');
+        
+        updatedFile = resolution.action === 'discard'
+          ? theirs
+          : await putFile(id, { ...fileData, content: resolution.content }, theirs.version);
+      }
       
       setProjectFiles(prev => 
         prev.map(file => file.id === id ? updatedFile : file)
@@ -277,13 +502,272 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
     }
   };
 
-  const exportProject = async (id: number): Promise<void> => {
+  // Folders exist through their files, so an empty one is kept by a placeholder file
+  const createFolder = async (projectId: number, path: string): Promise<ProjectFile> => {
+    try {
+      setLoadingFiles(true);
+      setError(null);
+      
+      const response = await apiRequest('PUT', fsUrl(projectId, joinFilePath(path, FOLDER_PLACEHOLDER)), { content: '' });
+      const placeholder = await response.json();
+      
+      setProjectFiles(prev => [...prev.filter(file => file.id !== placeholder.id), placeholder]);
+      
+      toast({
+        title: "Folder created",
+        description: `Folder "${path}" has been created successfully`,
+      });
+      
+      return placeholder;
+    } catch (err: any) {
+      const errorMsg = err.message || 'Failed to create folder';
+      setError(errorMsg);
+      toast({
+        title: "Folder creation failed",
+        description: errorMsg,
+        variant: "destructive",
+      });
+      throw err;
+    } finally {
+      setLoadingFiles(false);
+    }
+  };
+
+  // Upload images, fonts and other binary files into a folder of the project
+  const uploadAssets = async (projectId: number, files: File[], directory = ''): Promise<ProjectFile[]> => {
+    try {
+      setLoadingFiles(true);
+      setError(null);
+      
+      const formData = new FormData();
+      formData.append('directory', directory);
+      files.forEach(file => formData.append('files', file));
+      const response = await apiRequest('POST', `/api/projects/${projectId}/assets`, formData);
+      const assets: ProjectFile[] = await response.json();
+      
+      const uploadedIds = new Set(assets.map(asset => asset.id));
+      setProjectFiles(prev => [...prev.filter(file => !uploadedIds.has(file.id)), ...assets]);
+      
+      toast({
+        title: "Files uploaded",
+        description: `${assets.length} file${assets.length === 1 ? '' : 's'} uploaded successfully`,
+      });
+      
+      return assets;
+    } catch (err: any) {
+      const errorMsg = err.message || 'Failed to upload files';
+      setError(errorMsg);
+      toast({
+        title: "Upload failed",
+        description: errorMsg,
+        variant: "destructive",
+      });
+      throw err;
+    } finally {
+      setLoadingFiles(false);
+    }
+  };
+
+  // Rename or move a file or a whole folder
+  const movePath = async (projectId: number, from: string, to: string): Promise<ProjectFile[]> => {
+    try {
+      setLoadingFiles(true);
+      setError(null);
+      
+      const response = await apiRequest('POST', `/api/projects/${projectId}/files/move`, { from, to });
+      const movedFiles: ProjectFile[] = await response.json();
+      
+      setProjectFiles(prev =>
+        prev.map(file => movedFiles.find(moved => moved.id === file.id) ?? file)
+      );
+      
+      toast({
+        title: "Moved",
+        description: `"${from}" has been moved to "${to}"`,
+      });
+      
+      return movedFiles;
+    } catch (err: any) {
+      const errorMsg = err.message || 'Failed to move';
+      setError(errorMsg);
+      toast({
+        title: "Move failed",
+        description: errorMsg,
+        variant: "destructive",
+      });
+      throw err;
+    } finally {
+      setLoadingFiles(false);
+    }
+  };
+
+  // Move a folder and everything in it to the trash
+  const deletePath = async (projectId: number, path: string): Promise<void> => {
+    try {
+      setLoadingFiles(true);
+      setError(null);
+      
+      await apiRequest('DELETE', fsUrl(projectId, path));
+      
+      setProjectFiles(prev => prev.filter(file => !isWithinPath(file.path, path)));
+      
+      toast({
+        title: "Folder deleted",
+        description: `"${path}" has been moved to the trash`,
+      });
+    } catch (err: any) {
+      const errorMsg = err.message || 'Failed to delete folder';
+      setError(errorMsg);
+      toast({
+        title: "Folder deletion failed",
+        description: errorMsg,
+        variant: "destructive",
+      });
+      throw err;
+    } finally {
+      setLoadingFiles(false);
+    }
+  };
+
+  // Replace every match of a project search; all files change or none do
+  const replaceInProject = async (
+    projectId: number,
+    options: SearchOptions,
+    replacement: string,
+  ): Promise<ProjectFile[]> => {
+    try {
+      setLoadingFiles(true);
+      setError(null);
+      
+      const response = await apiRequest('POST', `/api/projects/${projectId}/replace`, { ...options, replacement });
+      const { files, fileCount, replacementCount } = await response.json();
+      
+      const changed = new Map<number, ProjectFile>(files.map((file: ProjectFile) => [file.id, file]));
+      setProjectFiles(prev => prev.map(file => changed.get(file.id) ?? file));
+      
+      toast({
+        title: "Replaced",
+        description: `Replaced ${replacementCount} matches in ${fileCount} files`,
+      });
+      
+      return files;
+    } catch (err: any) {
+      const errorMsg = err.message || 'Failed to replace';
+      setError(errorMsg);
+      toast({
+        title: "Replace failed",
+        description: errorMsg,
+        variant: "destructive",
+      });
+      throw err;
+    } finally {
+      setLoadingFiles(false);
+    }
+  };
+
+  const restoreFileRevision = async (fileId: number, revisionId: number): Promise<ProjectFile> => {
+    try {
+      setLoadingFiles(true);
+      setError(null);
+      
+      const response = await apiRequest('POST', `/api/files/${fileId}/revisions/${revisionId}/restore`);
+      const restoredFile = await response.json();
+      
+      setProjectFiles(prev => 
+        prev.map(file => file.id === fileId ? restoredFile : file)
+      );
+      
+      toast({
+        title: "Revision restored",
+        description: `File "${restoredFile.name}" has been restored to an earlier version`,
+      });
+      
+      return restoredFile;
+    } catch (err: any) {
+      const errorMsg = err.message || 'Failed to restore revision';
+      setError(errorMsg);
+      toast({
+        title: "Revision restore failed",
+        description: errorMsg,
+        variant: "destructive",
+      });
+      throw err;
+    } finally {
+      setLoadingFiles(false);
+    }
+  };
+
+  const createSnapshot = async (projectId: number, name: string): Promise<ProjectSnapshot> => {
+    try {
+      setError(null);
+      
+      const response = await apiRequest('POST', `/api/projects/${projectId}/snapshots`, { name });
+      const snapshot = await response.json();
+      
+      toast({
+        title: "Snapshot saved",
+        description: `Snapshot "${snapshot.name}" captured ${snapshot.fileCount} files`,
+      });
+      
+      return snapshot;
+    } catch (err: any) {
+      const errorMsg = err.message || 'Failed to create snapshot';
+      setError(errorMsg);
+      toast({
+        title: "Snapshot failed",
+        description: errorMsg,
+        variant: "destructive",
+      });
+      throw err;
+    }
+  };
+
+  const restoreSnapshot = async (projectId: number, snapshotId: number): Promise<ProjectFile[]> => {
+    try {
+      setLoadingFiles(true);
+      setError(null);
+      
+      const response = await apiRequest('POST', `/api/projects/${projectId}/snapshots/${snapshotId}/restore`);
+      const files = await response.json();
+      
+      if (currentProject?.id === projectId) {
+        setProjectFiles(files);
+      }
+      
+      toast({
+        title: "Snapshot restored",
+        description: "Project files now match the selected snapshot",
+      });
+      
+      return files;
+    } catch (err: any) {
+      const errorMsg = err.message || 'Failed to restore snapshot';
+      setError(errorMsg);
+      toast({
+        title: "Snapshot restore failed",
+        description: errorMsg,
+        variant: "destructive",
+      });
+      throw err;
+    } finally {
+      setLoadingFiles(false);
+    }
+  };
+
+  const exportProject = async (id: number, options?: ExportOptions): Promise<void> => {
     try {
       setLoadingProject(true);
       setError(null);
       
       // Create a direct link to download the file
-      const url = `/api/projects/${id}/export`;
+      const query = options
+        ? `?${new URLSearchParams({
+            format: options.format,
+            readme: String(options.readme),
+            packageJson: String(options.packageJson),
+          })}`
+        : '';
+      const url = `/api/projects/${id}/export${query}`;
       window.open(url, '_blank');
       
       toast({
@@ -304,6 +788,110 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
     }
   };
 
+  // Open a project from a public link, read-only. Failures are not toasted;
+  // the share page explains a dead link itself.
+  const fetchSharedProject = async (token: string): Promise<SharedProject> => {
+    try {
+      setLoadingProject(true);
+      setError(null);
+      
+      const response = await apiRequest('GET', `/api/share/${encodeURIComponent(token)}`);
+      const shared: SharedProject = await response.json();
+      
+      setCurrentProject(shared.project);
+      setProjectFiles(shared.files);
+      return shared;
+    } catch (err: any) {
+      setError(apiErrorMessage(err) || 'Failed to open shared project');
+      throw err;
+    } finally {
+      setLoadingProject(false);
+    }
+  };
+
+  const addCollaborator = async (projectId: number, email: string, role: CollaboratorRole) => {
+    try {
+      await apiRequest('POST', `/api/projects/${projectId}/collaborators`, { email, role });
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/collaborators`] });
+      
+      toast({
+        title: "Project shared",
+        description: `We emailed ${email} a link to the project`,
+      });
+    } catch (err: any) {
+      toast({
+        title: "Failed to share project",
+        description: apiErrorMessage(err) || "Please try again",
+        variant: "destructive",
+      });
+      throw err;
+    }
+  };
+
+  const changeCollaboratorRole = async (projectId: number, userId: number, role: CollaboratorRole) => {
+    try {
+      await apiRequest('PATCH', `/api/projects/${projectId}/collaborators/${userId}`, { role });
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/collaborators`] });
+    } catch (err: any) {
+      toast({
+        title: "Failed to change role",
+        description: apiErrorMessage(err) || "Please try again",
+        variant: "destructive",
+      });
+      throw err;
+    }
+  };
+
+  const removeCollaborator = async (projectId: number, userId: number) => {
+    try {
+      await apiRequest('DELETE', `/api/projects/${projectId}/collaborators/${userId}`);
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/collaborators`] });
+    } catch (err: any) {
+      toast({
+        title: "Failed to remove collaborator",
+        description: apiErrorMessage(err) || "Please try again",
+        variant: "destructive",
+      });
+      throw err;
+    }
+  };
+
+  // The new link's token is in the result only; the server keeps its hash
+  const createShareLink = async (projectId: number, expiresInDays?: number): Promise<CreatedShareLink> => {
+    try {
+      const response = await apiRequest('POST', `/api/projects/${projectId}/share-links`, { expiresInDays });
+      const link: CreatedShareLink = await response.json();
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/share-links`] });
+      return link;
+    } catch (err: any) {
+      toast({
+        title: "Failed to create link",
+        description: apiErrorMessage(err) || "Please try again",
+        variant: "destructive",
+      });
+      throw err;
+    }
+  };
+
+  const revokeShareLink = async (projectId: number, linkId: number) => {
+    try {
+      await apiRequest('DELETE', `/api/projects/${projectId}/share-links/${linkId}`);
+      queryClient.invalidateQueries({ queryKey: [`/api/projects/${projectId}/share-links`] });
+      
+      toast({
+        title: "Link revoked",
+        description: "The link no longer opens the project",
+      });
+    } catch (err: any) {
+      toast({
+        title: "Failed to revoke link",
+        description: apiErrorMessage(err) || "Please try again",
+        variant: "destructive",
+      });
+      throw err;
+    }
+  };
+
   const value = {
     currentProject,
     projectFiles,
@@ -312,15 +900,38 @@ export const ProjectProvider: React.FC<{ children: React.ReactNode }> = ({ child
     error,
     setCurrentProject,
     createProject,
+    importProject,
     updateProject,
     deleteProject,
+    restoreProject,
+    duplicateProject,
+    deleteProjectPermanently,
     fetchProject,
     fetchProjectFiles,
     createFile,
     updateFile,
     deleteFile,
+    createFolder,
+    uploadAssets,
+    movePath,
+    deletePath,
+    replaceInProject,
+    restoreFileRevision,
+    createSnapshot,
+    restoreSnapshot,
     exportProject,
+    fetchSharedProject,
+    addCollaborator,
+    changeCollaboratorRole,
+    removeCollaborator,
+    createShareLink,
+    revokeShareLink,
   };
 
-  return <ProjectContext.Provider value={value}>{children}</ProjectContext.Provider>;
+  return (
+    <ProjectContext.Provider value={value}>
+      {children}
+      <FileConflictDialog conflict={conflict} onResolve={handleConflictResolved} />
+    </ProjectContext.Provider>
+  );
 };
@@ -0,0 +1,252 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { apiErrorMessage, apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/contexts/auth-context';
+import { hasRole } from '@shared/workspace-roles';
+import { Workspace, WorkspaceRole } from '@/types';
+
+interface WorkspaceContextType {
+  workspaces: Workspace[];
+  // The workspace the dashboard shows and new projects go to
+  currentWorkspace: Workspace | null;
+  loadingWorkspaces: boolean;
+  selectWorkspace: (id: number) => void;
+  // Whether the current user holds at least this role in the current workspace
+  can: (least: WorkspaceRole) => boolean;
+  createWorkspace: (name: string) => Promise<Workspace>;
+  renameWorkspace: (id: number, name: string) => Promise<Workspace>;
+  deleteWorkspace: (id: number) => Promise<void>;
+  inviteMember: (workspaceId: number, email: string, role: WorkspaceRole) => Promise<void>;
+  revokeInvitation: (workspaceId: number, invitationId: number) => Promise<void>;
+  changeMemberRole: (workspaceId: number, userId: number, role: WorkspaceRole) => Promise<void>;
+  removeMember: (workspaceId: number, userId: number) => Promise<void>;
+  acceptInvitation: (token: string) => Promise<Workspace>;
+}
+
+const WorkspaceContext = createContext<WorkspaceContextType>({
+  workspaces: [],
+  currentWorkspace: null,
+  loadingWorkspaces: false,
+  selectWorkspace: () => {},
+  can: () => false,
+  createWorkspace: async () => ({ id: 0 } as Workspace),
+  renameWorkspace: async () => ({ id: 0 } as Workspace),
+  deleteWorkspace: async () => {},
+  inviteMember: async () => {},
+  revokeInvitation: async () => {},
+  changeMemberRole: async () => {},
+  removeMember: async () => {},
+  acceptInvitation: async () => ({ id: 0 } as Workspace),
+});
+
+export const useWorkspace = () => useContext(WorkspaceContext);
+
+const WORKSPACES_QUERY_KEY = ['/api/workspaces'];
+
+// Remembered per browser, so the dashboard opens where the user left it
+const CURRENT_WORKSPACE_KEY = 'xalgrow-workspace';
+
+export const WorkspaceProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { toast } = useToast();
+  const { user, withTwoFactor } = useAuth();
+  const [selectedId, setSelectedId] = useState<number | null>(
+    () => Number(localStorage.getItem(CURRENT_WORKSPACE_KEY)) || null
+  );
+
+  const { data: workspaces = [], isLoading: loadingWorkspaces } = useQuery<Workspace[]>({
+    queryKey: WORKSPACES_QUERY_KEY,
+    enabled: !!user,
+  });
+
+  // The selected workspace while the user still belongs to it, otherwise their
+  // personal one
+  const currentWorkspace =
+    workspaces.find((workspace) => workspace.id === selectedId) ??
+    workspaces.find((workspace) => workspace.personalUserId === user?.id) ??
+    null;
+
+  useEffect(() => {
+    if (currentWorkspace) localStorage.setItem(CURRENT_WORKSPACE_KEY, String(currentWorkspace.id));
+  }, [currentWorkspace?.id]);
+
+  const selectWorkspace = (id: number) => setSelectedId(id);
+
+  const can = (least: WorkspaceRole) => hasRole(currentWorkspace?.role, least);
+
+  const createWorkspace = async (name: string): Promise<Workspace> => {
+    try {
+      const response = await apiRequest('POST', '/api/workspaces', { name });
+      const workspace: Workspace = await response.json();
+      queryClient.invalidateQueries({ queryKey: WORKSPACES_QUERY_KEY });
+      setSelectedId(workspace.id);
+
+      toast({
+        title: "Workspace created",
+        description: `Invite people to "${workspace.name}" from its settings`,
+      });
+      return workspace;
+    } catch (err: any) {
+      toast({
+        title: "Failed to create workspace",
+        description: apiErrorMessage(err) || "Please try again",
+        variant: "destructive",
+      });
+      throw err;
+    }
+  };
+
+  const renameWorkspace = async (id: number, name: string): Promise<Workspace> => {
+    try {
+      const response = await apiRequest('PATCH', `/api/workspaces/${id}`, { name });
+      const workspace: Workspace = await response.json();
+      queryClient.invalidateQueries({ queryKey: WORKSPACES_QUERY_KEY });
+
+      toast({
+        title: "Workspace renamed",
+        description: `The workspace is now called "${workspace.name}"`,
+      });
+      return workspace;
+    } catch (err: any) {
+      toast({
+        title: "Failed to rename workspace",
+        description: apiErrorMessage(err) || "Please try again",
+        variant: "destructive",
+      });
+      throw err;
+    }
+  };
+
+  // Deletes the workspace's projects too; users with two-factor authentication
+  // may be asked for a code first
+  const deleteWorkspace = async (id: number) => {
+    try {
+      await withTwoFactor(() => apiRequest('DELETE', `/api/workspaces/${id}`));
+      queryClient.invalidateQueries({ queryKey: WORKSPACES_QUERY_KEY });
+
+      toast({
+        title: "Workspace deleted",
+        description: "The workspace and its projects have been deleted",
+      });
+    } catch (err: any) {
+      toast({
+        title: "Failed to delete workspace",
+        description: apiErrorMessage(err) || "Please try again",
+        variant: "destructive",
+      });
+      throw err;
+    }
+  };
+
+  const inviteMember = async (workspaceId: number, email: string, role: WorkspaceRole) => {
+    try {
+      await apiRequest('POST', `/api/workspaces/${workspaceId}/invitations`, { email, role });
+      queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/invitations`] });
+
+      toast({
+        title: "Invitation sent",
+        description: `We emailed ${email} a link to join`,
+      });
+    } catch (err: any) {
+      toast({
+        title: "Failed to send invitation",
+        description: apiErrorMessage(err) || "Please try again",
+        variant: "destructive",
+      });
+      throw err;
+    }
+  };
+
+  const revokeInvitation = async (workspaceId: number, invitationId: number) => {
+    try {
+      await apiRequest('DELETE', `/api/workspaces/${workspaceId}/invitations/${invitationId}`);
+      queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/invitations`] });
+    } catch (err: any) {
+      toast({
+        title: "Failed to revoke invitation",
+        description: apiErrorMessage(err) || "Please try again",
+        variant: "destructive",
+      });
+      throw err;
+    }
+  };
+
+  const changeMemberRole = async (workspaceId: number, userId: number, role: WorkspaceRole) => {
+    try {
+      await apiRequest('PATCH', `/api/workspaces/${workspaceId}/members/${userId}`, { role });
+      queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/members`] });
+      // The user may have changed their own role
+      queryClient.invalidateQueries({ queryKey: WORKSPACES_QUERY_KEY });
+    } catch (err: any) {
+      toast({
+        title: "Failed to change role",
+        description: apiErrorMessage(err) || "Please try again",
+        variant: "destructive",
+      });
+      throw err;
+    }
+  };
+
+  // Removing the current user leaves the workspace
+  const removeMember = async (workspaceId: number, userId: number) => {
+    try {
+      await apiRequest('DELETE', `/api/workspaces/${workspaceId}/members/${userId}`);
+      queryClient.invalidateQueries({ queryKey: [`/api/workspaces/${workspaceId}/members`] });
+      if (userId === user?.id) {
+        queryClient.invalidateQueries({ queryKey: WORKSPACES_QUERY_KEY });
+        toast({
+          title: "Left workspace",
+          description: "You no longer have access to its projects",
+        });
+      }
+    } catch (err: any) {
+      toast({
+        title: userId === user?.id ? "Failed to leave workspace" : "Failed to remove member",
+        description: apiErrorMessage(err) || "Please try again",
+        variant: "destructive",
+      });
+      throw err;
+    }
+  };
+
+  // Joins the workspace and switches to it
+  const acceptInvitation = async (token: string): Promise<Workspace> => {
+    try {
+      const response = await apiRequest('POST', `/api/invitations/${encodeURIComponent(token)}/accept`);
+      const workspace: Workspace = await response.json();
+      await queryClient.invalidateQueries({ queryKey: WORKSPACES_QUERY_KEY });
+      setSelectedId(workspace.id);
+
+      toast({
+        title: "Invitation accepted",
+        description: `Welcome to "${workspace.name}"`,
+      });
+      return workspace;
+    } catch (err: any) {
+      toast({
+        title: "Failed to accept invitation",
+        description: apiErrorMessage(err) || "Please try again",
+        variant: "destructive",
+      });
+      throw err;
+    }
+  };
+
+  const value = {
+    workspaces,
+    currentWorkspace,
+    loadingWorkspaces,
+    selectWorkspace,
+    can,
+    createWorkspace,
+    renameWorkspace,
+    deleteWorkspace,
+    inviteMember,
+    revokeInvitation,
+    changeMemberRole,
+    removeMember,
+    acceptInvitation,
+  };
+
+  return <WorkspaceContext.Provider value={value}>{children}</WorkspaceContext.Provider>;
+};
@@ -0,0 +1,24 @@
+import { ProjectFile } from '@/types';
+
+// URL serving a project file's raw bytes with its content type
+export const rawFileUrl = (projectId: number, path: string) =>
+  `/api/projects/${projectId}/raw/${path.split('/').map(encodeURIComponent).join('/')}`;
+
+// The same, for a project opened through a public share link
+export const sharedFileUrl = (token: string, path: string) =>
+  `/api/share/${encodeURIComponent(token)}/raw/${path.split('/').map(encodeURIComponent).join('/')}`;
+
+// Uploaded images, fonts and other files whose content is not text
+export function isBinaryAsset(file: ProjectFile): boolean {
+  return file.blobKey !== null;
+}
+
+export function isImageFile(file: ProjectFile): boolean {
+  return (file.mimeType ?? '').startsWith('image/') || /\.svg$/i.test(file.name);
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
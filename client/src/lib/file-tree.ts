@@ -0,0 +1,70 @@
+/**
+ * Builds the folder tree shown in the file explorer from the flat list of
+ * project files. Folders only exist through the files beneath them.
+ */
+import { ProjectFile } from '@/types';
+import { baseName, joinFilePath } from '@shared/file-paths';
+
+// Empty file that keeps an otherwise empty folder in the project
+export const FOLDER_PLACEHOLDER = '.gitkeep';
+
+export interface FileTreeNode {
+  name: string;
+  path: string;
+  type: 'file' | 'directory';
+  file?: ProjectFile;
+  children: FileTreeNode[];
+}
+
+export function isFolderPlaceholder(file: ProjectFile): boolean {
+  return file.name === FOLDER_PLACEHOLDER;
+}
+
+// Nested folders and files, folders first and each level sorted by name.
+// Placeholder files are left out so their folders show up empty.
+export function buildFileTree(files: ProjectFile[]): FileTreeNode[] {
+  const root: FileTreeNode = { name: '', path: '', type: 'directory', children: [] };
+
+  files.forEach(file => {
+    const segments = file.path.split('/');
+    let parent = root;
+
+    segments.slice(0, -1).forEach(segment => {
+      const path = parent.path ? `${parent.path}/${segment}` : segment;
+      let folder = parent.children.find(child => child.type === 'directory' && child.name === segment);
+      if (!folder) {
+        folder = { name: segment, path, type: 'directory', children: [] };
+        parent.children.push(folder);
+      }
+      parent = folder;
+    });
+
+    if (!isFolderPlaceholder(file)) {
+      parent.children.push({ name: file.name, path: file.path, type: 'file', file, children: [] });
+    }
+  });
+
+  const sortNodes = (nodes: FileTreeNode[]) => {
+    nodes.sort((a, b) =>
+      a.type === b.type ? a.name.localeCompare(b.name) : a.type === 'directory' ? -1 : 1
+    );
+    nodes.forEach(node => sortNodes(node.children));
+  };
+  sortNodes(root.children);
+
+  return root.children;
+}
+
+// First free "name copy.ext", "name copy 2.ext", ... next to the given file
+export function duplicateFilePath(path: string, takenPaths: Set<string>): string {
+  const name = baseName(path);
+  const directory = path.slice(0, path.length - name.length);
+  const dot = name.lastIndexOf('.');
+  const stem = dot > 0 ? name.slice(0, dot) : name;
+  const extension = dot > 0 ? name.slice(dot) : '';
+
+  for (let copy = 1; ; copy++) {
+    const candidate = joinFilePath(directory, `${stem} copy${copy > 1 ? ` ${copy}` : ''}${extension}`);
+    if (!takenPaths.has(candidate)) return candidate;
+  }
+}
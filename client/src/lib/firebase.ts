@@ -1,9 +1,11 @@
 import { initializeApp } from "firebase/app";
 import { 
   getAuth, 
+  connectAuthEmulator, 
   signInWithEmailAndPassword, 
   createUserWithEmailAndPassword, 
   signInWithPopup,
+  reauthenticateWithPopup,
   GoogleAuthProvider,
   signOut,
   onAuthStateChanged,
@@ -21,6 +23,10 @@ const firebaseConfig = {
 // Initialize Firebase
 const app = initializeApp(firebaseConfig);
 const auth = getAuth(app);
+// Sign in against the Firebase Auth emulator, e.g. "127.0.0.1:9099", in tests
+if (import.meta.env.VITE_FIREBASE_AUTH_EMULATOR_HOST) {
+  connectAuthEmulator(auth, `http://${import.meta.env.VITE_FIREBASE_AUTH_EMULATOR_HOST}`);
+}
 const googleProvider = new GoogleAuthProvider();
 
 // Authentication functions
@@ -30,17 +36,14 @@ export const loginWithEmail = async (email: string, password: string) => {
     // Get Firebase ID token to authenticate with our backend
     const idToken = await userCredential.user.getIdToken();
     
-    // Authenticate with our backend, passing user details
+    // Authenticate with our backend; it reads the user's details from the token
     const response = await fetch('/api/auth/firebase-login', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({ 
-        idToken,
-        email: userCredential.user.email,
-        displayName: userCredential.user.displayName,
-        photoURL: userCredential.user.photoURL
+        idToken
       }),
     });
     
@@ -68,10 +71,7 @@ export const registerWithEmail = async (email: string, password: string) => {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({ 
-        idToken,
-        email: userCredential.user.email,
-        displayName: userCredential.user.displayName,
-        photoURL: userCredential.user.photoURL,
+        idToken
       }),
     });
     
@@ -92,17 +92,14 @@ export const loginWithGoogle = async () => {
     // Get Firebase ID token to authenticate with our backend
     const idToken = await result.user.getIdToken();
     
-    // Authenticate with our backend, including user details
+    // Authenticate with our backend; it reads the user's details from the token
     const response = await fetch('/api/auth/firebase-login', {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({ 
-        idToken,
-        email: result.user.email,
-        displayName: result.user.displayName,
-        photoURL: result.user.photoURL
+        idToken
       }),
     });
     
@@ -117,6 +114,15 @@ export const loginWithGoogle = async () => {
   }
 };
 
+// An ID token from signing in to Google again, for actions that ask the user
+// to prove it is still them; the server session is left as it is
+export const reauthenticateWithGoogle = async (): Promise<string> => {
+  const result = auth.currentUser
+    ? await reauthenticateWithPopup(auth.currentUser, googleProvider)
+    : await signInWithPopup(auth, googleProvider);
+  return result.user.getIdToken(true);
+};
+
 export const logoutUser = async () => {
   try {
     // Logout from Firebase
@@ -157,10 +163,7 @@ export const getCurrentUser = (): Promise<User | null> => {
                 'Content-Type': 'application/json',
               },
               body: JSON.stringify({ 
-                idToken,
-                email: user.email,
-                displayName: user.displayName,
-                photoURL: user.photoURL
+                idToken
               }),
             });
           } catch (err) {
@@ -24,10 +24,22 @@ const translations: Translations = {
     welcomeTitle: 'Welcome to Xalgrow!',
     welcomeDescription: 'The AI-powered coding assistant that helps you build full-stack applications with ease. Generate, edit, and preview your code in real-time.',
     newProject: 'New Project',
+    importProject: 'Import ZIP',
     tutorials: 'Tutorials',
     // File Explorer
     project: 'Project',
     files: 'Files',
+    newFile: 'New File',
+    newFolder: 'New Folder',
+    newFileHere: 'New File Here',
+    rename: 'Rename',
+    duplicate: 'Duplicate',
+    uploadFiles: 'Upload Files',
+    uploadFilesHere: 'Upload Files Here',
+    search: 'Search',
+    replaceAll: 'Replace All',
+    fork: 'Fork',
+    forkedFrom: 'Forked from',
     // Project Settings
     projectSettings: 'Project Settings',
     framework: 'Framework',
@@ -68,6 +80,36 @@ const translations: Translations = {
     alreadyHaveAccount: 'Already have an account?',
     createAccount: 'Create Account',
     username: 'Username',
+    forgotPasswordHint: 'Enter the email address of your account and we will send you a link to choose a new password.',
+    sendResetLink: 'Send Reset Link',
+    resetLinkSent: 'If an account uses this address, a reset link has been sent to',
+    resetPassword: 'Reset Password',
+    newPassword: 'New Password',
+    backToLogin: 'Back to login',
+    invalidLink: 'This link is invalid or has expired.',
+    verifyEmail: 'Verify Email',
+    verifyingEmail: 'Confirming your email address...',
+    emailVerified: 'Your email address is confirmed. Thanks!',
+    verifyEmailBanner: 'Confirm your email address to unlock AI generation. We sent a link to',
+    resendVerification: 'Resend email',
+    verificationSent: 'Email sent',
+    twoFactorAuthentication: 'Two-Factor Authentication',
+    twoFactorHint: 'Ask for a code from an authenticator app as well as your password when signing in.',
+    twoFactorLoginHint: 'Enter the 6-digit code from your authenticator app.',
+    twoFactorStepUpHint: 'Enter the 6-digit code from your authenticator app to continue.',
+    verify: 'Verify',
+    useRecoveryCode: 'Use a recovery code',
+    useAuthenticatorCode: 'Use a code from your app',
+    enableTwoFactor: 'Enable two-factor authentication',
+    disableTwoFactor: 'Disable two-factor authentication',
+    twoFactorEnabled: 'Enabled since',
+    recoveryCodesLeft: 'Recovery codes left',
+    newRecoveryCodes: 'New recovery codes',
+    saveRecoveryCodes: 'Save these recovery codes somewhere safe. Each one signs you in once without your authenticator app, and they will not be shown again.',
+    scanQrCode: 'Scan this QR code with your authenticator app.',
+    enterSecretManually: "Can't scan it? Enter this key instead:",
+    enterCodeToConfirm: 'Then enter the code the app shows:',
+    done: 'Done',
     // Misc
     save: 'Save',
     cancel: 'Cancel',
@@ -78,6 +120,81 @@ const translations: Translations = {
     loading: 'Loading...',
     error: 'Error',
     success: 'Success',
+    // Trash
+    trash: 'Trash',
+    moveToTrash: 'Move to Trash',
+    restore: 'Restore',
+    deleteForever: 'Delete Forever',
+    trashEmpty: 'The trash is empty',
+    // Sessions
+    activeSessions: 'Active Sessions',
+    activeSessionsHint: 'Devices signed in to your account. Sign out any you do not recognize.',
+    thisDevice: 'This device',
+    lastActive: 'Last active',
+    unknownDevice: 'Unknown device',
+    // Access tokens
+    accessTokens: 'Access Tokens',
+    accessTokensHint: 'Tokens let scripts and CI call the API with an "Authorization: Bearer" header.',
+    tokenName: 'Token name',
+    access: 'Access',
+    readOnly: 'Read only',
+    readWrite: 'Read & write',
+    aiGeneration: 'AI generation',
+    createToken: 'Create Token',
+    copyTokenNow: 'Copy your new token now. It will not be shown again.',
+    copy: 'Copy',
+    noAccessTokens: 'You have no access tokens',
+    lastUsed: 'Last used',
+    never: 'Never',
+    revoke: 'Revoke',
+    // Workspaces
+    workspaces: 'Workspaces',
+    personalWorkspace: 'Personal',
+    newWorkspace: 'New Workspace',
+    workspaceName: 'Workspace name',
+    workspaceSettings: 'Workspace Settings',
+    workspaceNotFound: 'This workspace does not exist or you are not a member of it.',
+    personalWorkspaceHint: 'Your personal workspace is yours alone. Create a workspace to work on projects with others.',
+    members: 'Members',
+    membersHint: 'People in this workspace. Viewers can open its projects, editors change them, admins manage members.',
+    you: 'You',
+    remove: 'Remove',
+    roleOwner: 'Owner',
+    roleAdmin: 'Admin',
+    roleEditor: 'Editor',
+    roleViewer: 'Viewer',
+    inviteMembers: 'Invite Members',
+    inviteMembersHint: 'We email them a link to join. The link works for 7 days.',
+    sendInvitation: 'Send Invitation',
+    pendingInvitations: 'Pending invitations',
+    expires: 'Expires',
+    leaveWorkspace: 'Leave Workspace',
+    deleteWorkspace: 'Delete Workspace',
+    viewOnly: 'View only',
+    // Invitations
+    invitation: 'Invitation',
+    invitedToWorkspace: 'You are invited to join',
+    invitedBy: 'Invited by',
+    invitedAs: 'Your role',
+    acceptInvitation: 'Accept Invitation',
+    invitationForOtherEmail: 'This invitation was sent to a different email address. Sign in with that address to accept it:',
+    // Project sharing
+    share: 'Share',
+    shareProject: 'Share Project',
+    collaborators: 'People with access',
+    collaboratorsHint: 'Share with people outside this workspace. Editors can change the project, viewers can only open it.',
+    noCollaborators: 'Only members of the workspace have access',
+    leaveProject: 'Leave Project',
+    publicLinks: 'Public links',
+    publicLinksHint: 'Anyone with a link can open the project read-only, with its live preview, without signing in.',
+    createLink: 'Create Link',
+    copyLinkNow: 'Copy your new link now. It will not be shown again.',
+    expiresNever: 'Never expires',
+    days: 'days',
+    sharedWithMe: 'Shared with me',
+    openProject: 'Open Project',
+    sharedProjectHint: 'You are viewing a shared project. Changes cannot be saved.',
+    openInXalgrow: 'Build your own with Xalgrow',
   },
   hi: {
     // Navbar
@@ -92,10 +209,22 @@ const translations: Translations = {
     welcomeTitle: 'Xalgrow में आपका स्वागत है!',
     welcomeDescription: 'AI-संचालित कोडिंग सहायक जो आपको फुल-स्टैक एप्लिकेशन बनाने में मदद करता है। रियल-टाइम में अपना कोड जनरेट करें, संपादित करें और प्रीव्यू करें।',
     newProject: 'नया प्रोजेक्ट',
+    importProject: 'ZIP आयात करें',
     tutorials: 'ट्यूटोरियल',
     // File Explorer
     project: 'प्रोजेक्ट',
     files: 'फाइलें',
+    newFile: 'नई फाइल',
+    newFolder: 'नया फ़ोल्डर',
+    newFileHere: 'यहाँ नई फाइल',
+    rename: 'नाम बदलें',
+    duplicate: 'प्रतिलिपि बनाएं',
+    uploadFiles: 'फाइलें अपलोड करें',
+    uploadFilesHere: 'यहाँ फाइलें अपलोड करें',
+    search: 'खोजें',
+    replaceAll: 'सभी बदलें',
+    fork: 'फोर्क करें',
+    forkedFrom: 'इससे फोर्क किया गया',
     // Project Settings
     projectSettings: 'प्रोजेक्ट सेटिंग्स',
     framework: 'फ्रेमवर्क',
@@ -136,6 +265,36 @@ const translations: Translations = {
     alreadyHaveAccount: 'पहले से ही खाता है?',
     createAccount: 'खाता बनाएं',
     username: 'उपयोगकर्ता नाम',
+    forgotPasswordHint: 'अपने खाते का ईमेल पता दर्ज करें और हम आपको नया पासवर्ड चुनने के लिए एक लिंक भेजेंगे।',
+    sendResetLink: 'रीसेट लिंक भेजें',
+    resetLinkSent: 'यदि कोई खाता इस पते का उपयोग करता है, तो रीसेट लिंक भेज दिया गया है',
+    resetPassword: 'पासवर्ड रीसेट करें',
+    newPassword: 'नया पासवर्ड',
+    backToLogin: 'लॉगिन पर वापस जाएं',
+    invalidLink: 'यह लिंक अमान्य है या समाप्त हो चुका है।',
+    verifyEmail: 'ईमेल सत्यापित करें',
+    verifyingEmail: 'आपके ईमेल पते की पुष्टि हो रही है...',
+    emailVerified: 'आपके ईमेल पते की पुष्टि हो गई है। धन्यवाद!',
+    verifyEmailBanner: 'AI जनरेशन का उपयोग करने के लिए अपने ईमेल पते की पुष्टि करें। हमने लिंक भेजा है',
+    resendVerification: 'ईमेल फिर से भेजें',
+    verificationSent: 'ईमेल भेजा गया',
+    twoFactorAuthentication: 'दो-चरणीय प्रमाणीकरण',
+    twoFactorHint: 'साइन इन करते समय पासवर्ड के साथ ऑथेंटिकेटर ऐप का कोड भी मांगें।',
+    twoFactorLoginHint: 'अपने ऑथेंटिकेटर ऐप से 6 अंकों का कोड दर्ज करें।',
+    twoFactorStepUpHint: 'जारी रखने के लिए अपने ऑथेंटिकेटर ऐप से 6 अंकों का कोड दर्ज करें।',
+    verify: 'सत्यापित करें',
+    useRecoveryCode: 'रिकवरी कोड का उपयोग करें',
+    useAuthenticatorCode: 'ऐप के कोड का उपयोग करें',
+    enableTwoFactor: 'दो-चरणीय प्रमाणीकरण चालू करें',
+    disableTwoFactor: 'दो-चरणीय प्रमाणीकरण बंद करें',
+    twoFactorEnabled: 'इस तारीख से चालू',
+    recoveryCodesLeft: 'बचे हुए रिकवरी कोड',
+    newRecoveryCodes: 'नए रिकवरी कोड',
+    saveRecoveryCodes: 'इन रिकवरी कोड को सुरक्षित जगह पर सहेजें। हर कोड ऑथेंटिकेटर ऐप के बिना एक बार साइन इन करता है, और ये दोबारा नहीं दिखाए जाएंगे।',
+    scanQrCode: 'इस QR कोड को अपने ऑथेंटिकेटर ऐप से स्कैन करें।',
+    enterSecretManually: 'स्कैन नहीं हो रहा? इसके बजाय यह कुंजी दर्ज करें:',
+    enterCodeToConfirm: 'फिर ऐप में दिखाया गया कोड दर्ज करें:',
+    done: 'हो गया',
     // Misc
     save: 'सहेजें',
     cancel: 'रद्द करें',
@@ -146,6 +305,81 @@ const translations: Translations = {
     loading: 'लोड हो रहा है...',
     error: 'त्रुटि',
     success: 'सफलता',
+    // Trash
+    trash: 'कचरा',
+    moveToTrash: 'कचरे में डालें',
+    restore: 'पुनर्स्थापित करें',
+    deleteForever: 'हमेशा के लिए हटाएं',
+    trashEmpty: 'कचरा खाली है',
+    // Sessions
+    activeSessions: 'सक्रिय सत्र',
+    activeSessionsHint: 'आपके खाते में साइन इन किए गए डिवाइस। जिन्हें आप नहीं पहचानते, उन्हें साइन आउट करें।',
+    thisDevice: 'यह डिवाइस',
+    lastActive: 'अंतिम सक्रियता',
+    unknownDevice: 'अज्ञात डिवाइस',
+    // Access tokens
+    accessTokens: 'एक्सेस टोकन',
+    accessTokensHint: 'टोकन से स्क्रिप्ट और CI "Authorization: Bearer" हेडर के साथ API को कॉल कर सकते हैं।',
+    tokenName: 'टोकन का नाम',
+    access: 'एक्सेस',
+    readOnly: 'केवल पढ़ें',
+    readWrite: 'पढ़ें और लिखें',
+    aiGeneration: 'AI जनरेशन',
+    createToken: 'टोकन बनाएं',
+    copyTokenNow: 'अपना नया टोकन अभी कॉपी करें। इसे दोबारा नहीं दिखाया जाएगा।',
+    copy: 'कॉपी करें',
+    noAccessTokens: 'आपके पास कोई एक्सेस टोकन नहीं है',
+    lastUsed: 'अंतिम उपयोग',
+    never: 'कभी नहीं',
+    revoke: 'रद्द करें',
+    // Workspaces
+    workspaces: 'वर्कस्पेस',
+    personalWorkspace: 'व्यक्तिगत',
+    newWorkspace: 'नया वर्कस्पेस',
+    workspaceName: 'वर्कस्पेस का नाम',
+    workspaceSettings: 'वर्कस्पेस सेटिंग्स',
+    workspaceNotFound: 'यह वर्कस्पेस मौजूद नहीं है या आप इसके सदस्य नहीं हैं।',
+    personalWorkspaceHint: 'आपका व्यक्तिगत वर्कस्पेस केवल आपका है। दूसरों के साथ प्रोजेक्ट पर काम करने के लिए एक वर्कस्पेस बनाएं।',
+    members: 'सदस्य',
+    membersHint: 'इस वर्कस्पेस के लोग। व्यूअर इसके प्रोजेक्ट खोल सकते हैं, एडिटर उन्हें बदल सकते हैं, एडमिन सदस्यों को प्रबंधित करते हैं।',
+    you: 'आप',
+    remove: 'हटाएं',
+    roleOwner: 'मालिक',
+    roleAdmin: 'एडमिन',
+    roleEditor: 'एडिटर',
+    roleViewer: 'व्यूअर',
+    inviteMembers: 'सदस्यों को आमंत्रित करें',
+    inviteMembersHint: 'हम उन्हें जुड़ने के लिए एक लिंक ईमेल करते हैं। लिंक 7 दिनों तक काम करता है।',
+    sendInvitation: 'आमंत्रण भेजें',
+    pendingInvitations: 'लंबित आमंत्रण',
+    expires: 'समाप्ति',
+    leaveWorkspace: 'वर्कस्पेस छोड़ें',
+    deleteWorkspace: 'वर्कस्पेस हटाएं',
+    viewOnly: 'केवल देखें',
+    // Invitations
+    invitation: 'आमंत्रण',
+    invitedToWorkspace: 'आपको जुड़ने के लिए आमंत्रित किया गया है',
+    invitedBy: 'आमंत्रित करने वाले',
+    invitedAs: 'आपकी भूमिका',
+    acceptInvitation: 'आमंत्रण स्वीकार करें',
+    invitationForOtherEmail: 'यह आमंत्रण किसी दूसरे ईमेल पते पर भेजा गया था। इसे स्वीकार करने के लिए उस पते से साइन इन करें:',
+    // Project sharing
+    share: 'साझा करें',
+    shareProject: 'प्रोजेक्ट साझा करें',
+    collaborators: 'जिनके पास पहुंच है',
+    collaboratorsHint: 'इस वर्कस्पेस के बाहर के लोगों के साथ साझा करें। संपादक प्रोजेक्ट बदल सकते हैं, दर्शक केवल इसे खोल सकते हैं।',
+    noCollaborators: 'केवल वर्कस्पेस के सदस्यों के पास पहुंच है',
+    leaveProject: 'प्रोजेक्ट छोड़ें',
+    publicLinks: 'सार्वजनिक लिंक',
+    publicLinksHint: 'लिंक वाला कोई भी व्यक्ति बिना साइन इन किए प्रोजेक्ट को उसके लाइव पूर्वावलोकन के साथ केवल पढ़ने के लिए खोल सकता है।',
+    createLink: 'लिंक बनाएं',
+    copyLinkNow: 'अपना नया लिंक अभी कॉपी करें। इसे दोबारा नहीं दिखाया जाएगा।',
+    expiresNever: 'कभी समाप्त नहीं होता',
+    days: 'दिन',
+    sharedWithMe: 'मेरे साथ साझा किए गए',
+    openProject: 'प्रोजेक्ट खोलें',
+    sharedProjectHint: 'आप एक साझा प्रोजेक्ट देख रहे हैं। बदलाव सहेजे नहीं जा सकते।',
+    openInXalgrow: 'Xalgrow के साथ अपना खुद का बनाएं',
   }
 };
 
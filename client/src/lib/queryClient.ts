@@ -1,9 +1,32 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+// A non-2xx response; keeps the status and raw body for callers that handle
+// specific failures such as 409 Conflict
+export class ApiError extends Error {
+  constructor(public status: number, public body: string) {
+    super(`${status}: ${body}`);
+    this.name = "ApiError";
+  }
+}
+
+// The server's { message } for a failed request, or the error's own message
+export function apiErrorMessage(error: Error): string {
+  if (error instanceof ApiError) {
+    try {
+      const { message } = JSON.parse(error.body);
+      // Validation failures carry zod's list of issues
+      return Array.isArray(message) ? message.map(issue => issue.message).join(', ') : message;
+    } catch {
+      return error.body;
+    }
+  }
+  return error.message;
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    throw new ApiError(res.status, text);
   }
 }
 
@@ -11,11 +34,14 @@ export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
+  headers?: Record<string, string>,
 ): Promise<Response> {
+  // Form data (file uploads) is sent as multipart and sets its own content type
+  const isForm = data instanceof FormData;
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
-    body: data ? JSON.stringify(data) : undefined,
+    headers: { ...(data && !isForm ? { "Content-Type": "application/json" } : {}), ...headers },
+    body: isForm ? data : data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
 
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { useLocation } from 'wouter';
+import { Link, Redirect, useLocation, useSearch } from 'wouter';
 import { useI18n } from '@/lib/i18n';
 import { useAuth } from '@/contexts/auth-context';
 import { z } from 'zod';
@@ -15,13 +15,21 @@ import {
   FormMessage,
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
+import { redirectTarget } from '@/components/layout/protected-route';
+import { AuthCard } from '@/components/layout/auth-card';
+import { SecondFactorForm } from '@/components/layout/second-factor-form';
+import { SecondFactor } from '@/types';
 
 const Auth: React.FC = () => {
   const { t } = useI18n();
-  const { login, register: registerUser, loginWithGoogle } = useAuth();
+  const { user, login, completeTwoFactorLogin, register: registerUser, loginWithGoogle } = useAuth();
   const [location, setLocation] = useLocation();
+  // Back to the page that asked for a login, once there is a user
+  const returnTo = redirectTarget(useSearch());
   const [isLogin, setIsLogin] = useState(true);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // The password or Google sign-in went through; the account wants a code too
+  const [needsSecondFactor, setNeedsSecondFactor] = useState(false);
 
   // Login form schema
   const loginSchema = z.object({
@@ -66,8 +74,12 @@ const Auth: React.FC = () => {
   const onLoginSubmit = async (values: LoginFormValues) => {
     setIsSubmitting(true);
     try {
-      await login(values.email, values.password);
-      setLocation('/dashboard');
+      const { twoFactorRequired } = await login(values.email, values.password);
+      if (twoFactorRequired) {
+        setNeedsSecondFactor(true);
+        return;
+      }
+      setLocation(returnTo);
     } catch (error) {
       console.error('Login error:', error);
     } finally {
@@ -79,7 +91,7 @@ const Auth: React.FC = () => {
     setIsSubmitting(true);
     try {
       await registerUser(values.username, values.email, values.password);
-      setLocation('/dashboard');
+      setLocation(returnTo);
     } catch (error) {
       console.error('Registration error:', error);
     } finally {
@@ -89,13 +101,46 @@ const Auth: React.FC = () => {
 
   const handleGoogleLogin = async () => {
     try {
-      await loginWithGoogle();
-      setLocation('/dashboard');
+      const { twoFactorRequired } = await loginWithGoogle();
+      if (twoFactorRequired) {
+        setNeedsSecondFactor(true);
+        return;
+      }
+      setLocation(returnTo);
     } catch (error) {
       console.error('Google login error:', error);
     }
   };
 
+  const onSecondFactorSubmit = async (factor: SecondFactor) => {
+    await completeTwoFactorLogin(factor);
+    setLocation(returnTo);
+  };
+
+  if (user) {
+    return <Redirect to={returnTo} />;
+  }
+
+  if (needsSecondFactor) {
+    return (
+      <AuthCard title={t('twoFactorAuthentication')}>
+        <p className="text-sm text-muted-foreground mb-4">{t('twoFactorLoginHint')}</p>
+        
+        <SecondFactorForm submitLabel={t('verify')} onSubmit={onSecondFactorSubmit} />
+        
+        <div className="mt-6 text-center text-sm">
+          <button
+            type="button"
+            onClick={() => setNeedsSecondFactor(false)}
+            className="text-primary-500 hover:underline font-medium"
+          >
+            {t('backToLogin')}
+          </button>
+        </div>
+      </AuthCard>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-gradient-to-r from-[#FF9933] via-white to-[#138808] flex items-center justify-center p-4">
       <div className="bg-white dark:bg-gray-800 shadow-xl rounded-lg w-full max-w-md overflow-hidden">
@@ -153,9 +198,9 @@ const Auth: React.FC = () => {
                 />
                 
                 <div className="text-right text-sm">
-                  <a href="#" className="text-primary-500 hover:underline">
+                  <Link href="/auth/forgot-password" className="text-primary-500 hover:underline">
                     {t('forgotPassword')}
-                  </a>
+                  </Link>
                 </div>
                 
                 <Button type="submit" className="w-full" disabled={isSubmitting}>
@@ -1,17 +1,20 @@
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import { Link, useLocation } from 'wouter';
 import { useI18n } from '@/lib/i18n';
 import { useAuth } from '@/contexts/auth-context';
 import { useProject } from '@/contexts/project-context';
+import { useWorkspace } from '@/contexts/workspace-context';
 import { Navbar } from '@/components/layout/navbar';
 import { WelcomeBanner } from '@/components/layout/welcome-banner';
+import { useWorkspaceName } from '@/components/layout/workspace-switcher';
 import { Project } from '@/types';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
 import { PremiumTemplates } from '@/components/payments/premium-templates';
 import { NewProjectDialog } from '@/components/project/new-project-dialog';
 import { AppGeneratorDialog } from '@/components/project/app-generator-dialog';
 import { useQuery } from '@tanstack/react-query';
-import { Loader2, Plus, Sparkles } from 'lucide-react';
+import { Copy, Eye, GitFork, Loader2, Plus, RotateCcw, Sparkles, Trash2, Upload } from 'lucide-react';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 
 /**
@@ -21,20 +24,88 @@ const Dashboard: React.FC = () => {
   const { t } = useI18n();
   const { user } = useAuth();
   const [location, setLocation] = useLocation();
-  const { createProject } = useProject();
+  const { createProject, importProject, deleteProject, restoreProject, duplicateProject, deleteProjectPermanently } = useProject();
+  const { currentWorkspace, can } = useWorkspace();
+  const workspaceName = useWorkspaceName();
+  // Viewers may open and copy projects; changing them takes an editor
+  const canEdit = can('editor');
+  
+  // Which list is shown: active projects or the trash
+  const [view, setView] = useState<'projects' | 'trash'>('projects');
   
   // Dialog visibility states
   const [showNewProjectDialog, setShowNewProjectDialog] = useState(false);
   const [showGenerateAppDialog, setShowGenerateAppDialog] = useState(false);
   const [selectedProject, setSelectedProject] = useState<Project | null>(null);
   
-  // Fetch user's projects
+  // Hidden file picker behind the import button
+  const archiveInputRef = useRef<HTMLInputElement>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  
+  // Fetch the current workspace's projects
   const { data: projects, isLoading, refetch } = useQuery<Project[]>({
-    queryKey: ['/api/projects'],
-    enabled: true, // For development, always fetch regardless of login status
-    // Original: enabled: !!user, // Only fetch if user is logged in
+    queryKey: [`/api/projects?workspaceId=${currentWorkspace?.id}`],
+    enabled: !!currentWorkspace,
   });
   
+  // Fetch the workspace's trashed projects when the trash is open
+  const { data: trashedProjects, isLoading: isLoadingTrash, refetch: refetchTrash } = useQuery<Project[]>({
+    queryKey: [`/api/projects/trash?workspaceId=${currentWorkspace?.id}`],
+    enabled: view === 'trash' && !!currentWorkspace,
+  });
+  
+  // Projects in other people's workspaces shared with the user, listed in
+  // their personal workspace
+  const showShared = view === 'projects' && currentWorkspace?.personalUserId != null;
+  const { data: sharedProjects } = useQuery<Project[]>({
+    queryKey: ['/api/projects/shared'],
+    enabled: showShared,
+  });
+  
+  const handleMoveToTrash = async (project: Project) => {
+    await deleteProject(project.id);
+    refetch();
+    refetchTrash();
+  };
+  
+  const handleRestore = async (project: Project) => {
+    await restoreProject(project.id);
+    refetch();
+    refetchTrash();
+  };
+  
+  // Viewers' copies go to their personal workspace, which is not on screen
+  const handleDuplicate = async (project: Project) => {
+    await duplicateProject(project.id);
+    refetch();
+  };
+  
+  // Name of the project a fork came from; the source may belong to someone else
+  const forkSourceName = (project: Project) =>
+    projects?.find(p => p.id === project.forkedFromId)?.name ?? `#${project.forkedFromId}`;
+  
+  const handleDeleteForever = async (project: Project) => {
+    if (!window.confirm(`Permanently delete "${project.name}"? This cannot be undone.`)) {
+      return;
+    }
+    await deleteProjectPermanently(project.id);
+    refetchTrash();
+  };
+  
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const archive = event.target.files?.[0];
+    event.target.value = '';
+    if (!archive) return;
+    
+    setIsImporting(true);
+    try {
+      const project = await importProject(archive);
+      setLocation(`/editor/${project.id}`);
+    } finally {
+      setIsImporting(false);
+    }
+  };
+  
   // Handle generating an app for an existing project
   const handleGenerateForProject = (project: Project) => {
     setSelectedProject(project);
@@ -60,37 +131,121 @@ const Dashboard: React.FC = () => {
         <WelcomeBanner />
         
         <div className="my-8 flex justify-between items-center">
-          <h1 className="text-3xl font-bold">{t('dashboard.myProjects')}</h1>
+          <div className="flex items-center gap-3">
+            <h1 className="text-3xl font-bold">
+              {currentWorkspace && currentWorkspace.personalUserId === null
+                ? workspaceName(currentWorkspace)
+                : t('dashboard.myProjects')}
+            </h1>
+            {currentWorkspace && !canEdit && (
+              <Badge variant="secondary" className="flex items-center">
+                <Eye className="mr-1 h-3 w-3" /> {t('viewOnly')}
+              </Badge>
+            )}
+          </div>
           
           <div className="space-x-2">
             <Button 
-              variant="outline" 
-              onClick={() => setShowGenerateAppDialog(true)}
+              variant={view === 'trash' ? 'secondary' : 'ghost'}
+              onClick={() => setView(view === 'trash' ? 'projects' : 'trash')}
               className="flex items-center"
             >
-              <Sparkles className="mr-2 h-4 w-4" /> {t('dashboard.generateApp')}
+              <Trash2 className="mr-2 h-4 w-4" /> {t('trash')}
             </Button>
             
-            <Button 
-              onClick={() => setShowNewProjectDialog(true)}
-              className="flex items-center"
-            >
-              <Plus className="mr-2 h-4 w-4" /> {t('dashboard.newProject')}
-            </Button>
+            {canEdit && (
+              <>
+                <Button 
+                  variant="outline" 
+                  onClick={() => setShowGenerateAppDialog(true)}
+                  className="flex items-center"
+                >
+                  <Sparkles className="mr-2 h-4 w-4" /> {t('dashboard.generateApp')}
+                </Button>
+                
+                <input
+                  ref={archiveInputRef}
+                  type="file"
+                  accept=".zip,application/zip"
+                  className="hidden"
+                  onChange={handleImport}
+                />
+                <Button 
+                  variant="outline" 
+                  onClick={() => archiveInputRef.current?.click()}
+                  disabled={isImporting}
+                  className="flex items-center"
+                >
+                  {isImporting 
+                    ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> 
+                    : <Upload className="mr-2 h-4 w-4" />} {t('importProject')}
+                </Button>
+                
+                <Button 
+                  onClick={() => setShowNewProjectDialog(true)}
+                  className="flex items-center"
+                >
+                  <Plus className="mr-2 h-4 w-4" /> {t('dashboard.newProject')}
+                </Button>
+              </>
+            )}
           </div>
         </div>
         
-        {isLoading ? (
+        {view === 'trash' ? (
+          isLoadingTrash ? (
+            <div className="flex justify-center items-center h-64">
+              <Loader2 className="h-12 w-12 animate-spin text-primary" />
+            </div>
+          ) : !trashedProjects || trashedProjects.length === 0 ? (
+            <div className="text-center py-16 bg-muted/50 rounded-lg">
+              <h2 className="text-2xl font-semibold">{t('trashEmpty')}</h2>
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {trashedProjects.map((project) => (
+                <Card key={project.id} className="opacity-80">
+                  <CardHeader className="pb-2">
+                    <CardTitle>{project.name}</CardTitle>
+                    <CardDescription>{project.description}</CardDescription>
+                  </CardHeader>
+                  
+                  <CardContent className="text-sm text-muted-foreground">
+                    <div><span className="font-medium">Deleted:</span> {project.deletedAt ? new Date(project.deletedAt).toLocaleDateString() : ''}</div>
+                  </CardContent>
+                  
+                  {canEdit && (
+                    <CardFooter className="flex justify-between">
+                      <Button variant="outline" onClick={() => handleRestore(project)}>
+                        <RotateCcw className="mr-2 h-4 w-4" /> {t('restore')}
+                      </Button>
+                      {/* Only admins delete projects for good */}
+                      {can('admin') && (
+                        <Button variant="destructive" onClick={() => handleDeleteForever(project)}>
+                          {t('deleteForever')}
+                        </Button>
+                      )}
+                    </CardFooter>
+                  )}
+                </Card>
+              ))}
+            </div>
+          )
+        ) : isLoading ? (
           <div className="flex justify-center items-center h-64">
             <Loader2 className="h-12 w-12 animate-spin text-primary" />
           </div>
         ) : !projects || projects.length === 0 ? (
           <div className="text-center py-16 bg-muted/50 rounded-lg">
             <h2 className="text-2xl font-semibold mb-2">{t('dashboard.noProjects')}</h2>
-            <p className="text-muted-foreground mb-6">{t('dashboard.createFirstProject')}</p>
-            <Button onClick={() => setShowNewProjectDialog(true)}>
-              {t('dashboard.getStarted')}
-            </Button>
+            {canEdit && (
+              <>
+                <p className="text-muted-foreground mb-6">{t('dashboard.createFirstProject')}</p>
+                <Button onClick={() => setShowNewProjectDialog(true)}>
+                  {t('dashboard.getStarted')}
+                </Button>
+              </>
+            )}
           </div>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -106,22 +261,79 @@ const Dashboard: React.FC = () => {
                     <div><span className="font-medium">Framework:</span> {project.framework}</div>
                     <div><span className="font-medium">Backend:</span> {project.backend}</div>
                     <div><span className="font-medium">Created:</span> {new Date(project.createdAt).toLocaleDateString()}</div>
+                    {project.forkedFromId && (
+                      <div className="flex items-center">
+                        <GitFork className="mr-1 h-3 w-3" />
+                        {t('forkedFrom')}&nbsp;<span className="font-medium">{forkSourceName(project)}</span>
+                      </div>
+                    )}
                   </div>
                 </CardContent>
                 
                 <CardFooter className="flex justify-between">
-                  <Button variant="outline" onClick={() => handleGenerateForProject(project)}>
-                    <Sparkles className="mr-2 h-4 w-4" /> Generate Code
-                  </Button>
-                  <Button asChild>
-                    <Link href={`/editor/${project.id}`}>Edit Project</Link>
-                  </Button>
+                  {canEdit ? (
+                    <Button variant="outline" onClick={() => handleGenerateForProject(project)}>
+                      <Sparkles className="mr-2 h-4 w-4" /> Generate Code
+                    </Button>
+                  ) : <div />}
+                  <div className="flex space-x-2">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title={t('duplicate')}
+                      onClick={() => handleDuplicate(project)}
+                    >
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    {canEdit && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title={t('moveToTrash')}
+                        onClick={() => handleMoveToTrash(project)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button asChild>
+                      <Link href={`/editor/${project.id}`}>Edit Project</Link>
+                    </Button>
+                  </div>
                 </CardFooter>
               </Card>
             ))}
           </div>
         )}
         
+        {showShared && sharedProjects && sharedProjects.length > 0 && (
+          <div className="mt-16">
+            <h2 className="text-2xl font-bold mb-6">{t('sharedWithMe')}</h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+              {sharedProjects.map((project) => (
+                <Card key={project.id} className="hover:shadow-md transition-shadow">
+                  <CardHeader className="pb-2">
+                    <CardTitle>{project.name}</CardTitle>
+                    <CardDescription>{project.description}</CardDescription>
+                  </CardHeader>
+                  
+                  <CardContent className="text-sm text-muted-foreground">
+                    <div className="space-y-1">
+                      <div><span className="font-medium">Framework:</span> {project.framework}</div>
+                      <div><span className="font-medium">Created:</span> {new Date(project.createdAt).toLocaleDateString()}</div>
+                    </div>
+                  </CardContent>
+                  
+                  <CardFooter className="flex justify-end">
+                    <Button asChild>
+                      <Link href={`/editor/${project.id}`}>{t('openProject')}</Link>
+                    </Button>
+                  </CardFooter>
+                </Card>
+              ))}
+            </div>
+          </div>
+        )}
+        
         {/* Premium Templates Section */}
         <div className="mt-16">
           <h2 className="text-2xl font-bold mb-6">{t('dashboard.premiumTemplates')}</h2>
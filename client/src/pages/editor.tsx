@@ -7,11 +7,18 @@ import { useEditor } from '@/contexts/editor-context';
 import { Navbar } from '@/components/layout/navbar';
 import { FileExplorer } from '@/components/layout/file-explorer';
 import { ProjectSettings } from '@/components/project/project-settings';
+import { SnapshotsDialog } from '@/components/project/snapshots-dialog';
+import { ShareDialog } from '@/components/project/share-dialog';
 import { CodeEditor } from '@/components/ui/code-editor';
+import { AssetViewer } from '@/components/editor/asset-viewer';
+import { SearchPanel } from '@/components/editor/search-panel';
+import { isBinaryAsset } from '@/lib/assets';
+import { SearchMatch } from '@/types';
 import { PreviewPanel } from '@/components/editor/preview-panel';
 import { StandalonePreview } from '@/components/editor/standalone-preview';
 import { DynamicAppPreview } from '@/components/editor/dynamic-app-preview';
 import { ChatInterface } from '@/components/ai/chat-interface';
+import { FileHistoryPanel } from '@/components/editor/file-history-panel';
 import { DeploymentOptions } from '@/components/deployment/deployment-options';
 import { Button } from '@/components/ui/button';
 
@@ -22,6 +29,11 @@ const Editor: React.FC = () => {
   const [match, params] = useRoute<{ id: string }>('/editor/:id');
   const [view, setView] = useState<'code' | 'preview'>('preview');
   const [sidebarVisible, setSidebarVisible] = useState(true);
+  const [rightPanel, setRightPanel] = useState<'assistant' | 'history'>('assistant');
+  const [showSnapshots, setShowSnapshots] = useState(false);
+  const [showShare, setShowShare] = useState(false);
+  const [sidebarPanel, setSidebarPanel] = useState<'files' | 'search'>('files');
+  const [revealedMatch, setRevealedMatch] = useState<{ fileId: number; line: number; column: number; length: number } | null>(null);
   
   const { 
     fetchProject, 
@@ -29,6 +41,7 @@ const Editor: React.FC = () => {
     currentProject, 
     projectFiles,
     updateFile,
+    duplicateProject,
     loadingProject,
     loadingFiles
   } = useProject();
@@ -40,15 +53,6 @@ const Editor: React.FC = () => {
     setActiveFile 
   } = useEditor();
 
-  // For development purposes, we're bypassing authentication checks
-  useEffect(() => {
-    if (!user) {
-      console.log('Development mode: Bypassing authentication redirect in editor.tsx');
-    } else {
-      console.log('User is authenticated:', user);
-    }
-  }, [user]);
-
   // Load project and files
   useEffect(() => {
     if (match && params.id) {
@@ -103,13 +107,37 @@ const Editor: React.FC = () => {
   const handleSaveFile = async () => {
     if (activeFile && activeFileContent !== activeFile.content) {
       try {
-        await updateFile(activeFile.id, { content: activeFileContent });
+        const savedFile = await updateFile(activeFile.id, { content: activeFileContent });
+        // Settling a conflict can save something other than what the editor holds
+        if (savedFile.content !== activeFileContent) {
+          setActiveFile(savedFile);
+        }
       } catch (error) {
         console.error('Failed to save file:', error);
       }
     }
   };
 
+  // Copy the project into the current user's account and switch to the copy
+  const handleDuplicate = async () => {
+    if (!currentProject) return;
+    try {
+      const duplicate = await duplicateProject(currentProject.id);
+      setLocation(`/editor/${duplicate.id}`);
+    } catch (error) {
+      console.error('Failed to duplicate project:', error);
+    }
+  };
+
+  // Open a search result with the match selected in the code editor
+  const openSearchMatch = (fileId: number, match: SearchMatch) => {
+    const file = projectFiles.find(f => f.id === fileId);
+    if (!file) return;
+    setActiveFile(file);
+    setView('code');
+    setRevealedMatch({ fileId, line: match.line, column: match.column, length: match.length });
+  };
+
   // Determine file language for code editor
   const getFileLanguage = () => {
     if (!activeFile) return 'javascript';
@@ -219,7 +247,25 @@ const Editor: React.FC = () => {
             <button className="text-gray-500 hover:text-gray-900 dark:text-gray-300 dark:hover:text-white p-1">
               <i className="ri-save-line text-lg"></i>
             </button>
-            <button className="text-gray-500 hover:text-gray-900 dark:text-gray-300 dark:hover:text-white p-1">
+            <button 
+              className="text-gray-500 hover:text-gray-900 dark:text-gray-300 dark:hover:text-white p-1"
+              title="Snapshots"
+              onClick={() => setShowSnapshots(true)}
+            >
+              <i className="ri-git-commit-line text-lg"></i>
+            </button>
+            <button 
+              className="text-gray-500 hover:text-gray-900 dark:text-gray-300 dark:hover:text-white p-1"
+              title={user && user.id !== currentProject.userId ? t('fork') : t('duplicate')}
+              onClick={handleDuplicate}
+            >
+              <i className="ri-git-branch-line text-lg"></i>
+            </button>
+            <button 
+              className="text-gray-500 hover:text-gray-900 dark:text-gray-300 dark:hover:text-white p-1"
+              title={t('share')}
+              onClick={() => setShowShare(true)}
+            >
               <i className="ri-share-line text-lg"></i>
             </button>
             <button className="bg-blue-500 hover:bg-blue-600 text-white px-3 py-1 rounded-md text-sm font-medium transition-colors">
@@ -236,8 +282,17 @@ const Editor: React.FC = () => {
           <div className="w-64 border-r border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 flex flex-col overflow-hidden">
             <div className="border-b border-gray-200 dark:border-gray-700 p-4">
               <div className="flex justify-between items-center">
-                <h2 className="font-semibold text-sm text-gray-700 dark:text-gray-300">PROJECT FILES</h2>
+                <h2 className="font-semibold text-sm text-gray-700 dark:text-gray-300">
+                  {sidebarPanel === 'search' ? t('search').toUpperCase() : 'PROJECT FILES'}
+                </h2>
                 <div className="flex space-x-1">
+                  <button
+                    className={`p-1 rounded ${sidebarPanel === 'search' ? 'text-primary-500' : 'text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300'}`}
+                    title={t('search')}
+                    onClick={() => setSidebarPanel(sidebarPanel === 'search' ? 'files' : 'search')}
+                  >
+                    <i className="ri-search-line text-sm"></i>
+                  </button>
                   <button className="p-1 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-300 rounded">
                     <i className="ri-add-line text-sm"></i>
                   </button>
@@ -248,9 +303,13 @@ const Editor: React.FC = () => {
               </div>
             </div>
             
-            {/* File List */}
+            {/* File List or project search */}
             <div className="flex-1 overflow-y-auto p-2">
-              <FileExplorer />
+              {sidebarPanel === 'search' ? (
+                <SearchPanel projectId={currentProject.id} onOpenMatch={openSearchMatch} />
+              ) : (
+                <FileExplorer />
+              )}
             </div>
             
             {/* Project settings panel */}
@@ -324,11 +383,14 @@ const Editor: React.FC = () => {
                 
                 {/* Code editor */}
                 <div className="flex-1 overflow-hidden">
-                  {activeFile ? (
+                  {activeFile && isBinaryAsset(activeFile) ? (
+                    <AssetViewer file={activeFile} />
+                  ) : activeFile ? (
                     <CodeEditor
                       value={activeFileContent}
                       onChange={updateActiveFileContent}
                       language={getFileLanguage()}
+                      selection={revealedMatch?.fileId === activeFile.id ? revealedMatch : null}
                     />
                   ) : (
                     <div className="flex items-center justify-center h-full text-gray-500 dark:text-gray-400">
@@ -347,19 +409,51 @@ const Editor: React.FC = () => {
                 </div>
               </div>
               
-              {/* Right sidebar - AI chat panel */}
+              {/* Right sidebar - AI chat or file history panel */}
               <div className="w-80 bg-white dark:bg-gray-800 flex flex-col border-l border-gray-200 dark:border-gray-700">
-                <div className="p-4 border-b border-gray-200 dark:border-gray-700">
-                  <h2 className="font-semibold text-sm text-gray-700 dark:text-gray-300">AI ASSISTANT</h2>
+                <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex space-x-4">
+                  <button
+                    className={`font-semibold text-sm ${
+                      rightPanel === 'assistant'
+                      ? 'text-gray-700 dark:text-gray-300'
+                      : 'text-gray-400 hover:text-gray-600 dark:text-gray-500 dark:hover:text-gray-300'
+                    }`}
+                    onClick={() => setRightPanel('assistant')}
+                  >
+                    AI ASSISTANT
+                  </button>
+                  <button
+                    className={`font-semibold text-sm ${
+                      rightPanel === 'history'
+                      ? 'text-gray-700 dark:text-gray-300'
+                      : 'text-gray-400 hover:text-gray-600 dark:text-gray-500 dark:hover:text-gray-300'
+                    }`}
+                    onClick={() => setRightPanel('history')}
+                  >
+                    <i className="ri-history-line mr-1"></i>
+                    HISTORY
+                  </button>
                 </div>
                 <div className="flex-1 overflow-y-auto">
-                  <ChatInterface />
+                  {rightPanel === 'assistant' ? <ChatInterface /> : <FileHistoryPanel />}
                 </div>
               </div>
             </div>
           )}
         </div>
       </div>
+      
+      <SnapshotsDialog
+        projectId={currentProject.id}
+        open={showSnapshots}
+        onOpenChange={setShowSnapshots}
+      />
+      
+      <ShareDialog
+        project={currentProject}
+        open={showShare}
+        onOpenChange={setShowShare}
+      />
     </div>
   );
 };
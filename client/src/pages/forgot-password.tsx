@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { Link } from 'wouter';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import { useI18n } from '@/lib/i18n';
+import { useAuth } from '@/contexts/auth-context';
+import { AuthCard } from '@/components/layout/auth-card';
+import { Button } from '@/components/ui/button';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email({ message: 'Please enter a valid email address' }),
+});
+
+type ForgotPasswordValues = z.infer<typeof forgotPasswordSchema>;
+
+/**
+ * Asks for an email address and sends a password reset link to it
+ */
+const ForgotPassword: React.FC = () => {
+  const { t } = useI18n();
+  const { requestPasswordReset } = useAuth();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const form = useForm<ForgotPasswordValues>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: { email: '' },
+  });
+
+  const onSubmit = async (values: ForgotPasswordValues) => {
+    setIsSubmitting(true);
+    try {
+      await requestPasswordReset(values.email);
+      setSentTo(values.email);
+    } catch (error) {
+      console.error('Password reset request error:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <AuthCard title={t('resetPassword')}>
+      {sentTo ? (
+        <p className="text-center text-sm text-muted-foreground">
+          {t('resetLinkSent')} <span className="font-medium text-foreground">{sentTo}</span>
+        </p>
+      ) : (
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <p className="text-sm text-muted-foreground">{t('forgotPasswordHint')}</p>
+            
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t('email')}</FormLabel>
+                  <FormControl>
+                    <Input type="email" placeholder="you@example.com" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            
+            <Button type="submit" className="w-full" disabled={isSubmitting}>
+              {isSubmitting ? (
+                <>
+                  <i className="ri-loader-4-line animate-spin mr-2"></i>
+                  {t('loading')}
+                </>
+              ) : (
+                t('sendResetLink')
+              )}
+            </Button>
+          </form>
+        </Form>
+      )}
+      
+      <div className="mt-6 text-center text-sm">
+        <Link href="/auth" className="text-primary-500 hover:underline font-medium">
+          {t('backToLogin')}
+        </Link>
+      </div>
+    </AuthCard>
+  );
+};
+
+export default ForgotPassword;
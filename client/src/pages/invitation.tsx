@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { Link, useLocation, useRoute } from 'wouter';
+import { useQuery } from '@tanstack/react-query';
+import { Loader2 } from 'lucide-react';
+import { useI18n } from '@/lib/i18n';
+import { useAuth } from '@/contexts/auth-context';
+import { useWorkspace } from '@/contexts/workspace-context';
+import { apiErrorMessage } from '@/lib/queryClient';
+import { AuthCard } from '@/components/layout/auth-card';
+import { roleLabels } from '@/components/workspace/members-card';
+import { InvitationDetails } from '@/types';
+import { Button } from '@/components/ui/button';
+
+/**
+ * Opened from a workspace invitation email; shows who invited the user where,
+ * and joins the workspace once they accept
+ */
+const Invitation: React.FC = () => {
+  const { t } = useI18n();
+  const [, setLocation] = useLocation();
+  const [, params] = useRoute<{ token: string }>('/invitations/:token');
+  const { user } = useAuth();
+  const { acceptInvitation } = useWorkspace();
+  const token = params?.token ?? '';
+  const [isAccepting, setIsAccepting] = useState(false);
+
+  const { data: invitation, isLoading, error } = useQuery<InvitationDetails>({
+    queryKey: [`/api/invitations/${encodeURIComponent(token)}`],
+    retry: false,
+  });
+
+  const forOtherEmail = !!invitation && invitation.email.toLowerCase() !== user?.email.toLowerCase();
+
+  const handleAccept = async () => {
+    setIsAccepting(true);
+    try {
+      await acceptInvitation(token);
+      setLocation('/dashboard');
+    } catch {
+      // Reported by the workspace context
+      setIsAccepting(false);
+    }
+  };
+
+  return (
+    <AuthCard title={t('invitation')}>
+      <div className="text-center space-y-6">
+        {isLoading ? (
+          <div className="flex justify-center">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : !invitation ? (
+          <p className="text-sm text-destructive">{(error && apiErrorMessage(error)) || t('invalidLink')}</p>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">{t('invitedToWorkspace')}</p>
+              <p className="text-xl font-semibold">{invitation.workspace.name}</p>
+              <p className="text-sm">
+                {invitation.invitedBy && <>{t('invitedBy')}: {invitation.invitedBy} · </>}
+                {t('invitedAs')}: {t(roleLabels[invitation.role])}
+              </p>
+            </div>
+
+            {forOtherEmail ? (
+              <p className="text-sm text-destructive">
+                {t('invitationForOtherEmail')} <span className="font-medium">{invitation.email}</span>
+              </p>
+            ) : (
+              <Button className="w-full" disabled={isAccepting} onClick={handleAccept}>
+                {isAccepting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} {t('acceptInvitation')}
+              </Button>
+            )}
+          </>
+        )}
+
+        <Button asChild variant="outline" className="w-full">
+          <Link href="/dashboard">{t('dashboard')}</Link>
+        </Button>
+      </div>
+    </AuthCard>
+  );
+};
+
+export default Invitation;
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { Link, useLocation, useSearch } from 'wouter';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useForm } from 'react-hook-form';
+import { useI18n } from '@/lib/i18n';
+import { useAuth } from '@/contexts/auth-context';
+import { AuthCard } from '@/components/layout/auth-card';
+import { Button } from '@/components/ui/button';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+
+const resetPasswordSchema = z.object({
+  password: z.string().min(6, { message: 'Password must be at least 6 characters' }),
+  confirmPassword: z.string().min(6, { message: 'Confirm password must be at least 6 characters' }),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+});
+
+type ResetPasswordValues = z.infer<typeof resetPasswordSchema>;
+
+/**
+ * Opened from a password reset email; sets a new password with the link's token
+ */
+const ResetPassword: React.FC = () => {
+  const { t } = useI18n();
+  const { resetPassword } = useAuth();
+  const [, setLocation] = useLocation();
+  const token = new URLSearchParams(useSearch()).get('token');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const form = useForm<ResetPasswordValues>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: { password: '', confirmPassword: '' },
+  });
+
+  const onSubmit = async (values: ResetPasswordValues) => {
+    if (!token) return;
+    setIsSubmitting(true);
+    try {
+      await resetPassword(token, values.password);
+      setLocation('/auth');
+    } catch (error) {
+      console.error('Password reset error:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <AuthCard title={t('resetPassword')}>
+      {!token ? (
+        <p className="text-center text-sm text-muted-foreground">{t('invalidLink')}</p>
+      ) : (
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="password"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t('newPassword')}</FormLabel>
+                  <FormControl>
+                    <Input type="password" placeholder="******" autoComplete="new-password" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            
+            <FormField
+              control={form.control}
+              name="confirmPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t('confirmPassword')}</FormLabel>
+                  <FormControl>
+                    <Input type="password" placeholder="******" autoComplete="new-password" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            
+            <Button type="submit" className="w-full" disabled={isSubmitting}>
+              {isSubmitting ? (
+                <>
+                  <i className="ri-loader-4-line animate-spin mr-2"></i>
+                  {t('loading')}
+                </>
+              ) : (
+                t('resetPassword')
+              )}
+            </Button>
+          </form>
+        </Form>
+      )}
+      
+      <div className="mt-6 text-center text-sm">
+        <Link href="/auth" className="text-primary-500 hover:underline font-medium">
+          {t('backToLogin')}
+        </Link>
+      </div>
+    </AuthCard>
+  );
+};
+
+export default ResetPassword;
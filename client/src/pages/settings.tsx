@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Loader2, LogOut, Monitor, Smartphone } from 'lucide-react';
+import { useI18n } from '@/lib/i18n';
+import { useAuth } from '@/contexts/auth-context';
+import { Navbar } from '@/components/layout/navbar';
+import { AccessTokensCard } from '@/components/settings/access-tokens-card';
+import { TwoFactorCard } from '@/components/settings/two-factor-card';
+import { UserSession } from '@/types';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+
+// A short name for the browser and system in a user agent, e.g. "Chrome on Windows"
+function describeDevice(userAgent: string | null): string | null {
+  if (!userAgent) return null;
+
+  const browser = [
+    ['Edg/', 'Edge'],
+    ['OPR/', 'Opera'],
+    ['Firefox/', 'Firefox'],
+    ['Chrome/', 'Chrome'],
+    ['Safari/', 'Safari'],
+  ].find(([token]) => userAgent.includes(token))?.[1];
+  const system = [
+    ['Android', 'Android'],
+    ['iPhone', 'iOS'],
+    ['iPad', 'iPadOS'],
+    ['Windows', 'Windows'],
+    ['Mac OS X', 'macOS'],
+    ['CrOS', 'ChromeOS'],
+    ['Linux', 'Linux'],
+  ].find(([token]) => userAgent.includes(token))?.[1];
+
+  if (browser && system) return `${browser} on ${system}`;
+  return browser ?? system ?? userAgent;
+}
+
+function isMobile(userAgent: string | null): boolean {
+  return !!userAgent && /Mobile|Android|iPhone|iPad/.test(userAgent);
+}
+
+/**
+ * Account settings: the devices signed in to the account, each of which can be
+ * signed out, two-factor authentication, and the account's personal access tokens
+ */
+const Settings: React.FC = () => {
+  const { t } = useI18n();
+  const { revokeSession } = useAuth();
+  const [revokingId, setRevokingId] = useState<number | null>(null);
+
+  const { data: sessions, isLoading } = useQuery<UserSession[]>({
+    queryKey: ['/api/auth/sessions'],
+  });
+
+  const handleRevoke = async (session: UserSession) => {
+    setRevokingId(session.id);
+    try {
+      await revokeSession(session.id, session.current);
+    } catch {
+      // Reported by the auth context
+    } finally {
+      setRevokingId(null);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navbar />
+
+      <main className="flex-1 container mx-auto px-4 py-8 max-w-3xl">
+        <h1 className="text-3xl font-bold mb-8">{t('settings')}</h1>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('activeSessions')}</CardTitle>
+            <CardDescription>{t('activeSessionsHint')}</CardDescription>
+          </CardHeader>
+
+          <CardContent>
+            {isLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : (
+              <ul className="divide-y divide-border">
+                {sessions?.map((session) => {
+                  const DeviceIcon = isMobile(session.userAgent) ? Smartphone : Monitor;
+                  return (
+                    <li key={session.id} className="flex items-center justify-between gap-4 py-4">
+                      <div className="flex items-center gap-3 min-w-0">
+                        <DeviceIcon className="h-6 w-6 shrink-0 text-muted-foreground" />
+                        <div className="min-w-0">
+                          <div className="flex items-center gap-2 font-medium">
+                            <span className="truncate" title={session.userAgent ?? undefined}>
+                              {describeDevice(session.userAgent) ?? t('unknownDevice')}
+                            </span>
+                            {session.current && <Badge variant="secondary">{t('thisDevice')}</Badge>}
+                            {session.twoFactorVerified && <Badge variant="outline">2FA</Badge>}
+                          </div>
+                          <div className="text-sm text-muted-foreground">
+                            {session.ipAddress && <>{session.ipAddress} · </>}
+                            {t('lastActive')}: {new Date(session.lastActiveAt).toLocaleString()}
+                          </div>
+                        </div>
+                      </div>
+
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={revokingId === session.id}
+                        onClick={() => handleRevoke(session)}
+                      >
+                        {revokingId === session.id
+                          ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          : <LogOut className="mr-2 h-4 w-4" />} {t('signOut')}
+                      </Button>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="mt-8">
+          <TwoFactorCard />
+        </div>
+
+        <div className="mt-8">
+          <AccessTokensCard />
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,150 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useRoute } from 'wouter';
+import { Loader2 } from 'lucide-react';
+import { useI18n } from '@/lib/i18n';
+import { useProject } from '@/contexts/project-context';
+import { isBinaryAsset, sharedFileUrl } from '@/lib/assets';
+import { ProjectFile } from '@/types';
+import { CodeEditor } from '@/components/ui/code-editor';
+import { AssetViewer } from '@/components/editor/asset-viewer';
+import { DynamicAppPreview } from '@/components/editor/dynamic-app-preview';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+
+// Syntax highlighting by file extension; anything unknown is shown as JavaScript
+const languages: Record<string, string> = {
+  ts: 'typescript',
+  tsx: 'typescript',
+  html: 'html',
+  css: 'css',
+  json: 'json',
+};
+
+/**
+ * A project opened from a public share link: its files read-only and its live
+ * preview, for anyone with the link and without signing in
+ */
+const SharedProject: React.FC = () => {
+  const { t } = useI18n();
+  const [, params] = useRoute<{ token: string }>('/share/:token');
+  const { currentProject, projectFiles, loadingProject, error, fetchSharedProject } = useProject();
+  const token = params?.token ?? '';
+
+  const [view, setView] = useState<'preview' | 'code'>('preview');
+  const [activeFile, setActiveFile] = useState<ProjectFile | null>(null);
+  const [opened, setOpened] = useState(false);
+
+  useEffect(() => {
+    setOpened(false);
+    fetchSharedProject(token).then(
+      (shared) => setActiveFile(shared.files.find((file) => !isBinaryAsset(file)) ?? null),
+      () => {}
+    ).finally(() => setOpened(true));
+  }, [token]);
+
+  if (!opened || loadingProject) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !currentProject) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen gap-4 p-4 text-center">
+        <p className="text-destructive">{error || t('invalidLink')}</p>
+        <Button asChild variant="outline">
+          <Link href="/auth">{t('openInXalgrow')}</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  const files = [...projectFiles].sort((a, b) => a.path.localeCompare(b.path));
+  const extension = activeFile?.name.split('.').pop()?.toLowerCase() ?? '';
+
+  return (
+    <div className="flex flex-col h-screen">
+      <div className="flex flex-wrap items-center justify-between gap-3 border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 px-4 py-2">
+        <div className="flex items-center gap-3 min-w-0">
+          <h1 className="truncate text-lg font-semibold">{currentProject.name}</h1>
+          <Badge variant="secondary">{t('readOnly')}</Badge>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <div className="flex bg-gray-100 dark:bg-gray-700 rounded-md p-1">
+            <button
+              className={`px-3 py-1 text-sm rounded ${
+                view === 'preview'
+                ? 'bg-white dark:bg-gray-600 shadow-sm'
+                : 'text-gray-600 dark:text-gray-300'
+              }`}
+              onClick={() => setView('preview')}
+            >
+              <i className="ri-eye-line mr-1"></i>
+              {t('preview')}
+            </button>
+            <button
+              className={`px-3 py-1 text-sm rounded ${
+                view === 'code'
+                ? 'bg-white dark:bg-gray-600 shadow-sm'
+                : 'text-gray-600 dark:text-gray-300'
+              }`}
+              onClick={() => setView('code')}
+            >
+              <i className="ri-code-line mr-1"></i>
+              Code
+            </button>
+          </div>
+          <Button asChild size="sm">
+            <Link href="/auth">{t('openInXalgrow')}</Link>
+          </Button>
+        </div>
+      </div>
+
+      <p className="bg-gray-50 dark:bg-gray-900 px-4 py-1 text-xs text-muted-foreground">{t('sharedProjectHint')}</p>
+
+      {view === 'preview' ? (
+        <div className="flex-1 overflow-auto">
+          <DynamicAppPreview />
+        </div>
+      ) : (
+        <div className="flex flex-1 overflow-hidden">
+          <ul className="w-60 shrink-0 overflow-y-auto border-r border-gray-200 dark:border-gray-700 py-2 text-sm">
+            {files.map((file) => (
+              <li key={file.id}>
+                <button
+                  className={`w-full truncate px-4 py-1 text-left hover:bg-gray-100 dark:hover:bg-gray-700 ${
+                    file.id === activeFile?.id ? 'bg-gray-100 dark:bg-gray-700 font-medium' : ''
+                  }`}
+                  title={file.path}
+                  onClick={() => setActiveFile(file)}
+                >
+                  {file.path}
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex-1 overflow-hidden">
+            {activeFile && isBinaryAsset(activeFile) ? (
+              <AssetViewer file={activeFile} url={sharedFileUrl(token, activeFile.path)} />
+            ) : activeFile ? (
+              <CodeEditor
+                value={activeFile.content}
+                onChange={() => {}}
+                language={languages[extension] ?? 'javascript'}
+                readOnly
+              />
+            ) : (
+              <div className="flex items-center justify-center h-full text-muted-foreground">{t('files')}</div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SharedProject;
@@ -0,0 +1,56 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useSearch } from 'wouter';
+import { Loader2 } from 'lucide-react';
+import { useI18n } from '@/lib/i18n';
+import { useAuth } from '@/contexts/auth-context';
+import { apiErrorMessage } from '@/lib/queryClient';
+import { AuthCard } from '@/components/layout/auth-card';
+import { Button } from '@/components/ui/button';
+
+/**
+ * Opened from a verification email; confirms the address as soon as it loads
+ */
+const VerifyEmail: React.FC = () => {
+  const { t } = useI18n();
+  const { user, verifyEmail } = useAuth();
+  const token = new URLSearchParams(useSearch()).get('token');
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>(token ? 'verifying' : 'failed');
+  const [error, setError] = useState<string | null>(null);
+  // Links work once, so React's doubled effects in development must not send it twice
+  const sent = useRef(false);
+
+  useEffect(() => {
+    if (!token || sent.current) return;
+    sent.current = true;
+
+    verifyEmail(token)
+      .then(() => setStatus('verified'))
+      .catch((err) => {
+        setError(apiErrorMessage(err));
+        setStatus('failed');
+      });
+  }, [token]);
+
+  return (
+    <AuthCard title={t('verifyEmail')}>
+      <div className="text-center space-y-6">
+        {status === 'verifying' ? (
+          <div className="flex flex-col items-center gap-3 text-sm text-muted-foreground">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            {t('verifyingEmail')}
+          </div>
+        ) : status === 'verified' ? (
+          <p className="text-sm">{t('emailVerified')}</p>
+        ) : (
+          <p className="text-sm text-destructive">{error || t('invalidLink')}</p>
+        )}
+        
+        <Button asChild className="w-full">
+          <Link href={user ? '/dashboard' : '/auth'}>{user ? t('dashboard') : t('login')}</Link>
+        </Button>
+      </div>
+    </AuthCard>
+  );
+};
+
+export default VerifyEmail;
@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from 'react';
+import { useLocation, useRoute } from 'wouter';
+import { Loader2, LogOut, Trash2 } from 'lucide-react';
+import { useI18n } from '@/lib/i18n';
+import { useAuth } from '@/contexts/auth-context';
+import { useWorkspace } from '@/contexts/workspace-context';
+import { hasRole } from '@shared/workspace-roles';
+import { Navbar } from '@/components/layout/navbar';
+import { useWorkspaceName } from '@/components/layout/workspace-switcher';
+import { MembersCard } from '@/components/workspace/members-card';
+import { InvitationsCard } from '@/components/workspace/invitations-card';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+
+/**
+ * A workspace's name, members and pending invitations. What can be changed
+ * depends on the user's role; personal workspaces have no members to manage.
+ */
+const WorkspaceSettings: React.FC = () => {
+  const { t } = useI18n();
+  const [, setLocation] = useLocation();
+  const [, params] = useRoute<{ id: string }>('/workspaces/:id');
+  const { user } = useAuth();
+  const { workspaces, loadingWorkspaces, selectWorkspace, renameWorkspace, deleteWorkspace, removeMember } = useWorkspace();
+  const workspaceName = useWorkspaceName();
+
+  const workspace = workspaces.find((w) => w.id === Number(params?.id));
+  const [name, setName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (workspace) setName(workspace.name);
+  }, [workspace?.id, workspace?.name]);
+
+  if (loadingWorkspaces) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const isPersonal = workspace?.personalUserId != null;
+  const isOwner = workspace?.role === 'owner';
+
+  // Back to the personal workspace once this one is gone
+  const leaveToDashboard = () => {
+    const personal = workspaces.find((w) => w.personalUserId === user?.id);
+    if (personal) selectWorkspace(personal.id);
+    setLocation('/dashboard');
+  };
+
+  const handleRename = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!workspace) return;
+    setIsSaving(true);
+    try {
+      await renameWorkspace(workspace.id, name.trim());
+    } catch {
+      // Reported by the workspace context
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleLeave = async () => {
+    if (!workspace || !user) return;
+    if (!window.confirm(`Leave "${workspace.name}"? You will lose access to its projects until you are invited again.`)) return;
+    await removeMember(workspace.id, user.id).then(leaveToDashboard, () => {});
+  };
+
+  const handleDelete = async () => {
+    if (!workspace) return;
+    if (!window.confirm(`Delete "${workspace.name}" and all of its projects? This cannot be undone.`)) return;
+    await deleteWorkspace(workspace.id).then(leaveToDashboard, () => {});
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Navbar />
+
+      <main className="flex-1 container mx-auto px-4 py-8 max-w-3xl">
+        {!workspace ? (
+          <p className="text-muted-foreground">{t('workspaceNotFound')}</p>
+        ) : (
+          <>
+            <h1 className="text-3xl font-bold mb-8">{workspaceName(workspace)}</h1>
+
+            {isPersonal ? (
+              <p className="text-muted-foreground">{t('personalWorkspaceHint')}</p>
+            ) : (
+              <div className="space-y-8">
+                {isOwner && (
+                  <Card>
+                    <CardHeader>
+                      <CardTitle>{t('workspaceSettings')}</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <form onSubmit={handleRename} className="flex gap-2">
+                        <Input
+                          value={name}
+                          placeholder={t('workspaceName')}
+                          maxLength={100}
+                          onChange={(e) => setName(e.target.value)}
+                        />
+                        <Button type="submit" disabled={!name.trim() || name.trim() === workspace.name || isSaving}>
+                          {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />} {t('save')}
+                        </Button>
+                      </form>
+                    </CardContent>
+                  </Card>
+                )}
+
+                <MembersCard workspace={workspace} />
+
+                {hasRole(workspace.role, 'admin') && <InvitationsCard workspace={workspace} />}
+
+                <div className="flex flex-wrap gap-2">
+                  <Button variant="outline" onClick={handleLeave}>
+                    <LogOut className="mr-2 h-4 w-4" /> {t('leaveWorkspace')}
+                  </Button>
+                  {isOwner && (
+                    <Button variant="destructive" onClick={handleDelete}>
+                      <Trash2 className="mr-2 h-4 w-4" /> {t('deleteWorkspace')}
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default WorkspaceSettings;
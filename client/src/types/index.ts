@@ -1,3 +1,5 @@
+import type { CollaboratorRole, WorkspaceRole } from '@shared/workspace-roles';
+
 // User types
 export interface User {
   id: number;
@@ -5,19 +7,144 @@ export interface User {
   email: string;
   displayName?: string;
   photoURL?: string;
+  authProvider?: 'password' | 'firebase';
+  emailVerifiedAt?: Date | null; // null until the user confirms their email
+  totpEnabledAt?: Date | null; // when two-factor authentication was turned on
+  recoveryCodesLeft?: number;
+  createdAt: Date;
+}
+
+// A signed-in device; `current` marks the session making the request
+export interface UserSession {
+  id: number;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: Date;
+  lastActiveAt: Date;
+  expiresAt: Date;
+  current: boolean;
+  twoFactorVerified: boolean; // whether it passed two-factor authentication
+}
+
+// Personal access tokens, for calling the API with an Authorization header
+export type AccessTokenScope = 'read' | 'write' | 'ai';
+
+export interface AccessToken {
+  id: number;
+  name: string;
+  prefix: string; // start of the token, to tell tokens apart
+  scopes: AccessTokenScope[];
+  lastUsedAt: Date | null;
+  createdAt: Date;
+}
+
+// Only the response that creates a token includes the token itself
+export interface CreatedAccessToken extends AccessToken {
+  token: string;
+}
+
+// Sign-ins of users with two-factor authentication stop short of a session
+// until they enter a code
+export interface SignInResult {
+  twoFactorRequired: boolean;
+}
+
+// A code from the authenticator app, or a recovery code in its place
+export type SecondFactor = { code: string } | { recoveryCode: string };
+
+// A new authenticator secret, to scan as a QR code or type in
+export interface TwoFactorSetup {
+  secret: string;
+  uri: string;
+  qrCode: string; // data URL of the QR code image
+}
+
+// Workspace types: teams that own projects, with a role for each member
+// (see shared/workspace-roles)
+export type { WorkspaceRole };
+
+export interface Workspace {
+  id: number;
+  name: string;
+  personalUserId: number | null; // set on the user's own personal workspace
+  role: WorkspaceRole; // the current user's role
   createdAt: Date;
 }
 
+export interface WorkspaceMember {
+  userId: number;
+  role: WorkspaceRole;
+  username: string;
+  displayName: string | null;
+  email: string;
+  photoURL: string | null;
+  createdAt: Date; // when they joined
+}
+
+export interface WorkspaceInvitation {
+  id: number;
+  email: string;
+  role: WorkspaceRole;
+  invitedBy: number | null;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+// What the invitation link shows before it is accepted
+export interface InvitationDetails {
+  workspace: { id: number; name: string };
+  email: string;
+  role: WorkspaceRole;
+  invitedBy: string | null;
+  expiresAt: Date;
+}
+
 // Project types
 export interface Project {
   id: number;
   name: string;
   description?: string;
-  userId: number;
+  userId: number; // who created it
+  workspaceId: number;
   framework: string;
   backend: string;
   createdAt: Date;
   updatedAt: Date;
+  deletedAt?: Date | null;
+  forkedFromId?: number | null;
+}
+
+// Sharing one project: users outside its workspace with a role on just this
+// project, and public read-only links
+export type { CollaboratorRole };
+
+export interface ProjectCollaborator {
+  userId: number;
+  role: CollaboratorRole;
+  username: string;
+  displayName: string | null;
+  email: string;
+  photoURL: string | null;
+  createdAt: Date; // when the project was shared with them
+}
+
+export interface ShareLink {
+  id: number;
+  projectId: number;
+  createdBy: number | null;
+  expiresAt: Date | null; // null for links that work until revoked
+  createdAt: Date;
+}
+
+// Only the response that creates a link includes its token
+export interface CreatedShareLink extends ShareLink {
+  token: string;
+}
+
+// What a public link opens
+export interface SharedProject {
+  project: Project;
+  files: ProjectFile[];
 }
 
 export interface CreateProjectInput {
@@ -30,12 +157,18 @@ export interface CreateProjectInput {
 // File types
 export interface ProjectFile {
   id: number;
-  name: string;
+  name: string; // last segment of path
   content: string;
-  path: string;
+  path: string; // full path within the project, e.g. "src/App.jsx"
   projectId: number;
+  version: number; // bumped on every content change; sent back in If-Match
+  // Set for binary assets, whose bytes are served from the raw file URL
+  blobKey: string | null;
+  mimeType: string | null;
+  size: number | null;
   createdAt: Date;
   updatedAt: Date;
+  deletedAt?: Date | null;
 }
 
 export interface CreateFileInput {
@@ -45,6 +178,35 @@ export interface CreateFileInput {
   projectId: number;
 }
 
+// File revision types
+export type RevisionSource = 'manual' | 'ai' | 'clean' | 'restore' | 'import' | 'replace' | 'duplicate';
+
+export interface FileRevision {
+  id: number;
+  fileId: number;
+  content: string;
+  authorId: number | null;
+  source: RevisionSource;
+  createdAt: Date;
+}
+
+export interface FileRevisionDiff {
+  from: number;
+  to: number;
+  diff: string;
+}
+
+// Snapshot types (listings omit the captured file contents)
+export interface ProjectSnapshot {
+  id: number;
+  projectId: number;
+  name: string;
+  automatic: boolean;
+  createdBy: number | null;
+  createdAt: Date;
+  fileCount: number;
+}
+
 // Template types
 export interface Template {
   id: number;
@@ -60,6 +222,34 @@ export interface Template {
 // AI model types
 export type AIModel = 'openai' | 'anthropic';
 
+// Project search
+export interface SearchOptions {
+  query: string;
+  regex: boolean;
+  caseSensitive: boolean;
+  include: string; // comma-separated globs
+  exclude: string;
+}
+
+export interface SearchMatch {
+  line: number; // 1-based
+  column: number; // 1-based
+  length: number;
+  preview: string; // the matching line
+}
+
+export interface FileSearchResult {
+  fileId: number;
+  path: string;
+  matches: SearchMatch[];
+}
+
+export interface SearchResults {
+  results: FileSearchResult[];
+  matchCount: number;
+  truncated: boolean;
+}
+
 // Chat message types
 export interface ChatMessage {
   id: string;
@@ -72,23 +262,7 @@ export interface ChatMessage {
 export type PreviewDevice = 'desktop' | 'tablet' | 'mobile';
 
 // Framework and backend options
-export const frameworkOptions = [
-  'React + Tailwind CSS',
-  'React + MUI',
-  'Next.js',
-  'Vue.js',
-  'Angular',
-  'Svelte',
-];
-
-export const backendOptions = [
-  'Node.js + Express',
-  'Firebase',
-  'Django',
-  'Ruby on Rails',
-  'Spring Boot',
-  'Laravel',
-];
+export { frameworkOptions, backendOptions } from '@shared/project-options';
 
 export const modelOptions = [
   { value: 'openai', label: 'OpenAI GPT-4' },
@@ -97,3 +271,9 @@ export const modelOptions = [
 
 // Deployment options
 export type DeploymentPlatform = 'github' | 'vercel' | 'replit' | 'download';
+
+export interface ExportOptions {
+  format: 'zip' | 'tar.gz';
+  readme: boolean;
+  packageJson: boolean;
+}
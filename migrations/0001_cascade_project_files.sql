@@ -0,0 +1,3 @@
+ALTER TABLE "files" DROP CONSTRAINT "files_project_id_projects_id_fk";
+--> statement-breakpoint
+ALTER TABLE "files" ADD CONSTRAINT "files_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "files" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "deleted_at" timestamp;
\ No newline at end of file
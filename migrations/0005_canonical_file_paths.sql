@@ -0,0 +1,21 @@
+-- Store each file's full path in "path". Older rows hold either the directory
+-- ("src") or the full path with a leading slash ("/App.jsx").
+UPDATE "files" SET "path" = CASE
+  WHEN trim(both '/' from "path") = "name"
+    OR right(trim(both '/' from "path"), length("name") + 1) = '/' || "name"
+    THEN trim(both '/' from "path")
+  ELSE ltrim(trim(both '/' from "path") || '/' || "name", '/')
+END;--> statement-breakpoint
+-- Where live files now share a path, keep the most recently updated one and
+-- move the rest to the trash
+UPDATE "files" SET "deleted_at" = now() WHERE "id" IN (
+  SELECT "id" FROM (
+    SELECT "id", row_number() OVER (
+      PARTITION BY "project_id", "path" ORDER BY "updated_at" DESC, "id" DESC
+    ) AS "rank"
+    FROM "files"
+    WHERE "deleted_at" IS NULL
+  ) AS "ranked"
+  WHERE "rank" > 1
+);--> statement-breakpoint
+CREATE UNIQUE INDEX "files_project_path_unique" ON "files" USING btree ("project_id","path") WHERE "files"."deleted_at" is null;
@@ -0,0 +1,3 @@
+ALTER TABLE "files" ADD COLUMN "blob_key" text;--> statement-breakpoint
+ALTER TABLE "files" ADD COLUMN "mime_type" text;--> statement-breakpoint
+ALTER TABLE "files" ADD COLUMN "size" integer;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "projects" ADD COLUMN "forked_from_id" integer;--> statement-breakpoint
+ALTER TABLE "projects" ADD CONSTRAINT "projects_forked_from_id_projects_id_fk" FOREIGN KEY ("forked_from_id") REFERENCES "public"."projects"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "users" ALTER COLUMN "password" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "auth_provider" text DEFAULT 'password' NOT NULL;--> statement-breakpoint
+-- Firebase accounts were given the placeholder password "firebase-auth", which
+-- worked as a real password; they now have none
+UPDATE "users" SET "auth_provider" = 'firebase', "password" = NULL WHERE "password" = 'firebase-auth';
@@ -0,0 +1,15 @@
+CREATE TABLE "user_sessions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"sid" text NOT NULL,
+	"user_id" integer,
+	"data" jsonb NOT NULL,
+	"user_agent" text,
+	"ip_address" text,
+	"expires_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"last_active_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "user_sessions_sid_unique" UNIQUE("sid")
+);
+--> statement-breakpoint
+ALTER TABLE "user_sessions" ADD CONSTRAINT "user_sessions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "user_sessions_user_id_idx" ON "user_sessions" USING btree ("user_id");
\ No newline at end of file
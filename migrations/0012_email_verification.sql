@@ -0,0 +1,3 @@
+ALTER TABLE "users" ADD COLUMN "email_verified_at" timestamp;--> statement-breakpoint
+-- Accounts from before verification existed keep everything they could do
+UPDATE "users" SET "email_verified_at" = "created_at";
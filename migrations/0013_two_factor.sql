@@ -0,0 +1,4 @@
+ALTER TABLE "users" ADD COLUMN "totp_secret" text;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "totp_enabled_at" timestamp;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "totp_recovery_codes" text[];--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "totp_last_step" integer;
\ No newline at end of file
@@ -0,0 +1,97 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { requiredScopes } from "./access-tokens";
+import { startTestApp, type TestClient } from "./test-app";
+
+describe("requiredScopes", () => {
+  it("classifies paths the way Express routes them", () => {
+    for (const path of ["/api/auth/tokens", "/api/Auth/tokens", "/API/AUTH/TOKENS", "/api/auth/tokens/", "/api/auth"]) {
+      assert.equal(requiredScopes("POST", path), null, path);
+    }
+    for (const path of ["/api/auth/me", "/api/Auth/Me", "/api/auth/me/"]) {
+      assert.deepEqual(requiredScopes("GET", path), ["read"], path);
+    }
+    for (const path of ["/api/ai/generate", "/api/AI/generate", "/Api/Ai/Generate/"]) {
+      assert.deepEqual(requiredScopes("POST", path), ["ai"], path);
+    }
+    for (const path of ["/api/ai/generate-app", "/api/AI/Generate-App/"]) {
+      assert.deepEqual(requiredScopes("POST", path), ["ai", "write"], path);
+    }
+    assert.deepEqual(requiredScopes("POST", "/api/projects"), ["write"]);
+    assert.deepEqual(requiredScopes("GET", "/api/Projects"), ["read"]);
+    // Only whole segments count
+    assert.deepEqual(requiredScopes("POST", "/api/authors"), ["write"]);
+  });
+});
+
+describe("access token authentication", () => {
+  let app: Awaited<ReturnType<typeof startTestApp>>;
+  let owner: TestClient;
+
+  before(async () => {
+    app = await startTestApp();
+    const signedUp = await app.signUp();
+    owner = signedUp.client;
+    // AI routes are only open to verified addresses
+    await app.storage.updateUser(signedUp.user.id, { emailVerifiedAt: new Date() });
+  });
+
+  after(() => app.close());
+
+  const tokenClient = async (scopes: string[]) => {
+    const created = await owner.post("/api/auth/tokens", { name: scopes.join("+"), scopes });
+    assert.equal(created.status, 201);
+    return app.client({ Authorization: `Bearer ${created.body.token}` });
+  };
+
+  it("never lets a token manage the account, whatever the path's case", async () => {
+    const token = await tokenClient(["read", "write"]);
+    const requests: Array<[string, string, unknown?]> = [
+      ["POST", "/api/Auth/tokens", { name: "escalated", scopes: ["ai", "read", "write"] }],
+      ["POST", "/API/AUTH/TOKENS/", { name: "escalated", scopes: ["ai", "read", "write"] }],
+      ["GET", "/api/Auth/tokens"],
+      ["GET", "/api/AUTH/sessions"],
+      ["POST", "/api/Auth/2fa/setup"],
+    ];
+    for (const [method, path, body] of requests) {
+      const response = await token.request(method, path, body);
+      assert.equal(response.status, 403, `${method} ${path}`);
+      assert.equal(response.body.message, "Access tokens cannot be used for this request");
+    }
+
+    const tokens = await owner.get("/api/auth/tokens");
+    assert.equal(tokens.body.length, 1);
+  });
+
+  it("requires the ai scope for AI routes, whatever the path's case", async () => {
+    const token = await tokenClient(["read", "write"]);
+    for (const path of ["/api/ai/generate", "/api/AI/generate", "/Api/Ai/Generate"]) {
+      const response = await token.post(path, { prompt: "hello" });
+      assert.equal(response.status, 403, path);
+      assert.equal(response.body.message, 'Access token lacks the "ai" scope');
+    }
+  });
+
+  it("requires the write scope as well for AI routes that change a project", async () => {
+    const projectId = (await owner.post("/api/projects", { name: "Generated", framework: "react", backend: "express" })).body.id;
+
+    const aiOnly = await tokenClient(["ai"]);
+    const refused = await aiOnly.post("/api/ai/generate-app", { description: "a todo app", projectId });
+    assert.equal(refused.status, 403);
+    assert.equal(refused.body.message, 'Access token lacks the "write" scope');
+
+    // Past the scope check, the handler itself answers
+    const aiWrite = await tokenClient(["ai", "write"]);
+    const accepted = await aiWrite.post("/api/ai/generate-app", { projectId });
+    assert.equal(accepted.status, 400);
+    assert.equal(accepted.body.message, "Description is required");
+  });
+
+  it("requires the write scope for writes, whatever the path's case", async () => {
+    const token = await tokenClient(["read"]);
+    assert.equal((await token.get("/API/Projects")).status, 200);
+    const response = await token.post("/API/Projects", { name: "Nope", framework: "react", backend: "express" });
+    assert.equal(response.status, 403);
+    assert.equal(response.body.message, 'Access token lacks the "write" scope');
+  });
+});
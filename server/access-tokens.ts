@@ -0,0 +1,97 @@
+import { createHash, randomBytes } from "crypto";
+import type { Request, RequestHandler } from "express";
+import type { AccessTokenScope } from "@shared/schema";
+import { storage } from "./storage";
+
+// Marks the strings as ours, so they are easy to spot in logs and secret scanners
+const TOKEN_PREFIX = "xgp_";
+const TOKEN_BYTES = 32;
+
+// How often lastUsedAt is rewritten for a token in steady use
+const LAST_USED_PRECISION_MS = 60 * 1000;
+
+// Tokens are random, so a fast unsalted hash is enough to look them up by
+export function hashAccessToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// A new token, and what is stored of it
+export function generateAccessToken() {
+  const token = TOKEN_PREFIX + randomBytes(TOKEN_BYTES).toString("base64url");
+  return {
+    token,
+    tokenHash: hashAccessToken(token),
+    prefix: token.slice(0, TOKEN_PREFIX.length + 6),
+  };
+}
+
+// The path as Express routes it: case-insensitively and with or without a
+// trailing slash, so "/API/Auth/tokens/" reaches the same handler as
+// "/api/auth/tokens" and must be classified the same way
+function routedPath(path: string): string {
+  return path.toLowerCase().replace(/\/+$/, "");
+}
+
+function isUnder(path: string, prefix: string): boolean {
+  return path === prefix || path.startsWith(prefix + "/");
+}
+
+// AI routes that write what they generate into a project
+const AI_WRITE_PATHS = ["/api/ai/generate-app"];
+
+// The scopes a token needs for a request, or null when tokens may not make it.
+// Tokens cannot manage the account, its sessions or other tokens, and AI
+// routes that change a project need the "write" scope as well.
+export function requiredScopes(method: string, path: string): AccessTokenScope[] | null {
+  const routed = routedPath(path);
+  if (isUnder(routed, "/api/auth")) {
+    return method === "GET" && routed === "/api/auth/me" ? ["read"] : null;
+  }
+  if (isUnder(routed, "/api/ai")) {
+    return AI_WRITE_PATHS.includes(routed) ? ["ai", "write"] : ["ai"];
+  }
+  return method === "GET" || method === "HEAD" ? ["read"] : ["write"];
+}
+
+function bearerToken(req: Request): string | undefined {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.get("authorization") ?? "");
+  return match?.[1];
+}
+
+// Accept an `Authorization: Bearer <token>` header on API requests. Must run
+// before the session middleware, so a token request is never given a stored
+// session or a cookie; handlers still find the user in req.session.
+export const bearerAuthentication: RequestHandler = async (req, res, next) => {
+  const token = bearerToken(req);
+  if (!token || !isUnder(routedPath(req.path), "/api")) return next();
+
+  try {
+    const accessToken = await storage.getAccessTokenByHash(hashAccessToken(token));
+    if (!accessToken) {
+      return res.status(401).json({ message: "Invalid access token" });
+    }
+
+    const scopes = requiredScopes(req.method, req.path);
+    if (!scopes) {
+      return res.status(403).json({ message: "Access tokens cannot be used for this request" });
+    }
+    const missing = scopes.find((scope) => !accessToken.scopes.includes(scope));
+    if (missing) {
+      return res.status(403).json({ message: `Access token lacks the "${missing}" scope` });
+    }
+
+    const now = new Date();
+    if (!accessToken.lastUsedAt || now.getTime() - accessToken.lastUsedAt.getTime() >= LAST_USED_PRECISION_MS) {
+      await storage.markAccessTokenUsed(accessToken.id, now);
+    }
+
+    // A stand-in for the session; express-session leaves requests that already
+    // have one alone. Nothing a token may call saves or destroys it.
+    req.accessToken = accessToken;
+    req.session = { userId: accessToken.userId } as typeof req.session;
+    next();
+  } catch (error) {
+    console.error("Access token error:", error);
+    res.status(500).json({ message: "Failed to check access token" });
+  }
+};
@@ -0,0 +1,108 @@
+import type { Request } from "express";
+import type { CollaboratorRole, Project, User, Workspace, WorkspaceRole } from "@shared/schema";
+import { createAccountToken } from "./account-tokens";
+import { mailer } from "./mailer";
+
+// Where links in emails point. APP_URL is required in production: the Host
+// header is up to the client, and a reset link must not lead elsewhere. It is
+// checked when the server starts rather than when the first email is due.
+function configuredAppUrl(): string | undefined {
+  const url = process.env.APP_URL;
+  if (!url) {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("APP_URL must be set in production");
+    }
+    return undefined;
+  }
+  if (!URL.canParse(url)) {
+    throw new Error(`APP_URL is not a valid URL: ${url}`);
+  }
+  return url.replace(/\/+$/, "");
+}
+
+const appUrl = configuredAppUrl();
+
+export function appBaseUrl(req: Request): string {
+  return appUrl ?? `${req.protocol}://${req.get("host")}`;
+}
+
+function greeting(user: User): string {
+  return `Hi ${user.displayName || user.username},`;
+}
+
+export async function sendVerificationEmail(user: User, baseUrl: string): Promise<void> {
+  const link = `${baseUrl}/auth/verify-email?token=${createAccountToken(user, "email-verification")}`;
+  await mailer.send({
+    to: user.email,
+    subject: "Confirm your email address",
+    text: [
+      greeting(user),
+      "",
+      "Confirm your email address to finish setting up your Xalgrow account:",
+      link,
+      "",
+      "The link expires in 2 days. If you did not create an account, ignore this email.",
+    ].join("\n"),
+  });
+}
+
+export async function sendPasswordResetEmail(user: User, baseUrl: string): Promise<void> {
+  const link = `${baseUrl}/auth/reset-password?token=${createAccountToken(user, "password-reset")}`;
+  await mailer.send({
+    to: user.email,
+    subject: "Reset your password",
+    text: [
+      greeting(user),
+      "",
+      "Someone asked to reset the password of your Xalgrow account. Choose a new one here:",
+      link,
+      "",
+      "The link expires in 1 hour and works once. If you did not ask for this, ignore this email.",
+    ].join("\n"),
+  });
+}
+
+export async function sendWorkspaceInvitationEmail(
+  email: string,
+  inviter: User,
+  workspace: Workspace,
+  role: WorkspaceRole,
+  token: string,
+  baseUrl: string,
+): Promise<void> {
+  const link = `${baseUrl}/invitations/${token}`;
+  await mailer.send({
+    to: email,
+    subject: `Join ${workspace.name} on Xalgrow`,
+    text: [
+      "Hi,",
+      "",
+      `${inviter.displayName || inviter.username} invited you to the "${workspace.name}" workspace on Xalgrow as ${role === "admin" ? "an" : "a"} ${role}.`,
+      "Sign in or create an account with this email address, then accept the invitation here:",
+      link,
+      "",
+      "The link expires in 7 days. If you were not expecting this, ignore this email.",
+    ].join("\n"),
+  });
+}
+
+export async function sendProjectSharedEmail(
+  user: User,
+  sharer: User,
+  project: Project,
+  role: CollaboratorRole,
+  baseUrl: string,
+): Promise<void> {
+  const link = `${baseUrl}/editor/${project.id}`;
+  await mailer.send({
+    to: user.email,
+    subject: `${sharer.displayName || sharer.username} shared ${project.name} with you`,
+    text: [
+      greeting(user),
+      "",
+      `${sharer.displayName || sharer.username} shared the project "${project.name}" with you on Xalgrow as ${role === "editor" ? "an editor" : "a viewer"}.`,
+      "Open it here, or find it under Shared with me on your dashboard:",
+      link,
+    ].join("\n"),
+  });
+}
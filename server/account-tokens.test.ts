@@ -0,0 +1,35 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createAccountToken } from "./account-tokens";
+import { startTestApp } from "./test-app";
+
+describe("password reset", () => {
+  let app: Awaited<ReturnType<typeof startTestApp>>;
+
+  before(async () => {
+    app = await startTestApp();
+  });
+
+  after(() => app.close());
+
+  it("signs the account out everywhere and revokes its access tokens", async () => {
+    const { client, user } = await app.signUp();
+    const created = await client.post("/api/auth/tokens", { name: "ci", scopes: ["read"] });
+    assert.equal(created.status, 201);
+    const token = app.client({ Authorization: `Bearer ${created.body.token}` });
+    assert.equal((await token.get("/api/projects")).status, 200);
+
+    const resetToken = createAccountToken((await app.storage.getUser(user.id))!, "password-reset");
+    const reset = await app.client().post("/api/auth/reset-password", { token: resetToken, password: "another123" });
+    assert.equal(reset.status, 200);
+
+    assert.deepEqual(await app.storage.getSessionsByUserId(user.id), []);
+    assert.deepEqual(await app.storage.getAccessTokensByUserId(user.id), []);
+    assert.equal((await client.get("/api/auth/me")).status, 401);
+    assert.equal((await token.get("/api/projects")).status, 401);
+
+    // The link works once
+    const again = await app.client().post("/api/auth/reset-password", { token: resetToken, password: "third1234" });
+    assert.equal(again.status, 400);
+  });
+});
@@ -0,0 +1,83 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { User } from "@shared/schema";
+import { storage } from "./storage";
+
+export type AccountTokenPurpose = "password-reset" | "email-verification";
+
+const TOKEN_LIFETIMES_MS: Record<AccountTokenPurpose, number> = {
+  "password-reset": 60 * 60 * 1000, // 1 hour
+  "email-verification": 48 * 60 * 60 * 1000, // 2 days
+};
+
+// The link's token is malformed, expired, already used or not for this purpose
+export class AccountTokenError extends Error {
+  constructor() {
+    super("This link is invalid or has expired");
+    this.name = "AccountTokenError";
+  }
+}
+
+// ACCOUNT_TOKEN_SECRET, or the session secret when it is not set
+function signingSecret(): string {
+  const secret = process.env.ACCOUNT_TOKEN_SECRET || process.env.SESSION_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("ACCOUNT_TOKEN_SECRET or SESSION_SECRET must be set in production");
+  }
+  return "xalgrow-account-token-secret";
+}
+
+// What a token is bound to besides its payload. Using the token changes it -
+// a reset replaces the password hash, a verification sets emailVerifiedAt -
+// so each token works once, and a reset link dies with the password it was
+// sent for.
+function accountState(user: User, purpose: AccountTokenPurpose): string {
+  return purpose === "password-reset"
+    ? `${user.authProvider}:${user.password ?? ""}`
+    : `${user.email}:${user.emailVerifiedAt?.toISOString() ?? ""}`;
+}
+
+function sign(payload: string, state: string): Buffer {
+  return createHmac("sha256", signingSecret()).update(`${payload}.${state}`).digest();
+}
+
+interface TokenPayload {
+  sub: number;
+  purpose: AccountTokenPurpose;
+  exp: number;
+}
+
+// A signed, expiring, single-use token for a link in an account email. Nothing
+// is stored; the signature covers the user's current account state instead.
+export function createAccountToken(user: User, purpose: AccountTokenPurpose): string {
+  const body: TokenPayload = { sub: user.id, purpose, exp: Date.now() + TOKEN_LIFETIMES_MS[purpose] };
+  const payload = Buffer.from(JSON.stringify(body)).toString("base64url");
+  return `${payload}.${sign(payload, accountState(user, purpose)).toString("base64url")}`;
+}
+
+// The user a token was issued to, once its signature, purpose and expiry check
+// out against the account as it is now
+export async function verifyAccountToken(token: string, purpose: AccountTokenPurpose): Promise<User> {
+  const [payload, signature, ...rest] = token.split(".");
+  if (!payload || !signature || rest.length > 0) throw new AccountTokenError();
+
+  let body: Partial<TokenPayload>;
+  try {
+    body = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+  } catch {
+    throw new AccountTokenError();
+  }
+  if (body.purpose !== purpose || typeof body.sub !== "number" || typeof body.exp !== "number" || body.exp < Date.now()) {
+    throw new AccountTokenError();
+  }
+
+  const user = await storage.getUser(body.sub);
+  if (!user) throw new AccountTokenError();
+
+  const expected = sign(payload, accountState(user, purpose));
+  const given = Buffer.from(signature, "base64url");
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    throw new AccountTokenError();
+  }
+  return user;
+}
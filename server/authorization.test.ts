@@ -0,0 +1,116 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { startTestApp, type TestClient } from "./test-app";
+
+describe("project and file authorization", () => {
+  let app: Awaited<ReturnType<typeof startTestApp>>;
+  let owner: TestClient;
+  let ownerId: number;
+  let projectId: number;
+  let fileId: number;
+
+  before(async () => {
+    app = await startTestApp();
+    const signedUp = await app.signUp();
+    owner = signedUp.client;
+    ownerId = signedUp.user.id;
+
+    projectId = (await owner.post("/api/projects", { name: "Private", framework: "react", backend: "express" })).body.id;
+    fileId = (await owner.post(`/api/projects/${projectId}/files`, { path: "src/App.jsx", content: "secret" })).body.id;
+  });
+
+  after(() => app.close());
+
+  // A project in a team workspace of the owner's, with a member of the given role
+  const teamProject = async (role: "editor" | "viewer") => {
+    const workspace = (await owner.post("/api/workspaces", { name: "Team" })).body;
+    const { client, user } = await app.signUp();
+    await app.storage.addWorkspaceMember({ workspaceId: workspace.id, userId: user.id, role });
+    const project = (await owner.post("/api/projects", { name: "Shared", framework: "react", backend: "express", workspaceId: workspace.id })).body;
+    const file = (await owner.post(`/api/projects/${project.id}/files`, { path: "index.js", content: "1" })).body;
+    return { client, project, file };
+  };
+
+  it("answers 401 to anonymous requests", async () => {
+    const anonymous = app.client();
+    for (const [method, path] of [
+      ["GET", "/api/projects"],
+      ["GET", `/api/projects/${projectId}`],
+      ["GET", `/api/projects/${projectId}/files`],
+      ["PUT", `/api/files/${fileId}`],
+      ["DELETE", `/api/projects/${projectId}`],
+    ]) {
+      assert.equal((await anonymous.request(method, path)).status, 401, `${method} ${path}`);
+    }
+  });
+
+  it("answers 403 to another user on every project and file route", async () => {
+    const { client: outsider } = await app.signUp();
+    const requests: Array<[string, string, unknown?]> = [
+      ["GET", `/api/projects/${projectId}`],
+      ["PUT", `/api/projects/${projectId}`, { name: "Taken" }],
+      ["DELETE", `/api/projects/${projectId}`],
+      ["GET", `/api/projects/${projectId}/files`],
+      ["POST", `/api/projects/${projectId}/files`, { path: "evil.js", content: "" }],
+      ["PUT", `/api/files/${fileId}`, { content: "overwritten" }],
+      ["DELETE", `/api/files/${fileId}`],
+      ["GET", `/api/files/${fileId}/revisions`],
+      ["GET", `/api/projects/${projectId}/snapshots`],
+      ["POST", `/api/projects/${projectId}/snapshots`, { name: "mine" }],
+      ["GET", `/api/projects/${projectId}/export`],
+      ["GET", `/api/projects/${projectId}/search?query=secret`],
+      ["POST", `/api/projects/${projectId}/replace`, { query: "secret", replacement: "x" }],
+      ["GET", `/api/projects/${projectId}/raw/src/App.jsx`],
+    ];
+    for (const [method, path, body] of requests) {
+      assert.equal((await outsider.request(method, path, body)).status, 403, `${method} ${path}`);
+    }
+
+    // Nothing changed
+    const file = await owner.get(`/api/projects/${projectId}/files`);
+    assert.deepEqual(file.body.map((f: { content: string }) => f.content), ["secret"]);
+    assert.equal((await owner.get(`/api/projects/${projectId}`)).body.name, "Private");
+  });
+
+  it("lets workspace viewers read but not write", async () => {
+    const { client: viewer, project, file } = await teamProject("viewer");
+
+    assert.equal((await viewer.get(`/api/projects/${project.id}`)).status, 200);
+    assert.equal((await viewer.get(`/api/projects/${project.id}/files`)).status, 200);
+    assert.equal((await viewer.put(`/api/files/${file.id}`, { content: "2" })).status, 403);
+    assert.equal((await viewer.post(`/api/projects/${project.id}/files`, { path: "new.js", content: "" })).status, 403);
+    assert.equal((await viewer.delete(`/api/files/${file.id}`)).status, 403);
+  });
+
+  it("lets workspace editors write", async () => {
+    const { client: editor, project, file } = await teamProject("editor");
+
+    assert.equal((await editor.put(`/api/files/${file.id}`, { content: "2" })).status, 200);
+    assert.equal((await editor.post(`/api/projects/${project.id}/files`, { path: "new.js", content: "" })).status, 201);
+  });
+
+  it("lets collaborators remove only themselves", async () => {
+    const { client: first, user: firstUser } = await app.signUp();
+    const { user: secondUser } = await app.signUp();
+    for (const user of [firstUser, secondUser]) {
+      const added = await owner.post(`/api/projects/${projectId}/collaborators`, { email: user.email, role: "viewer" });
+      assert.equal(added.status, 201);
+    }
+
+    assert.equal((await first.get(`/api/projects/${projectId}`)).status, 200);
+    assert.equal((await first.delete(`/api/projects/${projectId}/collaborators/${secondUser.id}`)).status, 403);
+    assert.equal((await first.delete(`/api/projects/${projectId}/collaborators/${ownerId}`)).status, 403);
+    assert.equal((await first.delete(`/api/projects/${projectId}/collaborators/${firstUser.id}`)).status, 200);
+    assert.equal((await first.get(`/api/projects/${projectId}`)).status, 403);
+  });
+
+  it("shares with a collaborator whatever the case of their email", async () => {
+    const { client: invitee, user } = await app.signUp();
+    const added = await owner.post(`/api/projects/${projectId}/collaborators`, {
+      email: ` ${user.email.toUpperCase()} `,
+      role: "viewer",
+    });
+    assert.equal(added.status, 201);
+    assert.equal((await invitee.get(`/api/projects/${projectId}`)).status, 200);
+  });
+});
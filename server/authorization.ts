@@ -0,0 +1,215 @@
+import type { Request, RequestHandler, Response } from "express";
+import type { Project, Workspace, WorkspaceRole } from "@shared/schema";
+import { hasRole } from "@shared/workspace-roles";
+import { storage } from "./storage";
+import { startUserSession } from "./sessions";
+
+// The user's role in the workspace, or undefined when they are not a member
+export async function workspaceRole(userId: number, workspaceId: number): Promise<WorkspaceRole | undefined> {
+  const member = await storage.getWorkspaceMember(workspaceId, userId);
+  return member?.role;
+}
+
+// The user's role on a project: their role in its workspace or, when higher,
+// the role the project was shared with them as a collaborator
+export async function projectRole(userId: number, project: Project): Promise<WorkspaceRole | undefined> {
+  const role = await workspaceRole(userId, project.workspaceId);
+  const collaborator = await storage.getProjectCollaborator(project.id, userId);
+  if (!collaborator || hasRole(role, collaborator.role)) return role;
+  return collaborator.role;
+}
+
+// Whether a user holds at least the given role on a project; viewers may open
+// it, editors change it (see shared/workspace-roles)
+export async function canAccessProject(
+  userId: number,
+  project: Project,
+  least: WorkspaceRole = "viewer",
+): Promise<boolean> {
+  return hasRole(await projectRole(userId, project), least);
+}
+
+// 401 for requests without a signed-in user
+export const requireUser: RequestHandler = (req, res, next) => {
+  if (!req.session.userId) {
+    return res.status(401).json({ message: "Not authenticated" });
+  }
+  next();
+};
+
+// 403 for users who have not confirmed their email address; features open to
+// abuse by throwaway accounts, such as AI generation, wait until they have
+export const requireVerifiedEmail: RequestHandler = async (req, res, next) => {
+  try {
+    const user = await storage.getUser(req.session.userId!);
+    if (!user?.emailVerifiedAt) {
+      return res.status(403).json({ message: "Confirm your email address to use this feature" });
+    }
+    next();
+  } catch (error) {
+    console.error("Verified email check error:", error);
+    res.status(500).json({ message: "Failed to authorize request" });
+  }
+};
+
+// Whether the request may take a sensitive action, such as creating an access
+// token or deleting a project for good: users with two-factor authentication
+// need a session that passed it since it was enabled. Otherwise a 403 with
+// `twoFactorRequired` has been sent, and the client can ask for a code
+// (POST /api/auth/2fa/verify) and try again. Access tokens pass; creating one
+// took the second factor.
+export async function ensureTwoFactor(req: Request, res: Response): Promise<boolean> {
+  if (req.accessToken) return true;
+
+  const user = await storage.getUser(req.session.userId!);
+  const verifiedAt = req.session.twoFactorVerifiedAt;
+  if (user?.totpEnabledAt && !(verifiedAt && verifiedAt >= user.totpEnabledAt.getTime())) {
+    res.status(403).json({ message: "Enter a two-factor authentication code to continue", twoFactorRequired: true });
+    return false;
+  }
+  return true;
+}
+
+export const requireTwoFactor: RequestHandler = async (req, res, next) => {
+  try {
+    if (await ensureTwoFactor(req, res)) next();
+  } catch (error) {
+    console.error("Two-factor check error:", error);
+    res.status(500).json({ message: "Failed to authorize request" });
+  }
+};
+
+// The project when the current user holds at least the given role on it;
+// otherwise the 404 or 403 has been sent and the result is undefined
+export async function authorizeProject(
+  res: Response,
+  userId: number,
+  project: Project | undefined,
+  least: WorkspaceRole = "editor",
+): Promise<Project | undefined> {
+  if (!project) {
+    res.status(404).json({ message: "Project not found" });
+    return undefined;
+  }
+  if (!(await canAccessProject(userId, project, least))) {
+    res.status(403).json({ message: "Unauthorized access to project" });
+    return undefined;
+  }
+  return project;
+}
+
+// Whether the current user holds at least the given role in the workspace of a
+// project they may access, for what only its members may do, such as sharing
+// the project or moving it to the trash; collaborators do not count. Sends a
+// 403 when not.
+export async function ensureProjectMember(
+  res: Response,
+  userId: number,
+  project: Project,
+  least: WorkspaceRole,
+): Promise<boolean> {
+  if (!hasRole(await workspaceRole(userId, project.workspaceId), least)) {
+    res.status(403).json({ message: "Only members of the project's workspace can do this" });
+    return false;
+  }
+  return true;
+}
+
+// The workspace when the current user holds at least the given role in it;
+// otherwise the 404 or 403 has been sent and the result is undefined. Users
+// who are not members are told it does not exist.
+export async function authorizeWorkspace(
+  res: Response,
+  userId: number,
+  workspaceId: number,
+  least: WorkspaceRole,
+): Promise<Workspace | undefined> {
+  const role = Number.isSafeInteger(workspaceId) ? await workspaceRole(userId, workspaceId) : undefined;
+  const workspace = role && (await storage.getWorkspace(workspaceId));
+  if (!workspace) {
+    res.status(404).json({ message: "Workspace not found" });
+    return undefined;
+  }
+  if (!hasRole(role, least)) {
+    res.status(403).json({ message: "Your role in this workspace does not allow this" });
+    return undefined;
+  }
+  return workspace;
+}
+
+// The role a request needs on the project or file it names: reading takes a
+// viewer, anything else an editor. Duplicating only reads the source; the
+// route checks the workspace the copy goes to. Collaborators may remove
+// themselves from a project whatever their role.
+function requiredRole(req: Request): WorkspaceRole {
+  if (req.method === "GET" || req.method === "HEAD") return "viewer";
+  if (req.method === "POST" && /^\/duplicate\/?$/.test(req.path)) return "viewer";
+  if (req.method === "DELETE" && /^\/collaborators\/(\d+)\/?$/.exec(req.path)?.[1] === String(req.session.userId)) {
+    return "viewer";
+  }
+  return "editor";
+}
+
+// Paths under /api/projects that name a collection rather than a project
+const projectCollections = new Set(["trash", "import", "shared"]);
+
+// For routes under /api/projects/:projectId
+export const authorizeProjectRoute: RequestHandler = async (req, res, next) => {
+  try {
+    const { projectId } = req.params;
+    if (projectCollections.has(projectId)) return next();
+
+    const project = /^\d+$/.test(projectId) ? await storage.getProject(Number(projectId)) : undefined;
+    if (!(await authorizeProject(res, req.session.userId!, project, requiredRole(req)))) return;
+    next();
+  } catch (error) {
+    console.error("Authorize project error:", error);
+    res.status(500).json({ message: "Failed to authorize request" });
+  }
+};
+
+// For routes under /api/files/:fileId; access follows the file's project
+export const authorizeFileRoute: RequestHandler = async (req, res, next) => {
+  try {
+    const { fileId } = req.params;
+    const file = /^\d+$/.test(fileId) ? await storage.getFile(Number(fileId)) : undefined;
+    if (!file) {
+      return res.status(404).json({ message: "File not found" });
+    }
+
+    const project = await storage.getProject(file.projectId);
+    if (!(await authorizeProject(res, req.session.userId!, project, requiredRole(req)))) return;
+    next();
+  } catch (error) {
+    console.error("Authorize file error:", error);
+    res.status(500).json({ message: "Failed to authorize request" });
+  }
+};
+
+let mockUser: Promise<number> | undefined;
+
+// Development only, behind DEV_MOCK_AUTH=true: requests without a signed-in
+// user are signed in as a shared test user, so logging out has no lasting effect
+export const mockUserSession: RequestHandler = async (req, res, next) => {
+  if (req.session.userId) return next();
+  try {
+    mockUser ??= (async () => {
+      const existing = await storage.getUserByUsername("testuser");
+      if (existing) return existing.id;
+      const created = await storage.createUser({
+        username: "testuser",
+        email: "test@example.com",
+        password: null,
+        emailVerifiedAt: new Date(),
+        displayName: "Test User",
+      });
+      return created.id;
+    })();
+    await startUserSession(req, await mockUser);
+    next();
+  } catch (error) {
+    mockUser = undefined;
+    console.error("Mock user session error:", error);
+    res.status(500).json({ message: "Failed to sign in the mock user" });
+  }
+};
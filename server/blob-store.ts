@@ -0,0 +1,107 @@
+import { createHash, randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+// Where binary asset bytes live. Blobs are addressed by the SHA-256 of their
+// bytes, so identical uploads, duplicated files and snapshots share one copy
+// and a key never changes meaning. Blobs are not deleted with their files;
+// the blob sweep (see maintenance) removes the ones nothing refers to anymore.
+export interface BlobStore {
+  put(data: Buffer): Promise<string>;
+  get(key: string): Promise<Buffer | undefined>;
+  // Every stored blob, with when it was last put
+  list(): Promise<StoredBlob[]>;
+  // False when there was no such blob
+  delete(key: string): Promise<boolean>;
+}
+
+export interface StoredBlob {
+  key: string;
+  storedAt: Date;
+}
+
+const BLOB_KEY = /^[0-9a-f]{64}$/;
+
+// Blobs as files in a local directory, fanned out by the first two hex digits
+export class LocalBlobStore implements BlobStore {
+  constructor(private directory: string) {}
+
+  async put(data: Buffer): Promise<string> {
+    const key = createHash("sha256").update(data).digest("hex");
+    const target = this.pathOf(key);
+
+    try {
+      // Storing it again counts as new, so the sweep leaves it alone until the
+      // file that is about to use it has been saved
+      const now = new Date();
+      await fs.utimes(target, now, now);
+      return key;
+    } catch {
+      // Not stored yet
+    }
+
+    // Write under a temporary name first so readers never see a partial blob
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    const temporary = `${target}.${randomUUID()}.tmp`;
+    await fs.writeFile(temporary, data);
+    await fs.rename(temporary, target);
+    return key;
+  }
+
+  async get(key: string): Promise<Buffer | undefined> {
+    if (!BLOB_KEY.test(key)) return undefined;
+    try {
+      return await fs.readFile(this.pathOf(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  async list(): Promise<StoredBlob[]> {
+    const blobs: StoredBlob[] = [];
+    for (const prefix of await this.readDirectory(this.directory)) {
+      const directory = path.join(this.directory, prefix);
+      for (const key of await this.readDirectory(directory)) {
+        // Skips temporary files of writes in progress
+        if (!BLOB_KEY.test(key)) continue;
+        try {
+          const stats = await fs.stat(path.join(directory, key));
+          blobs.push({ key, storedAt: stats.mtime });
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+        }
+      }
+    }
+    return blobs;
+  }
+
+  async delete(key: string): Promise<boolean> {
+    if (!BLOB_KEY.test(key)) return false;
+    try {
+      await fs.unlink(this.pathOf(key));
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return false;
+      throw error;
+    }
+  }
+
+  // Entries of a directory that may not have been created yet
+  private async readDirectory(directory: string): Promise<string[]> {
+    try {
+      return await fs.readdir(directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+  }
+
+  private pathOf(key: string): string {
+    return path.join(this.directory, key.slice(0, 2), key);
+  }
+}
+
+export const blobStore: BlobStore = new LocalBlobStore(
+  process.env.BLOB_STORE_DIR || path.resolve("data", "blobs"),
+);
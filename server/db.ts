@@ -0,0 +1,23 @@
+import pg from "pg";
+import { drizzle } from "drizzle-orm/node-postgres";
+import { migrate } from "drizzle-orm/node-postgres/migrator";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import * as schema from "@shared/schema";
+
+// Any Drizzle Postgres database built with our schema. node-postgres is used in
+// production, but PGlite or another driver can be passed in for local testing.
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export const MIGRATIONS_FOLDER = "./migrations";
+
+export function createDatabase(connectionString: string) {
+  const pool = new pg.Pool({ connectionString });
+  const db = drizzle(pool, { schema });
+
+  return {
+    pool,
+    db,
+    // Apply the SQL migrations generated by `npm run db:generate`
+    migrate: () => migrate(db, { migrationsFolder: MIGRATIONS_FOLDER }),
+  };
+}
@@ -0,0 +1,29 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { defaultTemplates } from "./seed";
+import { createTestStorage } from "./test-database";
+import type { DrizzleStorage } from "./drizzle-storage";
+
+describe("DrizzleStorage on PGlite", () => {
+  let storage: DrizzleStorage;
+  let close: () => Promise<void>;
+
+  before(async () => {
+    ({ storage, close } = await createTestStorage());
+  });
+
+  after(() => close());
+
+  it("applies every migration and seeds the default templates", async () => {
+    const templates = await storage.getAllTemplates();
+    assert.deepEqual(
+      templates.map((template) => template.name),
+      defaultTemplates.map((template) => template.name)
+    );
+  });
+
+  it("seeds the templates only once", async () => {
+    await storage.seedTemplates();
+    assert.equal((await storage.getAllTemplates()).length, defaultTemplates.length);
+  });
+});
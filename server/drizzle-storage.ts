@@ -0,0 +1,1108 @@
+import { eq, and, asc, gt, inArray, isNull, isNotNull, lt, lte, notExists, or, sql } from "drizzle-orm";
+import {
+  users,
+  projects,
+  files,
+  fileRevisions,
+  projectSnapshots,
+  templates,
+  userSessions,
+  accessTokens,
+  workspaces,
+  workspaceMembers,
+  workspaceInvitations,
+  projectCollaborators,
+  projectShareLinks,
+  type User,
+  type InsertUser,
+  type UserSession,
+  type InsertUserSession,
+  type AccessToken,
+  type InsertAccessToken,
+  type Workspace,
+  type InsertWorkspace,
+  type UserWorkspace,
+  type WorkspaceMember,
+  type InsertWorkspaceMember,
+  type WorkspaceRole,
+  type WorkspaceInvitation,
+  type InsertWorkspaceInvitation,
+  type Project,
+  type InsertProject,
+  type ProjectCollaborator,
+  type InsertProjectCollaborator,
+  type ProjectShareLink,
+  type InsertProjectShareLink,
+  type File,
+  type InsertFile,
+  type FileRevision,
+  type FileOperation,
+  type FileOperationResult,
+  type InsertProjectSnapshot,
+  type ProjectSnapshot,
+  type Template,
+  type InsertTemplate,
+  snapshotContent,
+  withoutStaleBlob
+} from "@shared/schema";
+import {
+  FileNotFoundError,
+  FilePathConflictError,
+  assertPathAvailable,
+  baseName,
+  isWithinPath,
+  normalizeFilePath,
+  planMove,
+  resolveFullPath,
+  updatedFilePath,
+} from "@shared/file-paths";
+import { FileVersionConflictError } from "@shared/file-versions";
+import type { Database } from "./db";
+import { runFileBatch } from "./file-batch";
+import { defaultTemplates } from "./seed";
+import type { IStorage, OrphanReport, RevisionInfo, TrashPurgeReport } from "./storage";
+
+// storage.ts imports this module, so its runtime values are not imported back
+const manualRevision: RevisionInfo = { authorId: null, source: "manual" };
+
+function revisionOf(file: File, revision: RevisionInfo) {
+  return {
+    fileId: file.id,
+    content: file.content,
+    authorId: revision.authorId,
+    source: revision.source,
+    createdAt: file.updatedAt,
+  };
+}
+
+// Paths of a project's live files, leaving out the given file
+async function livePaths(db: Database, projectId: number, exceptId?: number): Promise<string[]> {
+  const rows = await db
+    .select({ id: files.id, path: files.path })
+    .from(files)
+    .where(and(eq(files.projectId, projectId), isNull(files.deletedAt)));
+  return rows.filter((row) => row.id !== exceptId).map((row) => row.path);
+}
+
+// Two writers can both pass the path check before either commits; the unique
+// index settles the race, and losing it is reported like a failed check
+async function withPathConflicts<T>(path: string, write: () => Promise<T>): Promise<T> {
+  try {
+    return await write();
+  } catch (error) {
+    if ((error as { code?: string }).code === "23505") {
+      throw new FilePathConflictError(path, path);
+    }
+    throw error;
+  }
+}
+
+// Share links still in use: without an expiry, or not yet past it
+function liveShareLink() {
+  return or(isNull(projectShareLinks.expiresAt), gt(projectShareLinks.expiresAt, new Date()));
+}
+
+// Insert a workspace with its owner as the first member. Callers wrap this in
+// a transaction.
+async function insertWorkspace(db: Database, insertWorkspace: InsertWorkspace, ownerId: number): Promise<Workspace> {
+  const [workspace] = await db.insert(workspaces).values(insertWorkspace).returning();
+  await db.insert(workspaceMembers).values({ workspaceId: workspace.id, userId: ownerId, role: "owner" });
+  return workspace;
+}
+
+// Insert a file along with its first revision. Callers wrap this in a transaction.
+async function insertFileWithRevision(
+  db: Database,
+  insertFile: InsertFile,
+  revision: RevisionInfo,
+): Promise<File> {
+  const path = normalizeFilePath(insertFile.path);
+  assertPathAvailable(await livePaths(db, insertFile.projectId), path);
+
+  const [file] = await withPathConflicts(path, () =>
+    db.insert(files).values({ ...insertFile, path, name: baseName(path) }).returning(),
+  );
+  await db.insert(fileRevisions).values(revisionOf(file, revision));
+  return file;
+}
+
+// Update a file, recording a revision and bumping its version when its content
+// changes. Callers wrap this in a transaction.
+async function updateFileWithRevision(
+  db: Database,
+  id: number,
+  fileData: Partial<InsertFile>,
+  revision: RevisionInfo,
+  expectedVersion?: number,
+): Promise<File | undefined> {
+  const [previous] = await db.select().from(files).where(eq(files.id, id)).for("update");
+  if (!previous) return undefined;
+
+  if (expectedVersion !== undefined && expectedVersion !== previous.version) {
+    throw new FileVersionConflictError(previous);
+  }
+
+  fileData = withoutStaleBlob(previous, fileData);
+  const contentChanged = fileData.content !== undefined && fileData.content !== previous.content;
+  const blobChanged = fileData.blobKey !== undefined && fileData.blobKey !== previous.blobKey;
+
+  const path = updatedFilePath(previous.path, fileData);
+  if (path !== previous.path && !previous.deletedAt) {
+    assertPathAvailable(await livePaths(db, previous.projectId, id), path);
+  }
+
+  const [file] = await withPathConflicts(path, () =>
+    db
+      .update(files)
+      .set({
+        ...fileData,
+        path,
+        name: baseName(path),
+        version: contentChanged || blobChanged ? previous.version + 1 : previous.version,
+        updatedAt: new Date(),
+      })
+      .where(eq(files.id, id))
+      .returning(),
+  );
+
+  if (contentChanged) {
+    await db.insert(fileRevisions).values(revisionOf(file, revision));
+  }
+  return file;
+}
+
+// Move a file or a whole directory. Callers wrap this in a transaction.
+async function moveFilesWithin(
+  db: Database,
+  projectId: number,
+  fromPath: string,
+  toPath: string,
+): Promise<File[]> {
+  const liveFiles = await db
+    .select()
+    .from(files)
+    .where(and(eq(files.projectId, projectId), isNull(files.deletedAt)))
+    .for("update");
+  const moves = planMove(liveFiles, normalizeFilePath(fromPath), normalizeFilePath(toPath));
+
+  // The unique index is checked row by row. When a directory moves up into
+  // one of its own ancestors, a file's new path can be another moving
+  // file's old one, so shallower files go first to vacate their paths.
+  moves.sort((a, b) => a.file.path.length - b.file.path.length);
+
+  const movedFiles: File[] = [];
+  const now = new Date();
+  for (const { file, path } of moves) {
+    const [movedFile] = await withPathConflicts(path, () =>
+      db
+        .update(files)
+        .set({ path, name: baseName(path), updatedAt: now })
+        .where(eq(files.id, file.id))
+        .returning(),
+    );
+    movedFiles.push(movedFile);
+  }
+  return movedFiles.sort((a, b) => a.id - b.id);
+}
+
+// Apply one operation of a file batch. Callers wrap this in a transaction.
+async function applyFileOperation(
+  db: Database,
+  projectId: number,
+  operation: FileOperation,
+  revision: RevisionInfo,
+): Promise<File[]> {
+  if (operation.op === "move") {
+    const movedFiles = await moveFilesWithin(db, projectId, operation.from, operation.to);
+    if (movedFiles.length === 0) throw new FileNotFoundError(operation.from);
+    return movedFiles;
+  }
+
+  const path = normalizeFilePath(operation.path);
+  const liveFiles = await db
+    .select()
+    .from(files)
+    .where(and(eq(files.projectId, projectId), isNull(files.deletedAt)))
+    .orderBy(asc(files.id))
+    .for("update");
+
+  if (operation.op === "delete") {
+    const targets = liveFiles.filter((file) => isWithinPath(file.path, path));
+    if (targets.length === 0) throw new FileNotFoundError(path);
+
+    const ids = targets.map((file) => file.id);
+    if (operation.permanent) {
+      await db.delete(files).where(inArray(files.id, ids));
+      return targets;
+    }
+    return db
+      .update(files)
+      .set({ deletedAt: new Date() })
+      .where(inArray(files.id, ids))
+      .returning();
+  }
+
+  const existingFile = liveFiles.find((file) => file.path === path);
+  if (operation.op === "update") {
+    if (!existingFile) throw new FileNotFoundError(path);
+    return [
+      (await updateFileWithRevision(
+        db,
+        existingFile.id,
+        { content: operation.content },
+        revision,
+        operation.version,
+      )) as File,
+    ];
+  }
+  if (existingFile && operation.overwrite) {
+    return [(await updateFileWithRevision(db, existingFile.id, { content: operation.content }, revision)) as File];
+  }
+  return [
+    await insertFileWithRevision(db, { projectId, path, name: baseName(path), content: operation.content }, revision),
+  ];
+}
+
+export class DrizzleStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  // Seed the built-in templates the first time an empty database is used
+  async seedTemplates(): Promise<void> {
+    const existing = await this.db.select({ id: templates.id }).from(templates).limit(1);
+    if (existing.length > 0) return;
+
+    await this.db.insert(templates).values(defaultTemplates);
+  }
+
+  // User operations
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.email, email));
+    return user;
+  }
+
+  async getUserByEmailIgnoringCase(email: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users)
+      .where(sql`lower(${users.email}) = ${email.toLowerCase()}`)
+      .orderBy(asc(users.id))
+      .limit(1);
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async getUserByFirebaseUid(uid: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.firebaseUid, uid));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    return this.db.transaction(async (tx) => {
+      const [user] = await tx.insert(users).values(insertUser).returning();
+      await insertWorkspace(tx, { name: "Personal", personalUserId: user.id }, user.id);
+      return user;
+    });
+  }
+
+  async updateUser(id: number, userData: Partial<InsertUser>): Promise<User | undefined> {
+    // Drizzle rejects an UPDATE with an empty SET clause
+    if (Object.values(userData).every((value) => value === undefined)) {
+      return this.getUser(id);
+    }
+
+    const [user] = await this.db
+      .update(users)
+      .set(userData)
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  async consumeRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const used = await this.db
+      .update(users)
+      .set({ totpRecoveryCodes: sql`array_remove(${users.totpRecoveryCodes}, ${codeHash})` })
+      .where(and(eq(users.id, userId), sql`${codeHash} = ANY(${users.totpRecoveryCodes})`))
+      .returning({ id: users.id });
+    return used.length > 0;
+  }
+
+  async claimTotpStep(userId: number, step: number): Promise<boolean> {
+    const claimed = await this.db
+      .update(users)
+      .set({ totpLastStep: step })
+      .where(and(eq(users.id, userId), or(isNull(users.totpLastStep), lt(users.totpLastStep, step))))
+      .returning({ id: users.id });
+    return claimed.length > 0;
+  }
+
+  // Session operations
+  async getSession(sid: string): Promise<UserSession | undefined> {
+    const [session] = await this.db
+      .select()
+      .from(userSessions)
+      .where(and(eq(userSessions.sid, sid), gt(userSessions.expiresAt, new Date())));
+    return session;
+  }
+
+  async getSessionsByUserId(userId: number): Promise<UserSession[]> {
+    return this.db
+      .select()
+      .from(userSessions)
+      .where(and(eq(userSessions.userId, userId), gt(userSessions.expiresAt, new Date())))
+      .orderBy(asc(userSessions.id));
+  }
+
+  async saveSession(insertSession: InsertUserSession): Promise<UserSession> {
+    const lastActiveAt = new Date();
+    const [session] = await this.db
+      .insert(userSessions)
+      .values({ ...insertSession, lastActiveAt })
+      .onConflictDoUpdate({
+        target: userSessions.sid,
+        // Replace every column but the id and createdAt, so optional ones
+        // left out are cleared rather than kept
+        set: {
+          userId: insertSession.userId ?? null,
+          data: insertSession.data,
+          userAgent: insertSession.userAgent ?? null,
+          ipAddress: insertSession.ipAddress ?? null,
+          expiresAt: insertSession.expiresAt,
+          lastActiveAt,
+        },
+      })
+      .returning();
+    return session;
+  }
+
+  async touchSession(sid: string, expiresAt: Date): Promise<UserSession | undefined> {
+    const [session] = await this.db
+      .update(userSessions)
+      .set({ expiresAt, lastActiveAt: new Date() })
+      .where(eq(userSessions.sid, sid))
+      .returning();
+    return session;
+  }
+
+  async deleteSession(sid: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(userSessions)
+      .where(eq(userSessions.sid, sid))
+      .returning({ id: userSessions.id });
+    return deleted.length > 0;
+  }
+
+  // Access token operations
+  async getAccessToken(id: number): Promise<AccessToken | undefined> {
+    const [token] = await this.db.select().from(accessTokens).where(eq(accessTokens.id, id));
+    return token;
+  }
+
+  async getAccessTokenByHash(tokenHash: string): Promise<AccessToken | undefined> {
+    const [token] = await this.db.select().from(accessTokens).where(eq(accessTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async getAccessTokensByUserId(userId: number): Promise<AccessToken[]> {
+    return this.db
+      .select()
+      .from(accessTokens)
+      .where(eq(accessTokens.userId, userId))
+      .orderBy(asc(accessTokens.id));
+  }
+
+  async createAccessToken(insertToken: InsertAccessToken): Promise<AccessToken> {
+    const [token] = await this.db.insert(accessTokens).values(insertToken).returning();
+    return token;
+  }
+
+  async markAccessTokenUsed(id: number, usedAt: Date): Promise<AccessToken | undefined> {
+    const [token] = await this.db
+      .update(accessTokens)
+      .set({ lastUsedAt: usedAt })
+      .where(eq(accessTokens.id, id))
+      .returning();
+    return token;
+  }
+
+  async deleteAccessToken(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(accessTokens)
+      .where(eq(accessTokens.id, id))
+      .returning({ id: accessTokens.id });
+    return deleted.length > 0;
+  }
+
+  // Workspace operations
+  async getWorkspace(id: number): Promise<Workspace | undefined> {
+    const [workspace] = await this.db.select().from(workspaces).where(eq(workspaces.id, id));
+    return workspace;
+  }
+
+  async getPersonalWorkspace(userId: number): Promise<Workspace | undefined> {
+    const [workspace] = await this.db.select().from(workspaces).where(eq(workspaces.personalUserId, userId));
+    return workspace;
+  }
+
+  async getWorkspacesByUserId(userId: number): Promise<UserWorkspace[]> {
+    const rows = await this.db
+      .select({ workspace: workspaces, role: workspaceMembers.role })
+      .from(workspaceMembers)
+      .innerJoin(workspaces, eq(workspaces.id, workspaceMembers.workspaceId))
+      .where(eq(workspaceMembers.userId, userId))
+      .orderBy(asc(workspaces.id));
+    return rows.map((row) => ({ ...row.workspace, role: row.role }));
+  }
+
+  async createWorkspace(insertWorkspaceData: InsertWorkspace, ownerId: number): Promise<Workspace> {
+    return this.db.transaction((tx) => insertWorkspace(tx, insertWorkspaceData, ownerId));
+  }
+
+  async updateWorkspace(id: number, workspaceData: Partial<InsertWorkspace>): Promise<Workspace | undefined> {
+    // Drizzle rejects an UPDATE with an empty SET clause
+    if (Object.values(workspaceData).every((value) => value === undefined)) {
+      return this.getWorkspace(id);
+    }
+
+    const [workspace] = await this.db
+      .update(workspaces)
+      .set(workspaceData)
+      .where(eq(workspaces.id, id))
+      .returning();
+    return workspace;
+  }
+
+  async deleteWorkspace(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const workspaceProjects = await tx
+        .select({ id: projects.id })
+        .from(projects)
+        .where(eq(projects.workspaceId, id));
+      const projectIds = workspaceProjects.map((project) => project.id);
+
+      if (projectIds.length > 0) {
+        await tx.delete(projectCollaborators).where(inArray(projectCollaborators.projectId, projectIds));
+        await tx.delete(projectShareLinks).where(inArray(projectShareLinks.projectId, projectIds));
+        await tx.delete(projectSnapshots).where(inArray(projectSnapshots.projectId, projectIds));
+        await tx.delete(files).where(inArray(files.projectId, projectIds));
+        await tx.update(projects).set({ forkedFromId: null }).where(inArray(projects.forkedFromId, projectIds));
+        await tx.delete(projects).where(inArray(projects.id, projectIds));
+      }
+      await tx.delete(workspaceMembers).where(eq(workspaceMembers.workspaceId, id));
+      await tx.delete(workspaceInvitations).where(eq(workspaceInvitations.workspaceId, id));
+
+      const deleted = await tx
+        .delete(workspaces)
+        .where(eq(workspaces.id, id))
+        .returning({ id: workspaces.id });
+      return deleted.length > 0;
+    });
+  }
+
+  // Workspace member operations
+  async getWorkspaceMember(workspaceId: number, userId: number): Promise<WorkspaceMember | undefined> {
+    const [member] = await this.db
+      .select()
+      .from(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)));
+    return member;
+  }
+
+  async getWorkspaceMembers(workspaceId: number): Promise<WorkspaceMember[]> {
+    return this.db
+      .select()
+      .from(workspaceMembers)
+      .where(eq(workspaceMembers.workspaceId, workspaceId))
+      .orderBy(asc(workspaceMembers.id));
+  }
+
+  async addWorkspaceMember(insertMember: InsertWorkspaceMember): Promise<WorkspaceMember> {
+    const [member] = await this.db
+      .insert(workspaceMembers)
+      .values(insertMember)
+      .onConflictDoUpdate({
+        target: [workspaceMembers.workspaceId, workspaceMembers.userId],
+        set: { role: insertMember.role },
+      })
+      .returning();
+    return member;
+  }
+
+  async updateWorkspaceMemberRole(
+    workspaceId: number,
+    userId: number,
+    role: WorkspaceRole,
+  ): Promise<WorkspaceMember | undefined> {
+    const [member] = await this.db
+      .update(workspaceMembers)
+      .set({ role })
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)))
+      .returning();
+    return member;
+  }
+
+  async removeWorkspaceMember(workspaceId: number, userId: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)))
+      .returning({ id: workspaceMembers.id });
+    return deleted.length > 0;
+  }
+
+  // Workspace invitation operations
+  async getWorkspaceInvitation(id: number): Promise<WorkspaceInvitation | undefined> {
+    const [invitation] = await this.db
+      .select()
+      .from(workspaceInvitations)
+      .where(and(eq(workspaceInvitations.id, id), gt(workspaceInvitations.expiresAt, new Date())));
+    return invitation;
+  }
+
+  async getWorkspaceInvitationByHash(tokenHash: string): Promise<WorkspaceInvitation | undefined> {
+    const [invitation] = await this.db
+      .select()
+      .from(workspaceInvitations)
+      .where(and(eq(workspaceInvitations.tokenHash, tokenHash), gt(workspaceInvitations.expiresAt, new Date())));
+    return invitation;
+  }
+
+  async getWorkspaceInvitations(workspaceId: number): Promise<WorkspaceInvitation[]> {
+    return this.db
+      .select()
+      .from(workspaceInvitations)
+      .where(and(eq(workspaceInvitations.workspaceId, workspaceId), gt(workspaceInvitations.expiresAt, new Date())))
+      .orderBy(asc(workspaceInvitations.id));
+  }
+
+  async createWorkspaceInvitation(insertInvitation: InsertWorkspaceInvitation): Promise<WorkspaceInvitation> {
+    return this.db.transaction(async (tx) => {
+      await tx
+        .delete(workspaceInvitations)
+        .where(and(
+          eq(workspaceInvitations.workspaceId, insertInvitation.workspaceId),
+          eq(workspaceInvitations.email, insertInvitation.email),
+        ));
+
+      const [invitation] = await tx.insert(workspaceInvitations).values(insertInvitation).returning();
+      return invitation;
+    });
+  }
+
+  async deleteWorkspaceInvitation(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(workspaceInvitations)
+      .where(eq(workspaceInvitations.id, id))
+      .returning({ id: workspaceInvitations.id });
+    return deleted.length > 0;
+  }
+
+  // Project operations
+  async getProject(id: number): Promise<Project | undefined> {
+    const [project] = await this.db.select().from(projects).where(eq(projects.id, id));
+    return project;
+  }
+
+  async getProjectsByWorkspaceId(workspaceId: number): Promise<Project[]> {
+    return this.db
+      .select()
+      .from(projects)
+      .where(and(eq(projects.workspaceId, workspaceId), isNull(projects.deletedAt)))
+      .orderBy(asc(projects.id));
+  }
+
+  async getTrashedProjectsByWorkspaceId(workspaceId: number): Promise<Project[]> {
+    return this.db
+      .select()
+      .from(projects)
+      .where(and(eq(projects.workspaceId, workspaceId), isNotNull(projects.deletedAt)))
+      .orderBy(asc(projects.id));
+  }
+
+  async createProject(insertProject: InsertProject): Promise<Project> {
+    const [project] = await this.db.insert(projects).values(insertProject).returning();
+    return project;
+  }
+
+  async updateProject(id: number, projectData: Partial<InsertProject>): Promise<Project | undefined> {
+    const [project] = await this.db
+      .update(projects)
+      .set({ ...projectData, updatedAt: new Date() })
+      .where(eq(projects.id, id))
+      .returning();
+    return project;
+  }
+
+  async trashProject(id: number): Promise<Project | undefined> {
+    return this.setProjectDeletedAt(id, new Date());
+  }
+
+  async restoreProject(id: number): Promise<Project | undefined> {
+    return this.setProjectDeletedAt(id, null);
+  }
+
+  private async setProjectDeletedAt(id: number, deletedAt: Date | null): Promise<Project | undefined> {
+    const [project] = await this.db
+      .update(projects)
+      .set({ deletedAt })
+      .where(eq(projects.id, id))
+      .returning();
+    return project;
+  }
+
+  async deleteProject(id: number): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(projectCollaborators).where(eq(projectCollaborators.projectId, id));
+      await tx.delete(projectShareLinks).where(eq(projectShareLinks.projectId, id));
+      await tx.delete(projectSnapshots).where(eq(projectSnapshots.projectId, id));
+      await tx.delete(files).where(eq(files.projectId, id));
+      await tx.update(projects).set({ forkedFromId: null }).where(eq(projects.forkedFromId, id));
+
+      const deleted = await tx
+        .delete(projects)
+        .where(eq(projects.id, id))
+        .returning({ id: projects.id });
+      return deleted.length > 0;
+    });
+  }
+
+  async duplicateProject(
+    id: number,
+    projectData: Pick<InsertProject, "name" | "userId" | "workspaceId">,
+    revision: RevisionInfo = manualRevision,
+  ): Promise<Project | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [source] = await tx.select().from(projects).where(eq(projects.id, id));
+      if (!source) return undefined;
+
+      const [project] = await tx
+        .insert(projects)
+        .values({
+          ...projectData,
+          description: source.description,
+          framework: source.framework,
+          backend: source.backend,
+          forkedFromId: id,
+        })
+        .returning();
+
+      const sourceFiles = await tx
+        .select()
+        .from(files)
+        .where(and(eq(files.projectId, id), isNull(files.deletedAt)))
+        .orderBy(asc(files.id));
+      for (const file of sourceFiles) {
+        await insertFileWithRevision(
+          tx,
+          { ...snapshotContent(file), name: file.name, path: file.path, projectId: project.id },
+          revision,
+        );
+      }
+
+      return project;
+    });
+  }
+
+  // Project collaborator operations
+  async getProjectCollaborator(projectId: number, userId: number): Promise<ProjectCollaborator | undefined> {
+    const [collaborator] = await this.db
+      .select()
+      .from(projectCollaborators)
+      .where(and(eq(projectCollaborators.projectId, projectId), eq(projectCollaborators.userId, userId)));
+    return collaborator;
+  }
+
+  async getProjectCollaborators(projectId: number): Promise<ProjectCollaborator[]> {
+    return this.db
+      .select()
+      .from(projectCollaborators)
+      .where(eq(projectCollaborators.projectId, projectId))
+      .orderBy(asc(projectCollaborators.id));
+  }
+
+  async getSharedProjectsByUserId(userId: number): Promise<Project[]> {
+    const rows = await this.db
+      .select({ project: projects })
+      .from(projectCollaborators)
+      .innerJoin(projects, eq(projects.id, projectCollaborators.projectId))
+      .where(and(eq(projectCollaborators.userId, userId), isNull(projects.deletedAt)))
+      .orderBy(asc(projects.id));
+    return rows.map((row) => row.project);
+  }
+
+  async addProjectCollaborator(insertCollaborator: InsertProjectCollaborator): Promise<ProjectCollaborator> {
+    const [collaborator] = await this.db
+      .insert(projectCollaborators)
+      .values(insertCollaborator)
+      .onConflictDoUpdate({
+        target: [projectCollaborators.projectId, projectCollaborators.userId],
+        set: { role: insertCollaborator.role },
+      })
+      .returning();
+    return collaborator;
+  }
+
+  async removeProjectCollaborator(projectId: number, userId: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(projectCollaborators)
+      .where(and(eq(projectCollaborators.projectId, projectId), eq(projectCollaborators.userId, userId)))
+      .returning({ id: projectCollaborators.id });
+    return deleted.length > 0;
+  }
+
+  // Project share link operations
+  async getProjectShareLink(id: number): Promise<ProjectShareLink | undefined> {
+    const [link] = await this.db
+      .select()
+      .from(projectShareLinks)
+      .where(and(eq(projectShareLinks.id, id), liveShareLink()));
+    return link;
+  }
+
+  async getProjectShareLinkByHash(tokenHash: string): Promise<ProjectShareLink | undefined> {
+    const [link] = await this.db
+      .select()
+      .from(projectShareLinks)
+      .where(and(eq(projectShareLinks.tokenHash, tokenHash), liveShareLink()));
+    return link;
+  }
+
+  async getProjectShareLinks(projectId: number): Promise<ProjectShareLink[]> {
+    return this.db
+      .select()
+      .from(projectShareLinks)
+      .where(and(eq(projectShareLinks.projectId, projectId), liveShareLink()))
+      .orderBy(asc(projectShareLinks.id));
+  }
+
+  async createProjectShareLink(insertLink: InsertProjectShareLink): Promise<ProjectShareLink> {
+    const [link] = await this.db.insert(projectShareLinks).values(insertLink).returning();
+    return link;
+  }
+
+  async deleteProjectShareLink(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(projectShareLinks)
+      .where(eq(projectShareLinks.id, id))
+      .returning({ id: projectShareLinks.id });
+    return deleted.length > 0;
+  }
+
+  // File operations
+  async getFile(id: number): Promise<File | undefined> {
+    const [file] = await this.db.select().from(files).where(eq(files.id, id));
+    return file;
+  }
+
+  async getFilesByProjectId(projectId: number): Promise<File[]> {
+    return this.db
+      .select()
+      .from(files)
+      .where(and(eq(files.projectId, projectId), isNull(files.deletedAt)))
+      .orderBy(asc(files.id));
+  }
+
+  async getTrashedFilesByProjectId(projectId: number): Promise<File[]> {
+    return this.db
+      .select()
+      .from(files)
+      .where(and(eq(files.projectId, projectId), isNotNull(files.deletedAt)))
+      .orderBy(asc(files.id));
+  }
+
+  async getFileByPath(projectId: number, path: string): Promise<File | undefined> {
+    const [file] = await this.db
+      .select()
+      .from(files)
+      .where(
+        and(
+          eq(files.projectId, projectId),
+          eq(files.path, normalizeFilePath(path)),
+          isNull(files.deletedAt),
+        ),
+      );
+    return file;
+  }
+
+  async createFile(insertFile: InsertFile, revision: RevisionInfo = manualRevision): Promise<File> {
+    return this.db.transaction((tx) => insertFileWithRevision(tx, insertFile, revision));
+  }
+
+  async updateFile(
+    id: number,
+    fileData: Partial<InsertFile>,
+    revision: RevisionInfo = manualRevision,
+    expectedVersion?: number,
+  ): Promise<File | undefined> {
+    return this.db.transaction((tx) => updateFileWithRevision(tx, id, fileData, revision, expectedVersion));
+  }
+
+  async trashFile(id: number): Promise<File | undefined> {
+    return this.setFileDeletedAt(id, new Date());
+  }
+
+  async restoreFile(id: number): Promise<File | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [file] = await tx.select().from(files).where(eq(files.id, id)).for("update");
+      if (!file) return undefined;
+      if (!file.deletedAt) return file;
+
+      assertPathAvailable(await livePaths(tx, file.projectId), file.path);
+      const [restoredFile] = await withPathConflicts(file.path, () =>
+        tx.update(files).set({ deletedAt: null }).where(eq(files.id, id)).returning(),
+      );
+      return restoredFile;
+    });
+  }
+
+  private async setFileDeletedAt(id: number, deletedAt: Date | null): Promise<File | undefined> {
+    const [file] = await this.db
+      .update(files)
+      .set({ deletedAt })
+      .where(eq(files.id, id))
+      .returning();
+    return file;
+  }
+
+  async deleteFile(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(files)
+      .where(eq(files.id, id))
+      .returning({ id: files.id });
+    return deleted.length > 0;
+  }
+
+  async moveFiles(projectId: number, fromPath: string, toPath: string): Promise<File[]> {
+    return this.db.transaction((tx) => moveFilesWithin(tx, projectId, fromPath, toPath));
+  }
+
+  async applyFileBatch(
+    projectId: number,
+    operations: FileOperation[],
+    revision: RevisionInfo = manualRevision,
+  ): Promise<FileOperationResult[]> {
+    return this.db.transaction((tx) =>
+      runFileBatch(operations, (operation) => applyFileOperation(tx, projectId, operation, revision)),
+    );
+  }
+
+  // File revision operations
+  async getFileRevision(id: number): Promise<FileRevision | undefined> {
+    const [revision] = await this.db.select().from(fileRevisions).where(eq(fileRevisions.id, id));
+    return revision;
+  }
+
+  async getFileRevisions(fileId: number): Promise<FileRevision[]> {
+    return this.db
+      .select()
+      .from(fileRevisions)
+      .where(eq(fileRevisions.fileId, fileId))
+      .orderBy(asc(fileRevisions.id));
+  }
+
+  // Snapshot operations
+  async getSnapshot(id: number): Promise<ProjectSnapshot | undefined> {
+    const [snapshot] = await this.db.select().from(projectSnapshots).where(eq(projectSnapshots.id, id));
+    return snapshot;
+  }
+
+  async getSnapshotsByProjectId(projectId: number): Promise<ProjectSnapshot[]> {
+    return this.db
+      .select()
+      .from(projectSnapshots)
+      .where(eq(projectSnapshots.projectId, projectId))
+      .orderBy(asc(projectSnapshots.id));
+  }
+
+  async createSnapshot(insertSnapshot: InsertProjectSnapshot): Promise<ProjectSnapshot> {
+    return this.db.transaction(async (tx) => {
+      const projectFiles = await tx
+        .select({
+          name: files.name,
+          path: files.path,
+          content: files.content,
+          blobKey: files.blobKey,
+          mimeType: files.mimeType,
+          size: files.size,
+        })
+        .from(files)
+        .where(and(eq(files.projectId, insertSnapshot.projectId), isNull(files.deletedAt)))
+        .orderBy(asc(files.id));
+
+      const [snapshot] = await tx
+        .insert(projectSnapshots)
+        .values({ ...insertSnapshot, files: projectFiles })
+        .returning();
+      return snapshot;
+    });
+  }
+
+  async restoreSnapshot(id: number, revision: RevisionInfo = manualRevision): Promise<File[] | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [snapshot] = await tx.select().from(projectSnapshots).where(eq(projectSnapshots.id, id));
+      if (!snapshot) return undefined;
+
+      const currentFiles = await tx
+        .select()
+        .from(files)
+        .where(and(eq(files.projectId, snapshot.projectId), isNull(files.deletedAt)));
+      // Snapshots taken before paths were canonical may store only the directory
+      const snapshotFiles = new Map(
+        snapshot.files.map((file) => [resolveFullPath(file.path, file.name), file]),
+      );
+
+      for (const file of currentFiles) {
+        const saved = snapshotFiles.get(file.path);
+        if (!saved) {
+          await tx.delete(files).where(eq(files.id, file.id));
+        } else {
+          snapshotFiles.delete(file.path);
+          const content = snapshotContent(saved);
+          if (content.content !== file.content || content.blobKey !== file.blobKey) {
+            await updateFileWithRevision(tx, file.id, content, revision);
+          }
+        }
+      }
+
+      for (const [path, saved] of Array.from(snapshotFiles.entries())) {
+        await insertFileWithRevision(tx, { ...saved, path, projectId: snapshot.projectId }, revision);
+      }
+
+      return tx
+        .select()
+        .from(files)
+        .where(and(eq(files.projectId, snapshot.projectId), isNull(files.deletedAt)))
+        .orderBy(asc(files.id));
+    });
+  }
+
+  async deleteSnapshot(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(projectSnapshots)
+      .where(eq(projectSnapshots.id, id))
+      .returning({ id: projectSnapshots.id });
+    return deleted.length > 0;
+  }
+
+  // Template operations
+  async getTemplate(id: number): Promise<Template | undefined> {
+    const [template] = await this.db.select().from(templates).where(eq(templates.id, id));
+    return template;
+  }
+
+  async getAllTemplates(): Promise<Template[]> {
+    return this.db.select().from(templates).orderBy(asc(templates.id));
+  }
+
+  async getPremiumTemplates(): Promise<Template[]> {
+    return this.db
+      .select()
+      .from(templates)
+      .where(eq(templates.isPremium, true))
+      .orderBy(asc(templates.id));
+  }
+
+  async createTemplate(insertTemplate: InsertTemplate): Promise<Template> {
+    const [template] = await this.db.insert(templates).values(insertTemplate).returning();
+    return template;
+  }
+
+  // Maintenance operations
+  async purgeOrphans(): Promise<OrphanReport> {
+    const orphanedFiles = await this.db
+      .delete(files)
+      .where(
+        notExists(
+          this.db.select({ id: projects.id }).from(projects).where(eq(projects.id, files.projectId)),
+        ),
+      )
+      .returning({ id: files.id });
+
+    const orphanedRevisions = await this.db
+      .delete(fileRevisions)
+      .where(
+        notExists(
+          this.db.select({ id: files.id }).from(files).where(eq(files.id, fileRevisions.fileId)),
+        ),
+      )
+      .returning({ id: fileRevisions.id });
+
+    const orphanedSnapshots = await this.db
+      .delete(projectSnapshots)
+      .where(
+        notExists(
+          this.db.select({ id: projects.id }).from(projects).where(eq(projects.id, projectSnapshots.projectId)),
+        ),
+      )
+      .returning({ id: projectSnapshots.id });
+
+    return {
+      files: orphanedFiles.map((file) => file.id),
+      fileRevisions: orphanedRevisions.map((revision) => revision.id),
+      snapshots: orphanedSnapshots.map((snapshot) => snapshot.id),
+    };
+  }
+
+  async purgeTrash(trashedBefore: Date): Promise<TrashPurgeReport> {
+    return this.db.transaction(async (tx) => {
+      const expiredProjects = await tx
+        .select({ id: projects.id })
+        .from(projects)
+        .where(lt(projects.deletedAt, trashedBefore));
+      const projectIds = expiredProjects.map((project) => project.id);
+
+      if (projectIds.length > 0) {
+        await tx.delete(projectCollaborators).where(inArray(projectCollaborators.projectId, projectIds));
+        await tx.delete(projectShareLinks).where(inArray(projectShareLinks.projectId, projectIds));
+        await tx.delete(projectSnapshots).where(inArray(projectSnapshots.projectId, projectIds));
+        await tx.delete(files).where(inArray(files.projectId, projectIds));
+        await tx.delete(projects).where(inArray(projects.id, projectIds));
+      }
+
+      const expiredFiles = await tx
+        .delete(files)
+        .where(lt(files.deletedAt, trashedBefore))
+        .returning({ id: files.id });
+
+      return {
+        projects: projectIds,
+        files: expiredFiles.map((file) => file.id),
+      };
+    });
+  }
+
+  async purgeExpiredSessions(now: Date): Promise<number> {
+    const expired = await this.db
+      .delete(userSessions)
+      .where(lte(userSessions.expiresAt, now))
+      .returning({ id: userSessions.id });
+    return expired.length;
+  }
+
+  async getReferencedBlobKeys(): Promise<Set<string>> {
+    const fileBlobs = await this.db
+      .selectDistinct({ blobKey: files.blobKey })
+      .from(files)
+      .where(isNotNull(files.blobKey));
+    // Snapshots keep their files as JSON, so only those holding a blob are read
+    const snapshotFiles = await this.db
+      .select({ files: projectSnapshots.files })
+      .from(projectSnapshots)
+      .where(sql`jsonb_path_exists(${projectSnapshots.files}, '$[*].blobKey ? (@ != null)')`);
+
+    const keys = new Set<string>();
+    fileBlobs.forEach((file) => keys.add(file.blobKey!));
+    snapshotFiles.forEach((snapshot) => {
+      snapshot.files.forEach((file) => {
+        if (file.blobKey) keys.add(file.blobKey);
+      });
+    });
+    return keys;
+  }
+}
@@ -0,0 +1,37 @@
+import type { File, FileOperation, FileOperationResult } from "@shared/schema";
+import { normalizeFilePath } from "@shared/file-paths";
+
+// Raised when one operation of a batch fails; nothing in the batch is applied
+export class FileBatchError extends Error {
+  constructor(public index: number, public cause: unknown) {
+    super(`Operation ${index + 1} failed: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = "FileBatchError";
+  }
+}
+
+// Path an operation is reported under: the destination for moves
+function targetPath(operation: FileOperation): string {
+  return operation.op === "move" ? operation.to : operation.path;
+}
+
+// Apply operations one after another, each seeing the effects of the ones
+// before it. Storage backends call this inside their own transaction or
+// rollback so a FileBatchError leaves the project untouched.
+export async function runFileBatch(
+  operations: FileOperation[],
+  apply: (operation: FileOperation) => Promise<File[]>,
+): Promise<FileOperationResult[]> {
+  const results: FileOperationResult[] = [];
+
+  for (let index = 0; index < operations.length; index++) {
+    const operation = operations[index];
+    try {
+      const files = await apply(operation);
+      results.push({ op: operation.op, path: normalizeFilePath(targetPath(operation)), files });
+    } catch (error) {
+      throw new FileBatchError(index, error);
+    }
+  }
+
+  return results;
+}
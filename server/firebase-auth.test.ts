@@ -0,0 +1,162 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { exportJWK, generateKeyPair, SignJWT, UnsecuredJWT, type JWTPayload, type KeyLike } from "jose";
+import { createFirebaseTokenVerifier, FirebaseTokenError } from "./firebase-auth";
+import { startTestApp } from "./test-app";
+
+const PROJECT_ID = "xalgrow-test";
+const KEY_ID = "test-key";
+
+// Signs ID tokens like Firebase does, with a key served from a throwaway JWKS
+// endpoint in place of Google's
+class TestIssuer {
+  private server: Server | undefined;
+  jwksUrl = "";
+
+  constructor(private privateKey: KeyLike, private publicKey: KeyLike) {}
+
+  static async start(): Promise<TestIssuer> {
+    const { privateKey, publicKey } = await generateKeyPair("RS256");
+    const issuer = new TestIssuer(privateKey, publicKey);
+    const jwk = { ...(await exportJWK(publicKey)), kid: KEY_ID, alg: "RS256", use: "sig" };
+
+    issuer.server = createServer((_req, res) => {
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify({ keys: [jwk] }));
+    });
+    await new Promise<void>((resolve) => issuer.server!.listen(0, "127.0.0.1", resolve));
+    issuer.jwksUrl = `http://127.0.0.1:${(issuer.server.address() as AddressInfo).port}/jwks.json`;
+    return issuer;
+  }
+
+  // The claims of a fresh token for the given account; overrides replace them
+  claims(overrides: JWTPayload = {}): JWTPayload {
+    const now = Math.floor(Date.now() / 1000);
+    return {
+      iss: `https://securetoken.google.com/${PROJECT_ID}`,
+      aud: PROJECT_ID,
+      sub: "firebase-uid-1",
+      iat: now,
+      exp: now + 3600,
+      auth_time: now,
+      email: "ada@example.com",
+      email_verified: true,
+      ...overrides,
+    };
+  }
+
+  sign(claims: JWTPayload, key: KeyLike = this.privateKey): Promise<string> {
+    return new SignJWT(claims).setProtectedHeader({ alg: "RS256", kid: KEY_ID }).sign(key);
+  }
+
+  close() {
+    return new Promise<void>((resolve) => this.server!.close(() => resolve()));
+  }
+}
+
+describe("createFirebaseTokenVerifier", () => {
+  let issuer: TestIssuer;
+  let verify: ReturnType<typeof createFirebaseTokenVerifier>;
+
+  before(async () => {
+    issuer = await TestIssuer.start();
+    verify = createFirebaseTokenVerifier({ projectId: PROJECT_ID, jwksUrl: issuer.jwksUrl });
+  });
+
+  after(() => issuer.close());
+
+  it("accepts a valid token and reads the identity from its claims", async () => {
+    const identity = await verify(await issuer.sign(issuer.claims({ name: "Ada" })));
+    assert.equal(identity.uid, "firebase-uid-1");
+    assert.equal(identity.email, "ada@example.com");
+    assert.equal(identity.emailVerified, true);
+    assert.equal(identity.name, "Ada");
+    assert.equal(identity.picture, null);
+  });
+
+  it("rejects tokens issued for another project", async () => {
+    await assert.rejects(verify(await issuer.sign(issuer.claims({ aud: "other-project" }))), FirebaseTokenError);
+    await assert.rejects(
+      verify(await issuer.sign(issuer.claims({ iss: "https://securetoken.google.com/other-project" }))),
+      FirebaseTokenError
+    );
+  });
+
+  it("rejects an expired token", async () => {
+    const past = Math.floor(Date.now() / 1000) - 7200;
+    const expired = issuer.claims({ iat: past, auth_time: past, exp: past + 3600 });
+    await assert.rejects(verify(await issuer.sign(expired)), FirebaseTokenError);
+  });
+
+  it("rejects a token signed with another key", async () => {
+    const { privateKey } = await generateKeyPair("RS256");
+    await assert.rejects(verify(await issuer.sign(issuer.claims(), privateKey)), FirebaseTokenError);
+  });
+
+  it("rejects unsigned tokens unless testing against the emulator", async () => {
+    const unsigned = new UnsecuredJWT(issuer.claims()).encode();
+    await assert.rejects(verify(unsigned), FirebaseTokenError);
+
+    const emulator = createFirebaseTokenVerifier({ projectId: PROJECT_ID, jwksUrl: issuer.jwksUrl, emulator: true });
+    assert.equal((await emulator(unsigned)).uid, "firebase-uid-1");
+  });
+
+  it("rejects a token without an email address", async () => {
+    await assert.rejects(verify(await issuer.sign(issuer.claims({ email: undefined }))), {
+      name: "FirebaseTokenError",
+      message: "ID token has no email address",
+    });
+  });
+});
+
+describe("Firebase sign-in", () => {
+  let issuer: TestIssuer;
+  let app: Awaited<ReturnType<typeof startTestApp>>;
+
+  before(async () => {
+    issuer = await TestIssuer.start();
+    process.env.FIREBASE_PROJECT_ID = PROJECT_ID;
+    process.env.FIREBASE_JWKS_URL = issuer.jwksUrl;
+    app = await startTestApp();
+  });
+
+  after(async () => {
+    await app.close();
+    await issuer.close();
+  });
+
+  it("does not link an unverified email to an existing password account", async () => {
+    const { user } = await app.signUp();
+    const idToken = await issuer.sign(issuer.claims({ sub: "intruder", email: user.email, email_verified: false }));
+
+    const client = app.client();
+    const response = await client.post("/api/auth/firebase-login", { idToken });
+    assert.equal(response.status, 409);
+    assert.equal((await client.get("/api/auth/me")).status, 401);
+
+    const stored = await app.storage.getUser(user.id);
+    assert.equal(stored?.firebaseUid, null);
+    assert.equal(stored?.authProvider, "password");
+  });
+
+  it("links an older Firebase account by email only once the address is verified", async () => {
+    const user = await app.storage.createUser({
+      username: "grace",
+      email: "grace@example.com",
+      password: null,
+      authProvider: "firebase",
+    });
+
+    const unverified = await issuer.sign(issuer.claims({ sub: "grace-uid", email: user.email, email_verified: false }));
+    assert.equal((await app.client().post("/api/auth/firebase-login", { idToken: unverified })).status, 409);
+    assert.equal((await app.storage.getUser(user.id))?.firebaseUid, null);
+
+    const verified = await issuer.sign(issuer.claims({ sub: "grace-uid", email: user.email }));
+    const response = await app.client().post("/api/auth/firebase-login", { idToken: verified });
+    assert.equal(response.status, 200);
+    assert.equal(response.body.id, user.id);
+    assert.equal((await app.storage.getUser(user.id))?.firebaseUid, "grace-uid");
+  });
+});
@@ -0,0 +1,127 @@
+import {
+  createRemoteJWKSet,
+  decodeProtectedHeader,
+  errors,
+  jwtVerify,
+  UnsecuredJWT,
+  type JWTPayload,
+} from "jose";
+
+// Where Google publishes the keys that sign Firebase ID tokens
+const GOOGLE_JWKS_URL =
+  "https://www.googleapis.com/service_accounts/v1/jwk/securetoken@system.gserviceaccount.com";
+
+// The ID token is missing, malformed, expired, or not issued for this project
+export class FirebaseTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FirebaseTokenError";
+  }
+}
+
+// Who a verified ID token belongs to, taken from its claims
+export interface FirebaseIdentity {
+  uid: string;
+  email: string;
+  emailVerified: boolean;
+  name: string | null;
+  picture: string | null;
+  // When the user last signed in to Firebase, as opposed to when the token was
+  // refreshed
+  authTime: Date;
+}
+
+export interface FirebaseVerifierOptions {
+  projectId: string;
+  jwksUrl?: string;
+  // The Auth emulator issues unsigned tokens; only accept them when testing
+  // against it
+  emulator?: boolean;
+}
+
+export type FirebaseTokenVerifier = (idToken: string) => Promise<FirebaseIdentity>;
+
+// Check an ID token's signature, issuer, audience and expiry the way the
+// Firebase Admin SDK does
+export function createFirebaseTokenVerifier(options: FirebaseVerifierOptions): FirebaseTokenVerifier {
+  const keys = createRemoteJWKSet(new URL(options.jwksUrl ?? GOOGLE_JWKS_URL));
+  const claimChecks = {
+    issuer: `https://securetoken.google.com/${options.projectId}`,
+    audience: options.projectId,
+    requiredClaims: ["exp", "iat", "sub"],
+  };
+
+  return async (idToken) => {
+    let payload: JWTPayload;
+    try {
+      if (options.emulator && decodeProtectedHeader(idToken).alg === "none") {
+        payload = UnsecuredJWT.decode(idToken, claimChecks).payload;
+      } else {
+        payload = (await jwtVerify(idToken, keys, { ...claimChecks, algorithms: ["RS256"] })).payload;
+      }
+    } catch (error) {
+      if (error instanceof errors.JOSEError || error instanceof TypeError) {
+        throw new FirebaseTokenError(`Invalid ID token: ${error.message}`);
+      }
+      throw error;
+    }
+
+    return identityOf(payload);
+  };
+}
+
+function identityOf(payload: JWTPayload): FirebaseIdentity {
+  const { sub, email, email_verified, name, picture, auth_time } = payload;
+  if (typeof sub !== "string" || sub.length === 0 || sub.length > 128) {
+    throw new FirebaseTokenError("Invalid ID token: bad subject");
+  }
+  if (typeof auth_time !== "number" || auth_time > Date.now() / 1000) {
+    throw new FirebaseTokenError("Invalid ID token: bad auth_time");
+  }
+  if (typeof email !== "string" || !email) {
+    throw new FirebaseTokenError("ID token has no email address");
+  }
+
+  return {
+    uid: sub,
+    email,
+    emailVerified: email_verified === true,
+    name: typeof name === "string" ? name : null,
+    picture: typeof picture === "string" ? picture : null,
+    authTime: new Date(auth_time * 1000),
+  };
+}
+
+// FIREBASE_AUTH_EMULATOR_HOST allows the emulator's unsigned tokens, with
+// which anyone could sign in as anyone; it is refused in production when the
+// server starts rather than when the first token arrives.
+function emulatorEnabled(): boolean {
+  if (!process.env.FIREBASE_AUTH_EMULATOR_HOST) return false;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("FIREBASE_AUTH_EMULATOR_HOST must not be set in production");
+  }
+  return true;
+}
+
+const emulator = emulatorEnabled();
+
+let configuredVerifier: FirebaseTokenVerifier | undefined;
+
+// Verify against the project named by FIREBASE_PROJECT_ID (or the client's
+// VITE_FIREBASE_PROJECT_ID). FIREBASE_JWKS_URL replaces Google's keys, e.g.
+// with a local stand-in, and FIREBASE_AUTH_EMULATOR_HOST allows the
+// emulator's unsigned tokens outside production.
+export async function verifyFirebaseIdToken(idToken: string): Promise<FirebaseIdentity> {
+  if (!configuredVerifier) {
+    const projectId = process.env.FIREBASE_PROJECT_ID || process.env.VITE_FIREBASE_PROJECT_ID;
+    if (!projectId) {
+      throw new Error("FIREBASE_PROJECT_ID must be set to sign in with Firebase");
+    }
+    configuredVerifier = createFirebaseTokenVerifier({
+      projectId,
+      jwksUrl: process.env.FIREBASE_JWKS_URL || undefined,
+      emulator,
+    });
+  }
+  return configuredVerifier(idToken);
+}
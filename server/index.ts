@@ -1,9 +1,12 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { storage, initializeStorage } from "./storage";
+import { startBlobSweep, startOrphanSweep, startSessionPurge, startTrashPurge } from "./maintenance";
+import { blobStore } from "./blob-store";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
-app.use(express.json());
+app.use(express.json({ limit: "10mb" })); // file batches carry whole projects
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -37,6 +40,11 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  await initializeStorage();
+  startOrphanSweep(storage);
+  startTrashPurge(storage);
+  startSessionPurge(storage);
+  startBlobSweep(storage, blobStore);
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -0,0 +1,38 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { LocalBlobStore } from "./blob-store";
+import { purgeUnreferencedBlobs } from "./maintenance";
+import { MemStorage } from "./storage";
+
+describe("purgeUnreferencedBlobs", () => {
+  let directory: string;
+
+  before(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "blobs-"));
+  });
+
+  after(() => fs.rm(directory, { recursive: true, force: true }));
+
+  it("deletes old blobs nothing uses and keeps the rest", async () => {
+    const storage = new MemStorage();
+    const blobs = new LocalBlobStore(directory);
+    const user = await storage.createUser({ username: "ada", email: "ada@example.com", password: "x" });
+    const workspace = (await storage.getPersonalWorkspace(user.id))!;
+    const project = await storage.createProject({ name: "P", userId: user.id, workspaceId: workspace.id, framework: "react", backend: "express" });
+
+    const used = await blobs.put(Buffer.from("used"));
+    const unused = await blobs.put(Buffer.from("unused"));
+    await storage.createFile({ projectId: project.id, path: "a.png", name: "a.png", content: "", blobKey: used });
+
+    // Too recent to be purged yet
+    assert.deepEqual(await purgeUnreferencedBlobs(storage, blobs, new Date(0)), []);
+
+    const purged = await purgeUnreferencedBlobs(storage, blobs, new Date(Date.now() + 1000));
+    assert.deepEqual(purged, [unused]);
+    assert.equal(await blobs.get(unused), undefined);
+    assert.ok(await blobs.get(used));
+  });
+});
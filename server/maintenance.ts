@@ -0,0 +1,114 @@
+import type { IStorage } from "./storage";
+import type { BlobStore } from "./blob-store";
+import { log } from "./vite";
+
+const DEFAULT_SWEEP_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+// Blobs are stored before the file that uses them is saved, so recent ones are
+// kept even while nothing refers to them yet
+const BLOB_GRACE_PERIOD_MS = 60 * 60 * 1000; // 1 hour
+
+// Read a numeric setting from the environment, falling back to a default
+function numberFromEnv(name: string, fallback: number): number {
+  const configured = process.env[name];
+  return configured !== undefined ? Number(configured) : fallback;
+}
+
+// Run a task now and then every intervalMs; returns a function that stops it.
+// A non-positive or invalid interval disables the task.
+function runPeriodically(name: string, task: () => Promise<void>, intervalMs: number): () => void {
+  if (!Number.isFinite(intervalMs) || intervalMs <= 0) {
+    return () => {};
+  }
+
+  const run = () =>
+    task().catch((error) => {
+      console.error(`${name} failed:`, error);
+    });
+
+  void run();
+  const timer = setInterval(() => void run(), intervalMs);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
+
+// Periodically remove rows whose project no longer exists. The interval comes
+// from ORPHAN_SWEEP_INTERVAL_MS; set it to 0 to disable the sweep.
+export function startOrphanSweep(storage: IStorage): () => void {
+  return runPeriodically("Orphan sweep", async () => {
+    const report = await storage.purgeOrphans();
+    if (report.files.length > 0) {
+      log(`purged ${report.files.length} orphaned files: ${report.files.join(", ")}`, "maintenance");
+    }
+    if (report.fileRevisions.length > 0) {
+      log(`purged ${report.fileRevisions.length} orphaned file revisions`, "maintenance");
+    }
+    if (report.snapshots.length > 0) {
+      log(`purged ${report.snapshots.length} orphaned snapshots`, "maintenance");
+    }
+  }, numberFromEnv("ORPHAN_SWEEP_INTERVAL_MS", DEFAULT_SWEEP_INTERVAL_MS));
+}
+
+// Permanently delete projects and files that have been in the trash for longer
+// than TRASH_RETENTION_DAYS. Runs every TRASH_PURGE_INTERVAL_MS (0 disables).
+export function startTrashPurge(storage: IStorage): () => void {
+  const retentionDays = numberFromEnv("TRASH_RETENTION_DAYS", DEFAULT_TRASH_RETENTION_DAYS);
+  if (!Number.isFinite(retentionDays) || retentionDays < 0) {
+    throw new Error(`Invalid TRASH_RETENTION_DAYS "${process.env.TRASH_RETENTION_DAYS}"`);
+  }
+
+  return runPeriodically("Trash purge", async () => {
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+    const report = await storage.purgeTrash(cutoff);
+    if (report.projects.length > 0 || report.files.length > 0) {
+      log(
+        `purged ${report.projects.length} trashed projects and ${report.files.length} trashed files`,
+        "maintenance",
+      );
+    }
+  }, numberFromEnv("TRASH_PURGE_INTERVAL_MS", DEFAULT_SWEEP_INTERVAL_MS));
+}
+
+// Delete sessions that have expired, so the session table does not keep every
+// sign-in forever. Runs every SESSION_PURGE_INTERVAL_MS (0 disables).
+export function startSessionPurge(storage: IStorage): () => void {
+  return runPeriodically("Session purge", async () => {
+    const purged = await storage.purgeExpiredSessions(new Date());
+    if (purged > 0) {
+      log(`purged ${purged} expired sessions`, "maintenance");
+    }
+  }, numberFromEnv("SESSION_PURGE_INTERVAL_MS", DEFAULT_SWEEP_INTERVAL_MS));
+}
+
+// Delete blobs stored before storedBefore that no file or snapshot uses;
+// returns their keys
+export async function purgeUnreferencedBlobs(
+  storage: IStorage,
+  blobs: BlobStore,
+  storedBefore: Date,
+): Promise<string[]> {
+  // Listed before the references, so a blob put after that is never a candidate
+  const candidates = (await blobs.list()).filter((blob) => blob.storedAt < storedBefore);
+  if (candidates.length === 0) return [];
+
+  const referenced = await storage.getReferencedBlobKeys();
+  const purged: string[] = [];
+  for (const { key } of candidates) {
+    if (!referenced.has(key) && (await blobs.delete(key))) {
+      purged.push(key);
+    }
+  }
+  return purged;
+}
+
+// Free the disk space of binary assets whose files and snapshots are all gone.
+// Runs every BLOB_SWEEP_INTERVAL_MS (0 disables).
+export function startBlobSweep(storage: IStorage, blobs: BlobStore): () => void {
+  return runPeriodically("Blob sweep", async () => {
+    const purged = await purgeUnreferencedBlobs(storage, blobs, new Date(Date.now() - BLOB_GRACE_PERIOD_MS));
+    if (purged.length > 0) {
+      log(`purged ${purged.length} unreferenced blobs`, "maintenance");
+    }
+  }, numberFromEnv("BLOB_SWEEP_INTERVAL_MS", DEFAULT_SWEEP_INTERVAL_MS));
+}
@@ -0,0 +1,66 @@
+import { randomBytes, scrypt, timingSafeEqual, createHash, type ScryptOptions } from "crypto";
+
+// scrypt cost parameters for new hashes. Stored hashes carry their own, so
+// raising these only affects hashes written from then on.
+const COST = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+
+// Stored as "scrypt$N$r$p$salt$hash" with base64 salt and hash
+const PREFIX = "scrypt";
+
+function derive(password: string, salt: Buffer, keyLength: number, options: ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, keyLength, { ...options, maxmem: 64 * 1024 * 1024 }, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES);
+  const key = await derive(password, salt, KEY_LENGTH, COST);
+  return [PREFIX, COST.N, COST.r, COST.p, salt.toString("base64"), key.toString("base64")].join("$");
+}
+
+export interface PasswordCheck {
+  valid: boolean;
+  // The stored value is plain text or uses weaker parameters than new hashes
+  needsRehash: boolean;
+}
+
+// Compare a password with a stored hash in constant time. Records written
+// before passwords were hashed hold the plain text, which is still accepted
+// so the caller can rehash it.
+export async function verifyPassword(password: string, stored: string): Promise<PasswordCheck> {
+  const parts = stored.split("$");
+  if (parts.length !== 6 || parts[0] !== PREFIX) {
+    return { valid: equalSecrets(password, stored), needsRehash: true };
+  }
+
+  const [, N, r, p, salt, hash] = parts;
+  const options = { N: Number(N), r: Number(r), p: Number(p) };
+  const expected = Buffer.from(hash, "base64");
+  const key = await derive(password, Buffer.from(salt, "base64"), expected.length, options);
+
+  return {
+    valid: timingSafeEqual(key, expected),
+    needsRehash: options.N < COST.N || options.r < COST.r || options.p < COST.p,
+  };
+}
+
+// Hashing both sides first gives equal lengths, as timingSafeEqual requires
+function equalSecrets(a: string, b: string): boolean {
+  const digest = (value: string) => createHash("sha256").update(value).digest();
+  return timingSafeEqual(digest(a), digest(b));
+}
+
+let unusableHash: Promise<string> | undefined;
+
+// Checked against when there is no account to check, so a login for an unknown
+// email takes as long as one with a wrong password
+export function unusablePasswordHash(): Promise<string> {
+  unusableHash ??= hashPassword(randomBytes(32).toString("hex"));
+  return unusableHash;
+}
@@ -0,0 +1,138 @@
+import archiver from "archiver";
+import type { Writable } from "stream";
+import type { File, Project } from "@shared/schema";
+import { frameworkOptions } from "@shared/project-options";
+import { blobStore } from "./blob-store";
+
+export const exportFormats = ["zip", "tar.gz"] as const;
+export type ExportFormat = typeof exportFormats[number];
+
+export interface ExportOptions {
+  format: ExportFormat;
+  // Add a generated README.md / package.json when the project has none
+  readme?: boolean;
+  packageJson?: boolean;
+}
+
+// Download name for an exported project: the project name reduced to
+// characters that are safe in a file name on every platform
+export function exportFilename(project: Project, format: ExportFormat): string {
+  const stem = project.name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^\w-]+/g, "-")
+    .replace(/-{2,}/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 100);
+  return `${stem || `project-${project.id}`}.${format}`;
+}
+
+// Stream an archive of the project's files into output. Contents come straight
+// from storage, so nothing is written to disk.
+export async function writeProjectArchive(
+  output: Writable,
+  project: Project,
+  files: File[],
+  options: ExportOptions,
+): Promise<void> {
+  // Read every blob before anything is sent, so a missing one fails the
+  // request cleanly instead of truncating the download
+  const contents = await Promise.all(files.map(fileBytes));
+
+  const archive = options.format === "zip"
+    ? archiver("zip", { zlib: { level: 9 } })
+    : archiver("tar", { gzip: true, gzipOptions: { level: 9 } });
+
+  const done = new Promise<void>((resolve, reject) => {
+    archive.on("error", reject);
+    output.on("error", reject);
+    output.on("close", resolve);
+    output.on("finish", resolve);
+  });
+  archive.pipe(output);
+
+  const paths = new Set(files.map(file => file.path));
+  files.forEach((file, index) => {
+    archive.append(contents[index], { name: file.path, date: file.updatedAt });
+  });
+  if (options.readme && !paths.has("README.md")) {
+    archive.append(generateReadme(project, files), { name: "README.md" });
+  }
+  if (options.packageJson && !paths.has("package.json")) {
+    archive.append(generatePackageJson(project), { name: "package.json" });
+  }
+
+  await archive.finalize();
+  await done;
+}
+
+// Text content, or the blob of a binary asset
+async function fileBytes(file: File): Promise<string | Buffer> {
+  if (!file.blobKey) return file.content;
+
+  const blob = await blobStore.get(file.blobKey);
+  if (!blob) throw new Error(`Blob for "${file.path}" is missing`);
+  return blob;
+}
+
+function generateReadme(project: Project, files: File[]): string {
+  const lines = [
+    `# ${project.name}`,
+    "",
+    ...(project.description ? [project.description, ""] : []),
+    `- Framework: ${project.framework}`,
+    `- Backend: ${project.backend}`,
+    "",
+    "## Files",
+    "",
+    ...files.map(file => `- \`${file.path}\``),
+    "",
+  ];
+  return lines.join("\n");
+}
+
+// Scripts and dependencies for a minimal setup of each framework option
+const frameworkPackages: Record<string, { scripts: Record<string, string>; dependencies: Record<string, string>; devDependencies: Record<string, string> }> = {
+  "React + Tailwind CSS": {
+    scripts: { dev: "vite", build: "vite build", preview: "vite preview" },
+    dependencies: { react: "^18.3.1", "react-dom": "^18.3.1" },
+    devDependencies: { vite: "^5.4.0", "@vitejs/plugin-react": "^4.3.0", tailwindcss: "^3.4.0", postcss: "^8.4.0", autoprefixer: "^10.4.0" },
+  },
+  "React + MUI": {
+    scripts: { dev: "vite", build: "vite build", preview: "vite preview" },
+    dependencies: { react: "^18.3.1", "react-dom": "^18.3.1", "@mui/material": "^5.16.0", "@emotion/react": "^11.13.0", "@emotion/styled": "^11.13.0" },
+    devDependencies: { vite: "^5.4.0", "@vitejs/plugin-react": "^4.3.0" },
+  },
+  "Next.js": {
+    scripts: { dev: "next dev", build: "next build", start: "next start" },
+    dependencies: { next: "^14.2.0", react: "^18.3.1", "react-dom": "^18.3.1" },
+    devDependencies: {},
+  },
+  "Vue.js": {
+    scripts: { dev: "vite", build: "vite build", preview: "vite preview" },
+    dependencies: { vue: "^3.4.0" },
+    devDependencies: { vite: "^5.4.0", "@vitejs/plugin-vue": "^5.1.0" },
+  },
+  "Angular": {
+    scripts: { start: "ng serve", build: "ng build" },
+    dependencies: { "@angular/core": "^18.2.0", "@angular/common": "^18.2.0", "@angular/platform-browser": "^18.2.0", rxjs: "^7.8.0", "zone.js": "^0.14.0" },
+    devDependencies: { "@angular/cli": "^18.2.0", "@angular/compiler-cli": "^18.2.0", typescript: "~5.5.0" },
+  },
+  "Svelte": {
+    scripts: { dev: "vite", build: "vite build", preview: "vite preview" },
+    dependencies: {},
+    devDependencies: { svelte: "^4.2.0", vite: "^5.4.0", "@sveltejs/vite-plugin-svelte": "^3.1.0" },
+  },
+};
+
+function generatePackageJson(project: Project): string {
+  const setup = frameworkPackages[project.framework] ?? frameworkPackages[frameworkOptions[0]];
+  const manifest = {
+    name: project.name.toLowerCase().replace(/[^a-z0-9-]+/g, "-").replace(/^-+|-+$/g, "") || "project",
+    version: "0.1.0",
+    private: true,
+    ...(project.description ? { description: project.description } : {}),
+    ...setup,
+  };
+  return JSON.stringify(manifest, null, 2) + "\n";
+}
@@ -0,0 +1,108 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { PassThrough } from "stream";
+import archiver from "archiver";
+import { backendOptions, frameworkOptions } from "@shared/project-options";
+import { inferProjectSettings, ProjectImportError, readProjectArchive } from "./project-import";
+
+// A zip archive of the given entries, built in memory
+async function zipOf(entries: Record<string, string | Buffer>): Promise<Buffer> {
+  const archive = archiver("zip");
+  const output = new PassThrough();
+  const chunks: Buffer[] = [];
+  output.on("data", (chunk: Buffer) => chunks.push(chunk));
+  const done = new Promise((resolve) => output.on("end", resolve));
+
+  archive.pipe(output);
+  for (const [name, data] of Object.entries(entries)) {
+    archive.append(data, { name });
+  }
+  await archive.finalize();
+  await done;
+  return Buffer.concat(chunks);
+}
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00]);
+
+describe("readProjectArchive", () => {
+  it("reads text files and drops a folder wrapping everything", async () => {
+    const archive = await zipOf({ "app-main/src/index.js": "run()", "app-main/README.md": "# App" });
+    const { files, skipped } = await readProjectArchive(archive);
+    assert.deepEqual(files, [
+      { path: "src/index.js", content: "run()" },
+      { path: "README.md", content: "# App" },
+    ]);
+    assert.deepEqual(skipped, []);
+  });
+
+  it("rejects entries that climb out of the project", async () => {
+    // Archivers strip a leading "../", so the climb starts inside a folder
+    const archive = await zipOf({ "src/../../evil.js": "pwned()" });
+    await assert.rejects(readProjectArchive(archive), ProjectImportError);
+  });
+
+  it("rejects an entry larger than the limit", async () => {
+    const archive = await zipOf({ "big.txt": Buffer.alloc(5 * 1024 * 1024 + 1, "a") });
+    await assert.rejects(readProjectArchive(archive), {
+      name: "ProjectImportError",
+      message: /"big.txt" is larger than/,
+    });
+  });
+
+  it("skips node_modules unless asked to keep it", async () => {
+    const archive = await zipOf({ "index.js": "", "node_modules/left-pad/index.js": "pad()" });
+
+    const { files, skipped } = await readProjectArchive(archive);
+    assert.deepEqual(files.map(file => file.path), ["index.js"]);
+    assert.deepEqual(skipped, [{ path: "node_modules/left-pad/index.js", reason: "node_modules" }]);
+
+    const kept = await readProjectArchive(archive, { includeNodeModules: true });
+    assert.deepEqual(kept.files.map(file => file.path), ["index.js", "node_modules/left-pad/index.js"]);
+  });
+
+  it("skips binary files unless asked to keep them as assets", async () => {
+    const archive = await zipOf({ "index.html": "<img src=logo.png>", "logo.png": PNG });
+
+    const { assets, skipped } = await readProjectArchive(archive);
+    assert.deepEqual(assets, []);
+    assert.deepEqual(skipped, [{ path: "logo.png", reason: "binary" }]);
+
+    const kept = await readProjectArchive(archive, { includeBinaries: true });
+    assert.deepEqual(kept.files.map(file => file.path), ["index.html"]);
+    assert.deepEqual(kept.assets, [{ path: "logo.png", data: PNG }]);
+    assert.deepEqual(kept.skipped, []);
+  });
+
+  it("rejects something that is not a zip archive", async () => {
+    await assert.rejects(readProjectArchive(Buffer.from("not a zip")), ProjectImportError);
+  });
+});
+
+describe("inferProjectSettings", () => {
+  const manifest = (dependencies: Record<string, string>) => JSON.stringify({ dependencies });
+  const [react, , next, vue] = frameworkOptions;
+  const [express, firebase] = backendOptions;
+
+  it("infers the framework and backend from package.json", () => {
+    assert.deepEqual(
+      inferProjectSettings([{ path: "package.json", content: manifest({ next: "14.0.0", "firebase-admin": "12.0.0" }) }]),
+      { framework: next, backend: firebase }
+    );
+    assert.deepEqual(
+      inferProjectSettings([{ path: "package.json", content: manifest({ vue: "3.4.0", express: "4.18.0" }) }]),
+      { framework: vue, backend: express }
+    );
+  });
+
+  it("falls back to the first options without a readable manifest", () => {
+    assert.deepEqual(
+      inferProjectSettings([{ path: "package.json", content: "{ not json" }]),
+      { framework: react, backend: express }
+    );
+  });
+
+  it("ignores manifests nested deeper than one folder", () => {
+    const files = [{ path: "examples/next/package.json", content: manifest({ next: "14.0.0" }) }];
+    assert.deepEqual(inferProjectSettings(files), { framework: react, backend: express });
+  });
+});
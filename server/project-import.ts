@@ -0,0 +1,235 @@
+import yauzl, { type Entry, type ZipFile } from "yauzl";
+import { InvalidFilePathError, baseName, normalizeFilePath } from "@shared/file-paths";
+import { frameworkOptions, backendOptions } from "@shared/project-options";
+
+// Limits for uploaded archives. Entries are checked against their declared
+// size before they are inflated, and yauzl verifies the declared sizes.
+export const MAX_ARCHIVE_BYTES = 50 * 1024 * 1024;
+const MAX_ENTRY_BYTES = 5 * 1024 * 1024;
+const MAX_TOTAL_BYTES = 100 * 1024 * 1024;
+const MAX_ENTRIES = 5000;
+
+// The upload cannot be turned into a project: not a zip, unsafe or too large
+export class ProjectImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProjectImportError";
+  }
+}
+
+export interface ImportedFile {
+  path: string;
+  content: string;
+}
+
+// A binary file, kept only when asked for; stored in the blob store like an
+// uploaded asset
+export interface ImportedAsset {
+  path: string;
+  data: Buffer;
+}
+
+export interface SkippedEntry {
+  path: string;
+  reason: "node_modules" | "binary";
+}
+
+export interface ReadArchiveOptions {
+  includeNodeModules?: boolean;
+  includeBinaries?: boolean;
+}
+
+// Text files of a zip archive, keyed by their path inside the project, and its
+// binary files when includeBinaries is set. A single folder wrapping everything
+// (as GitHub downloads have) is dropped from the paths.
+export async function readProjectArchive(
+  archive: Buffer,
+  options: ReadArchiveOptions = {},
+): Promise<{ files: ImportedFile[]; assets: ImportedAsset[]; skipped: SkippedEntry[] }> {
+  const zipfile = await openArchive(archive);
+  const files: ImportedFile[] = [];
+  const assets: ImportedAsset[] = [];
+  const skipped: SkippedEntry[] = [];
+  let entryCount = 0;
+  let totalBytes = 0;
+
+  try {
+    for await (const entry of entries(zipfile)) {
+      if (++entryCount > MAX_ENTRIES) {
+        throw new ProjectImportError(`Archive has more than ${MAX_ENTRIES} entries`);
+      }
+      if (entry.fileName.endsWith("/")) continue;
+
+      const path = archivePath(entry.fileName);
+      if (!options.includeNodeModules && path.split("/").includes("node_modules")) {
+        skipped.push({ path, reason: "node_modules" });
+        continue;
+      }
+      if (entry.isEncrypted()) {
+        throw new ProjectImportError(`"${path}" is encrypted`);
+      }
+      if (entry.uncompressedSize > MAX_ENTRY_BYTES) {
+        throw new ProjectImportError(`"${path}" is larger than ${MAX_ENTRY_BYTES} bytes`);
+      }
+      totalBytes += entry.uncompressedSize;
+      if (totalBytes > MAX_TOTAL_BYTES) {
+        throw new ProjectImportError(`Archive expands to more than ${MAX_TOTAL_BYTES} bytes`);
+      }
+
+      const data = await readEntry(zipfile, entry);
+      const content = decodeText(data);
+      if (content !== null) {
+        files.push({ path, content });
+      } else if (options.includeBinaries) {
+        assets.push({ path, data });
+      } else {
+        skipped.push({ path, reason: "binary" });
+      }
+    }
+  } finally {
+    zipfile.close();
+  }
+
+  const folder = commonFolder([...files, ...assets, ...skipped].map(entry => entry.path));
+  return {
+    files: files.map(file => ({ ...file, path: file.path.slice(folder.length) })),
+    assets: assets.map(asset => ({ ...asset, path: asset.path.slice(folder.length) })),
+    skipped: skipped.map(entry => ({ ...entry, path: entry.path.slice(folder.length) })),
+  };
+}
+
+function openArchive(archive: Buffer): Promise<ZipFile> {
+  return new Promise((resolve, reject) => {
+    yauzl.fromBuffer(archive, { lazyEntries: true }, (error, zipfile) => {
+      if (error) reject(new ProjectImportError(`Not a valid zip archive: ${error.message}`));
+      else resolve(zipfile);
+    });
+  });
+}
+
+// Entries one at a time, so nothing is inflated before it has been checked
+async function* entries(zipfile: ZipFile): AsyncGenerator<Entry> {
+  while (true) {
+    const entry = await new Promise<Entry | null>((resolve, reject) => {
+      const cleanup = () => {
+        zipfile.removeListener("entry", onEntry);
+        zipfile.removeListener("end", onEnd);
+        zipfile.removeListener("error", onError);
+      };
+      const onEntry = (entry: Entry) => { cleanup(); resolve(entry); };
+      const onEnd = () => { cleanup(); resolve(null); };
+      const onError = (error: Error) => {
+        cleanup();
+        reject(new ProjectImportError(`Invalid archive: ${error.message}`));
+      };
+      zipfile.on("entry", onEntry);
+      zipfile.on("end", onEnd);
+      zipfile.on("error", onError);
+      zipfile.readEntry();
+    });
+    if (!entry) return;
+    yield entry;
+  }
+}
+
+function readEntry(zipfile: ZipFile, entry: Entry): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    zipfile.openReadStream(entry, (error, stream) => {
+      if (error) return reject(new ProjectImportError(`Cannot read "${entry.fileName}": ${error.message}`));
+      const chunks: Buffer[] = [];
+      stream.on("data", (chunk: Buffer) => chunks.push(chunk));
+      stream.on("end", () => resolve(Buffer.concat(chunks)));
+      stream.on("error", (error) =>
+        reject(new ProjectImportError(`Cannot read "${entry.fileName}": ${error.message}`)),
+      );
+    });
+  });
+}
+
+// Reject absolute paths and anything that climbs out of the project
+function archivePath(fileName: string): string {
+  const name = fileName.replace(/\\/g, "/");
+  if (name.startsWith("/") || /^[a-zA-Z]:/.test(name)) {
+    throw new ProjectImportError(`"${fileName}" is an absolute path`);
+  }
+  try {
+    return normalizeFilePath(name);
+  } catch (error) {
+    if (error instanceof InvalidFilePathError) {
+      throw new ProjectImportError(error.message);
+    }
+    throw error;
+  }
+}
+
+// UTF-8 text, or null for content that looks binary
+function decodeText(data: Buffer): string | null {
+  if (data.includes(0)) return null;
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(data);
+  } catch {
+    return null;
+  }
+}
+
+// "folder/" when every path sits inside the same top-level folder, otherwise ""
+function commonFolder(paths: string[]): string {
+  const [first] = paths;
+  if (!first || !first.includes("/")) return "";
+
+  const folder = first.slice(0, first.indexOf("/") + 1);
+  return paths.every(path => path.startsWith(folder)) ? folder : "";
+}
+
+// Guess the framework and backend of an imported project from its manifests,
+// using the closest of the options a project can be created with
+export function inferProjectSettings(files: ImportedFile[]): { framework: string; backend: string } {
+  const byName = new Map<string, string[]>();
+  for (const file of files) {
+    // Manifests nested deeper than one folder belong to examples or fixtures
+    if (file.path.split("/").length > 2) continue;
+    const name = baseName(file.path);
+    byName.set(name, [...(byName.get(name) ?? []), file.content]);
+  }
+
+  const has = (name: string) => byName.has(name);
+  const mentions = (name: string, pattern: RegExp) =>
+    (byName.get(name) ?? []).some(content => pattern.test(content));
+
+  const dependencies = new Set<string>();
+  for (const content of byName.get("package.json") ?? []) {
+    try {
+      const manifest = JSON.parse(content);
+      for (const field of ["dependencies", "devDependencies", "peerDependencies"]) {
+        Object.keys(manifest[field] ?? {}).forEach(dependency => dependencies.add(dependency));
+      }
+    } catch {
+      // An unparsable package.json tells us nothing
+    }
+  }
+  const depends = (...names: string[]) => names.some(name => dependencies.has(name));
+
+  const [react, mui, next, vue, angular, svelte] = frameworkOptions;
+  let framework = react;
+  if (depends("next")) framework = next;
+  else if (depends("nuxt", "vue") || has("vue.config.js")) framework = vue;
+  else if (depends("@angular/core") || has("angular.json")) framework = angular;
+  else if (depends("svelte", "@sveltejs/kit") || has("svelte.config.js")) framework = svelte;
+  else if (depends("@mui/material", "@material-ui/core")) framework = mui;
+
+  const [express, firebase, django, rails, spring, laravel] = backendOptions;
+  let backend = express;
+  if (has("manage.py") || mentions("requirements.txt", /^django\b/im) || mentions("pyproject.toml", /django/i)) {
+    backend = django;
+  } else if (mentions("Gemfile", /gem\s+["']rails["']/)) {
+    backend = rails;
+  } else if (mentions("pom.xml", /spring-boot/) || mentions("build.gradle", /spring-boot/) || mentions("build.gradle.kts", /spring-boot/)) {
+    backend = spring;
+  } else if (has("artisan") || mentions("composer.json", /"laravel\/framework"/)) {
+    backend = laravel;
+  } else if (has("firebase.json") || depends("firebase", "firebase-admin", "firebase-functions")) {
+    backend = firebase;
+  }
+
+  return { framework, backend };
+}
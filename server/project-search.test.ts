@@ -0,0 +1,51 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { File } from "@shared/schema";
+import { SearchQueryError, replaceInFiles, searchFiles, searchOptionsSchema } from "./project-search";
+
+const textFile = (id: number, path: string, content: string) =>
+  ({ id, path, name: path.split("/").pop()!, content, blobKey: null }) as File;
+
+const options = (query: string, extra: Record<string, unknown> = {}) =>
+  searchOptionsSchema.parse({ query, ...extra });
+
+describe("searchFiles", () => {
+  it("finds every match line by line", () => {
+    const { results, matchCount } = searchFiles(
+      [textFile(1, "src/a.js", "const a = 1;\nconst b = a;")],
+      options("a"),
+    );
+    assert.equal(matchCount, 2);
+    assert.deepEqual(
+      results[0].matches.map(({ line, column, length }) => [line, column, length]),
+      [[1, 7, 1], [2, 11, 1]],
+    );
+  });
+
+  it("rejects invalid regular expressions", () => {
+    assert.throws(() => searchFiles([], options("(", { regex: true })), SearchQueryError);
+  });
+
+  it("stops a catastrophically backtracking pattern instead of hanging", () => {
+    const started = Date.now();
+    assert.throws(
+      () => searchFiles([textFile(1, "a.txt", `${"a".repeat(40)}b`)], options("(a+)+$", { regex: true })),
+      SearchQueryError,
+    );
+    assert.ok(Date.now() - started < 5000);
+  });
+});
+
+describe("replaceInFiles", () => {
+  it("replaces literally unless in regex mode", () => {
+    const files = [textFile(1, "a.txt", "foo.bar\nfoo")];
+    assert.deepEqual(
+      replaceInFiles(files, options("foo"), "$&!").map(({ content, count }) => [content, count]),
+      [["$&!.bar\n$&!", 2]],
+    );
+    assert.deepEqual(
+      replaceInFiles(files, options("(f)oo", { regex: true }), "$1").map(({ content }) => content),
+      ["f.bar\nf"],
+    );
+  });
+});
@@ -0,0 +1,189 @@
+import vm from "vm";
+import picomatch from "picomatch";
+import { z } from "zod";
+import type { File } from "@shared/schema";
+
+// Stop collecting matches past this many; the response says it was cut short
+const MAX_MATCHES = 2000;
+// Longer lines are cut in match previews
+const MAX_PREVIEW_LENGTH = 500;
+// Most time one search or replace may spend matching, across all files
+const SEARCH_TIME_LIMIT_MS = 2000;
+
+export const searchOptionsSchema = z.object({
+  query: z.string().min(1).max(1000),
+  regex: z.boolean().default(false),
+  caseSensitive: z.boolean().default(false),
+  // Comma-separated globs such as "src/**/*.tsx, *.css"; a pattern without a
+  // slash matches file names in any folder
+  include: z.string().optional(),
+  exclude: z.string().optional(),
+});
+
+export type SearchOptions = z.infer<typeof searchOptionsSchema>;
+
+// The query is not a valid regular expression
+export class SearchQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SearchQueryError";
+  }
+}
+
+// Lines and columns start at 1; columns count UTF-16 code units
+export interface SearchMatch {
+  line: number;
+  column: number;
+  length: number;
+  preview: string;
+}
+
+export interface FileSearchResult {
+  fileId: number;
+  path: string;
+  matches: SearchMatch[];
+}
+
+export interface SearchResults {
+  results: FileSearchResult[];
+  matchCount: number;
+  truncated: boolean;
+}
+
+// Every match of the query in the project's text files, line by line.
+// Binary assets are never searched.
+export function searchFiles(projectFiles: File[], options: SearchOptions): SearchResults {
+  const pattern = compilePattern(options);
+  const isSearched = pathFilter(options);
+  const results: FileSearchResult[] = [];
+  let matchCount = 0;
+
+  for (const file of projectFiles) {
+    if (file.blobKey || !isSearched(file.path)) continue;
+
+    const matches: SearchMatch[] = [];
+    const lines = file.content.split("\n");
+    const lineMatches = pattern.matchLines(lines);
+    for (let index = 0; index < lines.length; index++) {
+      for (const [start, length] of lineMatches[index]) {
+        if (matchCount === MAX_MATCHES) {
+          if (matches.length > 0) results.push({ fileId: file.id, path: file.path, matches });
+          return { results, matchCount, truncated: true };
+        }
+        matches.push({
+          line: index + 1,
+          column: start + 1,
+          length,
+          preview: lines[index].slice(0, MAX_PREVIEW_LENGTH),
+        });
+        matchCount++;
+      }
+    }
+
+    if (matches.length > 0) {
+      results.push({ fileId: file.id, path: file.path, matches });
+    }
+  }
+
+  return { results, matchCount, truncated: false };
+}
+
+export interface FileReplacement {
+  file: File;
+  content: string;
+  count: number;
+}
+
+// New contents for every file the query matches, with each match replaced.
+// In regex mode the replacement may refer to groups as $1, $<name> and so on.
+export function replaceInFiles(
+  projectFiles: File[],
+  options: SearchOptions,
+  replacement: string,
+): FileReplacement[] {
+  const pattern = compilePattern(options);
+  const isSearched = pathFilter(options);
+  const replacements: FileReplacement[] = [];
+
+  for (const file of projectFiles) {
+    if (file.blobKey || !isSearched(file.path)) continue;
+
+    const lines = file.content.split("\n");
+    const count = pattern.matchLines(lines).reduce((total, matches) => total + matches.length, 0);
+    if (count === 0) continue;
+
+    const content = pattern
+      .replaceLines(lines, options.regex ? replacement : () => replacement)
+      .join("\n");
+
+    replacements.push({ file, content, count });
+  }
+
+  return replacements;
+}
+
+function compilePattern(options: SearchOptions): TimedPattern {
+  const source = options.regex ? options.query : options.query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  try {
+    return new TimedPattern(new RegExp(source, options.caseSensitive ? "g" : "gi"));
+  } catch (error) {
+    throw new SearchQueryError((error as Error).message);
+  }
+}
+
+const matchScript = new vm.Script(
+  "lines.map(line => Array.from(line.matchAll(pattern), match => [match.index, match[0].length]))",
+);
+const replaceScript = new vm.Script("lines.map(line => line.replace(pattern, replacement))");
+
+// Runs a pattern in a separate V8 context, where a user's regex that backtracks
+// without end, such as "(a+)+$", is stopped once the search's time is up
+// instead of blocking every other request
+class TimedPattern {
+  private context: vm.Context;
+  private deadline = Date.now() + SEARCH_TIME_LIMIT_MS;
+
+  constructor(pattern: RegExp) {
+    this.context = vm.createContext({ pattern });
+  }
+
+  // The [start, length] of every match, for each line
+  matchLines(lines: string[]): Array<Array<[number, number]>> {
+    return this.run(matchScript, { lines });
+  }
+
+  replaceLines(lines: string[], replacement: string | (() => string)): string[] {
+    return this.run(replaceScript, { lines, replacement });
+  }
+
+  private run<T>(script: vm.Script, values: Record<string, unknown>): T {
+    const timeout = this.deadline - Date.now();
+    if (timeout > 0) {
+      Object.assign(this.context, values);
+      try {
+        return script.runInContext(this.context, { timeout });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ERR_SCRIPT_EXECUTION_TIMEOUT") throw error;
+      }
+    }
+    throw new SearchQueryError("The search took too long; try a simpler pattern or fewer files");
+  }
+}
+
+function pathFilter(options: SearchOptions): (path: string) => boolean {
+  const include = globMatcher(options.include);
+  const exclude = globMatcher(options.exclude);
+  return path => (!include || include(path)) && !(exclude && exclude(path));
+}
+
+function globMatcher(globs: string | undefined): ((path: string) => boolean) | null {
+  const patterns = (globs ?? "").split(",").map(glob => glob.trim()).filter(Boolean);
+  if (patterns.length === 0) return null;
+
+  // picomatch's basename option also breaks patterns that do contain a slash,
+  // so it is only given the ones that don't
+  const matchers = patterns.map(pattern =>
+    picomatch(pattern, { dot: true, basename: !pattern.includes("/") }),
+  );
+  return path => matchers.some(matches => matches(path));
+}
@@ -1,13 +1,102 @@
-import type { Express } from "express";
+import type { Express, RequestHandler, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, type RevisionInfo } from "./storage";
+import { FileBatchError } from "./file-batch";
+import { FileVersionConflictError, fileETag, versionFromIfMatch } from "@shared/file-versions";
+import {
+  MAX_ARCHIVE_BYTES,
+  ProjectImportError,
+  inferProjectSettings,
+  readProjectArchive,
+} from "./project-import";
+import { exportFilename, exportFormats, writeProjectArchive } from "./project-export";
+import { blobStore } from "./blob-store";
+import { SearchQueryError, replaceInFiles, searchFiles, searchOptionsSchema } from "./project-search";
+import { hashPassword, unusablePasswordHash, verifyPassword } from "./passwords";
+import { FirebaseTokenError, verifyFirebaseIdToken } from "./firebase-auth";
+import {
+  authorizeFileRoute,
+  authorizeProject,
+  authorizeProjectRoute,
+  authorizeWorkspace,
+  ensureProjectMember,
+  ensureTwoFactor,
+  mockUserSession,
+  requireTwoFactor,
+  requireUser,
+  requireVerifiedEmail,
+  workspaceRole,
+} from "./authorization";
+import {
+  SESSION_COOKIE,
+  pendingTwoFactorUserId,
+  sessionMiddleware,
+  startTwoFactorChallenge,
+  startUserSession,
+} from "./sessions";
+import { bearerAuthentication, generateAccessToken } from "./access-tokens";
+import { AccountTokenError, verifyAccountToken } from "./account-tokens";
+import {
+  appBaseUrl,
+  sendPasswordResetEmail,
+  sendProjectSharedEmail,
+  sendVerificationEmail,
+  sendWorkspaceInvitationEmail,
+} from "./account-emails";
+import {
+  INVITATION_LIFETIME_MS,
+  generateInvitationToken,
+  hashInvitationToken,
+  sameEmail,
+} from "./workspace-invitations";
+import { MAX_SHARE_LINK_DAYS, generateShareLinkToken, hashShareLinkToken } from "./share-links";
+import {
+  TwoFactorLockedError,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  matchTotpCode,
+  secondFactorSchema,
+  totpQrCode,
+  totpUri,
+  verifySecondFactor,
+} from "./two-factor";
+import type { SessionData } from "express-session";
 import { z } from "zod";
-import { insertProjectSchema, insertFileSchema, insertUserSchema } from "@shared/schema";
-import session from "express-session";
-import MemoryStore from "memorystore";
-import fs from "fs";
+import {
+  insertProjectSchema,
+  insertFileSchema,
+  insertUserSchema,
+  accessTokenScopes,
+  workspaceRoles,
+  collaboratorRoles,
+  fileOperationSchema,
+  type FileOperation,
+  type File,
+  type InsertFile,
+  type ProjectSnapshot,
+  type ProjectShareLink,
+  type AccessToken,
+  type User,
+  type UserSession,
+  type WorkspaceInvitation,
+  type WorkspaceMember
+} from "@shared/schema";
+import { hasRole } from "@shared/workspace-roles";
+import {
+  FileNotFoundError,
+  FilePathConflictError,
+  InvalidFilePathError,
+  baseName,
+  directoryEntries,
+  isWithinPath,
+  joinFilePath,
+  normalizeFilePath,
+  resolveFullPath,
+} from "@shared/file-paths";
 import path from "path";
-import archiver from "archiver";
+import multer from "multer";
+import mimeTypes from "mime-types";
+import { createTwoFilesPatch } from "diff";
 import { OpenAI } from "openai";
 import Anthropic from "@anthropic-ai/sdk";
 
@@ -21,25 +110,191 @@ const anthropic = new Anthropic({
   apiKey: process.env.ANTHROPIC_API_KEY || "dummy-api-key"
 });
 
+// Checkpoint a project before its files are rewritten in bulk, so the change
+// can be rolled back from the snapshot list
+function takeAutomaticSnapshot(projectId: number, name: string, userId: number | null) {
+  return storage.createSnapshot({
+    projectId,
+    name: `${name} (${new Date().toISOString()})`,
+    automatic: true,
+    createdBy: userId,
+  });
+}
+
+// Snapshot listings leave out file contents, which can be large
+function summarizeSnapshot(snapshot: ProjectSnapshot) {
+  const { files, ...summary } = snapshot;
+  return { ...summary, fileCount: files.length };
+}
+
+// What a user sees of their account: never the password or two-factor secret
+function summarizeUser(user: User) {
+  const { password, totpSecret, totpRecoveryCodes, totpLastStep, ...summary } = user;
+  return { ...summary, recoveryCodesLeft: totpRecoveryCodes?.length ?? 0 };
+}
+
+// What a user sees of their sessions: never the session id from the cookie
+function summarizeSession(session: UserSession, currentSid: string) {
+  const { sid, data, userId, ...summary } = session;
+  const twoFactorVerified = !!(data as Partial<SessionData>).twoFactorVerifiedAt;
+  return { ...summary, current: sid === currentSid, twoFactorVerified };
+}
+
+// Access token listings leave out the hash
+function summarizeAccessToken(token: AccessToken) {
+  const { tokenHash, userId, ...summary } = token;
+  return summary;
+}
+
+// What members of a workspace, or collaborators on a project, see of each other
+function summarizeMember(member: Pick<WorkspaceMember, "userId" | "role" | "createdAt">, user: User) {
+  return {
+    userId: member.userId,
+    role: member.role,
+    createdAt: member.createdAt,
+    username: user.username,
+    displayName: user.displayName,
+    email: user.email,
+    photoURL: user.photoURL,
+  };
+}
+
+// Invitation listings leave out the token hash
+function summarizeInvitation(invitation: WorkspaceInvitation) {
+  const { tokenHash, ...summary } = invitation;
+  return summary;
+}
+
+// Share link listings leave out the token hash
+function summarizeShareLink(link: ProjectShareLink) {
+  const { tokenHash, ...summary } = link;
+  return summary;
+}
+
+// How recent a Google sign-in must be to count as signing in again
+const REAUTHENTICATION_MS = 5 * 60 * 1000;
+
+const reauthenticationSchema = z.object({
+  password: z.string().optional(),
+  idToken: z.string().optional(),
+});
+
+// Whether the user proved again that they are who they say, for actions that
+// ask: password accounts with their password, Google accounts with an ID token
+// from a fresh sign-in
+async function reauthenticate(user: User, credentials: z.infer<typeof reauthenticationSchema>): Promise<boolean> {
+  if (user.authProvider === "password") {
+    return !!user.password && !!credentials.password
+      && (await verifyPassword(credentials.password, user.password)).valid;
+  }
+  if (!credentials.idToken) return false;
+  
+  const identity = await verifyFirebaseIdToken(credentials.idToken);
+  return !!user.firebaseUid && identity.uid === user.firebaseUid
+    && Date.now() - identity.authTime.getTime() <= REAUTHENTICATION_MS;
+}
+
+type FileContents = Pick<InsertFile, "content" | "blobKey" | "mimeType" | "size">;
+
+// Create the file at `path`, or overwrite the content of the one already there
+async function writeFileAtPath(projectId: number, path: string, contents: FileContents, revision: RevisionInfo) {
+  const existingFile = await storage.getFileByPath(projectId, path);
+  if (existingFile) {
+    const file = await storage.updateFile(existingFile.id, contents, revision);
+    if (file) return { file, created: false };
+  }
+  
+  const file = await storage.createFile({ projectId, path, name: baseName(path), ...contents }, revision);
+  return { file, created: true };
+}
+
+const MAX_ASSET_BYTES = 10 * 1024 * 1024;
+
+// Browsers send application/octet-stream for types they don't know, fonts
+// among them; fall back to the type the extension implies
+function assetMimeType(name: string, declared: string): string {
+  if (declared && declared !== "application/octet-stream") return declared;
+  return mimeTypes.lookup(name) || "application/octet-stream";
+}
+
+// Run a multer upload, answering its own errors (too large, too many files)
+// with 413 or 400 instead of passing them to the generic error handler
+function handleUpload(upload: RequestHandler): RequestHandler {
+  return (req, res, next) => {
+    upload(req, res, (error) => {
+      if (error instanceof multer.MulterError) {
+        const status = error.code === "LIMIT_FILE_SIZE" ? 413 : 400;
+        return res.status(status).json({ message: error.message });
+      }
+      next(error);
+    });
+  };
+}
+
+// Send a file's raw bytes with its content type. Sandboxed, so an uploaded
+// HTML or SVG file cannot run script on this origin.
+async function sendRawFile(res: Response, file: File) {
+  const body = file.blobKey ? await blobStore.get(file.blobKey) : Buffer.from(file.content);
+  if (!body) {
+    return res.status(404).json({ message: "File content not found" });
+  }
+  
+  res.type(file.mimeType ?? (mimeTypes.lookup(file.name) || "text/plain"));
+  res.set({
+    "ETag": fileETag(file.version),
+    "Cache-Control": "no-cache",
+    "Content-Security-Policy": "sandbox",
+    "X-Content-Type-Options": "nosniff"
+  });
+  res.send(body);
+}
+
+// Answer a request that named an invalid, missing or already taken file path,
+// or that was based on an outdated file version. A failed batch is answered for
+// the operation that failed, with its index.
+// Returns false, sending nothing, for any other error.
+function sendFileError(res: Response, error: unknown): boolean {
+  const index = error instanceof FileBatchError ? error.index : undefined;
+  const cause = error instanceof FileBatchError ? error.cause : error;
+  const message = (error as Error).message;
+  
+  if (cause instanceof InvalidFilePathError) {
+    res.status(400).json({ message, index });
+    return true;
+  }
+  if (cause instanceof FileNotFoundError) {
+    res.status(404).json({ message, index });
+    return true;
+  }
+  if (cause instanceof FilePathConflictError) {
+    res.status(409).json({ message, index, path: cause.conflictingPath });
+    return true;
+  }
+  if (cause instanceof FileVersionConflictError) {
+    res.status(409).json({ message, index, file: cause.current });
+    return true;
+  }
+  return false;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
-  const MemoryStoreSession = MemoryStore(session);
-  
-  app.use(
-    session({
-      secret: process.env.SESSION_SECRET || "xalgrow-session-secret",
-      resave: false,
-      saveUninitialized: true,
-      cookie: { secure: false, maxAge: 86400000 }, // 1 day
-      store: new MemoryStoreSession({
-        checkPeriod: 86400000, // prune expired entries every 24h
-      }),
-    })
-  );
+  app.use(bearerAuthentication);
+  app.use(sessionMiddleware(app, storage));
 
+  // Never enabled outside development, whatever the environment says
+  if (app.get("env") === "development" && process.env.DEV_MOCK_AUTH === "true") {
+    console.warn("DEV_MOCK_AUTH is set: requests without a session use a mock user");
+    app.use(mockUserSession);
+  }
+  
   // User authentication APIs
+  const registerSchema = insertUserSchema
+    .pick({ username: true, email: true, displayName: true, photoURL: true })
+    .extend({ password: z.string().min(6) });
+  
   app.post("/api/auth/register", async (req, res) => {
     try {
-      const userData = insertUserSchema.parse(req.body);
+      const userData = registerSchema.parse(req.body);
       
       // Check if user already exists
       const existingUserByEmail = await storage.getUserByEmail(userData.email);
@@ -53,13 +308,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Create the user
-      const user = await storage.createUser(userData);
+      const user = await storage.createUser({
+        ...userData,
+        password: await hashPassword(userData.password),
+        authProvider: "password"
+      });
+      
+      await startUserSession(req, user.id);
       
-      // Remove password from response
-      const { password, ...userWithoutPassword } = user;
+      // The account works without it, except for what needs a verified email
+      sendVerificationEmail(user, appBaseUrl(req)).catch((error) => {
+        console.error("Verification email error:", error);
+      });
       
-      req.session.userId = user.id;
-      res.status(201).json(userWithoutPassword);
+      res.status(201).json(summarizeUser(user));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: error.errors });
@@ -71,18 +333,62 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/auth/login", async (req, res) => {
     try {
       const { email, password } = req.body;
+      if (typeof email !== "string" || typeof password !== "string") {
+        return res.status(400).json({ message: "Email and password are required" });
+      }
       
-      const user = await storage.getUserByEmail(email);
-      if (!user || user.password !== password) {
+      // Accounts that sign in through Firebase have no password to check
+      let user = await storage.getUserByEmail(email);
+      const stored = user?.authProvider === "password" ? user.password : null;
+      const check = await verifyPassword(password, stored ?? await unusablePasswordHash());
+      if (!user || !stored || !check.valid) {
         return res.status(401).json({ message: "Invalid email or password" });
       }
       
-      // Remove password from response
-      const { password: _, ...userWithoutPassword } = user;
+      // Plain-text passwords from before hashing are replaced on first use
+      if (check.needsRehash) {
+        user = await storage.updateUser(user.id, { password: await hashPassword(password) }) ?? user;
+      }
+      
+      // The password is only the first step; the session is signed in by
+      // POST /api/auth/login/2fa
+      if (user.totpSecret) {
+        await startTwoFactorChallenge(req, user.id);
+        return res.status(200).json({ twoFactorRequired: true });
+      }
+      
+      await startUserSession(req, user.id);
+      res.status(200).json(summarizeUser(user));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to login" });
+    }
+  });
+  
+  // The second step of signing in with two-factor authentication, after the
+  // password or Google sign-in
+  app.post("/api/auth/login/2fa", async (req, res) => {
+    try {
+      const secondFactor = secondFactorSchema.parse(req.body);
+      const userId = pendingTwoFactorUserId(req);
+      const user = userId ? await storage.getUser(userId) : undefined;
+      if (!user?.totpSecret) {
+        return res.status(401).json({ message: "Sign in again to continue" });
+      }
+      
+      if (!(await verifySecondFactor(user, secondFactor))) {
+        return res.status(401).json({ message: "Invalid authentication code" });
+      }
       
-      req.session.userId = user.id;
-      res.status(200).json(userWithoutPassword);
+      await startUserSession(req, user.id, { twoFactorVerified: true });
+      res.status(200).json(summarizeUser(await storage.getUser(user.id) ?? user));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      if (error instanceof TwoFactorLockedError) {
+        return res.status(429).json({ message: error.message });
+      }
+      console.error("Two-factor login error:", error);
       res.status(500).json({ message: "Failed to login" });
     }
   });
@@ -92,6 +398,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (err) {
         return res.status(500).json({ message: "Failed to logout" });
       }
+      res.clearCookie(SESSION_COOKIE);
       res.status(200).json({ message: "Logged out successfully" });
     });
   });
@@ -100,7 +407,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.session.userId;
       if (!userId) {
-        return res.status(401).json({ message: "Not authenticated" });
+        const twoFactorRequired = pendingTwoFactorUserId(req) !== undefined;
+        return res.status(401).json({ message: "Not authenticated", ...(twoFactorRequired && { twoFactorRequired }) });
       }
       
       const user = await storage.getUser(userId);
@@ -108,245 +416,1713 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "User not found" });
       }
       
-      // Remove password from response
-      const { password, ...userWithoutPassword } = user;
+      res.status(200).json(summarizeUser(user));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to get user" });
+    }
+  });
+  
+  // Password reset and email verification. Both are confirmed with a link
+  // from an email whose token identifies the account (see account-tokens).
+  app.post("/api/auth/forgot-password", async (req, res) => {
+    try {
+      const { email } = req.body;
+      if (typeof email !== "string" || !email) {
+        return res.status(400).json({ message: "Email is required" });
+      }
+      
+      // Answered the same whether or not the account exists, and without
+      // waiting for the mail, so the response gives nothing away
+      const baseUrl = appBaseUrl(req);
+      const user = await storage.getUserByEmail(email);
+      if (user?.authProvider === "password") {
+        sendPasswordResetEmail(user, baseUrl).catch((error) => {
+          console.error("Password reset email error:", error);
+        });
+      }
+      
+      res.status(200).json({ message: "If an account uses that email, a reset link is on its way" });
+    } catch (error) {
+      console.error("Forgot password error:", error);
+      res.status(500).json({ message: "Failed to send reset link" });
+    }
+  });
+  
+  const resetPasswordSchema = z.object({
+    token: z.string().min(1),
+    password: z.string().min(6),
+  });
+  
+  // Set a new password and sign the account out everywhere, revoking its
+  // access tokens too: whoever took the account over may have created some
+  app.post("/api/auth/reset-password", async (req, res) => {
+    try {
+      const { token, password } = resetPasswordSchema.parse(req.body);
+      const user = await verifyAccountToken(token, "password-reset");
+      if (user.authProvider !== "password") {
+        throw new AccountTokenError();
+      }
+      
+      // Getting the link proves the address is theirs
+      await storage.updateUser(user.id, {
+        password: await hashPassword(password),
+        emailVerifiedAt: user.emailVerifiedAt ?? new Date(),
+      });
+      for (const session of await storage.getSessionsByUserId(user.id)) {
+        await storage.deleteSession(session.sid);
+      }
+      for (const accessToken of await storage.getAccessTokensByUserId(user.id)) {
+        await storage.deleteAccessToken(accessToken.id);
+      }
+      
+      res.status(200).json({ message: "Password has been reset" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      if (error instanceof AccountTokenError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Reset password error:", error);
+      res.status(500).json({ message: "Failed to reset password" });
+    }
+  });
+  
+  app.post("/api/auth/verify-email", async (req, res) => {
+    try {
+      const { token } = req.body;
+      if (typeof token !== "string" || !token) {
+        return res.status(400).json({ message: "Token is required" });
+      }
+      
+      const verified = await verifyAccountToken(token, "email-verification");
+      const user = await storage.updateUser(verified.id, { emailVerifiedAt: new Date() }) ?? verified;
+      
+      res.status(200).json(summarizeUser(user));
+    } catch (error) {
+      if (error instanceof AccountTokenError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Verify email error:", error);
+      res.status(500).json({ message: "Failed to verify email" });
+    }
+  });
+  
+  app.post("/api/auth/resend-verification", requireUser, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (user.emailVerifiedAt) {
+        return res.status(400).json({ message: "Email is already verified" });
+      }
+      
+      await sendVerificationEmail(user, appBaseUrl(req));
+      res.status(200).json({ message: "Verification email sent" });
+    } catch (error) {
+      console.error("Resend verification error:", error);
+      res.status(500).json({ message: "Failed to send verification email" });
+    }
+  });
+  
+  // The signed-in user's sessions, one per device, newest last
+  app.get("/api/auth/sessions", requireUser, async (req, res) => {
+    try {
+      const sessions = await storage.getSessionsByUserId(req.session.userId!);
+      res.status(200).json(sessions.map((session) => summarizeSession(session, req.sessionID)));
+    } catch (error) {
+      console.error("List sessions error:", error);
+      res.status(500).json({ message: "Failed to list sessions" });
+    }
+  });
+  
+  // Sign one of the user's devices out; revoking the current session logs out
+  app.delete("/api/auth/sessions/:id", requireUser, async (req, res) => {
+    try {
+      const sessions = await storage.getSessionsByUserId(req.session.userId!);
+      const session = sessions.find((session) => String(session.id) === req.params.id);
+      if (!session) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      
+      if (session.sid === req.sessionID) {
+        req.session.destroy((err) => {
+          if (err) {
+            console.error("Revoke session error:", err);
+            return res.status(500).json({ message: "Failed to revoke session" });
+          }
+          res.clearCookie(SESSION_COOKIE);
+          res.status(200).json({ message: "Session revoked" });
+        });
+        return;
+      }
+      
+      await storage.deleteSession(session.sid);
+      res.status(200).json({ message: "Session revoked" });
+    } catch (error) {
+      console.error("Revoke session error:", error);
+      res.status(500).json({ message: "Failed to revoke session" });
+    }
+  });
+  
+  // Personal access tokens, for calling the API from scripts and CI with an
+  // `Authorization: Bearer` header. Only a browser session can manage them.
+  const accessTokenSchema = z.object({
+    name: z.string().trim().min(1).max(100),
+    scopes: z.array(z.enum(accessTokenScopes)).min(1).transform((scopes) => Array.from(new Set(scopes))),
+  });
+  
+  app.get("/api/auth/tokens", requireUser, async (req, res) => {
+    try {
+      const tokens = await storage.getAccessTokensByUserId(req.session.userId!);
+      res.status(200).json(tokens.map(summarizeAccessToken));
+    } catch (error) {
+      console.error("List access tokens error:", error);
+      res.status(500).json({ message: "Failed to list access tokens" });
+    }
+  });
+  
+  // The token itself is in this response only; it cannot be shown again
+  app.post("/api/auth/tokens", requireUser, requireTwoFactor, async (req, res) => {
+    try {
+      const { name, scopes } = accessTokenSchema.parse(req.body);
+      const { token, tokenHash, prefix } = generateAccessToken();
+      
+      const accessToken = await storage.createAccessToken({
+        userId: req.session.userId!,
+        name,
+        scopes,
+        tokenHash,
+        prefix,
+      });
+      
+      res.status(201).json({ ...summarizeAccessToken(accessToken), token });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      console.error("Create access token error:", error);
+      res.status(500).json({ message: "Failed to create access token" });
+    }
+  });
+  
+  app.delete("/api/auth/tokens/:id", requireUser, async (req, res) => {
+    try {
+      const token = /^\d+$/.test(req.params.id) ? await storage.getAccessToken(Number(req.params.id)) : undefined;
+      if (!token || token.userId !== req.session.userId) {
+        return res.status(404).json({ message: "Access token not found" });
+      }
+      
+      await storage.deleteAccessToken(token.id);
+      res.status(200).json({ message: "Access token revoked" });
+    } catch (error) {
+      console.error("Revoke access token error:", error);
+      res.status(500).json({ message: "Failed to revoke access token" });
+    }
+  });
+  
+  // Two-factor authentication with an authenticator app (see two-factor).
+  // Setting it up ends with a code from the app, so a secret that never made
+  // it into the app cannot lock the user out.
+  app.post("/api/auth/2fa/setup", requireUser, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (user.totpSecret) {
+        return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+      }
+      
+      const secret = generateTotpSecret();
+      req.session.pendingTotpSecret = secret;
+      
+      const uri = totpUri(secret, user.email);
+      res.status(200).json({ secret, uri, qrCode: await totpQrCode(uri) });
+    } catch (error) {
+      console.error("Two-factor setup error:", error);
+      res.status(500).json({ message: "Failed to set up two-factor authentication" });
+    }
+  });
+  
+  // The recovery codes are in this response only; the server keeps their hashes
+  app.post("/api/auth/2fa/enable", requireUser, async (req, res) => {
+    try {
+      const { code } = z.object({ code: z.string().trim().min(1) }).parse(req.body);
+      const secret = req.session.pendingTotpSecret;
+      if (!secret) {
+        return res.status(400).json({ message: "Start two-factor setup first" });
+      }
+      
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (user.totpSecret) {
+        return res.status(400).json({ message: "Two-factor authentication is already enabled" });
+      }
+      
+      const step = matchTotpCode(secret, code);
+      if (step === null) {
+        return res.status(400).json({ message: "Invalid authentication code" });
+      }
+      
+      const { codes, hashes } = generateRecoveryCodes();
+      const enabledAt = new Date();
+      await storage.updateUser(user.id, {
+        totpSecret: secret,
+        totpEnabledAt: enabledAt,
+        totpRecoveryCodes: hashes,
+        totpLastStep: step,
+      });
+      
+      // The code just entered counts for this session
+      delete req.session.pendingTotpSecret;
+      req.session.twoFactorVerifiedAt = enabledAt.getTime();
+      
+      res.status(200).json({ recoveryCodes: codes });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      console.error("Enable two-factor error:", error);
+      res.status(500).json({ message: "Failed to enable two-factor authentication" });
+    }
+  });
+  
+  // Pass two-factor authentication on a session that has not yet, e.g. one
+  // signed in before it was enabled, before a sensitive action
+  app.post("/api/auth/2fa/verify", requireUser, async (req, res) => {
+    try {
+      const secondFactor = secondFactorSchema.parse(req.body);
+      const user = await storage.getUser(req.session.userId!);
+      if (!user?.totpSecret) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+      }
+      
+      if (!(await verifySecondFactor(user, secondFactor))) {
+        return res.status(400).json({ message: "Invalid authentication code" });
+      }
+      
+      req.session.twoFactorVerifiedAt = Date.now();
+      res.status(200).json({ message: "Two-factor authentication verified" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      if (error instanceof TwoFactorLockedError) {
+        return res.status(429).json({ message: error.message });
+      }
+      console.error("Verify two-factor error:", error);
+      res.status(500).json({ message: "Failed to verify two-factor authentication" });
+    }
+  });
+  
+  // Turning it off takes signing in again as well as a code
+  app.post("/api/auth/2fa/disable", requireUser, async (req, res) => {
+    try {
+      const secondFactor = secondFactorSchema.parse(req.body);
+      const credentials = reauthenticationSchema.parse(req.body);
+      const user = await storage.getUser(req.session.userId!);
+      if (!user?.totpSecret) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+      }
+      
+      if (!(await reauthenticate(user, credentials))) {
+        const message = user.authProvider === "password" ? "Incorrect password" : "Sign in with Google again to continue";
+        return res.status(401).json({ message });
+      }
+      if (!(await verifySecondFactor(user, secondFactor))) {
+        return res.status(400).json({ message: "Invalid authentication code" });
+      }
+      
+      const updated = await storage.updateUser(user.id, {
+        totpSecret: null,
+        totpEnabledAt: null,
+        totpRecoveryCodes: null,
+        totpLastStep: null,
+      });
+      res.status(200).json(summarizeUser(updated ?? user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      if (error instanceof TwoFactorLockedError) {
+        return res.status(429).json({ message: error.message });
+      }
+      if (error instanceof FirebaseTokenError) {
+        return res.status(401).json({ message: error.message });
+      }
+      console.error("Disable two-factor error:", error);
+      res.status(500).json({ message: "Failed to disable two-factor authentication" });
+    }
+  });
+  
+  // A new set of recovery codes; the old ones stop working
+  app.post("/api/auth/2fa/recovery-codes", requireUser, requireTwoFactor, async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      if (!user?.totpSecret) {
+        return res.status(400).json({ message: "Two-factor authentication is not enabled" });
+      }
+      
+      const { codes, hashes } = generateRecoveryCodes();
+      await storage.updateUser(user.id, { totpRecoveryCodes: hashes });
+      res.status(200).json({ recoveryCodes: codes });
+    } catch (error) {
+      console.error("Recovery codes error:", error);
+      res.status(500).json({ message: "Failed to create recovery codes" });
+    }
+  });
+  
+  // Firebase Authentication endpoints. The account is found or created from
+  // the verified token's claims; nothing else in the body is trusted. Accounts
+  // are matched on the Firebase uid; an older account without one is linked by
+  // email, but only once Firebase has verified that address. Without a user,
+  // the reason the sign-in is refused is given instead.
+  const firebaseSignIn = async (idToken: string) => {
+    const identity = await verifyFirebaseIdToken(idToken);
+    
+    const linked = await storage.getUserByFirebaseUid(identity.uid);
+    if (linked) {
+      // Firebase may have verified the address since the account was created
+      if (identity.emailVerified && !linked.emailVerifiedAt) {
+        const verified = await storage.updateUser(linked.id, { emailVerifiedAt: new Date() });
+        return { user: verified ?? linked, created: false };
+      }
+      return { user: linked, created: false };
+    }
+    
+    const existing = await storage.getUserByEmail(identity.email);
+    if (existing) {
+      // A password account is not taken over by whoever proves the same email
+      // to Firebase
+      if (existing.authProvider !== "firebase") {
+        return { user: undefined, refusal: "This email belongs to an account that signs in with a password" };
+      }
+      // Nor is an account of another Firebase user, or one claimed with an
+      // address nobody has verified
+      if (existing.firebaseUid || !identity.emailVerified) {
+        return { user: undefined, refusal: "This email belongs to another account" };
+      }
+      const user = await storage.updateUser(existing.id, {
+        firebaseUid: identity.uid,
+        emailVerifiedAt: existing.emailVerifiedAt ?? new Date(),
+      });
+      return { user: user ?? existing, created: false };
+    }
+    
+    const username = identity.email.split('@')[0];
+    console.log(`Creating new user: ${username}, ${identity.email}`);
+    
+    const user = await storage.createUser({
+      username,
+      email: identity.email,
+      password: null,
+      authProvider: "firebase",
+      firebaseUid: identity.uid,
+      emailVerifiedAt: identity.emailVerified ? new Date() : null,
+      displayName: identity.name || username,
+      photoURL: identity.picture,
+    });
+    return { user, created: true };
+  };
+  
+  const firebaseSignInHandler = (action: string): RequestHandler => async (req, res) => {
+    try {
+      const { idToken } = req.body;
+      if (typeof idToken !== "string" || !idToken) {
+        return res.status(400).json({ message: "ID token is required" });
+      }
+      
+      const { user, created, refusal } = await firebaseSignIn(idToken);
+      if (!user) {
+        return res.status(409).json({ message: refusal });
+      }
+      
+      if (user.totpSecret) {
+        await startTwoFactorChallenge(req, user.id);
+        return res.status(200).json({ twoFactorRequired: true });
+      }
+      
+      await startUserSession(req, user.id);
+      res.status(created ? 201 : 200).json(summarizeUser(user));
+    } catch (error) {
+      if (error instanceof FirebaseTokenError) {
+        return res.status(401).json({ message: error.message });
+      }
+      console.error(`Firebase ${action} error:`, error);
+      res.status(500).json({ message: `Failed to ${action} with Firebase` });
+    }
+  };
+  
+  app.post("/api/auth/firebase-login", firebaseSignInHandler("authenticate"));
+  app.post("/api/auth/firebase-register", firebaseSignInHandler("register"));
+  
+  // Workspaces: teams that own projects together, each member with a role (see
+  // shared/workspace-roles). Every user also has a personal workspace of their
+  // own, which cannot be deleted or shared.
+  app.use(["/api/workspaces", "/api/invitations"], requireUser);
+  
+  const workspaceSchema = z.object({
+    name: z.string().trim().min(1).max(100)
+  });
+  
+  // The workspaces the current user belongs to, with their role in each
+  app.get("/api/workspaces", async (req, res) => {
+    try {
+      const workspaces = await storage.getWorkspacesByUserId(req.session.userId!);
+      res.status(200).json(workspaces);
+    } catch (error) {
+      console.error("Get workspaces error:", error);
+      res.status(500).json({ message: "Failed to get workspaces" });
+    }
+  });
+  
+  app.post("/api/workspaces", async (req, res) => {
+    try {
+      const { name } = workspaceSchema.parse(req.body);
+      const workspace = await storage.createWorkspace({ name }, req.session.userId!);
+      res.status(201).json({ ...workspace, role: "owner" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      console.error("Create workspace error:", error);
+      res.status(500).json({ message: "Failed to create workspace" });
+    }
+  });
+  
+  app.patch("/api/workspaces/:id", async (req, res) => {
+    try {
+      const workspace = await authorizeWorkspace(res, req.session.userId!, Number(req.params.id), "owner");
+      if (!workspace) return;
+      
+      const { name } = workspaceSchema.parse(req.body);
+      const updatedWorkspace = await storage.updateWorkspace(workspace.id, { name });
+      res.status(200).json({ ...updatedWorkspace, role: "owner" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      console.error("Update workspace error:", error);
+      res.status(500).json({ message: "Failed to update workspace" });
+    }
+  });
+  
+  // Deletes the workspace's projects along with it
+  app.delete("/api/workspaces/:id", async (req, res) => {
+    try {
+      const workspace = await authorizeWorkspace(res, req.session.userId!, Number(req.params.id), "owner");
+      if (!workspace) return;
+      
+      if (workspace.personalUserId !== null) {
+        return res.status(400).json({ message: "Your personal workspace cannot be deleted" });
+      }
+      if (!(await ensureTwoFactor(req, res))) return;
+      
+      await storage.deleteWorkspace(workspace.id);
+      res.status(200).json({ message: "Workspace deleted successfully" });
+    } catch (error) {
+      console.error("Delete workspace error:", error);
+      res.status(500).json({ message: "Failed to delete workspace" });
+    }
+  });
+  
+  app.get("/api/workspaces/:id/members", async (req, res) => {
+    try {
+      const workspace = await authorizeWorkspace(res, req.session.userId!, Number(req.params.id), "viewer");
+      if (!workspace) return;
+      
+      const members = await storage.getWorkspaceMembers(workspace.id);
+      const summaries = [];
+      for (const member of members) {
+        const user = await storage.getUser(member.userId);
+        if (user) summaries.push(summarizeMember(member, user));
+      }
+      res.status(200).json(summaries);
+    } catch (error) {
+      console.error("Get workspace members error:", error);
+      res.status(500).json({ message: "Failed to get workspace members" });
+    }
+  });
+  
+  // Whether the current member may change or remove another member: admins
+  // may manage anyone below owner, owners anyone. Sends a 403 when not.
+  function ensureCanManage(res: Response, actor: WorkspaceMember, target: WorkspaceMember): boolean {
+    if (actor.role !== "owner" && target.role === "owner") {
+      res.status(403).json({ message: "Only owners can manage other owners" });
+      return false;
+    }
+    return true;
+  }
+  
+  // Whether removing an owner, or changing their role, would leave the
+  // workspace with none. Sends a 400 when it would.
+  async function ensureOwnerRemains(res: Response, target: WorkspaceMember): Promise<boolean> {
+    if (target.role !== "owner") return true;
+    
+    const members = await storage.getWorkspaceMembers(target.workspaceId);
+    if (members.filter((member) => member.role === "owner").length <= 1) {
+      res.status(400).json({ message: "A workspace needs at least one owner" });
+      return false;
+    }
+    return true;
+  }
+  
+  const memberRoleSchema = z.object({
+    role: z.enum(workspaceRoles)
+  });
+  
+  app.patch("/api/workspaces/:id/members/:userId", async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const workspace = await authorizeWorkspace(res, userId, Number(req.params.id), "admin");
+      if (!workspace) return;
+      
+      const { role } = memberRoleSchema.parse(req.body);
+      const actor = (await storage.getWorkspaceMember(workspace.id, userId))!;
+      const target = /^\d+$/.test(req.params.userId)
+        ? await storage.getWorkspaceMember(workspace.id, Number(req.params.userId))
+        : undefined;
+      if (!target) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      
+      if (role === "owner" && actor.role !== "owner") {
+        return res.status(403).json({ message: "Only owners can make someone an owner" });
+      }
+      if (!ensureCanManage(res, actor, target)) return;
+      if (role !== "owner" && !(await ensureOwnerRemains(res, target))) return;
+      
+      const member = await storage.updateWorkspaceMemberRole(workspace.id, target.userId, role);
+      const user = await storage.getUser(target.userId);
+      res.status(200).json(summarizeMember(member!, user!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      console.error("Update workspace member error:", error);
+      res.status(500).json({ message: "Failed to update workspace member" });
+    }
+  });
+  
+  // Remove a member; any member may remove themselves to leave the workspace
+  app.delete("/api/workspaces/:id/members/:userId", async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const targetId = Number(req.params.userId);
+      const leaving = targetId === userId;
+      const workspace = await authorizeWorkspace(res, userId, Number(req.params.id), leaving ? "viewer" : "admin");
+      if (!workspace) return;
+      
+      const actor = (await storage.getWorkspaceMember(workspace.id, userId))!;
+      const target = /^\d+$/.test(req.params.userId)
+        ? await storage.getWorkspaceMember(workspace.id, targetId)
+        : undefined;
+      if (!target) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      
+      if (workspace.personalUserId !== null) {
+        return res.status(400).json({ message: "You cannot leave your personal workspace" });
+      }
+      if (!leaving && !ensureCanManage(res, actor, target)) return;
+      if (!(await ensureOwnerRemains(res, target))) return;
+      
+      await storage.removeWorkspaceMember(workspace.id, target.userId);
+      res.status(200).json({ message: leaving ? "You left the workspace" : "Member removed" });
+    } catch (error) {
+      console.error("Remove workspace member error:", error);
+      res.status(500).json({ message: "Failed to remove workspace member" });
+    }
+  });
+  
+  // Invitations by email; the link in the email is the only way to accept, and
+  // only the token's hash is stored
+  const invitationSchema = z.object({
+    email: z.string().trim().email(),
+    role: z.enum(workspaceRoles)
+  });
+  
+  app.get("/api/workspaces/:id/invitations", async (req, res) => {
+    try {
+      const workspace = await authorizeWorkspace(res, req.session.userId!, Number(req.params.id), "admin");
+      if (!workspace) return;
+      
+      const invitations = await storage.getWorkspaceInvitations(workspace.id);
+      res.status(200).json(invitations.map(summarizeInvitation));
+    } catch (error) {
+      console.error("Get workspace invitations error:", error);
+      res.status(500).json({ message: "Failed to get workspace invitations" });
+    }
+  });
+  
+  // Inviting an address again replaces its earlier invitation and sends a new link
+  app.post("/api/workspaces/:id/invitations", async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const workspace = await authorizeWorkspace(res, userId, Number(req.params.id), "admin");
+      if (!workspace) return;
+      
+      if (workspace.personalUserId !== null) {
+        return res.status(400).json({ message: "Personal workspaces cannot be shared; create a team workspace instead" });
+      }
+      
+      const { email, role } = invitationSchema.parse(req.body);
+      const actor = (await storage.getWorkspaceMember(workspace.id, userId))!;
+      if (role === "owner" && actor.role !== "owner") {
+        return res.status(403).json({ message: "Only owners can invite owners" });
+      }
+      
+      const members = await storage.getWorkspaceMembers(workspace.id);
+      for (const member of members) {
+        const user = await storage.getUser(member.userId);
+        if (user && sameEmail(user.email, email)) {
+          return res.status(409).json({ message: "This person is already a member" });
+        }
+      }
+      
+      const inviter = (await storage.getUser(userId))!;
+      const { token, tokenHash } = generateInvitationToken();
+      const invitation = await storage.createWorkspaceInvitation({
+        workspaceId: workspace.id,
+        email: email.toLowerCase(),
+        role,
+        tokenHash,
+        invitedBy: userId,
+        expiresAt: new Date(Date.now() + INVITATION_LIFETIME_MS),
+      });
+      
+      await sendWorkspaceInvitationEmail(invitation.email, inviter, workspace, role, token, appBaseUrl(req));
+      res.status(201).json(summarizeInvitation(invitation));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      console.error("Create workspace invitation error:", error);
+      res.status(500).json({ message: "Failed to send invitation" });
+    }
+  });
+  
+  app.delete("/api/workspaces/:id/invitations/:invitationId", async (req, res) => {
+    try {
+      const workspace = await authorizeWorkspace(res, req.session.userId!, Number(req.params.id), "admin");
+      if (!workspace) return;
+      
+      const invitation = /^\d+$/.test(req.params.invitationId)
+        ? await storage.getWorkspaceInvitation(Number(req.params.invitationId))
+        : undefined;
+      if (!invitation || invitation.workspaceId !== workspace.id) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      
+      await storage.deleteWorkspaceInvitation(invitation.id);
+      res.status(200).json({ message: "Invitation revoked" });
+    } catch (error) {
+      console.error("Revoke workspace invitation error:", error);
+      res.status(500).json({ message: "Failed to revoke invitation" });
+    }
+  });
+  
+  // What the invitation page shows before the user accepts
+  app.get("/api/invitations/:token", async (req, res) => {
+    try {
+      const invitation = await storage.getWorkspaceInvitationByHash(hashInvitationToken(req.params.token));
+      const workspace = invitation && (await storage.getWorkspace(invitation.workspaceId));
+      if (!invitation || !workspace) {
+        return res.status(404).json({ message: "This invitation is invalid or has expired" });
+      }
+      
+      const inviter = invitation.invitedBy !== null ? await storage.getUser(invitation.invitedBy) : undefined;
+      res.status(200).json({
+        workspace: { id: workspace.id, name: workspace.name },
+        email: invitation.email,
+        role: invitation.role,
+        invitedBy: inviter ? inviter.displayName || inviter.username : null,
+        expiresAt: invitation.expiresAt,
+      });
+    } catch (error) {
+      console.error("Get invitation error:", error);
+      res.status(500).json({ message: "Failed to get invitation" });
+    }
+  });
+  
+  // Join the workspace. The invitation is for one email address, which the
+  // user must have confirmed; members already holding a higher role keep it.
+  app.post("/api/invitations/:token/accept", async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const invitation = await storage.getWorkspaceInvitationByHash(hashInvitationToken(req.params.token));
+      const workspace = invitation && (await storage.getWorkspace(invitation.workspaceId));
+      if (!invitation || !workspace) {
+        return res.status(404).json({ message: "This invitation is invalid or has expired" });
+      }
+      
+      const user = await storage.getUser(userId);
+      if (!user || !sameEmail(user.email, invitation.email)) {
+        return res.status(403).json({ message: `This invitation was sent to ${invitation.email}` });
+      }
+      if (!user.emailVerifiedAt) {
+        return res.status(403).json({ message: "Confirm your email address to accept this invitation" });
+      }
+      
+      const existing = await storage.getWorkspaceMember(workspace.id, userId);
+      const member = existing && hasRole(existing.role, invitation.role)
+        ? existing
+        : await storage.addWorkspaceMember({ workspaceId: workspace.id, userId, role: invitation.role });
+      await storage.deleteWorkspaceInvitation(invitation.id);
+      
+      res.status(200).json({ ...workspace, role: member.role });
+    } catch (error) {
+      console.error("Accept invitation error:", error);
+      res.status(500).json({ message: "Failed to accept invitation" });
+    }
+  });
+  
+  // Public links: anyone with one may read the project it is for, without
+  // signing in, for as long as the link lives and the project is not in the
+  // trash. Nothing here changes the project.
+  async function sharedProject(token: string) {
+    const link = await storage.getProjectShareLinkByHash(hashShareLinkToken(token));
+    const project = link && (await storage.getProject(link.projectId));
+    return project && !project.deletedAt ? project : undefined;
+  }
+  
+  app.get("/api/share/:token", async (req, res) => {
+    try {
+      const project = await sharedProject(req.params.token);
+      if (!project) {
+        return res.status(404).json({ message: "This link is invalid or has expired" });
+      }
+      
+      const files = await storage.getFilesByProjectId(project.id);
+      res.status(200).json({ project, files });
+    } catch (error) {
+      console.error("Get shared project error:", error);
+      res.status(500).json({ message: "Failed to get shared project" });
+    }
+  });
+  
+  app.get("/api/share/:token/raw/:path(*)", async (req, res) => {
+    try {
+      const project = await sharedProject(req.params.token);
+      if (!project) {
+        return res.status(404).json({ message: "This link is invalid or has expired" });
+      }
+      
+      const file = await storage.getFileByPath(project.id, normalizeFilePath(req.params.path));
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      
+      await sendRawFile(res, file);
+    } catch (error) {
+      console.error("Get shared raw file error:", error);
+      if (sendFileError(res, error)) return;
+      res.status(500).json({ message: "Failed to get file" });
+    }
+  });
+  
+  // Everything under /api/projects and /api/files needs a signed-in user with
+  // access to the project involved; handlers below can rely on both
+  app.use(["/api/projects", "/api/files"], requireUser);
+  app.use("/api/projects/:projectId", authorizeProjectRoute);
+  app.use("/api/files/:fileId", authorizeFileRoute);
+  
+  // The workspace a listing or new project is for, given as `workspaceId` in
+  // the query or body: by default the user's personal workspace
+  const workspaceIdSchema = z.coerce.number().int().positive().optional();
+  
+  async function targetWorkspaceId(userId: number, value: unknown): Promise<number> {
+    const workspaceId = workspaceIdSchema.parse(value || undefined);
+    if (workspaceId !== undefined) return workspaceId;
+    
+    const personal = await storage.getPersonalWorkspace(userId);
+    return personal!.id;
+  }
+  
+  // Project APIs
+  app.get("/api/projects", async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const workspaceId = await targetWorkspaceId(userId, req.query.workspaceId);
+      if (!(await authorizeWorkspace(res, userId, workspaceId, "viewer"))) return;
+      
+      const projects = await storage.getProjectsByWorkspaceId(workspaceId);
+      res.status(200).json(projects);
+    } catch (error) {
+      console.error("Get projects error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      res.status(500).json({ message: "Failed to get projects" });
+    }
+  });
+  
+  // Lineage is only recorded by duplicating a project, never taken from clients
+  const createProjectSchema = insertProjectSchema.omit({ forkedFromId: true });
+  
+  app.post("/api/projects", async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const workspaceId = await targetWorkspaceId(userId, req.body.workspaceId);
+      if (!(await authorizeWorkspace(res, userId, workspaceId, "editor"))) return;
+      
+      console.log("Creating project with data:", req.body);
+      
+      const projectData = createProjectSchema.parse({
+        ...req.body,
+        userId,
+        workspaceId
+      });
+      
+      const project = await storage.createProject(projectData);
+      console.log("Created project:", project);
+      res.status(201).json(project);
+    } catch (error) {
+      console.error("Create project error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create project" });
+    }
+  });
+  
+  // Create a project from an uploaded zip (multipart field "archive"). Optional
+  // fields name, description, framework and backend override what is inferred
+  // from the archive; includeNodeModules=true keeps node_modules folders,
+  // includeBinaries=true keeps binary files as assets instead of skipping them,
+  // and workspaceId picks the workspace as for a new project.
+  const archiveUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_ARCHIVE_BYTES, files: 1 },
+  }).single("archive");
+  
+  app.post("/api/projects/import", handleUpload(archiveUpload), async (req, res) => {
+    let projectId: number | undefined;
+    try {
+      const userId = req.session.userId!;
+      const workspaceId = await targetWorkspaceId(userId, req.body.workspaceId);
+      if (!(await authorizeWorkspace(res, userId, workspaceId, "editor"))) return;
+      
+      if (!req.file) {
+        return res.status(400).json({ message: "A zip archive is required" });
+      }
+      
+      const { files, assets, skipped } = await readProjectArchive(req.file.buffer, {
+        includeNodeModules: req.body.includeNodeModules === "true",
+        includeBinaries: req.body.includeBinaries === "true",
+      });
+      if (files.length === 0 && assets.length === 0) {
+        return res.status(400).json({ message: "The archive contains no files to import" });
+      }
+      
+      const inferred = inferProjectSettings(files);
+      const projectData = insertProjectSchema.parse({
+        name: req.body.name || path.parse(req.file.originalname).name || "Imported project",
+        description: req.body.description || null,
+        framework: req.body.framework || inferred.framework,
+        backend: req.body.backend || inferred.backend,
+        userId,
+        workspaceId
+      });
+      
+      const project = await storage.createProject(projectData);
+      projectId = project.id;
+      
+      const operations: FileOperation[] = files.map(file => ({
+        op: "create",
+        path: file.path,
+        content: file.content,
+        overwrite: true
+      }));
+      await storage.applyFileBatch(project.id, operations, {
+        authorId: req.session.userId ?? null,
+        source: "import"
+      });
+      for (const asset of assets) {
+        const blobKey = await blobStore.put(asset.data);
+        await writeFileAtPath(project.id, asset.path, {
+          content: "",
+          blobKey,
+          mimeType: assetMimeType(asset.path, ""),
+          size: asset.data.length
+        }, {
+          authorId: req.session.userId ?? null,
+          source: "import"
+        });
+      }
+      
+      res.status(201).json({ project, imported: files.length + assets.length, skipped });
+    } catch (error) {
+      console.error("Import project error:", error);
+      // Don't leave a half-imported project behind
+      if (projectId !== undefined) {
+        await storage.deleteProject(projectId).catch(() => {});
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      if (error instanceof ProjectImportError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (sendFileError(res, error)) return;
+      res.status(500).json({ message: "Failed to import project" });
+    }
+  });
+  
+  // Trashed projects of a workspace, picked as for the project listing;
+  // registered before /api/projects/:id
+  app.get("/api/projects/trash", async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const workspaceId = await targetWorkspaceId(userId, req.query.workspaceId);
+      if (!(await authorizeWorkspace(res, userId, workspaceId, "viewer"))) return;
+      
+      const projects = await storage.getTrashedProjectsByWorkspaceId(workspaceId);
+      res.status(200).json(projects);
+    } catch (error) {
+      console.error("Get trashed projects error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      res.status(500).json({ message: "Failed to get trashed projects" });
+    }
+  });
+  
+  // Projects shared with the current user as a collaborator, from workspaces
+  // they may not belong to
+  app.get("/api/projects/shared", async (req, res) => {
+    try {
+      const projects = await storage.getSharedProjectsByUserId(req.session.userId!);
+      res.status(200).json(projects);
+    } catch (error) {
+      console.error("Get shared projects error:", error);
+      res.status(500).json({ message: "Failed to get shared projects" });
+    }
+  });
+  
+  app.get("/api/projects/:id", async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const project = await storage.getProject(projectId);
+      
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      res.status(200).json(project);
+    } catch (error) {
+      console.error("Get project error:", error);
+      res.status(500).json({ message: "Failed to get project" });
+    }
+  });
+  
+  // Who created a project and which workspace holds it are not for editors
+  // to change
+  const updateProjectSchema = insertProjectSchema
+    .omit({ userId: true, workspaceId: true, forkedFromId: true })
+    .partial();
+  
+  app.put("/api/projects/:id", async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const project = await storage.getProject(projectId);
+      
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      console.log("Updating project with data:", req.body);
+      
+      const projectData = updateProjectSchema.parse(req.body);
+      const updatedProject = await storage.updateProject(projectId, projectData);
+      console.log("Updated project:", updatedProject);
+      res.status(200).json(updatedProject);
+    } catch (error) {
+      console.error("Update project error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update project" });
+    }
+  });
+  
+  app.delete("/api/projects/:id", async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const project = await storage.getProject(projectId);
+      
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      // Collaborators may change a project but not delete it
+      if (!(await ensureProjectMember(res, req.session.userId!, project, "editor"))) return;
+      
+      // Projects go to the trash unless a permanent delete is requested
+      if (req.query.permanent !== "true") {
+        console.log("Moving project to trash:", projectId);
+        
+        const trashedProject = await storage.trashProject(projectId);
+        return res.status(200).json(trashedProject);
+      }
+      
+      // Editors may trash projects, but only admins delete them for good
+      if (!(await authorizeProject(res, req.session.userId!, project, "admin"))) return;
+      if (!(await ensureTwoFactor(req, res))) return;
+      
+      console.log("Deleting project:", projectId);
+      
+      // Removes the project's files in the same step
+      const deleted = await storage.deleteProject(projectId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      console.log("Project deleted successfully");
+      res.status(200).json({ message: "Project deleted successfully" });
+    } catch (error) {
+      console.error("Delete project error:", error);
+      res.status(500).json({ message: "Failed to delete project" });
+    }
+  });
+  
+  app.post("/api/projects/:id/restore", async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const project = await storage.getProject(projectId);
+      
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      if (!(await ensureProjectMember(res, req.session.userId!, project, "editor"))) return;
+      
+      if (!project.deletedAt) {
+        return res.status(400).json({ message: "Project is not in the trash" });
+      }
+      
+      const restoredProject = await storage.restoreProject(projectId);
+      res.status(200).json(restoredProject);
+    } catch (error) {
+      console.error("Restore project error:", error);
+      res.status(500).json({ message: "Failed to restore project" });
+    }
+  });
+  
+  // Copy a project and all of its live files under a new name, into any
+  // workspace where the user is an editor (their personal one by default), so
+  // viewers can fork a project they cannot change.
+  const duplicateProjectSchema = z.object({
+    name: z.string().trim().min(1).optional(),
+    workspaceId: z.number().int().positive().optional()
+  });
+  
+  app.post("/api/projects/:id/duplicate", async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      
+      const projectId = parseInt(req.params.id);
+      const project = await storage.getProject(projectId);
+      
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      if (project.deletedAt) {
+        return res.status(400).json({ message: "Project is in the trash" });
+      }
+      
+      const { name, workspaceId = await targetWorkspaceId(userId, undefined) } =
+        duplicateProjectSchema.parse(req.body ?? {});
+      if (!(await authorizeWorkspace(res, userId, workspaceId, "editor"))) return;
+      
+      const duplicate = await storage.duplicateProject(
+        projectId,
+        { name: name ?? `${project.name} (copy)`, userId, workspaceId },
+        { authorId: req.session.userId ?? null, source: "duplicate" }
+      );
+      if (!duplicate) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      res.status(201).json(duplicate);
+    } catch (error) {
+      console.error("Duplicate project error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      res.status(500).json({ message: "Failed to duplicate project" });
+    }
+  });
+  
+  // Sharing one project: collaborators are users outside its workspace given
+  // a role on just this project (see shared/workspace-roles), and public links
+  // let anyone read it (see /api/share). Only editors in the project's
+  // workspace may share it; collaborators cannot pass it on.
+  const collaboratorSchema = z.object({
+    email: z.string().trim().email(),
+    role: z.enum(collaboratorRoles)
+  });
+  
+  const collaboratorRoleSchema = z.object({
+    role: z.enum(collaboratorRoles)
+  });
+  
+  // Anyone with access to the project sees who else has it
+  app.get("/api/projects/:id/collaborators", async (req, res) => {
+    try {
+      const collaborators = await storage.getProjectCollaborators(Number(req.params.id));
+      const summaries = [];
+      for (const collaborator of collaborators) {
+        const user = await storage.getUser(collaborator.userId);
+        if (user) summaries.push(summarizeMember(collaborator, user));
+      }
+      res.status(200).json(summaries);
+    } catch (error) {
+      console.error("Get project collaborators error:", error);
+      res.status(500).json({ message: "Failed to get collaborators" });
+    }
+  });
+  
+  // Share the project with the user who has an account under the email
+  // address, compared without regard to case as for workspace invitations;
+  // sharing with them again changes their role
+  app.post("/api/projects/:id/collaborators", async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const project = (await storage.getProject(Number(req.params.id)))!;
+      if (!(await ensureProjectMember(res, userId, project, "editor"))) return;
+      
+      const { email, role } = collaboratorSchema.parse(req.body);
+      const user = await storage.getUserByEmailIgnoringCase(email);
+      if (!user) {
+        return res.status(404).json({ message: "No one has an account with this email address yet" });
+      }
+      if (hasRole(await workspaceRole(user.id, project.workspaceId), role)) {
+        return res.status(409).json({ message: "This person can already open the project through its workspace" });
+      }
+      
+      const collaborator = await storage.addProjectCollaborator({ projectId: project.id, userId: user.id, role, addedBy: userId });
+      
+      const sharer = (await storage.getUser(userId))!;
+      sendProjectSharedEmail(user, sharer, project, role, appBaseUrl(req)).catch((error) => {
+        console.error("Project shared email error:", error);
+      });
+      
+      res.status(201).json(summarizeMember(collaborator, user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      console.error("Add project collaborator error:", error);
+      res.status(500).json({ message: "Failed to share project" });
+    }
+  });
+  
+  app.patch("/api/projects/:id/collaborators/:userId", async (req, res) => {
+    try {
+      const project = (await storage.getProject(Number(req.params.id)))!;
+      if (!(await ensureProjectMember(res, req.session.userId!, project, "editor"))) return;
+      
+      const { role } = collaboratorRoleSchema.parse(req.body);
+      const existing = /^\d+$/.test(req.params.userId)
+        ? await storage.getProjectCollaborator(project.id, Number(req.params.userId))
+        : undefined;
+      if (!existing) {
+        return res.status(404).json({ message: "Collaborator not found" });
+      }
+      
+      const collaborator = await storage.addProjectCollaborator({
+        projectId: project.id,
+        userId: existing.userId,
+        role,
+        addedBy: existing.addedBy
+      });
+      const user = await storage.getUser(collaborator.userId);
+      res.status(200).json(summarizeMember(collaborator, user!));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      console.error("Update project collaborator error:", error);
+      res.status(500).json({ message: "Failed to update collaborator" });
+    }
+  });
+  
+  // Stop sharing the project with a collaborator; collaborators may remove
+  // themselves
+  app.delete("/api/projects/:id/collaborators/:userId", async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const targetId = Number(req.params.userId);
+      const project = (await storage.getProject(Number(req.params.id)))!;
+      if (targetId !== userId && !(await ensureProjectMember(res, userId, project, "editor"))) return;
+      
+      const removed = /^\d+$/.test(req.params.userId)
+        && (await storage.removeProjectCollaborator(project.id, targetId));
+      if (!removed) {
+        return res.status(404).json({ message: "Collaborator not found" });
+      }
+      res.status(200).json({ message: targetId === userId ? "You left the project" : "Collaborator removed" });
+    } catch (error) {
+      console.error("Remove project collaborator error:", error);
+      res.status(500).json({ message: "Failed to remove collaborator" });
+    }
+  });
+  
+  const shareLinkSchema = z.object({
+    // Days until the link stops working; without it, it works until revoked
+    expiresInDays: z.number().int().min(1).max(MAX_SHARE_LINK_DAYS).optional()
+  });
+  
+  app.get("/api/projects/:id/share-links", async (req, res) => {
+    try {
+      const project = (await storage.getProject(Number(req.params.id)))!;
+      if (!(await ensureProjectMember(res, req.session.userId!, project, "editor"))) return;
+      
+      const links = await storage.getProjectShareLinks(project.id);
+      res.status(200).json(links.map(summarizeShareLink));
+    } catch (error) {
+      console.error("Get share links error:", error);
+      res.status(500).json({ message: "Failed to get share links" });
+    }
+  });
+  
+  // The link's token is in this response only; it cannot be shown again
+  app.post("/api/projects/:id/share-links", async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const project = (await storage.getProject(Number(req.params.id)))!;
+      if (!(await ensureProjectMember(res, userId, project, "editor"))) return;
+      
+      const { expiresInDays } = shareLinkSchema.parse(req.body ?? {});
+      const { token, tokenHash } = generateShareLinkToken();
+      const link = await storage.createProjectShareLink({
+        projectId: project.id,
+        tokenHash,
+        createdBy: userId,
+        expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null,
+      });
+      
+      res.status(201).json({ ...summarizeShareLink(link), token });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      console.error("Create share link error:", error);
+      res.status(500).json({ message: "Failed to create share link" });
+    }
+  });
+  
+  app.delete("/api/projects/:id/share-links/:linkId", async (req, res) => {
+    try {
+      const project = (await storage.getProject(Number(req.params.id)))!;
+      if (!(await ensureProjectMember(res, req.session.userId!, project, "editor"))) return;
+      
+      const link = /^\d+$/.test(req.params.linkId)
+        ? await storage.getProjectShareLink(Number(req.params.linkId))
+        : undefined;
+      if (!link || link.projectId !== project.id) {
+        return res.status(404).json({ message: "Share link not found" });
+      }
+      
+      await storage.deleteProjectShareLink(link.id);
+      res.status(200).json({ message: "Share link revoked" });
+    } catch (error) {
+      console.error("Revoke share link error:", error);
+      res.status(500).json({ message: "Failed to revoke share link" });
+    }
+  });
+  
+  // Snapshot APIs
+  app.get("/api/projects/:id/snapshots", async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const project = await storage.getProject(projectId);
+      
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      const snapshots = await storage.getSnapshotsByProjectId(projectId);
+      res.status(200).json(snapshots.map(summarizeSnapshot));
+    } catch (error) {
+      console.error("Get snapshots error:", error);
+      res.status(500).json({ message: "Failed to get snapshots" });
+    }
+  });
+  
+  app.post("/api/projects/:id/snapshots", async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const project = await storage.getProject(projectId);
+      
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      const { name } = z.object({ name: z.string().trim().min(1) }).parse(req.body);
+      
+      const snapshot = await storage.createSnapshot({
+        projectId,
+        name,
+        automatic: false,
+        createdBy: req.session.userId ?? null,
+      });
+      res.status(201).json(summarizeSnapshot(snapshot));
+    } catch (error) {
+      console.error("Create snapshot error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create snapshot" });
+    }
+  });
+  
+  // Rewrite the project's files to exactly match the snapshot
+  app.post("/api/projects/:id/snapshots/:snapshotId/restore", async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const snapshot = await storage.getSnapshot(parseInt(req.params.snapshotId));
+      
+      if (!snapshot || snapshot.projectId !== projectId) {
+        return res.status(404).json({ message: "Snapshot not found" });
+      }
+      
+      const userId = req.session.userId ?? null;
+      await takeAutomaticSnapshot(projectId, `Before restoring "${snapshot.name}"`, userId);
+      
+      const files = await storage.restoreSnapshot(snapshot.id, { authorId: userId, source: "restore" });
+      res.status(200).json(files);
+    } catch (error) {
+      console.error("Restore snapshot error:", error);
+      res.status(500).json({ message: "Failed to restore snapshot" });
+    }
+  });
+  
+  app.delete("/api/projects/:id/snapshots/:snapshotId", async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.id);
+      const snapshot = await storage.getSnapshot(parseInt(req.params.snapshotId));
+      
+      if (!snapshot || snapshot.projectId !== projectId) {
+        return res.status(404).json({ message: "Snapshot not found" });
+      }
+      
+      await storage.deleteSnapshot(snapshot.id);
+      res.status(200).json({ message: "Snapshot deleted successfully" });
+    } catch (error) {
+      console.error("Delete snapshot error:", error);
+      res.status(500).json({ message: "Failed to delete snapshot" });
+    }
+  });
+  
+  // File APIs
+  app.get("/api/projects/:projectId/files", async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.projectId);
+      const project = await storage.getProject(projectId);
+      
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      const files = await storage.getFilesByProjectId(projectId);
+      res.status(200).json(files);
+    } catch (error) {
+      console.error("Get files error:", error);
+      res.status(500).json({ message: "Failed to get files" });
+    }
+  });
+  
+  app.get("/api/projects/:projectId/files/trash", async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.projectId);
+      const project = await storage.getProject(projectId);
+      
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      const files = await storage.getTrashedFilesByProjectId(projectId);
+      res.status(200).json(files);
+    } catch (error) {
+      console.error("Get trashed files error:", error);
+      res.status(500).json({ message: "Failed to get trashed files" });
+    }
+  });
+  
+  // Apply a list of create, update, delete and move operations, all or none:
+  // { operations: FileOperation[] }. Responds with one result per operation.
+  app.post("/api/projects/:projectId/files/batch", async (req, res) => {
+    try {
+      const projectId = parseInt(req.params.projectId);
+      const project = await storage.getProject(projectId);
+      
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      
+      const { operations } = z.object({ operations: z.array(fileOperationSchema) }).parse(req.body);
+      const results = await storage.applyFileBatch(projectId, operations, {
+        authorId: req.session.userId ?? null,
+        source: "manual"
+      });
       
-      res.status(200).json(userWithoutPassword);
+      res.status(200).json({ results });
     } catch (error) {
-      res.status(500).json({ message: "Failed to get user" });
+      console.error("File batch error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      if (sendFileError(res, error)) return;
+      res.status(500).json({ message: "Failed to apply file batch" });
     }
   });
   
-  // Firebase Authentication endpoints
-  app.post("/api/auth/firebase-login", async (req, res) => {
+  // Rename or move a file or a whole directory in one step: { from, to }
+  app.post("/api/projects/:projectId/files/move", async (req, res) => {
     try {
-      const { idToken } = req.body;
+      const projectId = parseInt(req.params.projectId);
+      const project = await storage.getProject(projectId);
       
-      if (!idToken) {
-        return res.status(400).json({ message: "ID token is required" });
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
       }
       
-      // In a production environment, we would verify the Firebase ID token here
-      // For demo purposes, we'll extract information from the request body
-      // In a real app, you'd verify the token with the Firebase Admin SDK
-      
-      // Extract email from request (for demo)
-      // Check if an email was sent in the request body as a fallback
-      const email = req.body.email || 'demo@example.com';
+      const { from, to } = z.object({ from: z.string(), to: z.string() }).parse(req.body);
+      const movedFiles = await storage.moveFiles(projectId, from, to);
       
-      console.log(`Authenticating Firebase user with email: ${email}`);
-      
-      // Find or create the user
-      let user = await storage.getUserByEmail(email);
-      
-      if (!user) {
-        // Auto-register new users from Firebase
-        const username = email.split('@')[0];
-        const displayName = req.body.displayName || username;
-        const photoURL = req.body.photoURL || null;
-        
-        console.log(`Creating new user: ${username}, ${email}, ${displayName}`);
-        
-        user = await storage.createUser({
-          username,
-          email,
-          password: "firebase-auth", // placeholder, not used for firebase users
-          displayName,
-          photoURL,
-        });
+      if (movedFiles.length === 0) {
+        return res.status(404).json({ message: "File not found" });
       }
       
-      // Set user ID in session
-      req.session.userId = user.id;
-      console.log(`Setting session userId: ${user.id}`);
-      
-      // Remove password from response
-      const { password, ...userWithoutPassword } = user;
-      
-      res.status(200).json(userWithoutPassword);
+      res.status(200).json(movedFiles);
     } catch (error) {
-      console.error("Firebase login error:", error);
-      res.status(500).json({ message: "Failed to authenticate with Firebase" });
+      console.error("Move files error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      if (sendFileError(res, error)) return;
+      res.status(500).json({ message: "Failed to move files" });
     }
   });
   
-  app.post("/api/auth/firebase-register", async (req, res) => {
+  // Upload binary assets such as images and fonts (multipart field "files",
+  // optional field "directory"). A file already at the same path is replaced.
+  const assetUpload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: MAX_ASSET_BYTES, files: 20 },
+  }).array("files");
+  
+  app.post("/api/projects/:projectId/assets", handleUpload(assetUpload), async (req, res) => {
     try {
-      const { idToken, email, displayName, photoURL } = req.body;
+      const projectId = parseInt(req.params.projectId);
+      const project = await storage.getProject(projectId);
       
-      if (!idToken || !email) {
-        return res.status(400).json({ message: "ID token and email are required" });
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
       }
       
-      console.log(`Registering Firebase user with email: ${email}`);
-      
-      // In a production environment, we would verify the Firebase ID token here
-      // For demo purposes, we'll extract information from the request body
-      
-      // Check if user already exists
-      let user = await storage.getUserByEmail(email);
-      
-      if (user) {
-        console.log(`User already exists with ID: ${user.id}`);
-        // User already exists, update session
-        req.session.userId = user.id;
-        
-        // Remove password from response
-        const { password, ...userWithoutPassword } = user;
-        
-        return res.status(200).json(userWithoutPassword);
+      const uploads = (req.files ?? []) as Express.Multer.File[];
+      if (uploads.length === 0) {
+        return res.status(400).json({ message: "No files uploaded" });
       }
       
-      // Create new user
-      const username = email.split('@')[0];
-      console.log(`Creating new user: ${username}, ${email}, ${displayName || username}`);
-      
-      user = await storage.createUser({
-        username,
-        email,
-        password: "firebase-auth", // placeholder, not used for firebase users
-        displayName: displayName || null,
-        photoURL: photoURL || null,
-      });
-      
-      // Set user ID in session
-      req.session.userId = user.id;
-      console.log(`Setting session userId: ${user.id}`);
-      
-      // Remove password from response
-      const { password, ...userWithoutPassword } = user;
+      const directory = typeof req.body.directory === "string" ? req.body.directory : "";
+      const assets = [];
+      for (const upload of uploads) {
+        // Busboy reads multipart file names as latin1
+        const name = Buffer.from(upload.originalname, "latin1").toString("utf8");
+        const path = normalizeFilePath(joinFilePath(directory, name));
+        const blobKey = await blobStore.put(upload.buffer);
+        const { file } = await writeFileAtPath(projectId, path, {
+          content: "",
+          blobKey,
+          mimeType: assetMimeType(name, upload.mimetype),
+          size: upload.size
+        }, {
+          authorId: req.session.userId ?? null,
+          source: "manual"
+        });
+        assets.push(file);
+      }
       
-      res.status(201).json(userWithoutPassword);
+      res.status(201).json(assets);
     } catch (error) {
-      console.error("Firebase register error:", error);
-      res.status(500).json({ message: "Failed to register with Firebase" });
+      console.error("Upload assets error:", error);
+      if (sendFileError(res, error)) return;
+      res.status(500).json({ message: "Failed to upload assets" });
     }
   });
   
-  // Project APIs
-  app.get("/api/projects", async (req, res) => {
+  // A project file's raw bytes with its content type, for the preview iframe
+  // and thumbnails. Served sandboxed so uploaded HTML or SVG cannot run
+  // scripts with the app's origin.
+  app.get("/api/projects/:projectId/raw/:path(*)", async (req, res) => {
     try {
-      // For demo purposes, use userId 1 if not authenticated
-      const userId = req.session.userId || 1;
+      const projectId = parseInt(req.params.projectId);
+      const file = await storage.getFileByPath(projectId, normalizeFilePath(req.params.path));
       
-      const projects = await storage.getProjectsByUserId(userId);
-      res.status(200).json(projects);
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      
+      await sendRawFile(res, file);
     } catch (error) {
-      console.error("Get projects error:", error);
-      res.status(500).json({ message: "Failed to get projects" });
+      console.error("Get raw file error:", error);
+      if (sendFileError(res, error)) return;
+      res.status(500).json({ message: "Failed to get file" });
     }
   });
   
-  app.post("/api/projects", async (req, res) => {
+  // Search the project's text files: ?query=&regex=&caseSensitive=&include=&exclude=
+  // where include and exclude are comma-separated globs
+  app.get("/api/projects/:projectId/search", async (req, res) => {
     try {
-      // For demo purposes, use userId 1 if not authenticated
-      const userId = req.session.userId || 1;
+      const projectId = parseInt(req.params.projectId);
+      const project = await storage.getProject(projectId);
       
-      console.log("Creating project with data:", req.body);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
       
-      const projectData = insertProjectSchema.parse({
-        ...req.body,
-        userId
+      const options = searchOptionsSchema.parse({
+        ...req.query,
+        regex: req.query.regex === "true",
+        caseSensitive: req.query.caseSensitive === "true"
       });
       
-      const project = await storage.createProject(projectData);
-      console.log("Created project:", project);
-      res.status(201).json(project);
+      const files = await storage.getFilesByProjectId(projectId);
+      res.status(200).json(searchFiles(files, options));
     } catch (error) {
-      console.error("Create project error:", error);
+      console.error("Search project error:", error);
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: error.errors });
       }
-      res.status(500).json({ message: "Failed to create project" });
+      if (error instanceof SearchQueryError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to search project" });
     }
   });
   
-  app.get("/api/projects/:id", async (req, res) => {
+  // Replace every match of a search with { replacement }, taking the same
+  // options as search in the body. All files change or, if any was edited
+  // in the meantime, none do.
+  app.post("/api/projects/:projectId/replace", async (req, res) => {
     try {
-      // For demo purposes, use userId 1 if not authenticated
-      const userId = req.session.userId || 1;
-      
-      const projectId = parseInt(req.params.id);
+      const projectId = parseInt(req.params.projectId);
       const project = await storage.getProject(projectId);
       
       if (!project) {
         return res.status(404).json({ message: "Project not found" });
       }
       
-      // Skip authorization check for demo purposes
-      // if (project.userId !== userId) {
-      //   return res.status(403).json({ message: "Unauthorized access to project" });
-      // }
+      const { replacement, ...options } = searchOptionsSchema
+        .extend({ replacement: z.string() })
+        .parse(req.body);
       
-      res.status(200).json(project);
+      const files = await storage.getFilesByProjectId(projectId);
+      const replacements = replaceInFiles(files, options, replacement);
+      
+      const operations: FileOperation[] = replacements.map(({ file, content }) => ({
+        op: "update",
+        path: file.path,
+        content,
+        version: file.version
+      }));
+      const results = await storage.applyFileBatch(projectId, operations, {
+        authorId: req.session.userId ?? null,
+        source: "replace"
+      });
+      
+      res.status(200).json({
+        files: results.flatMap(result => result.files),
+        fileCount: replacements.length,
+        replacementCount: replacements.reduce((total, { count }) => total + count, 0)
+      });
     } catch (error) {
-      console.error("Get project error:", error);
-      res.status(500).json({ message: "Failed to get project" });
+      console.error("Replace in project error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      if (error instanceof SearchQueryError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (sendFileError(res, error)) return;
+      res.status(500).json({ message: "Failed to replace in project" });
     }
   });
   
-  app.put("/api/projects/:id", async (req, res) => {
+  // Path-addressed file APIs. The wildcard is a full path within the project;
+  // a path naming a directory lists or deletes everything beneath it.
+  app.get("/api/projects/:projectId/fs/:path(*)", async (req, res) => {
     try {
-      // For demo purposes, use userId 1 if not authenticated
-      const userId = req.session.userId || 1;
-      
-      const projectId = parseInt(req.params.id);
+      const projectId = parseInt(req.params.projectId);
       const project = await storage.getProject(projectId);
       
       if (!project) {
         return res.status(404).json({ message: "Project not found" });
       }
       
-      // Skip authorization check for demo purposes
-      // if (project.userId !== userId) {
-      //   return res.status(403).json({ message: "Unauthorized access to project" });
-      // }
+      // An empty path lists the project root
+      const filePath = req.params.path ? normalizeFilePath(req.params.path) : "";
+      const file = filePath ? await storage.getFileByPath(projectId, filePath) : undefined;
       
-      console.log("Updating project with data:", req.body);
+      if (file) {
+        res.set("ETag", fileETag(file.version));
+        return res.status(200).json(file);
+      }
       
-      const updatedProject = await storage.updateProject(projectId, req.body);
-      console.log("Updated project:", updatedProject);
-      res.status(200).json(updatedProject);
+      const projectFiles = await storage.getFilesByProjectId(projectId);
+      const entries = directoryEntries(projectFiles.map((projectFile) => projectFile.path), filePath);
+      
+      if (filePath && entries.length === 0) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      
+      res.status(200).json({ path: filePath, type: "directory", entries });
     } catch (error) {
-      console.error("Update project error:", error);
-      res.status(500).json({ message: "Failed to update project" });
+      console.error("Get file by path error:", error);
+      if (sendFileError(res, error)) return;
+      res.status(500).json({ message: "Failed to get file" });
     }
   });
   
-  app.delete("/api/projects/:id", async (req, res) => {
+  // Create or overwrite the file at a path: { content }
+  app.put("/api/projects/:projectId/fs/:path(*)", async (req, res) => {
     try {
-      // For demo purposes, use userId 1 if not authenticated
-      const userId = req.session.userId || 1;
-      
-      const projectId = parseInt(req.params.id);
+      const projectId = parseInt(req.params.projectId);
       const project = await storage.getProject(projectId);
       
       if (!project) {
         return res.status(404).json({ message: "Project not found" });
       }
       
-      // Skip authorization check for demo purposes
-      // if (project.userId !== userId) {
-      //   return res.status(403).json({ message: "Unauthorized access to project" });
-      // }
-      
-      console.log("Deleting project:", projectId);
+      const { content } = z.object({ content: z.string() }).parse(req.body);
+      const { file, created } = await writeFileAtPath(projectId, normalizeFilePath(req.params.path), { content }, {
+        authorId: req.session.userId ?? null,
+        source: "manual"
+      });
       
-      await storage.deleteProject(projectId);
-      console.log("Project deleted successfully");
-      res.status(200).json({ message: "Project deleted successfully" });
+      res.set("ETag", fileETag(file.version));
+      res.status(created ? 201 : 200).json(file);
     } catch (error) {
-      console.error("Delete project error:", error);
-      res.status(500).json({ message: "Failed to delete project" });
+      console.error("Write file by path error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      if (sendFileError(res, error)) return;
+      res.status(500).json({ message: "Failed to write file" });
     }
   });
   
-  // File APIs
-  app.get("/api/projects/:projectId/files", async (req, res) => {
+  app.delete("/api/projects/:projectId/fs/:path(*)", async (req, res) => {
     try {
-      // For demo purposes, use userId 1 if not authenticated
-      const userId = req.session.userId || 1;
-      
       const projectId = parseInt(req.params.projectId);
       const project = await storage.getProject(projectId);
       
@@ -354,25 +2130,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Project not found" });
       }
       
-      // Skip authorization check for demo purposes
-      // if (project.userId !== userId) {
-      //   return res.status(403).json({ message: "Unauthorized access to project" });
-      // }
+      const filePath = normalizeFilePath(req.params.path);
+      const projectFiles = await storage.getFilesByProjectId(projectId);
+      const targets = projectFiles.filter((file) => isWithinPath(file.path, filePath));
       
-      const files = await storage.getFilesByProjectId(projectId);
-      res.status(200).json(files);
+      if (targets.length === 0) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      
+      // Like DELETE /api/files/:id, files go to the trash unless a permanent delete is requested
+      const permanent = req.query.permanent === "true";
+      await storage.applyFileBatch(projectId, [{ op: "delete", path: filePath, permanent }]);
+      
+      res.status(200).json({
+        message: permanent ? `Deleted ${targets.length} files` : `Moved ${targets.length} files to the trash`,
+        files: targets.map((file) => file.id)
+      });
     } catch (error) {
-      console.error("Get files error:", error);
-      res.status(500).json({ message: "Failed to get files" });
+      console.error("Delete file by path error:", error);
+      if (sendFileError(res, error)) return;
+      res.status(500).json({ message: "Failed to delete file" });
     }
   });
   
   // Clean markdown code blocks from all files in a project
   app.post("/api/projects/:projectId/clean-files", async (req, res) => {
     try {
-      // For demo purposes, use userId 1 if not authenticated
-      const userId = req.session.userId || 1;
-      
       const projectId = parseInt(req.params.projectId);
       const project = await storage.getProject(projectId);
       
@@ -383,24 +2166,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Get all files for the project
       const files = await storage.getFilesByProjectId(projectId);
       
-      let cleanedCount = 0;
-      
       // Process each file to remove markdown code blocks
+      const operations: FileOperation[] = [];
       for (const file of files) {
         if (file.content && file.content.startsWith('```')) {
-          console.log(`Cleaning file ${file.id}: ${file.path}/${file.name}`);
-          
-          const cleanedContent = cleanCodeContent(file.content);
+          console.log(`Cleaning file ${file.id}: ${file.path}`);
           
-          // Update the file with cleaned content
-          await storage.updateFile(file.id, {
-            content: cleanedContent
-          });
-          
-          cleanedCount++;
+          operations.push({ op: "update", path: file.path, content: cleanCodeContent(file.content) });
         }
       }
       
+      // Update the files with cleaned content, all or none
+      await storage.applyFileBatch(projectId, operations, {
+        authorId: req.session.userId ?? null,
+        source: "clean"
+      });
+      const cleanedCount = operations.length;
+      
       res.json({ 
         message: `Successfully cleaned ${cleanedCount} files from markdown code blocks`,
         cleanedCount,
@@ -414,9 +2196,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   app.post("/api/projects/:projectId/files", async (req, res) => {
     try {
-      // For demo purposes, use userId 1 if not authenticated
-      const userId = req.session.userId || 1;
-      
       const projectId = parseInt(req.params.projectId);
       const project = await storage.getProject(projectId);
       
@@ -424,19 +2203,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Project not found" });
       }
       
-      // Skip authorization check for demo purposes
-      // if (project.userId !== userId) {
-      //   return res.status(403).json({ message: "Unauthorized access to project" });
-      // }
-      
       console.log("Creating file with data:", req.body);
       
-      const fileData = insertFileSchema.parse({
+      // Accept either a full path or the older directory + name pair; the name
+      // is always the path's last segment. Binary assets are only created
+      // through the upload route.
+      const fileData = insertFileSchema.omit({ name: true, blobKey: true, mimeType: true, size: true }).parse({
         ...req.body,
+        path: resolveFullPath(req.body.path ?? "", req.body.name ?? ""),
         projectId
       });
       
-      const file = await storage.createFile(fileData);
+      const file = await storage.createFile({ ...fileData, name: baseName(fileData.path) }, {
+        authorId: req.session.userId ?? null,
+        source: "manual"
+      });
       console.log("Created file:", file);
       res.status(201).json(file);
     } catch (error) {
@@ -444,15 +2225,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: error.errors });
       }
+      if (sendFileError(res, error)) return;
       res.status(500).json({ message: "Failed to create file" });
     }
   });
   
   app.put("/api/files/:id", async (req, res) => {
     try {
-      // For demo purposes, use userId 1 if not authenticated
-      const userId = req.session.userId || 1;
-      
       const fileId = parseInt(req.params.id);
       const file = await storage.getFile(fileId);
       
@@ -460,29 +2239,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "File not found" });
       }
       
-      const project = await storage.getProject(file.projectId);
-      
-      // Skip authorization check for demo purposes
-      // if (!project || project.userId !== userId) {
-      //   return res.status(403).json({ message: "Unauthorized access to file" });
-      // }
-      
       console.log("Updating file with data:", req.body);
       
-      const updatedFile = await storage.updateFile(fileId, req.body);
+      // If-Match guards against overwriting a change made since the client loaded the file
+      const ifMatch = req.get("If-Match");
+      const expectedVersion = ifMatch === undefined ? undefined : versionFromIfMatch(ifMatch);
+      if (expectedVersion === null) {
+        return res.status(400).json({ message: "If-Match must be a file ETag or *" });
+      }
+      
+      const fileData = insertFileSchema.pick({ name: true, path: true, content: true }).partial().parse(req.body);
+      const updatedFile = await storage.updateFile(fileId, fileData, {
+        authorId: req.session.userId ?? null,
+        source: "manual"
+      }, expectedVersion);
       console.log("Updated file:", updatedFile);
+      
+      if (!updatedFile) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      
+      res.set("ETag", fileETag(updatedFile.version));
       res.status(200).json(updatedFile);
     } catch (error) {
       console.error("Update file error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      if (sendFileError(res, error)) return;
       res.status(500).json({ message: "Failed to update file" });
     }
   });
   
   app.delete("/api/files/:id", async (req, res) => {
     try {
-      // For demo purposes, use userId 1 if not authenticated
-      const userId = req.session.userId || 1;
-      
       const fileId = parseInt(req.params.id);
       const file = await storage.getFile(fileId);
       
@@ -490,12 +2280,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "File not found" });
       }
       
-      const project = await storage.getProject(file.projectId);
-      
-      // Skip authorization check for demo purposes
-      // if (!project || project.userId !== userId) {
-      //   return res.status(403).json({ message: "Unauthorized access to file" });
-      // }
+      // Files go to the trash unless a permanent delete is requested
+      if (req.query.permanent !== "true") {
+        console.log("Moving file to trash:", fileId);
+        
+        const trashedFile = await storage.trashFile(fileId);
+        return res.status(200).json(trashedFile);
+      }
       
       console.log("Deleting file:", fileId);
       
@@ -508,7 +2299,107 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // AI Code Generation APIs
+  app.post("/api/files/:id/restore", async (req, res) => {
+    try {
+      const fileId = parseInt(req.params.id);
+      const file = await storage.getFile(fileId);
+      
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      
+      if (!file.deletedAt) {
+        return res.status(400).json({ message: "File is not in the trash" });
+      }
+      
+      const restoredFile = await storage.restoreFile(fileId);
+      res.status(200).json(restoredFile);
+    } catch (error) {
+      console.error("Restore file error:", error);
+      if (sendFileError(res, error)) return;
+      res.status(500).json({ message: "Failed to restore file" });
+    }
+  });
+  
+  // File revision APIs
+  app.get("/api/files/:id/revisions", async (req, res) => {
+    try {
+      const fileId = parseInt(req.params.id);
+      const file = await storage.getFile(fileId);
+      
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      
+      const revisions = await storage.getFileRevisions(fileId);
+      res.status(200).json(revisions);
+    } catch (error) {
+      console.error("Get file revisions error:", error);
+      res.status(500).json({ message: "Failed to get file revisions" });
+    }
+  });
+  
+  // Unified diff between two revisions of the same file: ?from=<id>&to=<id>
+  app.get("/api/files/:id/revisions/diff", async (req, res) => {
+    try {
+      const fileId = parseInt(req.params.id);
+      const file = await storage.getFile(fileId);
+      
+      if (!file) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      
+      const from = await storage.getFileRevision(parseInt(String(req.query.from)));
+      const to = await storage.getFileRevision(parseInt(String(req.query.to)));
+      
+      if (!from || !to || from.fileId !== fileId || to.fileId !== fileId) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+      
+      const diff = createTwoFilesPatch(
+        file.path,
+        file.path,
+        from.content,
+        to.content,
+        `revision ${from.id}`,
+        `revision ${to.id}`,
+      );
+      
+      res.status(200).json({ from: from.id, to: to.id, diff });
+    } catch (error) {
+      console.error("Diff file revisions error:", error);
+      res.status(500).json({ message: "Failed to diff file revisions" });
+    }
+  });
+  
+  app.post("/api/files/:id/revisions/:revisionId/restore", async (req, res) => {
+    try {
+      const fileId = parseInt(req.params.id);
+      const revision = await storage.getFileRevision(parseInt(req.params.revisionId));
+      
+      if (!revision || revision.fileId !== fileId) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+      
+      const updatedFile = await storage.updateFile(fileId, { content: revision.content }, {
+        authorId: req.session.userId ?? null,
+        source: "restore"
+      });
+      
+      if (!updatedFile) {
+        return res.status(404).json({ message: "File not found" });
+      }
+      
+      res.status(200).json(updatedFile);
+    } catch (error) {
+      console.error("Restore file revision error:", error);
+      res.status(500).json({ message: "Failed to restore file revision" });
+    }
+  });
+  
+  // AI Code Generation APIs, for signed-in users who have confirmed their email
+  app.use("/api/ai", requireUser, requireVerifiedEmail);
+  
   app.post("/api/ai/generate", async (req, res) => {
     try {
       const { prompt, model = "openai" } = req.body;
@@ -587,11 +2478,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Project ID is required" });
       }
       
-      // Check if project exists
-      const project = await storage.getProject(parseInt(projectId));
-      if (!project) {
-        return res.status(404).json({ message: "Project not found" });
-      }
+      // The generated files are written into the project
+      const project = await authorizeProject(res, req.session.userId!, await storage.getProject(parseInt(projectId)));
+      if (!project) return;
       
       console.log(`Generating app for project ${projectId} with description: ${description}`);
       
@@ -657,8 +2546,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(500).json({ message: "Invalid file structure generated" });
       }
       
-      // Step 2: Generate the content for each file and create the files
-      const generatedFiles = [];
+      // Step 2: Generate the content for each file
+      const operations: FileOperation[] = [];
       
       for (const file of fileStructure.files) {
         // Generate the content for this file
@@ -702,26 +2591,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
           fileContent = response.content[0].text;
         }
         
-        // Create the file in the database
-        const path = file.path || "";
-        const fullPath = path ? `${path}/${file.name}` : file.name;
-        
-        const newFile = await storage.createFile({
-          name: file.name,
-          content: fileContent,
-          path: path,
-          projectId: parseInt(projectId)
-        });
-        
-        generatedFiles.push({
-          ...newFile,
-          description: file.description
+        // Replace any file already at that path
+        operations.push({
+          op: "create",
+          path: joinFilePath(file.path || "", file.name),
+          content: fileContent ?? "",
+          overwrite: true
         });
-        
-        console.log(`Created file: ${fullPath}`);
       }
       
-      // Step 3: Return the generated files
+      // Step 3: Write all the files at once, so a failure leaves the project as it was
+      await takeAutomaticSnapshot(project.id, "Before AI generation", req.session.userId ?? null);
+      
+      const results = await storage.applyFileBatch(parseInt(projectId), operations, {
+        authorId: req.session.userId ?? null,
+        source: "ai"
+      });
+      
+      const generatedFiles = results.map((result, index) => {
+        console.log(`Created file: ${result.path}`);
+        return {
+          ...result.files[0],
+          description: fileStructure.files[index].description
+        };
+      });
+      
+      // Step 4: Return the generated files
       res.status(200).json({ 
         message: "Application generated successfully", 
         files: generatedFiles 
@@ -770,9 +2665,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Project Export API
   app.get("/api/projects/:id/export", async (req, res) => {
     try {
-      // For demo purposes, use userId 1 if not authenticated
-      const userId = req.session.userId || 1;
-      
       const projectId = parseInt(req.params.id);
       const project = await storage.getProject(projectId);
       
@@ -780,59 +2672,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Project not found" });
       }
       
-      // Skip authorization check for demo purposes
-      // if (project.userId !== userId) {
-      //   return res.status(403).json({ message: "Unauthorized access to project" });
-      // }
+      const { format, readme, packageJson } = z.object({
+        format: z.enum(exportFormats).default("zip"),
+        readme: z.enum(["true", "false"]).optional(),
+        packageJson: z.enum(["true", "false"]).optional(),
+      }).parse(req.query);
       
       console.log("Exporting project:", projectId);
       
       const files = await storage.getFilesByProjectId(projectId);
       
-      // Create a temporary directory
-      const tempDir = path.join(__dirname, `../temp/${projectId}`);
-      if (!fs.existsSync(tempDir)) {
-        fs.mkdirSync(tempDir, { recursive: true });
-      }
-      
-      // Create the zip archive
-      const zipPath = path.join(__dirname, `../temp/${project.name}.zip`);
-      const output = fs.createWriteStream(zipPath);
-      const archive = archiver('zip', {
-        zlib: { level: 9 }
-      });
-      
-      archive.pipe(output);
-      
-      // Add files to the archive
-      for (const file of files) {
-        const filePath = path.join(tempDir, file.path);
-        const fileDir = path.dirname(filePath);
-        
-        if (!fs.existsSync(fileDir)) {
-          fs.mkdirSync(fileDir, { recursive: true });
-        }
-        
-        fs.writeFileSync(filePath, file.content);
-        archive.file(filePath, { name: file.path });
-      }
-      
-      await archive.finalize();
-      
-      // Clean up temporary files
-      fs.rmSync(tempDir, { recursive: true, force: true });
-      
-      // Send the zip file
-      res.download(zipPath, `${project.name}.zip`, (err) => {
-        if (err) {
-          console.error("Download error:", err);
-        }
-        
-        // Clean up the zip file
-        fs.unlinkSync(zipPath);
+      res.attachment(exportFilename(project, format));
+      await writeProjectArchive(res, project, files, {
+        format,
+        readme: readme === "true",
+        packageJson: packageJson === "true"
       });
     } catch (error) {
       console.error("Export error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors });
+      }
+      // Once streaming has started the status is already sent; cut the download short
+      if (res.headersSent) {
+        return res.destroy();
+      }
       res.status(500).json({ message: "Failed to export project" });
     }
   });
@@ -886,11 +2750,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Missing required parameters" });
       }
       
-      // Get the project to validate it exists
-      const project = await storage.getProject(Number(projectId));
-      if (!project) {
-        return res.status(404).json({ message: "Project not found" });
-      }
+      // The generated files are written into the project
+      const project = await authorizeProject(res, req.session.userId!, await storage.getProject(Number(projectId)));
+      if (!project) return;
       
       console.log(`Generating app for project ${projectId} with description: ${description}`);
       
@@ -1103,9 +2965,12 @@ export default MainComponent;`
         }
       ];
       
-      // Create the files in the database through our storage interface
-      for (const file of generatedFiles) {
-        console.log(`Created file: ${file.path}/${file.name}`);
+      await takeAutomaticSnapshot(project.id, "Before AI generation", req.session.userId ?? null);
+      
+      // Create the files in the database through our storage interface, all at once
+      const operations: FileOperation[] = generatedFiles.map((file) => {
+        const fullPath = joinFilePath(file.path, file.name);
+        console.log(`Created file: ${fullPath}`);
         
         // Process the content - make sure it doesn't have markdown code blocks
         const cleanedContent = file.content.startsWith('```') 
@@ -1113,13 +2978,13 @@ export default MainComponent;`
           : file.content;
           
         // Store the clean content without markdown code blocks 
-        await storage.createFile({
-          name: file.name,
-          path: file.path,
-          content: cleanedContent,
-          projectId: Number(projectId)
-        });
-      }
+        return { op: "create", path: fullPath, content: cleanedContent, overwrite: true };
+      });
+      
+      await storage.applyFileBatch(Number(projectId), operations, {
+        authorId: req.session.userId ?? null,
+        source: "ai"
+      });
       
       res.json({ files: generatedFiles });
     } catch (error: any) {
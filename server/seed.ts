@@ -0,0 +1,29 @@
+import type { InsertTemplate } from "@shared/schema";
+
+// Templates every storage backend starts out with
+export const defaultTemplates: InsertTemplate[] = [
+  {
+    name: "E-commerce Dashboard",
+    description: "Complete store management solution",
+    imageUrl: "https://images.unsplash.com/photo-1517694712202-14dd9538aa97",
+    price: 999,
+    files: [],
+    isPremium: true
+  },
+  {
+    name: "Blog Platform",
+    description: "Modern content publishing system",
+    imageUrl: "https://images.unsplash.com/photo-1499951360447-b19be8fe80f5",
+    price: 799,
+    files: [],
+    isPremium: true
+  },
+  {
+    name: "SaaS Dashboard",
+    description: "User and analytics management",
+    imageUrl: "https://images.unsplash.com/photo-1611162617213-7d7a39e9b1d7",
+    price: 1499,
+    files: [],
+    isPremium: true
+  }
+];
@@ -0,0 +1,121 @@
+import session, { type SessionData } from "express-session";
+import type { Express, Request, RequestHandler } from "express";
+import type { IStorage } from "./storage";
+
+const SESSION_MAX_AGE_MS = 24 * 60 * 60 * 1000; // 1 day
+const TWO_FACTOR_CHALLENGE_MS = 5 * 60 * 1000;
+export const SESSION_COOKIE = "connect.sid";
+
+// When a session ends; sessions whose cookie has no expiry last the default age
+function expiryOf(data: SessionData): Date {
+  const expires = data.cookie.expires;
+  return expires ? new Date(expires) : new Date(Date.now() + SESSION_MAX_AGE_MS);
+}
+
+// Keeps express-session's sessions in the storage backend, with the user and
+// device as columns so a user's sessions can be listed and revoked
+export class StorageSessionStore extends session.Store {
+  constructor(private storage: IStorage) {
+    super();
+  }
+
+  get(sid: string, callback: (err: any, session?: SessionData | null) => void): void {
+    this.storage.getSession(sid).then(
+      (stored) => callback(null, stored ? (stored.data as unknown as SessionData) : null),
+      (error) => callback(error),
+    );
+  }
+
+  set(sid: string, data: SessionData, callback?: (err?: any) => void): void {
+    this.storage
+      .saveSession({
+        sid,
+        userId: data.userId ?? null,
+        // Dates become strings, as they would on their way through the database
+        data: JSON.parse(JSON.stringify(data)),
+        userAgent: data.userAgent ?? null,
+        ipAddress: data.ipAddress ?? null,
+        expiresAt: expiryOf(data),
+      })
+      .then(() => callback?.(), (error) => callback?.(error));
+  }
+
+  touch(sid: string, data: SessionData, callback?: (err?: any) => void): void {
+    this.storage.touchSession(sid, expiryOf(data)).then(() => callback?.(), (error) => callback?.(error));
+  }
+
+  destroy(sid: string, callback?: (err?: any) => void): void {
+    this.storage.deleteSession(sid).then(() => callback?.(), (error) => callback?.(error));
+  }
+}
+
+// Session handling for the app. SESSION_SECRET is required in production,
+// where the cookie is also limited to HTTPS.
+export function sessionMiddleware(app: Express, storage: IStorage): RequestHandler {
+  const production = app.get("env") === "production";
+
+  let secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    if (production) {
+      throw new Error("SESSION_SECRET must be set in production");
+    }
+    console.warn("SESSION_SECRET is not set: using the insecure development secret");
+    secret = "xalgrow-session-secret";
+  }
+
+  // TLS ends at the hosting proxy; trust its X-Forwarded-* headers so secure
+  // cookies are sent and req.ip is the client's address
+  if (production) {
+    app.set("trust proxy", 1);
+  }
+
+  return session({
+    name: SESSION_COOKIE,
+    secret,
+    store: new StorageSessionStore(storage),
+    resave: false,
+    saveUninitialized: false, // nothing is stored for visitors who never sign in
+    cookie: {
+      secure: production,
+      httpOnly: true,
+      sameSite: "lax",
+      maxAge: SESSION_MAX_AGE_MS,
+    },
+  });
+}
+
+function regenerateSession(req: Request): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.regenerate((error) => (error ? reject(error) : resolve()));
+  });
+}
+
+// Sign a user in on this request. The session gets a new id, so an id planted
+// in the browser beforehand never becomes a signed-in session.
+export async function startUserSession(
+  req: Request,
+  userId: number,
+  options: { twoFactorVerified?: boolean } = {},
+): Promise<void> {
+  await regenerateSession(req);
+
+  req.session.userId = userId;
+  if (options.twoFactorVerified) req.session.twoFactorVerifiedAt = Date.now();
+  const userAgent = req.get("user-agent");
+  if (userAgent) req.session.userAgent = userAgent.slice(0, 512);
+  if (req.ip) req.session.ipAddress = req.ip;
+}
+
+// The first step of signing in a user with two-factor authentication: the
+// session remembers who, for a few minutes, but is not signed in
+export async function startTwoFactorChallenge(req: Request, userId: number): Promise<void> {
+  await regenerateSession(req);
+  req.session.twoFactorPending = { userId, expiresAt: Date.now() + TWO_FACTOR_CHALLENGE_MS };
+}
+
+// The user a two-factor sign-in on this session is waiting for, if it has not
+// expired
+export function pendingTwoFactorUserId(req: Request): number | undefined {
+  const pending = req.session.twoFactorPending;
+  return pending && pending.expiresAt > Date.now() ? pending.userId : undefined;
+}
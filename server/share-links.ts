@@ -0,0 +1,17 @@
+import { createHash, randomBytes } from "crypto";
+
+const TOKEN_BYTES = 32;
+
+// The longest a public link can be set to last; links may also never expire
+export const MAX_SHARE_LINK_DAYS = 365;
+
+// Tokens are random, so a fast unsalted hash is enough to look them up by
+export function hashShareLinkToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// A new token for a public link, and what is stored of it
+export function generateShareLinkToken() {
+  const token = randomBytes(TOKEN_BYTES).toString("base64url");
+  return { token, tokenHash: hashShareLinkToken(token) };
+}
@@ -0,0 +1,442 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { FileVersionConflictError } from "@shared/file-versions";
+import { FilePathConflictError } from "@shared/file-paths";
+import { FileBatchError } from "./file-batch";
+import { MemStorage, type IStorage } from "./storage";
+import { createTestStorage } from "./test-database";
+
+// The IStorage contract (see the doc comment in ./storage), run against every
+// backend so they cannot drift apart
+const backends: Array<[string, () => Promise<{ storage: IStorage; close: () => Promise<void> }>]> = [
+  ["MemStorage", async () => ({ storage: new MemStorage(), close: async () => {} })],
+  ["DrizzleStorage (PGlite)", createTestStorage],
+];
+
+const MISSING_ID = 999_999;
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+for (const [name, createStorage] of backends) {
+  describe(`${name} conforms to IStorage`, () => {
+    let storage: IStorage;
+    let close: () => Promise<void>;
+    let userCount = 0;
+
+    before(async () => {
+      ({ storage, close } = await createStorage());
+    });
+
+    after(() => close());
+
+    const newUser = () => {
+      userCount += 1;
+      return storage.createUser({
+        username: `user${userCount}`,
+        email: `user${userCount}@example.com`,
+        password: "hash",
+      });
+    };
+
+    // A project in a fresh user's personal workspace
+    const newProject = async (projectName = "Project") => {
+      const user = await newUser();
+      const workspace = (await storage.getPersonalWorkspace(user.id))!;
+      const project = await storage.createProject({
+        name: projectName,
+        userId: user.id,
+        workspaceId: workspace.id,
+        framework: "react",
+        backend: "express",
+      });
+      return { user, workspace, project };
+    };
+
+    const newFile = (projectId: number, path: string, content = "") =>
+      storage.createFile({ projectId, path, name: path.split("/").pop()!, content });
+
+    describe("missing rows", () => {
+      it("returns undefined from lookups", async () => {
+        assert.equal(await storage.getUser(MISSING_ID), undefined);
+        assert.equal(await storage.getUserByEmail("nobody@example.com"), undefined);
+        assert.equal(await storage.getUserByUsername("nobody"), undefined);
+        assert.equal(await storage.getUserByFirebaseUid("nobody"), undefined);
+        assert.equal(await storage.getProject(MISSING_ID), undefined);
+        assert.equal(await storage.getFile(MISSING_ID), undefined);
+        assert.equal(await storage.getFileByPath(MISSING_ID, "a.js"), undefined);
+        assert.equal(await storage.getFileRevision(MISSING_ID), undefined);
+        assert.equal(await storage.getSnapshot(MISSING_ID), undefined);
+        assert.equal(await storage.getTemplate(MISSING_ID), undefined);
+        assert.equal(await storage.getWorkspace(MISSING_ID), undefined);
+        assert.equal(await storage.getSession("missing"), undefined);
+        assert.equal(await storage.getAccessToken(MISSING_ID), undefined);
+        assert.equal(await storage.getProjectShareLink(MISSING_ID), undefined);
+        assert.equal(await storage.getProjectCollaborator(MISSING_ID, MISSING_ID), undefined);
+      });
+
+      it("returns undefined from updates", async () => {
+        assert.equal(await storage.updateUser(MISSING_ID, { displayName: "x" }), undefined);
+        assert.equal(await storage.updateProject(MISSING_ID, { name: "x" }), undefined);
+        assert.equal(await storage.updateFile(MISSING_ID, { content: "x" }), undefined);
+        assert.equal(await storage.trashProject(MISSING_ID), undefined);
+        assert.equal(await storage.restoreProject(MISSING_ID), undefined);
+        assert.equal(await storage.trashFile(MISSING_ID), undefined);
+        assert.equal(await storage.restoreFile(MISSING_ID), undefined);
+        assert.equal(await storage.restoreSnapshot(MISSING_ID), undefined);
+        assert.equal(await storage.duplicateProject(MISSING_ID, { name: "x", userId: 1, workspaceId: 1 }), undefined);
+      });
+
+      it("returns false from deletes", async () => {
+        assert.equal(await storage.deleteProject(MISSING_ID), false);
+        assert.equal(await storage.deleteFile(MISSING_ID), false);
+        assert.equal(await storage.deleteSnapshot(MISSING_ID), false);
+        assert.equal(await storage.deleteWorkspace(MISSING_ID), false);
+        assert.equal(await storage.deleteSession("missing"), false);
+        assert.equal(await storage.deleteAccessToken(MISSING_ID), false);
+        assert.equal(await storage.deleteProjectShareLink(MISSING_ID), false);
+        assert.equal(await storage.removeProjectCollaborator(MISSING_ID, MISSING_ID), false);
+      });
+    });
+
+    describe("users", () => {
+      it("stores optional columns left out as null", async () => {
+        const user = await newUser();
+        assert.equal(user.displayName, null);
+        assert.equal(user.photoURL, null);
+        assert.equal(user.emailVerifiedAt, null);
+        assert.equal(user.firebaseUid, null);
+        assert.equal(user.totpSecret, null);
+        assert.equal(user.authProvider, "password");
+      });
+
+      it("matches emails exactly, or ignoring case when asked", async () => {
+        const user = await newUser();
+        const shouted = user.email.toUpperCase();
+        assert.equal(await storage.getUserByEmail(shouted), undefined);
+        assert.equal((await storage.getUserByEmailIgnoringCase(shouted))?.id, user.id);
+        assert.equal(await storage.getUserByEmailIgnoringCase("nobody@example.com"), undefined);
+      });
+
+      it("finds a user by the Firebase uid linked to it", async () => {
+        const user = await newUser();
+        assert.equal(await storage.getUserByFirebaseUid(`uid-${user.id}`), undefined);
+        await storage.updateUser(user.id, { firebaseUid: `uid-${user.id}` });
+        assert.equal((await storage.getUserByFirebaseUid(`uid-${user.id}`))?.id, user.id);
+      });
+
+      it("creates a personal workspace owned by the user", async () => {
+        const user = await newUser();
+        const workspace = await storage.getPersonalWorkspace(user.id);
+        assert.equal(workspace?.personalUserId, user.id);
+        assert.equal((await storage.getWorkspaceMember(workspace!.id, user.id))?.role, "owner");
+      });
+
+      it("ignores undefined keys in partial updates", async () => {
+        const user = await newUser();
+        await storage.updateUser(user.id, { displayName: "Ada" });
+        const updated = await storage.updateUser(user.id, { displayName: undefined, photoURL: "p.png" });
+        assert.equal(updated?.displayName, "Ada");
+        assert.equal(updated?.photoURL, "p.png");
+      });
+
+      it("uses each recovery code once", async () => {
+        const user = await newUser();
+        await storage.updateUser(user.id, { totpRecoveryCodes: ["a", "b"] });
+        assert.equal(await storage.consumeRecoveryCode(user.id, "a"), true);
+        assert.equal(await storage.consumeRecoveryCode(user.id, "a"), false);
+        assert.deepEqual((await storage.getUser(user.id))?.totpRecoveryCodes, ["b"]);
+      });
+
+      it("accepts each TOTP step once and only moving forward", async () => {
+        const user = await newUser();
+        assert.equal(await storage.claimTotpStep(user.id, 10), true);
+        assert.equal(await storage.claimTotpStep(user.id, 10), false);
+        assert.equal(await storage.claimTotpStep(user.id, 9), false);
+        assert.equal(await storage.claimTotpStep(user.id, 11), true);
+      });
+    });
+
+    describe("sessions", () => {
+      it("never returns expired sessions", async () => {
+        const user = await newUser();
+        const future = new Date(Date.now() + 60_000);
+        await storage.saveSession({ sid: `live-${user.id}`, userId: user.id, data: {}, expiresAt: future });
+        await storage.saveSession({ sid: `old-${user.id}`, userId: user.id, data: {}, expiresAt: new Date(Date.now() - 1000) });
+
+        assert.equal((await storage.getSession(`live-${user.id}`))?.userId, user.id);
+        assert.equal(await storage.getSession(`old-${user.id}`), undefined);
+        assert.deepEqual((await storage.getSessionsByUserId(user.id)).map((s) => s.sid), [`live-${user.id}`]);
+        assert.ok((await storage.purgeExpiredSessions(new Date())) >= 1);
+      });
+
+      it("replaces the session with the same sid", async () => {
+        const user = await newUser();
+        const expiresAt = new Date(Date.now() + 60_000);
+        const first = await storage.saveSession({ sid: `s-${user.id}`, userId: user.id, data: { n: 1 }, expiresAt });
+        const second = await storage.saveSession({ sid: `s-${user.id}`, userId: user.id, data: { n: 2 }, expiresAt });
+        assert.equal(second.id, first.id);
+        assert.deepEqual((await storage.getSession(`s-${user.id}`))?.data, { n: 2 });
+      });
+    });
+
+    describe("workspaces", () => {
+      it("lists members in creation order and upserts their role", async () => {
+        const owner = await newUser();
+        const member = await newUser();
+        const workspace = await storage.createWorkspace({ name: "Team" }, owner.id);
+        await storage.addWorkspaceMember({ workspaceId: workspace.id, userId: member.id, role: "viewer" });
+        await storage.addWorkspaceMember({ workspaceId: workspace.id, userId: member.id, role: "editor" });
+
+        const members = await storage.getWorkspaceMembers(workspace.id);
+        assert.deepEqual(members.map((m) => [m.userId, m.role]), [[owner.id, "owner"], [member.id, "editor"]]);
+      });
+
+      it("replaces invitations to the same email and hides expired ones", async () => {
+        const owner = await newUser();
+        const workspace = await storage.createWorkspace({ name: "Team" }, owner.id);
+        const expiresAt = new Date(Date.now() + 60_000);
+        await storage.createWorkspaceInvitation({ workspaceId: workspace.id, email: "a@example.com", role: "viewer", tokenHash: `h1-${workspace.id}`, expiresAt });
+        const second = await storage.createWorkspaceInvitation({ workspaceId: workspace.id, email: "a@example.com", role: "editor", tokenHash: `h2-${workspace.id}`, expiresAt });
+        await storage.createWorkspaceInvitation({ workspaceId: workspace.id, email: "b@example.com", role: "viewer", tokenHash: `h3-${workspace.id}`, expiresAt: new Date(Date.now() - 1000) });
+
+        assert.deepEqual((await storage.getWorkspaceInvitations(workspace.id)).map((i) => i.id), [second.id]);
+        assert.equal(await storage.getWorkspaceInvitationByHash(`h1-${workspace.id}`), undefined);
+        assert.equal(await storage.getWorkspaceInvitationByHash(`h3-${workspace.id}`), undefined);
+      });
+
+      it("deletes a workspace with its projects", async () => {
+        const owner = await newUser();
+        const workspace = await storage.createWorkspace({ name: "Team" }, owner.id);
+        const project = await storage.createProject({ name: "P", userId: owner.id, workspaceId: workspace.id, framework: "react", backend: "express" });
+        const file = await newFile(project.id, "a.js");
+
+        assert.equal(await storage.deleteWorkspace(workspace.id), true);
+        assert.equal(await storage.getProject(project.id), undefined);
+        assert.equal(await storage.getFile(file.id), undefined);
+        assert.equal(await storage.getWorkspaceMember(workspace.id, owner.id), undefined);
+      });
+    });
+
+    describe("projects", () => {
+      it("lists live projects in creation order, hiding trashed ones", async () => {
+        const { user, workspace, project: first } = await newProject("First");
+        const second = await storage.createProject({ name: "Second", userId: user.id, workspaceId: workspace.id, framework: "react", backend: "express" });
+        const third = await storage.createProject({ name: "Third", userId: user.id, workspaceId: workspace.id, framework: "react", backend: "express" });
+        await storage.trashProject(second.id);
+
+        assert.deepEqual((await storage.getProjectsByWorkspaceId(workspace.id)).map((p) => p.id), [first.id, third.id]);
+        assert.deepEqual((await storage.getTrashedProjectsByWorkspaceId(workspace.id)).map((p) => p.id), [second.id]);
+        // Still returned by id while in the trash
+        assert.ok((await storage.getProject(second.id))?.deletedAt);
+
+        await storage.restoreProject(second.id);
+        assert.deepEqual((await storage.getProjectsByWorkspaceId(workspace.id)).map((p) => p.id), [first.id, second.id, third.id]);
+      });
+
+      it("stores optional columns as null and bumps updatedAt", async () => {
+        const { project } = await newProject();
+        assert.equal(project.description, null);
+        assert.equal(project.forkedFromId, null);
+
+        await tick();
+        const updated = await storage.updateProject(project.id, { name: "Renamed", description: undefined });
+        assert.equal(updated?.name, "Renamed");
+        assert.equal(updated?.description, null);
+        assert.ok(updated!.updatedAt.getTime() > project.updatedAt.getTime());
+      });
+
+      it("deletes everything that belongs to a project and clears forks' lineage", async () => {
+        const { user, workspace, project } = await newProject();
+        const file = await newFile(project.id, "a.js", "1");
+        const revisions = await storage.getFileRevisions(file.id);
+        const snapshot = await storage.createSnapshot({ projectId: project.id, name: "s" });
+        const fork = (await storage.duplicateProject(project.id, { name: "Fork", userId: user.id, workspaceId: workspace.id }))!;
+
+        assert.equal(await storage.deleteProject(project.id), true);
+        assert.equal(await storage.getProject(project.id), undefined);
+        assert.equal(await storage.getFile(file.id), undefined);
+        assert.equal(await storage.getFileRevision(revisions[0].id), undefined);
+        assert.equal(await storage.getSnapshot(snapshot.id), undefined);
+        assert.equal((await storage.getProject(fork.id))?.forkedFromId, null);
+      });
+
+      it("duplicates live files and records the source", async () => {
+        const { user, workspace, project } = await newProject();
+        await newFile(project.id, "src/a.js", "a");
+        const trashed = await newFile(project.id, "src/b.js", "b");
+        await storage.trashFile(trashed.id);
+
+        const copy = (await storage.duplicateProject(project.id, { name: "Copy", userId: user.id, workspaceId: workspace.id }))!;
+        assert.equal(copy.forkedFromId, project.id);
+        assert.equal(copy.framework, project.framework);
+        const files = await storage.getFilesByProjectId(copy.id);
+        assert.deepEqual(files.map((f) => [f.path, f.content]), [["src/a.js", "a"]]);
+      });
+    });
+
+    describe("collaborators and share links", () => {
+      it("upserts collaborators and lists projects shared with a user", async () => {
+        const { user: owner, project } = await newProject();
+        const guest = await newUser();
+        await storage.addProjectCollaborator({ projectId: project.id, userId: guest.id, role: "viewer", addedBy: owner.id });
+        await storage.addProjectCollaborator({ projectId: project.id, userId: guest.id, role: "editor", addedBy: owner.id });
+
+        assert.deepEqual((await storage.getProjectCollaborators(project.id)).map((c) => c.role), ["editor"]);
+        assert.deepEqual((await storage.getSharedProjectsByUserId(guest.id)).map((p) => p.id), [project.id]);
+
+        await storage.trashProject(project.id);
+        assert.deepEqual(await storage.getSharedProjectsByUserId(guest.id), []);
+      });
+
+      it("never returns expired share links", async () => {
+        const { project } = await newProject();
+        const live = await storage.createProjectShareLink({ projectId: project.id, tokenHash: `live-${project.id}`, expiresAt: null });
+        const expired = await storage.createProjectShareLink({ projectId: project.id, tokenHash: `old-${project.id}`, expiresAt: new Date(Date.now() - 1000) });
+
+        assert.equal((await storage.getProjectShareLinkByHash(`live-${project.id}`))?.id, live.id);
+        assert.equal(await storage.getProjectShareLinkByHash(`old-${project.id}`), undefined);
+        assert.equal(await storage.getProjectShareLink(expired.id), undefined);
+        assert.deepEqual((await storage.getProjectShareLinks(project.id)).map((l) => l.id), [live.id]);
+      });
+    });
+
+    describe("files", () => {
+      it("keeps name as the last path segment and lists files in creation order", async () => {
+        const { project } = await newProject();
+        const b = await newFile(project.id, "src/b.js");
+        const a = await newFile(project.id, "src/a.js");
+        assert.equal(b.name, "b.js");
+        assert.equal(b.blobKey, null);
+        assert.deepEqual((await storage.getFilesByProjectId(project.id)).map((f) => f.id), [b.id, a.id]);
+        assert.equal((await storage.getFileByPath(project.id, "src/a.js"))?.id, a.id);
+      });
+
+      it("rejects a second live file at the same path", async () => {
+        const { project } = await newProject();
+        await newFile(project.id, "a.js");
+        await assert.rejects(newFile(project.id, "a.js"), FilePathConflictError);
+      });
+
+      it("records a revision and bumps the version on every content change", async () => {
+        const { user, project } = await newProject();
+        const file = await newFile(project.id, "a.js", "1");
+        assert.equal(file.version, 1);
+
+        await tick();
+        const updated = await storage.updateFile(file.id, { content: "2" }, { authorId: user.id, source: "manual" });
+        assert.equal(updated?.version, 2);
+        assert.ok(updated!.updatedAt.getTime() > file.updatedAt.getTime());
+
+        const revisions = await storage.getFileRevisions(file.id);
+        assert.deepEqual(revisions.map((r) => r.content), ["1", "2"]);
+        assert.equal(revisions[1].authorId, user.id);
+      });
+
+      it("rejects stale updates without changing the file", async () => {
+        const { project } = await newProject();
+        const file = await newFile(project.id, "a.js", "1");
+        await storage.updateFile(file.id, { content: "2" });
+
+        await assert.rejects(storage.updateFile(file.id, { content: "3" }, undefined, 1), FileVersionConflictError);
+        assert.equal((await storage.getFile(file.id))?.content, "2");
+      });
+
+      it("hides trashed files from the listing and restores them", async () => {
+        const { project } = await newProject();
+        const file = await newFile(project.id, "a.js");
+        await storage.trashFile(file.id);
+
+        assert.deepEqual(await storage.getFilesByProjectId(project.id), []);
+        assert.deepEqual((await storage.getTrashedFilesByProjectId(project.id)).map((f) => f.id), [file.id]);
+        assert.ok((await storage.getFile(file.id))?.deletedAt);
+
+        await storage.restoreFile(file.id);
+        assert.deepEqual((await storage.getFilesByProjectId(project.id)).map((f) => f.id), [file.id]);
+      });
+
+      it("moves a whole directory and renames each file", async () => {
+        const { project } = await newProject();
+        await newFile(project.id, "src/a.js");
+        await newFile(project.id, "src/lib/b.js");
+        await newFile(project.id, "other.js");
+
+        const moved = await storage.moveFiles(project.id, "src", "app");
+        assert.deepEqual(moved.map((f) => f.path).sort(), ["app/a.js", "app/lib/b.js"]);
+        assert.deepEqual((await storage.moveFiles(project.id, "missing", "x")), []);
+        assert.equal((await storage.getFileByPath(project.id, "app/lib/b.js"))?.name, "b.js");
+      });
+
+      it("applies a file batch all or nothing", async () => {
+        const { project } = await newProject();
+        await newFile(project.id, "a.js", "a");
+
+        await assert.rejects(
+          storage.applyFileBatch(project.id, [
+            { op: "create", path: "b.js", content: "b" },
+            { op: "create", path: "a.js", content: "clash" },
+          ]),
+          FileBatchError
+        );
+        assert.deepEqual((await storage.getFilesByProjectId(project.id)).map((f) => f.path), ["a.js"]);
+
+        const results = await storage.applyFileBatch(project.id, [
+          { op: "create", path: "b.js", content: "b" },
+          { op: "update", path: "a.js", content: "a2" },
+        ]);
+        assert.deepEqual(results.map((r) => r.op), ["create", "update"]);
+        assert.equal((await storage.getFileByPath(project.id, "a.js"))?.content, "a2");
+      });
+
+      it("deletes a file with its revisions", async () => {
+        const { project } = await newProject();
+        const file = await newFile(project.id, "a.js", "1");
+        const [revision] = await storage.getFileRevisions(file.id);
+
+        assert.equal(await storage.deleteFile(file.id), true);
+        assert.equal(await storage.getFileRevision(revision.id), undefined);
+      });
+    });
+
+    describe("blobs", () => {
+      it("lists the blobs used by files, trashed or not, and snapshots", async () => {
+        const { project } = await newProject();
+        const asset = (path: string, blobKey: string) =>
+          storage.createFile({ projectId: project.id, path, name: path, content: "", blobKey, mimeType: "image/png", size: 1 });
+        const trashed = await asset("trashed.png", "b".repeat(64));
+        await storage.trashFile(trashed.id);
+        const snapshotted = await asset("old.png", "c".repeat(64));
+        await storage.createSnapshot({ projectId: project.id, name: "s" });
+        await storage.deleteFile(snapshotted.id);
+        const deleted = await asset("gone.png", "d".repeat(64));
+        await storage.deleteFile(deleted.id);
+
+        const keys = await storage.getReferencedBlobKeys();
+        assert.ok(keys.has("b".repeat(64)));
+        assert.ok(keys.has("c".repeat(64)));
+        assert.ok(!keys.has("d".repeat(64)));
+      });
+    });
+
+    describe("snapshots", () => {
+      it("restores the project's files to exactly the snapshot", async () => {
+        const { project } = await newProject();
+        const kept = await newFile(project.id, "a.js", "1");
+        const snapshot = await storage.createSnapshot({ projectId: project.id, name: "before" });
+        await storage.updateFile(kept.id, { content: "2" });
+        await newFile(project.id, "new.js");
+
+        const restored = await storage.restoreSnapshot(snapshot.id);
+        assert.ok(restored);
+        const files = await storage.getFilesByProjectId(project.id);
+        assert.deepEqual(files.map((f) => [f.path, f.content]), [["a.js", "1"]]);
+      });
+
+      it("lists snapshots in creation order", async () => {
+        const { project } = await newProject();
+        const first = await storage.createSnapshot({ projectId: project.id, name: "one" });
+        const second = await storage.createSnapshot({ projectId: project.id, name: "two" });
+        assert.deepEqual((await storage.getSnapshotsByProjectId(project.id)).map((s) => s.id), [first.id, second.id]);
+      });
+    });
+  });
+}
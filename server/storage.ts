@@ -2,66 +2,325 @@ import {
   users, 
   projects, 
   files, 
+  fileRevisions, 
+  projectSnapshots, 
   templates, 
+  userSessions, 
+  accessTokens, 
+  workspaces, 
+  workspaceMembers, 
+  workspaceInvitations, 
+  projectCollaborators, 
+  projectShareLinks, 
   type User, 
   type InsertUser, 
+  type UserSession, 
+  type InsertUserSession, 
+  type AccessToken, 
+  type InsertAccessToken, 
+  type Workspace, 
+  type InsertWorkspace, 
+  type UserWorkspace, 
+  type WorkspaceMember, 
+  type InsertWorkspaceMember, 
+  type WorkspaceRole, 
+  type WorkspaceInvitation, 
+  type InsertWorkspaceInvitation, 
   type Project, 
   type InsertProject, 
+  type ProjectCollaborator, 
+  type InsertProjectCollaborator, 
+  type ProjectShareLink, 
+  type InsertProjectShareLink, 
   type File, 
   type InsertFile, 
+  type FileRevision, 
+  type FileOperation, 
+  type FileOperationResult, 
+  type RevisionSource, 
+  type ProjectSnapshot, 
+  type InsertProjectSnapshot, 
   type Template, 
-  type InsertTemplate 
+  type InsertTemplate,
+  snapshotContent,
+  withoutStaleBlob
 } from "@shared/schema";
+import { createDatabase } from "./db";
+import { FileVersionConflictError } from "@shared/file-versions";
+import { DrizzleStorage } from "./drizzle-storage";
+import { runFileBatch } from "./file-batch";
+import {
+  FileNotFoundError,
+  assertPathAvailable,
+  baseName,
+  isWithinPath,
+  normalizeFilePath,
+  planMove,
+  resolveFullPath,
+  updatedFilePath,
+} from "@shared/file-paths";
+import { defaultTemplates } from "./seed";
 
+/**
+ * Contract shared by every storage backend, checked against each of them by
+ * server/storage.test.ts:
+ * - lookups return `undefined` and deletes return `false` when the row is missing
+ * - optional columns left out on create are stored as `null`, never `undefined`
+ * - partial updates ignore keys whose value is `undefined`
+ * - `updateProject` and `updateFile` bump `updatedAt`; `updateUser` has no such column
+ * - `consumeRecoveryCode` removes the user's recovery code with the given hash and
+ *   `claimTotpStep` raises `totpLastStep` to the given step; each returns `false`,
+ *   changing nothing, when the code is gone or the step is not past the last one,
+ *   so concurrent requests cannot both use the same code
+ * - sessions past their `expiresAt` are never returned; `saveSession` creates or
+ *   replaces the session with the given `sid`, and it and `touchSession` set
+ *   `lastActiveAt`
+ * - `createUser` also creates the user's personal workspace (`personalUserId`),
+ *   with the user as its owner; `createWorkspace` makes `ownerId` its owner
+ * - `deleteWorkspace` removes the workspace with its members, invitations and
+ *   projects (as `deleteProject` does) in one step
+ * - `getUserByEmail` matches the address exactly; `getUserByEmailIgnoringCase`
+ *   ignores case, returning the earliest user when several match
+ * - `addWorkspaceMember` on an existing member changes their role instead
+ * - invitations past their `expiresAt` are never returned; creating one replaces
+ *   any invitation to the same email address in that workspace
+ * - list operations return rows in creation (id) order
+ * - `deleteProject` removes the project and everything that belongs to it in one step,
+ *   and clears `forkedFromId` on projects duplicated from it
+ * - `addProjectCollaborator` on an existing collaborator changes their role
+ *   instead; `getSharedProjectsByUserId` lists the live projects shared with the
+ *   user that way
+ * - share links past their `expiresAt` are never returned
+ * - `duplicateProject` creates a project with the source's settings and copies of
+ *   its live files (sharing their blobs), all or nothing, and records the source
+ *   as `forkedFromId`
+ * - trashed projects and files (non-null `deletedAt`) are hidden from list
+ *   operations other than the trash listings, but are still returned by id
+ * - `createFile` and every `updateFile` that changes `content` record a file
+ *   revision in the same step; deleting a file deletes its revisions
+ * - binary assets keep their bytes in the blob store (`blobKey`) and have empty
+ *   `content`; replacing the blob counts as a content change but records no
+ *   revision, and writing `content` without a blob turns an asset into a text file;
+ *   `getReferencedBlobKeys` lists the blobs used by any file, trashed or not, or
+ *   snapshot
+ * - a file's `version` starts at 1 and goes up with every content change; an
+ *   `updateFile` given an `expectedVersion` that is no longer current throws
+ *   `FileVersionConflictError` and changes nothing
+ * - a file's `path` is its full path within the project (see shared/file-paths)
+ *   and its `name` is always the last segment of that path; creates, renames,
+ *   moves and restores that would make two live files collide throw
+ *   `FilePathConflictError`
+ * - `moveFiles` moves a single file or a whole directory, all or nothing, and
+ *   returns the moved files (none when nothing lives at the source path)
+ * - `applyFileBatch` applies every operation or, throwing `FileBatchError`, none
+ * - `createSnapshot` captures the project's non-trashed files; `restoreSnapshot`
+ *   makes those files match the snapshot exactly, all or nothing
+ */
 export interface IStorage {
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
+  getUserByEmailIgnoringCase(email: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  getUserByFirebaseUid(uid: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: number, userData: Partial<InsertUser>): Promise<User | undefined>;
+  consumeRecoveryCode(userId: number, codeHash: string): Promise<boolean>;
+  claimTotpStep(userId: number, step: number): Promise<boolean>;
+  
+  // Session operations
+  getSession(sid: string): Promise<UserSession | undefined>;
+  getSessionsByUserId(userId: number): Promise<UserSession[]>;
+  saveSession(session: InsertUserSession): Promise<UserSession>;
+  touchSession(sid: string, expiresAt: Date): Promise<UserSession | undefined>;
+  deleteSession(sid: string): Promise<boolean>;
+  
+  // Access token operations
+  getAccessToken(id: number): Promise<AccessToken | undefined>;
+  getAccessTokenByHash(tokenHash: string): Promise<AccessToken | undefined>;
+  getAccessTokensByUserId(userId: number): Promise<AccessToken[]>;
+  createAccessToken(token: InsertAccessToken): Promise<AccessToken>;
+  markAccessTokenUsed(id: number, usedAt: Date): Promise<AccessToken | undefined>;
+  deleteAccessToken(id: number): Promise<boolean>;
+  
+  // Workspace operations
+  getWorkspace(id: number): Promise<Workspace | undefined>;
+  getPersonalWorkspace(userId: number): Promise<Workspace | undefined>;
+  getWorkspacesByUserId(userId: number): Promise<UserWorkspace[]>;
+  createWorkspace(workspace: InsertWorkspace, ownerId: number): Promise<Workspace>;
+  updateWorkspace(id: number, workspaceData: Partial<InsertWorkspace>): Promise<Workspace | undefined>;
+  deleteWorkspace(id: number): Promise<boolean>;
+  
+  // Workspace member operations
+  getWorkspaceMember(workspaceId: number, userId: number): Promise<WorkspaceMember | undefined>;
+  getWorkspaceMembers(workspaceId: number): Promise<WorkspaceMember[]>;
+  addWorkspaceMember(member: InsertWorkspaceMember): Promise<WorkspaceMember>;
+  updateWorkspaceMemberRole(workspaceId: number, userId: number, role: WorkspaceRole): Promise<WorkspaceMember | undefined>;
+  removeWorkspaceMember(workspaceId: number, userId: number): Promise<boolean>;
+  
+  // Workspace invitation operations
+  getWorkspaceInvitation(id: number): Promise<WorkspaceInvitation | undefined>;
+  getWorkspaceInvitationByHash(tokenHash: string): Promise<WorkspaceInvitation | undefined>;
+  getWorkspaceInvitations(workspaceId: number): Promise<WorkspaceInvitation[]>;
+  createWorkspaceInvitation(invitation: InsertWorkspaceInvitation): Promise<WorkspaceInvitation>;
+  deleteWorkspaceInvitation(id: number): Promise<boolean>;
   
   // Project operations
   getProject(id: number): Promise<Project | undefined>;
-  getProjectsByUserId(userId: number): Promise<Project[]>;
+  getProjectsByWorkspaceId(workspaceId: number): Promise<Project[]>;
+  getTrashedProjectsByWorkspaceId(workspaceId: number): Promise<Project[]>;
   createProject(project: InsertProject): Promise<Project>;
   updateProject(id: number, projectData: Partial<InsertProject>): Promise<Project | undefined>;
+  trashProject(id: number): Promise<Project | undefined>;
+  restoreProject(id: number): Promise<Project | undefined>;
   deleteProject(id: number): Promise<boolean>;
+  duplicateProject(
+    id: number,
+    projectData: Pick<InsertProject, "name" | "userId" | "workspaceId">,
+    revision?: RevisionInfo,
+  ): Promise<Project | undefined>;
+  
+  // Project collaborator operations
+  getProjectCollaborator(projectId: number, userId: number): Promise<ProjectCollaborator | undefined>;
+  getProjectCollaborators(projectId: number): Promise<ProjectCollaborator[]>;
+  getSharedProjectsByUserId(userId: number): Promise<Project[]>;
+  addProjectCollaborator(collaborator: InsertProjectCollaborator): Promise<ProjectCollaborator>;
+  removeProjectCollaborator(projectId: number, userId: number): Promise<boolean>;
+  
+  // Project share link operations
+  getProjectShareLink(id: number): Promise<ProjectShareLink | undefined>;
+  getProjectShareLinkByHash(tokenHash: string): Promise<ProjectShareLink | undefined>;
+  getProjectShareLinks(projectId: number): Promise<ProjectShareLink[]>;
+  createProjectShareLink(link: InsertProjectShareLink): Promise<ProjectShareLink>;
+  deleteProjectShareLink(id: number): Promise<boolean>;
   
   // File operations
   getFile(id: number): Promise<File | undefined>;
   getFilesByProjectId(projectId: number): Promise<File[]>;
-  createFile(file: InsertFile): Promise<File>;
-  updateFile(id: number, fileData: Partial<InsertFile>): Promise<File | undefined>;
+  getTrashedFilesByProjectId(projectId: number): Promise<File[]>;
+  getFileByPath(projectId: number, path: string): Promise<File | undefined>;
+  createFile(file: InsertFile, revision?: RevisionInfo): Promise<File>;
+  updateFile(
+    id: number,
+    fileData: Partial<InsertFile>,
+    revision?: RevisionInfo,
+    expectedVersion?: number,
+  ): Promise<File | undefined>;
+  trashFile(id: number): Promise<File | undefined>;
+  restoreFile(id: number): Promise<File | undefined>;
   deleteFile(id: number): Promise<boolean>;
+  moveFiles(projectId: number, fromPath: string, toPath: string): Promise<File[]>;
+  applyFileBatch(projectId: number, operations: FileOperation[], revision?: RevisionInfo): Promise<FileOperationResult[]>;
+  
+  // File revision operations
+  getFileRevision(id: number): Promise<FileRevision | undefined>;
+  getFileRevisions(fileId: number): Promise<FileRevision[]>;
+  
+  // Snapshot operations
+  getSnapshot(id: number): Promise<ProjectSnapshot | undefined>;
+  getSnapshotsByProjectId(projectId: number): Promise<ProjectSnapshot[]>;
+  createSnapshot(snapshot: InsertProjectSnapshot): Promise<ProjectSnapshot>;
+  restoreSnapshot(id: number, revision?: RevisionInfo): Promise<File[] | undefined>;
+  deleteSnapshot(id: number): Promise<boolean>;
   
   // Template operations
   getTemplate(id: number): Promise<Template | undefined>;
   getAllTemplates(): Promise<Template[]>;
   getPremiumTemplates(): Promise<Template[]>;
   createTemplate(template: InsertTemplate): Promise<Template>;
+  
+  // Maintenance operations
+  purgeOrphans(): Promise<OrphanReport>;
+  purgeTrash(trashedBefore: Date): Promise<TrashPurgeReport>;
+  purgeExpiredSessions(now: Date): Promise<number>;
+  getReferencedBlobKeys(): Promise<Set<string>>;
+}
+
+// Who made a content change and how; stored on the revision it produces
+export interface RevisionInfo {
+  authorId: number | null;
+  source: RevisionSource;
+}
+
+const manualRevision: RevisionInfo = { authorId: null, source: "manual" };
+
+// Ids of rows removed because the row they belonged to no longer exists
+export interface OrphanReport {
+  files: number[];
+  fileRevisions: number[];
+  snapshots: number[];
+}
+
+// Ids of trashed rows that were permanently deleted
+export interface TrashPurgeReport {
+  projects: number[];
+  files: number[];
+}
+
+// Drop keys explicitly set to undefined so a partial update cannot blank out
+// a column, matching how Drizzle builds its SET clause
+function definedFields<T extends object>(data: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(data).filter(([, value]) => value !== undefined),
+  ) as Partial<T>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private sessions: Map<string, UserSession>;
+  private accessTokens: Map<number, AccessToken>;
+  private workspaces: Map<number, Workspace>;
+  private workspaceMembers: Map<number, WorkspaceMember>;
+  private workspaceInvitations: Map<number, WorkspaceInvitation>;
   private projects: Map<number, Project>;
+  private projectCollaborators: Map<number, ProjectCollaborator>;
+  private projectShareLinks: Map<number, ProjectShareLink>;
   private files: Map<number, File>;
+  private fileRevisions: Map<number, FileRevision>;
+  private snapshots: Map<number, ProjectSnapshot>;
   private templates: Map<number, Template>;
   
   private userId: number;
+  private sessionId: number;
+  private accessTokenId: number;
+  private workspaceId: number;
+  private workspaceMemberId: number;
+  private workspaceInvitationId: number;
   private projectId: number;
+  private projectCollaboratorId: number;
+  private projectShareLinkId: number;
   private fileId: number;
+  private fileRevisionId: number;
+  private snapshotId: number;
   private templateId: number;
 
   constructor() {
     this.users = new Map();
+    this.sessions = new Map();
+    this.accessTokens = new Map();
+    this.workspaces = new Map();
+    this.workspaceMembers = new Map();
+    this.workspaceInvitations = new Map();
     this.projects = new Map();
+    this.projectCollaborators = new Map();
+    this.projectShareLinks = new Map();
     this.files = new Map();
+    this.fileRevisions = new Map();
+    this.snapshots = new Map();
     this.templates = new Map();
     
     this.userId = 1;
+    this.sessionId = 1;
+    this.accessTokenId = 1;
+    this.workspaceId = 1;
+    this.workspaceMemberId = 1;
+    this.workspaceInvitationId = 1;
     this.projectId = 1;
+    this.projectCollaboratorId = 1;
+    this.projectShareLinkId = 1;
     this.fileId = 1;
+    this.fileRevisionId = 1;
+    this.snapshotId = 1;
     this.templateId = 1;
     
     // Initialize with sample templates
@@ -69,34 +328,7 @@ export class MemStorage implements IStorage {
   }
 
   private initializeTemplates() {
-    const templates: InsertTemplate[] = [
-      {
-        name: "E-commerce Dashboard",
-        description: "Complete store management solution",
-        imageUrl: "https://images.unsplash.com/photo-1517694712202-14dd9538aa97",
-        price: 999,
-        files: [],
-        isPremium: true
-      },
-      {
-        name: "Blog Platform",
-        description: "Modern content publishing system",
-        imageUrl: "https://images.unsplash.com/photo-1499951360447-b19be8fe80f5",
-        price: 799,
-        files: [],
-        isPremium: true
-      },
-      {
-        name: "SaaS Dashboard",
-        description: "User and analytics management",
-        imageUrl: "https://images.unsplash.com/photo-1611162617213-7d7a39e9b1d7",
-        price: 1499,
-        files: [],
-        isPremium: true
-      }
-    ];
-    
-    templates.forEach(template => this.createTemplate(template));
+    defaultTemplates.forEach(template => this.createTemplate(template));
   }
 
   // User operations
@@ -110,12 +342,25 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async getUserByEmailIgnoringCase(email: string): Promise<User | undefined> {
+    const wanted = email.toLowerCase();
+    return Array.from(this.users.values()).find(
+      (user) => user.email.toLowerCase() === wanted,
+    );
+  }
+
   async getUserByUsername(username: string): Promise<User | undefined> {
     return Array.from(this.users.values()).find(
       (user) => user.username === username,
     );
   }
 
+  async getUserByFirebaseUid(uid: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(
+      (user) => user.firebaseUid === uid,
+    );
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const id = this.userId++;
     const now = new Date();
@@ -125,11 +370,20 @@ export class MemStorage implements IStorage {
       ...insertUser, 
       id, 
       createdAt: now,
+      password: insertUser.password ?? null,
+      authProvider: insertUser.authProvider ?? "password",
+      firebaseUid: insertUser.firebaseUid ?? null,
+      emailVerifiedAt: insertUser.emailVerifiedAt ?? null,
+      totpSecret: insertUser.totpSecret ?? null,
+      totpEnabledAt: insertUser.totpEnabledAt ?? null,
+      totpRecoveryCodes: insertUser.totpRecoveryCodes ?? null,
+      totpLastStep: insertUser.totpLastStep ?? null,
       displayName: insertUser.displayName ?? null, 
       photoURL: insertUser.photoURL ?? null 
     };
     
     this.users.set(id, user);
+    await this.createWorkspace({ name: "Personal", personalUserId: id }, id);
     return user;
   }
 
@@ -137,19 +391,275 @@ export class MemStorage implements IStorage {
     const user = this.users.get(id);
     if (!user) return undefined;
     
-    const updatedUser = { ...user, ...userData };
+    const updatedUser = { ...user, ...definedFields(userData) };
     this.users.set(id, updatedUser);
     return updatedUser;
   }
 
+  async consumeRecoveryCode(userId: number, codeHash: string): Promise<boolean> {
+    const user = this.users.get(userId);
+    if (!user?.totpRecoveryCodes?.includes(codeHash)) return false;
+    
+    const totpRecoveryCodes = user.totpRecoveryCodes.filter((hash) => hash !== codeHash);
+    this.users.set(userId, { ...user, totpRecoveryCodes });
+    return true;
+  }
+
+  async claimTotpStep(userId: number, step: number): Promise<boolean> {
+    const user = this.users.get(userId);
+    if (!user || (user.totpLastStep !== null && user.totpLastStep >= step)) return false;
+    
+    this.users.set(userId, { ...user, totpLastStep: step });
+    return true;
+  }
+
+  // Session operations
+  async getSession(sid: string): Promise<UserSession | undefined> {
+    const session = this.sessions.get(sid);
+    return session && session.expiresAt > new Date() ? session : undefined;
+  }
+
+  async getSessionsByUserId(userId: number): Promise<UserSession[]> {
+    const now = new Date();
+    return Array.from(this.sessions.values())
+      .filter((session) => session.userId === userId && session.expiresAt > now)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async saveSession(insertSession: InsertUserSession): Promise<UserSession> {
+    const existing = this.sessions.get(insertSession.sid);
+    const now = new Date();
+    
+    const session: UserSession = {
+      ...insertSession,
+      id: existing?.id ?? this.sessionId++,
+      createdAt: existing?.createdAt ?? now,
+      lastActiveAt: now,
+      userId: insertSession.userId ?? null,
+      userAgent: insertSession.userAgent ?? null,
+      ipAddress: insertSession.ipAddress ?? null,
+    };
+    
+    this.sessions.set(session.sid, session);
+    return session;
+  }
+
+  async touchSession(sid: string, expiresAt: Date): Promise<UserSession | undefined> {
+    const session = this.sessions.get(sid);
+    if (!session) return undefined;
+    
+    const touchedSession: UserSession = { ...session, expiresAt, lastActiveAt: new Date() };
+    this.sessions.set(sid, touchedSession);
+    return touchedSession;
+  }
+
+  async deleteSession(sid: string): Promise<boolean> {
+    return this.sessions.delete(sid);
+  }
+
+  // Access token operations
+  async getAccessToken(id: number): Promise<AccessToken | undefined> {
+    return this.accessTokens.get(id);
+  }
+
+  async getAccessTokenByHash(tokenHash: string): Promise<AccessToken | undefined> {
+    return Array.from(this.accessTokens.values()).find(
+      (token) => token.tokenHash === tokenHash,
+    );
+  }
+
+  async getAccessTokensByUserId(userId: number): Promise<AccessToken[]> {
+    return Array.from(this.accessTokens.values()).filter(
+      (token) => token.userId === userId,
+    );
+  }
+
+  async createAccessToken(insertToken: InsertAccessToken): Promise<AccessToken> {
+    const id = this.accessTokenId++;
+    
+    const token: AccessToken = {
+      ...insertToken,
+      id,
+      scopes: [...insertToken.scopes],
+      lastUsedAt: null,
+      createdAt: new Date(),
+    };
+    
+    this.accessTokens.set(id, token);
+    return token;
+  }
+
+  async markAccessTokenUsed(id: number, usedAt: Date): Promise<AccessToken | undefined> {
+    const token = this.accessTokens.get(id);
+    if (!token) return undefined;
+    
+    const usedToken: AccessToken = { ...token, lastUsedAt: usedAt };
+    this.accessTokens.set(id, usedToken);
+    return usedToken;
+  }
+
+  async deleteAccessToken(id: number): Promise<boolean> {
+    return this.accessTokens.delete(id);
+  }
+
+  // Workspace operations
+  async getWorkspace(id: number): Promise<Workspace | undefined> {
+    return this.workspaces.get(id);
+  }
+
+  async getPersonalWorkspace(userId: number): Promise<Workspace | undefined> {
+    return Array.from(this.workspaces.values()).find(
+      (workspace) => workspace.personalUserId === userId,
+    );
+  }
+
+  async getWorkspacesByUserId(userId: number): Promise<UserWorkspace[]> {
+    return Array.from(this.workspaceMembers.values())
+      .filter((member) => member.userId === userId)
+      .map((member) => ({ ...this.workspaces.get(member.workspaceId)!, role: member.role }))
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async createWorkspace(insertWorkspace: InsertWorkspace, ownerId: number): Promise<Workspace> {
+    const id = this.workspaceId++;
+    
+    const workspace: Workspace = {
+      ...insertWorkspace,
+      id,
+      personalUserId: insertWorkspace.personalUserId ?? null,
+      createdAt: new Date(),
+    };
+    
+    this.workspaces.set(id, workspace);
+    await this.addWorkspaceMember({ workspaceId: id, userId: ownerId, role: "owner" });
+    return workspace;
+  }
+
+  async updateWorkspace(id: number, workspaceData: Partial<InsertWorkspace>): Promise<Workspace | undefined> {
+    const workspace = this.workspaces.get(id);
+    if (!workspace) return undefined;
+    
+    const updatedWorkspace: Workspace = { ...workspace, ...definedFields(workspaceData) };
+    this.workspaces.set(id, updatedWorkspace);
+    return updatedWorkspace;
+  }
+
+  async deleteWorkspace(id: number): Promise<boolean> {
+    if (!this.workspaces.has(id)) return false;
+    
+    for (const project of Array.from(this.projects.values())) {
+      if (project.workspaceId === id) await this.deleteProject(project.id);
+    }
+    Array.from(this.workspaceMembers.values())
+      .filter((member) => member.workspaceId === id)
+      .forEach((member) => this.workspaceMembers.delete(member.id));
+    Array.from(this.workspaceInvitations.values())
+      .filter((invitation) => invitation.workspaceId === id)
+      .forEach((invitation) => this.workspaceInvitations.delete(invitation.id));
+    
+    return this.workspaces.delete(id);
+  }
+
+  // Workspace member operations
+  async getWorkspaceMember(workspaceId: number, userId: number): Promise<WorkspaceMember | undefined> {
+    return Array.from(this.workspaceMembers.values()).find(
+      (member) => member.workspaceId === workspaceId && member.userId === userId,
+    );
+  }
+
+  async getWorkspaceMembers(workspaceId: number): Promise<WorkspaceMember[]> {
+    return Array.from(this.workspaceMembers.values()).filter(
+      (member) => member.workspaceId === workspaceId,
+    );
+  }
+
+  async addWorkspaceMember(insertMember: InsertWorkspaceMember): Promise<WorkspaceMember> {
+    const existing = await this.getWorkspaceMember(insertMember.workspaceId, insertMember.userId);
+    if (existing) {
+      return (await this.updateWorkspaceMemberRole(existing.workspaceId, existing.userId, insertMember.role))!;
+    }
+    
+    const id = this.workspaceMemberId++;
+    const member: WorkspaceMember = { ...insertMember, id, createdAt: new Date() };
+    this.workspaceMembers.set(id, member);
+    return member;
+  }
+
+  async updateWorkspaceMemberRole(
+    workspaceId: number,
+    userId: number,
+    role: WorkspaceRole,
+  ): Promise<WorkspaceMember | undefined> {
+    const member = await this.getWorkspaceMember(workspaceId, userId);
+    if (!member) return undefined;
+    
+    const updatedMember: WorkspaceMember = { ...member, role };
+    this.workspaceMembers.set(member.id, updatedMember);
+    return updatedMember;
+  }
+
+  async removeWorkspaceMember(workspaceId: number, userId: number): Promise<boolean> {
+    const member = await this.getWorkspaceMember(workspaceId, userId);
+    return member ? this.workspaceMembers.delete(member.id) : false;
+  }
+
+  // Workspace invitation operations
+  async getWorkspaceInvitation(id: number): Promise<WorkspaceInvitation | undefined> {
+    const invitation = this.workspaceInvitations.get(id);
+    return invitation && invitation.expiresAt > new Date() ? invitation : undefined;
+  }
+
+  async getWorkspaceInvitationByHash(tokenHash: string): Promise<WorkspaceInvitation | undefined> {
+    const now = new Date();
+    return Array.from(this.workspaceInvitations.values()).find(
+      (invitation) => invitation.tokenHash === tokenHash && invitation.expiresAt > now,
+    );
+  }
+
+  async getWorkspaceInvitations(workspaceId: number): Promise<WorkspaceInvitation[]> {
+    const now = new Date();
+    return Array.from(this.workspaceInvitations.values()).filter(
+      (invitation) => invitation.workspaceId === workspaceId && invitation.expiresAt > now,
+    );
+  }
+
+  async createWorkspaceInvitation(insertInvitation: InsertWorkspaceInvitation): Promise<WorkspaceInvitation> {
+    Array.from(this.workspaceInvitations.values())
+      .filter((invitation) =>
+        invitation.workspaceId === insertInvitation.workspaceId && invitation.email === insertInvitation.email,
+      )
+      .forEach((invitation) => this.workspaceInvitations.delete(invitation.id));
+    
+    const id = this.workspaceInvitationId++;
+    const invitation: WorkspaceInvitation = {
+      ...insertInvitation,
+      id,
+      invitedBy: insertInvitation.invitedBy ?? null,
+      createdAt: new Date(),
+    };
+    
+    this.workspaceInvitations.set(id, invitation);
+    return invitation;
+  }
+
+  async deleteWorkspaceInvitation(id: number): Promise<boolean> {
+    return this.workspaceInvitations.delete(id);
+  }
+
   // Project operations
   async getProject(id: number): Promise<Project | undefined> {
     return this.projects.get(id);
   }
 
-  async getProjectsByUserId(userId: number): Promise<Project[]> {
+  async getProjectsByWorkspaceId(workspaceId: number): Promise<Project[]> {
+    return Array.from(this.projects.values()).filter(
+      (project) => project.workspaceId === workspaceId && !project.deletedAt,
+    );
+  }
+
+  async getTrashedProjectsByWorkspaceId(workspaceId: number): Promise<Project[]> {
     return Array.from(this.projects.values()).filter(
-      (project) => project.userId === userId,
+      (project) => project.workspaceId === workspaceId && !!project.deletedAt,
     );
   }
 
@@ -163,7 +673,9 @@ export class MemStorage implements IStorage {
       id, 
       createdAt: now, 
       updatedAt: now,
-      description: insertProject.description ?? null
+      deletedAt: null,
+      description: insertProject.description ?? null,
+      forkedFromId: insertProject.forkedFromId ?? null
     };
     
     this.projects.set(id, project);
@@ -177,17 +689,167 @@ export class MemStorage implements IStorage {
     const now = new Date();
     const updatedProject: Project = { 
       ...project, 
-      ...projectData, 
+      ...definedFields(projectData), 
       updatedAt: now 
     };
     this.projects.set(id, updatedProject);
     return updatedProject;
   }
 
+  async trashProject(id: number): Promise<Project | undefined> {
+    return this.setProjectDeletedAt(id, new Date());
+  }
+
+  async restoreProject(id: number): Promise<Project | undefined> {
+    return this.setProjectDeletedAt(id, null);
+  }
+
+  private setProjectDeletedAt(id: number, deletedAt: Date | null): Project | undefined {
+    const project = this.projects.get(id);
+    if (!project) return undefined;
+    
+    const updatedProject: Project = { ...project, deletedAt };
+    this.projects.set(id, updatedProject);
+    return updatedProject;
+  }
+
   async deleteProject(id: number): Promise<boolean> {
+    if (!this.projects.has(id)) return false;
+    
+    // Remove the project's snapshots, files and sharing along with it
+    Array.from(this.projectCollaborators.values())
+      .filter((collaborator) => collaborator.projectId === id)
+      .forEach((collaborator) => this.projectCollaborators.delete(collaborator.id));
+    Array.from(this.projectShareLinks.values())
+      .filter((link) => link.projectId === id)
+      .forEach((link) => this.projectShareLinks.delete(link.id));
+    Array.from(this.snapshots.values())
+      .filter((snapshot) => snapshot.projectId === id)
+      .forEach((snapshot) => this.snapshots.delete(snapshot.id));
+    Array.from(this.files.values())
+      .filter((file) => file.projectId === id)
+      .forEach((file) => this.removeFile(file.id));
+    Array.from(this.projects.values())
+      .filter((project) => project.forkedFromId === id)
+      .forEach((project) => this.projects.set(project.id, { ...project, forkedFromId: null }));
+    
     return this.projects.delete(id);
   }
 
+  async duplicateProject(
+    id: number,
+    projectData: Pick<InsertProject, "name" | "userId" | "workspaceId">,
+    revision: RevisionInfo = manualRevision,
+  ): Promise<Project | undefined> {
+    const source = this.projects.get(id);
+    if (!source) return undefined;
+    
+    // The copies cannot collide, so nothing below can fail halfway
+    const sourceFiles = await this.getFilesByProjectId(id);
+    const project = await this.createProject({
+      ...projectData,
+      description: source.description,
+      framework: source.framework,
+      backend: source.backend,
+      forkedFromId: id,
+    });
+    for (const file of sourceFiles) {
+      await this.createFile(
+        { ...snapshotContent(file), name: file.name, path: file.path, projectId: project.id },
+        revision,
+      );
+    }
+    
+    return project;
+  }
+
+  // Project collaborator operations
+  async getProjectCollaborator(projectId: number, userId: number): Promise<ProjectCollaborator | undefined> {
+    return Array.from(this.projectCollaborators.values()).find(
+      (collaborator) => collaborator.projectId === projectId && collaborator.userId === userId,
+    );
+  }
+
+  async getProjectCollaborators(projectId: number): Promise<ProjectCollaborator[]> {
+    return Array.from(this.projectCollaborators.values()).filter(
+      (collaborator) => collaborator.projectId === projectId,
+    );
+  }
+
+  async getSharedProjectsByUserId(userId: number): Promise<Project[]> {
+    const projectIds = new Set(
+      Array.from(this.projectCollaborators.values())
+        .filter((collaborator) => collaborator.userId === userId)
+        .map((collaborator) => collaborator.projectId),
+    );
+    return Array.from(this.projects.values()).filter(
+      (project) => projectIds.has(project.id) && !project.deletedAt,
+    );
+  }
+
+  async addProjectCollaborator(insertCollaborator: InsertProjectCollaborator): Promise<ProjectCollaborator> {
+    const existing = await this.getProjectCollaborator(insertCollaborator.projectId, insertCollaborator.userId);
+    if (existing) {
+      const updatedCollaborator: ProjectCollaborator = { ...existing, role: insertCollaborator.role };
+      this.projectCollaborators.set(existing.id, updatedCollaborator);
+      return updatedCollaborator;
+    }
+    
+    const id = this.projectCollaboratorId++;
+    const collaborator: ProjectCollaborator = {
+      ...insertCollaborator,
+      id,
+      addedBy: insertCollaborator.addedBy ?? null,
+      createdAt: new Date(),
+    };
+    this.projectCollaborators.set(id, collaborator);
+    return collaborator;
+  }
+
+  async removeProjectCollaborator(projectId: number, userId: number): Promise<boolean> {
+    const collaborator = await this.getProjectCollaborator(projectId, userId);
+    return collaborator ? this.projectCollaborators.delete(collaborator.id) : false;
+  }
+
+  // Project share link operations
+  private isLiveShareLink(link: ProjectShareLink): boolean {
+    return !link.expiresAt || link.expiresAt > new Date();
+  }
+
+  async getProjectShareLink(id: number): Promise<ProjectShareLink | undefined> {
+    const link = this.projectShareLinks.get(id);
+    return link && this.isLiveShareLink(link) ? link : undefined;
+  }
+
+  async getProjectShareLinkByHash(tokenHash: string): Promise<ProjectShareLink | undefined> {
+    return Array.from(this.projectShareLinks.values()).find(
+      (link) => link.tokenHash === tokenHash && this.isLiveShareLink(link),
+    );
+  }
+
+  async getProjectShareLinks(projectId: number): Promise<ProjectShareLink[]> {
+    return Array.from(this.projectShareLinks.values()).filter(
+      (link) => link.projectId === projectId && this.isLiveShareLink(link),
+    );
+  }
+
+  async createProjectShareLink(insertLink: InsertProjectShareLink): Promise<ProjectShareLink> {
+    const id = this.projectShareLinkId++;
+    const link: ProjectShareLink = {
+      ...insertLink,
+      id,
+      createdBy: insertLink.createdBy ?? null,
+      expiresAt: insertLink.expiresAt ?? null,
+      createdAt: new Date(),
+    };
+    this.projectShareLinks.set(id, link);
+    return link;
+  }
+
+  async deleteProjectShareLink(id: number): Promise<boolean> {
+    return this.projectShareLinks.delete(id);
+  }
+
   // File operations
   async getFile(id: number): Promise<File | undefined> {
     return this.files.get(id);
@@ -195,36 +857,282 @@ export class MemStorage implements IStorage {
 
   async getFilesByProjectId(projectId: number): Promise<File[]> {
     return Array.from(this.files.values()).filter(
-      (file) => file.projectId === projectId,
+      (file) => file.projectId === projectId && !file.deletedAt,
+    );
+  }
+
+  async getTrashedFilesByProjectId(projectId: number): Promise<File[]> {
+    return Array.from(this.files.values()).filter(
+      (file) => file.projectId === projectId && !!file.deletedAt,
+    );
+  }
+
+  async getFileByPath(projectId: number, path: string): Promise<File | undefined> {
+    const fullPath = normalizeFilePath(path);
+    return Array.from(this.files.values()).find(
+      (file) => file.projectId === projectId && file.path === fullPath && !file.deletedAt,
     );
   }
 
-  async createFile(insertFile: InsertFile): Promise<File> {
+  async createFile(insertFile: InsertFile, revision: RevisionInfo = manualRevision): Promise<File> {
+    const path = normalizeFilePath(insertFile.path);
+    assertPathAvailable(this.livePaths(insertFile.projectId), path);
+    
     const id = this.fileId++;
     const now = new Date();
-    const file: File = { ...insertFile, id, createdAt: now, updatedAt: now };
+    const file: File = {
+      ...insertFile,
+      id,
+      path,
+      name: baseName(path),
+      blobKey: insertFile.blobKey ?? null,
+      mimeType: insertFile.mimeType ?? null,
+      size: insertFile.size ?? null,
+      version: 1,
+      createdAt: now,
+      updatedAt: now,
+      deletedAt: null
+    };
     this.files.set(id, file);
+    this.addRevision(file, revision);
     return file;
   }
 
-  async updateFile(id: number, fileData: Partial<InsertFile>): Promise<File | undefined> {
+  async updateFile(
+    id: number,
+    fileData: Partial<InsertFile>,
+    revision: RevisionInfo = manualRevision,
+    expectedVersion?: number,
+  ): Promise<File | undefined> {
     const file = this.files.get(id);
     if (!file) return undefined;
     
+    if (expectedVersion !== undefined && expectedVersion !== file.version) {
+      throw new FileVersionConflictError(file);
+    }
+    
+    fileData = withoutStaleBlob(file, fileData);
+    const contentChanged = fileData.content !== undefined && fileData.content !== file.content;
+    const blobChanged = fileData.blobKey !== undefined && fileData.blobKey !== file.blobKey;
+    const path = updatedFilePath(file.path, fileData);
+    if (path !== file.path && !file.deletedAt) {
+      assertPathAvailable(this.livePaths(file.projectId, id), path);
+    }
+    
     const now = new Date();
     const updatedFile: File = { 
       ...file, 
-      ...fileData, 
+      ...definedFields(fileData), 
+      path,
+      name: baseName(path),
+      version: contentChanged || blobChanged ? file.version + 1 : file.version,
       updatedAt: now 
     };
     this.files.set(id, updatedFile);
+    
+    if (contentChanged) {
+      this.addRevision(updatedFile, revision);
+    }
+    return updatedFile;
+  }
+
+  private addRevision(file: File, revision: RevisionInfo) {
+    const id = this.fileRevisionId++;
+    this.fileRevisions.set(id, {
+      id,
+      fileId: file.id,
+      content: file.content,
+      authorId: revision.authorId,
+      source: revision.source,
+      createdAt: file.updatedAt,
+    });
+  }
+
+  async trashFile(id: number): Promise<File | undefined> {
+    return this.setFileDeletedAt(id, new Date());
+  }
+
+  async restoreFile(id: number): Promise<File | undefined> {
+    const file = this.files.get(id);
+    if (file?.deletedAt) {
+      assertPathAvailable(this.livePaths(file.projectId), file.path);
+    }
+    return this.setFileDeletedAt(id, null);
+  }
+
+  private setFileDeletedAt(id: number, deletedAt: Date | null): File | undefined {
+    const file = this.files.get(id);
+    if (!file) return undefined;
+    
+    const updatedFile: File = { ...file, deletedAt };
+    this.files.set(id, updatedFile);
     return updatedFile;
   }
 
   async deleteFile(id: number): Promise<boolean> {
+    return this.removeFile(id);
+  }
+
+  async moveFiles(projectId: number, fromPath: string, toPath: string): Promise<File[]> {
+    const from = normalizeFilePath(fromPath);
+    const to = normalizeFilePath(toPath);
+    const moves = planMove(await this.getFilesByProjectId(projectId), from, to);
+    
+    const now = new Date();
+    return moves.map(({ file, path }) => {
+      const movedFile: File = { ...file, path, name: baseName(path), updatedAt: now };
+      this.files.set(file.id, movedFile);
+      return movedFile;
+    });
+  }
+
+  async applyFileBatch(
+    projectId: number,
+    operations: FileOperation[],
+    revision: RevisionInfo = manualRevision,
+  ): Promise<FileOperationResult[]> {
+    // Keep the current state so a failed batch can be rolled back wholesale
+    const files = new Map(this.files);
+    const fileRevisions = new Map(this.fileRevisions);
+    const { fileId, fileRevisionId } = this;
+    
+    try {
+      return await runFileBatch(operations, (operation) =>
+        this.applyFileOperation(projectId, operation, revision),
+      );
+    } catch (error) {
+      this.files = files;
+      this.fileRevisions = fileRevisions;
+      this.fileId = fileId;
+      this.fileRevisionId = fileRevisionId;
+      throw error;
+    }
+  }
+
+  private async applyFileOperation(
+    projectId: number,
+    operation: FileOperation,
+    revision: RevisionInfo,
+  ): Promise<File[]> {
+    if (operation.op === "move") {
+      const movedFiles = await this.moveFiles(projectId, operation.from, operation.to);
+      if (movedFiles.length === 0) throw new FileNotFoundError(operation.from);
+      return movedFiles;
+    }
+    
+    const path = normalizeFilePath(operation.path);
+    
+    if (operation.op === "delete") {
+      const targets = (await this.getFilesByProjectId(projectId)).filter((file) => isWithinPath(file.path, path));
+      if (targets.length === 0) throw new FileNotFoundError(path);
+      
+      if (operation.permanent) {
+        targets.forEach((file) => this.removeFile(file.id));
+        return targets;
+      }
+      const now = new Date();
+      return targets.map((file) => this.setFileDeletedAt(file.id, now) as File);
+    }
+    
+    const existingFile = await this.getFileByPath(projectId, path);
+    if (operation.op === "update") {
+      if (!existingFile) throw new FileNotFoundError(path);
+      return [(await this.updateFile(existingFile.id, { content: operation.content }, revision, operation.version)) as File];
+    }
+    if (existingFile && operation.overwrite) {
+      return [(await this.updateFile(existingFile.id, { content: operation.content }, revision)) as File];
+    }
+    return [await this.createFile({ projectId, path, name: baseName(path), content: operation.content }, revision)];
+  }
+
+  // Paths of a project's live files, leaving out the given file
+  private livePaths(projectId: number, exceptId?: number): string[] {
+    return Array.from(this.files.values())
+      .filter((file) => file.projectId === projectId && !file.deletedAt && file.id !== exceptId)
+      .map((file) => file.path);
+  }
+
+  // Delete a file together with its revisions
+  private removeFile(id: number): boolean {
+    Array.from(this.fileRevisions.values())
+      .filter((revision) => revision.fileId === id)
+      .forEach((revision) => this.fileRevisions.delete(revision.id));
+    
     return this.files.delete(id);
   }
 
+  // File revision operations
+  async getFileRevision(id: number): Promise<FileRevision | undefined> {
+    return this.fileRevisions.get(id);
+  }
+
+  async getFileRevisions(fileId: number): Promise<FileRevision[]> {
+    return Array.from(this.fileRevisions.values()).filter(
+      (revision) => revision.fileId === fileId,
+    );
+  }
+
+  // Snapshot operations
+  async getSnapshot(id: number): Promise<ProjectSnapshot | undefined> {
+    return this.snapshots.get(id);
+  }
+
+  async getSnapshotsByProjectId(projectId: number): Promise<ProjectSnapshot[]> {
+    return Array.from(this.snapshots.values()).filter(
+      (snapshot) => snapshot.projectId === projectId,
+    );
+  }
+
+  async createSnapshot(insertSnapshot: InsertProjectSnapshot): Promise<ProjectSnapshot> {
+    const id = this.snapshotId++;
+    const projectFiles = await this.getFilesByProjectId(insertSnapshot.projectId);
+    
+    const snapshot: ProjectSnapshot = {
+      ...insertSnapshot,
+      id,
+      files: projectFiles.map(({ name, path, content, blobKey, mimeType, size }) => (
+        { name, path, content, blobKey, mimeType, size }
+      )),
+      automatic: insertSnapshot.automatic ?? false,
+      createdBy: insertSnapshot.createdBy ?? null,
+      createdAt: new Date(),
+    };
+    
+    this.snapshots.set(id, snapshot);
+    return snapshot;
+  }
+
+  async restoreSnapshot(id: number, revision: RevisionInfo = manualRevision): Promise<File[] | undefined> {
+    const snapshot = this.snapshots.get(id);
+    if (!snapshot) return undefined;
+    
+    const currentFiles = await this.getFilesByProjectId(snapshot.projectId);
+    // Snapshots taken before paths were canonical may store only the directory
+    const snapshotFiles = new Map(
+      snapshot.files.map((file) => [resolveFullPath(file.path, file.name), file]),
+    );
+    
+    for (const file of currentFiles) {
+      const saved = snapshotFiles.get(file.path);
+      if (!saved) {
+        this.removeFile(file.id);
+      } else {
+        snapshotFiles.delete(file.path);
+        await this.updateFile(file.id, snapshotContent(saved), revision);
+      }
+    }
+    
+    for (const [path, saved] of Array.from(snapshotFiles.entries())) {
+      await this.createFile({ ...saved, path, projectId: snapshot.projectId }, revision);
+    }
+    
+    return this.getFilesByProjectId(snapshot.projectId);
+  }
+
+  async deleteSnapshot(id: number): Promise<boolean> {
+    return this.snapshots.delete(id);
+  }
+
   // Template operations
   async getTemplate(id: number): Promise<Template | undefined> {
     return this.templates.get(id);
@@ -257,6 +1165,114 @@ export class MemStorage implements IStorage {
     this.templates.set(id, template);
     return template;
   }
+
+  // Maintenance operations
+  async purgeOrphans(): Promise<OrphanReport> {
+    const orphanedFiles = Array.from(this.files.values()).filter(
+      (file) => !this.projects.has(file.projectId),
+    );
+    orphanedFiles.forEach((file) => this.removeFile(file.id));
+    
+    const orphanedRevisions = Array.from(this.fileRevisions.values()).filter(
+      (revision) => !this.files.has(revision.fileId),
+    );
+    orphanedRevisions.forEach((revision) => this.fileRevisions.delete(revision.id));
+    
+    const orphanedSnapshots = Array.from(this.snapshots.values()).filter(
+      (snapshot) => !this.projects.has(snapshot.projectId),
+    );
+    orphanedSnapshots.forEach((snapshot) => this.snapshots.delete(snapshot.id));
+    
+    return {
+      files: orphanedFiles.map((file) => file.id),
+      fileRevisions: orphanedRevisions.map((revision) => revision.id),
+      snapshots: orphanedSnapshots.map((snapshot) => snapshot.id),
+    };
+  }
+
+  async purgeTrash(trashedBefore: Date): Promise<TrashPurgeReport> {
+    const expired = <T extends { deletedAt: Date | null }>(row: T) =>
+      !!row.deletedAt && row.deletedAt < trashedBefore;
+    
+    const expiredProjects = Array.from(this.projects.values()).filter(expired);
+    for (const project of expiredProjects) {
+      await this.deleteProject(project.id);
+    }
+    
+    const expiredFiles = Array.from(this.files.values()).filter(expired);
+    expiredFiles.forEach((file) => this.removeFile(file.id));
+    
+    return {
+      projects: expiredProjects.map((project) => project.id),
+      files: expiredFiles.map((file) => file.id),
+    };
+  }
+
+  async purgeExpiredSessions(now: Date): Promise<number> {
+    const expiredSessions = Array.from(this.sessions.values()).filter(
+      (session) => session.expiresAt <= now,
+    );
+    expiredSessions.forEach((session) => this.sessions.delete(session.sid));
+    return expiredSessions.length;
+  }
+  
+  async getReferencedBlobKeys(): Promise<Set<string>> {
+    const keys = new Set<string>();
+    this.files.forEach((file) => {
+      if (file.blobKey) keys.add(file.blobKey);
+    });
+    this.snapshots.forEach((snapshot) => {
+      snapshot.files.forEach((file) => {
+        if (file.blobKey) keys.add(file.blobKey);
+      });
+    });
+    return keys;
+  }
+}
+
+type StorageBackend = "memory" | "postgres";
+
+// STORAGE_BACKEND picks the backend explicitly; otherwise Postgres is used
+// whenever DATABASE_URL is configured.
+function resolveBackend(): StorageBackend {
+  const configured = process.env.STORAGE_BACKEND;
+  if (configured === "memory" || configured === "postgres") {
+    return configured;
+  }
+  if (configured) {
+    throw new Error(`Unknown STORAGE_BACKEND "${configured}", expected "memory" or "postgres"`);
+  }
+  return process.env.DATABASE_URL ? "postgres" : "memory";
+}
+
+interface SelectedStorage {
+  storage: IStorage;
+  // Runs migrations and seeds data; must finish before requests are served
+  initialize: () => Promise<void>;
 }
 
-export const storage = new MemStorage();
+function createStorage(): SelectedStorage {
+  if (resolveBackend() === "memory") {
+    return { storage: new MemStorage(), initialize: async () => {} };
+  }
+
+  if (!process.env.DATABASE_URL) {
+    throw new Error("DATABASE_URL must be set to use the postgres storage backend");
+  }
+
+  const database = createDatabase(process.env.DATABASE_URL);
+  const drizzleStorage = new DrizzleStorage(database.db);
+
+  return {
+    storage: drizzleStorage,
+    initialize: async () => {
+      await database.migrate();
+      await drizzleStorage.seedTemplates();
+    },
+  };
+}
+
+const selectedStorage = createStorage();
+
+export const storage: IStorage = selectedStorage.storage;
+export const initializeStorage = selectedStorage.initialize;
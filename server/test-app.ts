@@ -0,0 +1,100 @@
+import type { AddressInfo } from "net";
+import type { User } from "@shared/schema";
+
+export interface TestResponse {
+  status: number;
+  body: any;
+}
+
+// One caller of the test app; keeps the session cookie it is given between
+// requests, like a browser
+export class TestClient {
+  private cookie: string | undefined;
+
+  constructor(private baseUrl: string, private headers: Record<string, string> = {}) {}
+
+  async request(method: string, path: string, body?: unknown): Promise<TestResponse> {
+    const response = await fetch(this.baseUrl + path, {
+      method,
+      headers: {
+        ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+        ...(this.cookie ? { Cookie: this.cookie } : {}),
+        ...this.headers,
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+
+    const setCookie = response.headers.get("set-cookie");
+    if (setCookie) this.cookie = setCookie.split(";")[0];
+
+    const text = await response.text();
+    let parsed: unknown = text;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      // Not JSON, e.g. an export archive
+    }
+    return { status: response.status, body: parsed };
+  }
+
+  get(path: string) {
+    return this.request("GET", path);
+  }
+
+  post(path: string, body: unknown = {}) {
+    return this.request("POST", path, body);
+  }
+
+  put(path: string, body: unknown = {}) {
+    return this.request("PUT", path, body);
+  }
+
+  patch(path: string, body: unknown = {}) {
+    return this.request("PATCH", path, body);
+  }
+
+  delete(path: string) {
+    return this.request("DELETE", path);
+  }
+}
+
+let userCount = 0;
+
+// The API on a free local port over the in-memory storage backend. For tests
+// only; must run before anything else imports ./storage, which picks its
+// backend when first loaded.
+export async function startTestApp() {
+  process.env.STORAGE_BACKEND = "memory";
+  const { default: express } = await import("express");
+  const { registerRoutes } = await import("./routes");
+  const { storage } = await import("./storage");
+
+  const app = express();
+  app.use(express.json());
+  const server = await registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    storage,
+    // A client without a session, optionally sending extra headers
+    client: (headers?: Record<string, string>) => new TestClient(baseUrl, headers),
+    // A client signed in as a newly registered user
+    async signUp(): Promise<{ client: TestClient; user: User }> {
+      userCount += 1;
+      const client = new TestClient(baseUrl);
+      const { status, body } = await client.post("/api/auth/register", {
+        username: `user${userCount}`,
+        email: `user${userCount}@example.com`,
+        password: "secret123",
+      });
+      if (status !== 201) throw new Error(`Sign-up failed with ${status}: ${JSON.stringify(body)}`);
+      return { client, user: body };
+    },
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
@@ -0,0 +1,29 @@
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import * as schema from "@shared/schema";
+import { MIGRATIONS_FOLDER, type Database } from "./db";
+import { DrizzleStorage } from "./drizzle-storage";
+
+// A fresh in-process Postgres (PGlite) with every migration applied, so the
+// Drizzle backend can be exercised without a database server. For tests only.
+export async function createTestDatabase() {
+  const client = new PGlite();
+  const db = drizzle(client, { schema });
+  await migrate(db, { migrationsFolder: MIGRATIONS_FOLDER });
+  // Used through the shared base type, exactly like the production database
+  const database: Database = db;
+
+  return {
+    db: database,
+    close: () => client.close(),
+  };
+}
+
+// DrizzleStorage over a fresh test database, seeded like a new deployment
+export async function createTestStorage() {
+  const database = await createTestDatabase();
+  const storage = new DrizzleStorage(database.db);
+  await storage.seedTemplates();
+  return { storage, close: database.close };
+}
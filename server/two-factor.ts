@@ -0,0 +1,176 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import QRCode from "qrcode";
+import { z } from "zod";
+import type { User } from "@shared/schema";
+import { storage } from "./storage";
+
+// Time-based one-time passwords as authenticator apps expect them (RFC 6238):
+// six digits from HMAC-SHA1 over 30-second steps
+const STEP_SECONDS = 30;
+const CODE_DIGITS = 6;
+// Codes from one step either side are accepted, for clocks that drift
+const STEP_WINDOW = 1;
+const SECRET_BYTES = 20;
+const ISSUER = "Xalgrow";
+
+const RECOVERY_CODE_COUNT = 10;
+
+// Wrong codes allowed per user before code checks are refused for a while, so
+// six digits cannot be guessed by trying them all. Counted in memory: a restart
+// starts the count over.
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MS = 15 * 60 * 1000;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export class TwoFactorLockedError extends Error {
+  constructor() {
+    super("Too many invalid codes. Try again later");
+    this.name = "TwoFactorLockedError";
+  }
+}
+
+function base32Encode(bytes: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (let i = 0; i < bytes.length; i++) {
+    value = (value << 8) | bytes[i];
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+function base32Decode(encoded: string): Buffer {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of encoded.replace(/=+$/, "").toUpperCase()) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error("Invalid base32 character");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// A new shared secret, base32 encoded for typing into an authenticator app
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(SECRET_BYTES));
+}
+
+function totpStep(time: number): number {
+  return Math.floor(time / 1000 / STEP_SECONDS);
+}
+
+function totpCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = createHmac("sha1", base32Decode(secret)).update(counter).digest();
+
+  // Dynamic truncation
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** CODE_DIGITS).padStart(CODE_DIGITS, "0");
+}
+
+// The time step a code belongs to, or null when it matches none near `time`
+export function matchTotpCode(secret: string, code: string, time = Date.now()): number | null {
+  const normalized = code.replace(/\s/g, "");
+  if (!/^\d+$/.test(normalized) || normalized.length !== CODE_DIGITS) return null;
+
+  const current = totpStep(time);
+  for (let step = current - STEP_WINDOW; step <= current + STEP_WINDOW; step++) {
+    if (timingSafeEqual(Buffer.from(totpCode(secret, step)), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+// The otpauth:// URI authenticator apps read from the QR code
+export function totpUri(secret: string, accountName: string): string {
+  const label = encodeURIComponent(`${ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: ISSUER,
+    algorithm: "SHA1",
+    digits: String(CODE_DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params}`;
+}
+
+// The URI as a QR code image, for an <img src>
+export function totpQrCode(uri: string): Promise<string> {
+  return QRCode.toDataURL(uri, { margin: 1, width: 240 });
+}
+
+// Codes are typed in by hand, with or without the dash and in any case
+function normalizeRecoveryCode(code: string): string {
+  return code.replace(/[\s-]/g, "").toLowerCase();
+}
+
+export function hashRecoveryCode(code: string): string {
+  return createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+}
+
+// One-time codes for signing in without the authenticator, e.g. "3f9a1-c07be"
+export function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = randomBytes(5).toString("hex");
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+// A code from the authenticator app, or one of the recovery codes instead
+export const secondFactorSchema = z.union([
+  z.object({ code: z.string().trim().min(1) }),
+  z.object({ recoveryCode: z.string().trim().min(1) }),
+]);
+
+export type SecondFactor = z.infer<typeof secondFactorSchema>;
+
+const failedAttempts = new Map<number, { count: number; lockedUntil: number }>();
+
+// Check a code against the user's second factor. Each authenticator code and
+// recovery code is accepted once. Throws TwoFactorLockedError while the user
+// is locked out after too many wrong codes.
+export async function verifySecondFactor(user: User, input: SecondFactor): Promise<boolean> {
+  if (!user.totpSecret) return false;
+
+  const attempts = failedAttempts.get(user.id);
+  if (attempts && attempts.lockedUntil > Date.now()) {
+    throw new TwoFactorLockedError();
+  }
+
+  let valid: boolean;
+  if ("code" in input) {
+    const step = matchTotpCode(user.totpSecret, input.code);
+    valid = step !== null && (await storage.claimTotpStep(user.id, step));
+  } else {
+    valid = await storage.consumeRecoveryCode(user.id, hashRecoveryCode(input.recoveryCode));
+  }
+
+  if (valid) {
+    failedAttempts.delete(user.id);
+  } else {
+    const count = (attempts?.count ?? 0) + 1;
+    failedAttempts.set(user.id, count >= MAX_FAILED_ATTEMPTS
+      ? { count: 0, lockedUntil: Date.now() + LOCKOUT_MS }
+      : { count, lockedUntil: 0 });
+  }
+  return valid;
+}
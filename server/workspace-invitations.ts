@@ -0,0 +1,23 @@
+import { createHash, randomBytes } from "crypto";
+
+const TOKEN_BYTES = 32;
+
+// How long an invitation link works
+export const INVITATION_LIFETIME_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Tokens are random, so a fast unsalted hash is enough to look them up by
+export function hashInvitationToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// A new token for an invitation link, and what is stored of it
+export function generateInvitationToken() {
+  const token = randomBytes(TOKEN_BYTES).toString("base64url");
+  return { token, tokenHash: hashInvitationToken(token) };
+}
+
+// Invitations go to an email address; whoever accepts must have signed in
+// with it. Addresses are compared without regard to case.
+export function sameEmail(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
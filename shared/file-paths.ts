@@ -0,0 +1,148 @@
+// File paths are stored relative to the project root, "/"-separated, with no
+// leading or trailing slash, e.g. "src/components/App.jsx". A file's `name` is
+// always the last segment of its `path`.
+
+export class InvalidFilePathError extends Error {
+  constructor(public path: string, reason: string) {
+    super(`Invalid file path "${path}": ${reason}`);
+    this.name = "InvalidFilePathError";
+  }
+}
+
+// Raised when an operation names a path where no live file or directory exists
+export class FileNotFoundError extends Error {
+  constructor(public path: string) {
+    super(`Nothing found at "${path}"`);
+    this.name = "FileNotFoundError";
+  }
+}
+
+// Raised when a write would make two live files in a project collide
+export class FilePathConflictError extends Error {
+  constructor(public path: string, public conflictingPath: string) {
+    super(`Cannot use "${path}": "${conflictingPath}" already exists`);
+    this.name = "FilePathConflictError";
+  }
+}
+
+// Turn user or AI supplied input into a canonical path, rejecting anything
+// that could escape the project root
+export function normalizeFilePath(input: string): string {
+  const segments = input
+    .replace(/\\/g, "/")
+    .split("/")
+    .filter((segment) => segment !== "" && segment !== ".");
+
+  if (segments.length === 0) {
+    throw new InvalidFilePathError(input, "path is empty");
+  }
+  if (segments.includes("..")) {
+    throw new InvalidFilePathError(input, "path may not contain '..'");
+  }
+
+  return segments.join("/");
+}
+
+// Join a directory (possibly empty, meaning the project root) and a relative path
+export function joinFilePath(directory: string, relativePath: string): string {
+  return normalizeFilePath(directory ? `${directory}/${relativePath}` : relativePath);
+}
+
+export function baseName(path: string): string {
+  return path.slice(path.lastIndexOf("/") + 1);
+}
+
+// Directory part of a path; "" for files at the project root
+export function dirName(path: string): string {
+  const index = path.lastIndexOf("/");
+  return index === -1 ? "" : path.slice(0, index);
+}
+
+// True when `path` is `directory` itself or lies anywhere beneath it
+export function isWithinPath(path: string, directory: string): boolean {
+  return path === directory || path.startsWith(`${directory}/`);
+}
+
+// Full path for a file that may predate canonical paths, when `path` held
+// either the directory ("src") or the full path ("/src/App.jsx")
+export function resolveFullPath(path: string, name: string): string {
+  const trimmed = path.replace(/^\/+|\/+$/g, "");
+  if (trimmed === name || trimmed.endsWith(`/${name}`)) {
+    return normalizeFilePath(trimmed);
+  }
+  return joinFilePath(trimmed, name);
+}
+
+export interface DirectoryEntry {
+  name: string;
+  path: string;
+  type: "file" | "directory";
+}
+
+// Immediate children of `directory` ("" for the project root), worked out from
+// the full paths of the files beneath it. Directories sort before files.
+export function directoryEntries(paths: string[], directory: string): DirectoryEntry[] {
+  const prefix = directory ? `${directory}/` : "";
+  const entries = new Map<string, DirectoryEntry>();
+
+  for (const path of paths) {
+    if (!path.startsWith(prefix)) continue;
+
+    const [name, ...rest] = path.slice(prefix.length).split("/");
+    entries.set(name, { name, path: prefix + name, type: rest.length > 0 ? "directory" : "file" });
+  }
+
+  return Array.from(entries.values()).sort((a, b) =>
+    a.type === b.type ? a.name.localeCompare(b.name) : a.type === "directory" ? -1 : 1,
+  );
+}
+
+// Full path after an update that may set a new `path`, a new `name` (a rename
+// within the same directory) or neither
+export function updatedFilePath(currentPath: string, update: { path?: string; name?: string }): string {
+  if (update.path !== undefined) return normalizeFilePath(update.path);
+  if (update.name !== undefined) return joinFilePath(dirName(currentPath), update.name);
+  return currentPath;
+}
+
+// Where `path` ends up when `from` (a file or a directory) is moved to `to`
+export function movedFilePath(path: string, from: string, to: string): string {
+  return to + path.slice(from.length);
+}
+
+// Throw unless `path` can be added next to `existingPaths`. A path collides
+// with the same path, with a file standing where it needs a directory, and
+// with a directory it would replace with a file.
+export function assertPathAvailable(existingPaths: string[], path: string): void {
+  const conflict = existingPaths.find(
+    (existing) => isWithinPath(path, existing) || isWithinPath(existing, path),
+  );
+  if (conflict !== undefined) {
+    throw new FilePathConflictError(path, conflict);
+  }
+}
+
+// Work out where each file goes when `from`, a file or a whole directory, is
+// moved to `to`. Destinations are checked against the files that stay put.
+// Returns no moves when nothing lives at `from`.
+export function planMove<T extends { path: string }>(
+  files: T[],
+  from: string,
+  to: string,
+): Array<{ file: T; path: string }> {
+  const moving = files.filter((file) => isWithinPath(file.path, from));
+  if (moving.length === 0) return [];
+
+  if (to !== from && isWithinPath(to, from)) {
+    throw new InvalidFilePathError(to, "a folder cannot be moved into itself");
+  }
+
+  const remainingPaths = files
+    .filter((file) => !isWithinPath(file.path, from))
+    .map((file) => file.path);
+  return moving.map((file) => {
+    const path = movedFilePath(file.path, from, to);
+    assertPathAvailable(remainingPaths, path);
+    return { file, path };
+  });
+}
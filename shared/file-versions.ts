@@ -0,0 +1,25 @@
+import type { File } from "./schema";
+
+// A file's version is sent as a strong ETag, e.g. "3"
+export function fileETag(version: number): string {
+  return `"${version}"`;
+}
+
+// The version named by an If-Match header. Returns undefined for "*", which
+// matches any version, and null when the header is not a file ETag.
+export function versionFromIfMatch(header: string): number | undefined | null {
+  const value = header.trim();
+  if (value === "*") return undefined;
+
+  const match = /^"(\d+)"$/.exec(value);
+  return match ? Number(match[1]) : null;
+}
+
+// Raised when a write was based on a version of the file that is no longer
+// current; carries the file as it is now
+export class FileVersionConflictError extends Error {
+  constructor(public current: File) {
+    super(`"${current.path}" has changed since it was loaded`);
+    this.name = "FileVersionConflictError";
+  }
+}
@@ -0,0 +1,19 @@
+// Framework and backend choices offered for a project. Shared so the server can
+// map imported projects onto the same values the client lets users pick.
+export const frameworkOptions = [
+  'React + Tailwind CSS',
+  'React + MUI',
+  'Next.js',
+  'Vue.js',
+  'Angular',
+  'Svelte',
+];
+
+export const backendOptions = [
+  'Node.js + Express',
+  'Firebase',
+  'Django',
+  'Ruby on Rails',
+  'Spring Boot',
+  'Laravel',
+];
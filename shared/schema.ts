@@ -1,36 +1,221 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, index, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { collaboratorRoles, workspaceRoles, type CollaboratorRole, type WorkspaceRole } from "./workspace-roles";
+
+// How an account signs in; only "password" accounts may use password login
+export const authProviders = ["password", "firebase"] as const;
+export type AuthProvider = typeof authProviders[number];
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
   email: text("email").notNull().unique(),
-  password: text("password").notNull(),
+  // scrypt hash (see server/passwords); null for accounts that sign in elsewhere
+  password: text("password"),
+  authProvider: text("auth_provider", { enum: authProviders }).default("password").notNull(),
+  // The Firebase account (its uid) a "firebase" user signs in with; set on
+  // first sign-in, or when an older account is linked by verified email
+  firebaseUid: text("firebase_uid").unique(),
+  // When the user proved they own the email address; null until then
+  emailVerifiedAt: timestamp("email_verified_at"),
+  // TOTP two-factor authentication (see server/two-factor), on while the
+  // secret is set. Recovery codes are stored as hashes and removed as they are
+  // used; totpLastStep is the time step of the last accepted code, so none is
+  // accepted twice.
+  totpSecret: text("totp_secret"),
+  totpEnabledAt: timestamp("totp_enabled_at"),
+  totpRecoveryCodes: text("totp_recovery_codes").array(),
+  totpLastStep: integer("totp_last_step"),
   displayName: text("display_name"),
   photoURL: text("photo_url"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Server sessions, kept through the storage backend so they outlive restarts
+// and can be listed and revoked by their user (see server/sessions)
+export const userSessions = pgTable("user_sessions", {
+  id: serial("id").primaryKey(),
+  sid: text("sid").notNull().unique(), // the session cookie's id; never sent back to clients
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }),
+  data: jsonb("data").$type<Record<string, unknown>>().notNull(), // serialized express-session data
+  userAgent: text("user_agent"),
+  ipAddress: text("ip_address"),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastActiveAt: timestamp("last_active_at").defaultNow().notNull(),
+}, (table) => [
+  index("user_sessions_user_id_idx").on(table.userId),
+]);
+
+// What a personal access token may do: "read" allows GET requests, "write"
+// every other project and file change, "ai" the AI generation endpoints (those
+// that write into a project need "write" too)
+export const accessTokenScopes = ["read", "write", "ai"] as const;
+export type AccessTokenScope = typeof accessTokenScopes[number];
+
+// Personal access tokens for scripts and CI (see server/access-tokens). Only
+// a hash of the token is kept; the token itself is shown once, on creation.
+export const accessTokens = pgTable("access_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  prefix: text("prefix").notNull(), // start of the token, to tell tokens apart
+  scopes: text("scopes", { enum: accessTokenScopes }).array().notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("access_tokens_user_id_idx").on(table.userId),
+]);
+
+// Teams that own projects together. Every user has a personal workspace, made
+// along with their account, which has no other members.
+export const workspaces = pgTable("workspaces", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  // The user whose personal workspace this is; null for team workspaces
+  personalUserId: integer("personal_user_id").unique().references(() => users.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const workspaceMembers = pgTable("workspace_members", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  role: text("role", { enum: workspaceRoles }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("workspace_members_workspace_user_unique").on(table.workspaceId, table.userId),
+  index("workspace_members_user_id_idx").on(table.userId),
+]);
+
+// Invitations to join a workspace, sent by email (see server/account-emails).
+// Only a hash of the link's token is kept.
+export const workspaceInvitations = pgTable("workspace_invitations", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  email: text("email").notNull(),
+  role: text("role", { enum: workspaceRoles }).notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  invitedBy: integer("invited_by").references(() => users.id, { onDelete: "set null" }),
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("workspace_invitations_workspace_id_idx").on(table.workspaceId),
+]);
+
 export const projects = pgTable("projects", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
   description: text("description"),
+  // Who created the project; who may use it follows from its workspace
   userId: integer("user_id").notNull().references(() => users.id),
+  workspaceId: integer("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
   framework: text("framework").notNull(),
   backend: text("backend").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  deletedAt: timestamp("deleted_at"), // set while the project is in the trash
+  // The project this one was duplicated from; cleared when that project is deleted
+  forkedFromId: integer("forked_from_id").references((): AnyPgColumn => projects.id, { onDelete: "set null" }),
 });
 
+// Users a single project is shared with directly, on top of the members of its
+// workspace
+export const projectCollaborators = pgTable("project_collaborators", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  role: text("role", { enum: collaboratorRoles }).notNull(),
+  addedBy: integer("added_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("project_collaborators_project_user_unique").on(table.projectId, table.userId),
+  index("project_collaborators_user_id_idx").on(table.userId),
+]);
+
+// Public links that let anyone open a project read-only, without signing in.
+// Only a hash of the link's token is kept; links without `expiresAt` work
+// until they are revoked.
+export const projectShareLinks = pgTable("project_share_links", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  tokenHash: text("token_hash").notNull().unique(),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  expiresAt: timestamp("expires_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("project_share_links_project_id_idx").on(table.projectId),
+]);
+
 export const files = pgTable("files", {
   id: serial("id").primaryKey(),
-  name: text("name").notNull(),
+  name: text("name").notNull(), // last segment of path
   content: text("content").notNull(),
-  path: text("path").notNull(),
-  projectId: integer("project_id").notNull().references(() => projects.id),
+  path: text("path").notNull(), // full path within the project, e.g. "src/App.jsx"
+  projectId: integer("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  version: integer("version").default(1).notNull(), // bumped on every content change; the file's ETag
+  // Binary assets (images, fonts) keep their bytes in the blob store under
+  // blobKey and leave content empty; text files have no blob
+  blobKey: text("blob_key"),
+  mimeType: text("mime_type"),
+  size: integer("size"), // bytes in the blob
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  deletedAt: timestamp("deleted_at"), // set while the file is in the trash
+}, (table) => [
+  // Trashed files keep their path, so only live files must be unique
+  uniqueIndex("files_project_path_unique")
+    .on(table.projectId, table.path)
+    .where(sql`${table.deletedAt} is null`),
+]);
+
+// Where a file revision came from
+export const revisionSources = ["manual", "ai", "clean", "restore", "import", "replace", "duplicate"] as const;
+export type RevisionSource = typeof revisionSources[number];
+
+// Every version of a file's content, written alongside each create or content change
+export const fileRevisions = pgTable("file_revisions", {
+  id: serial("id").primaryKey(),
+  fileId: integer("file_id").notNull().references(() => files.id, { onDelete: "cascade" }),
+  content: text("content").notNull(),
+  authorId: integer("author_id").references(() => users.id, { onDelete: "set null" }),
+  source: text("source", { enum: revisionSources }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// One file as captured in a project snapshot
+export interface SnapshotFile {
+  name: string;
+  path: string;
+  content: string;
+  // Absent in snapshots taken before binary assets existed
+  blobKey?: string | null;
+  mimeType?: string | null;
+  size?: number | null;
+}
+
+// What a file is set back to when a snapshot is restored over it
+export function snapshotContent(file: SnapshotFile) {
+  return {
+    content: file.content,
+    blobKey: file.blobKey ?? null,
+    mimeType: file.mimeType ?? null,
+    size: file.size ?? null,
+  };
+}
+
+// Whole-project checkpoints, taken by users or automatically before AI writes
+export const projectSnapshots = pgTable("project_snapshots", {
+  id: serial("id").primaryKey(),
+  projectId: integer("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  files: jsonb("files").$type<SnapshotFile[]>().notNull(),
+  automatic: boolean("automatic").default(false).notNull(),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const templates = pgTable("templates", {
@@ -45,18 +230,92 @@ export const templates = pgTable("templates", {
 });
 
 export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true });
-export const insertProjectSchema = createInsertSchema(projects).omit({ id: true, createdAt: true, updatedAt: true });
-export const insertFileSchema = createInsertSchema(files).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertUserSessionSchema = createInsertSchema(userSessions).omit({ id: true, createdAt: true, lastActiveAt: true });
+export const insertAccessTokenSchema = createInsertSchema(accessTokens).omit({ id: true, lastUsedAt: true, createdAt: true });
+export const insertWorkspaceSchema = createInsertSchema(workspaces).omit({ id: true, createdAt: true });
+export const insertWorkspaceMemberSchema = createInsertSchema(workspaceMembers).omit({ id: true, createdAt: true });
+export const insertWorkspaceInvitationSchema = createInsertSchema(workspaceInvitations).omit({ id: true, createdAt: true });
+export const insertProjectSchema = createInsertSchema(projects).omit({ id: true, createdAt: true, updatedAt: true, deletedAt: true });
+export const insertProjectCollaboratorSchema = createInsertSchema(projectCollaborators).omit({ id: true, createdAt: true });
+export const insertProjectShareLinkSchema = createInsertSchema(projectShareLinks).omit({ id: true, createdAt: true });
+export const insertFileSchema = createInsertSchema(files).omit({ id: true, version: true, createdAt: true, updatedAt: true, deletedAt: true });
+export const insertFileRevisionSchema = createInsertSchema(fileRevisions).omit({ id: true, createdAt: true });
+export const insertProjectSnapshotSchema = createInsertSchema(projectSnapshots).omit({ id: true, createdAt: true, files: true });
 export const insertTemplateSchema = createInsertSchema(templates).omit({ id: true, createdAt: true });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+export type InsertUserSession = z.infer<typeof insertUserSessionSchema>;
+export type UserSession = typeof userSessions.$inferSelect;
+
+export type InsertAccessToken = z.infer<typeof insertAccessTokenSchema>;
+export type AccessToken = typeof accessTokens.$inferSelect;
+
+export { workspaceRoles, type WorkspaceRole };
+
+export type InsertWorkspace = z.infer<typeof insertWorkspaceSchema>;
+export type Workspace = typeof workspaces.$inferSelect;
+
+export type InsertWorkspaceMember = z.infer<typeof insertWorkspaceMemberSchema>;
+export type WorkspaceMember = typeof workspaceMembers.$inferSelect;
+
+export type InsertWorkspaceInvitation = z.infer<typeof insertWorkspaceInvitationSchema>;
+export type WorkspaceInvitation = typeof workspaceInvitations.$inferSelect;
+
+// A workspace as one of its members sees it
+export type UserWorkspace = Workspace & { role: WorkspaceRole };
+
 export type InsertProject = z.infer<typeof insertProjectSchema>;
 export type Project = typeof projects.$inferSelect;
 
+export { collaboratorRoles, type CollaboratorRole };
+
+export type InsertProjectCollaborator = z.infer<typeof insertProjectCollaboratorSchema>;
+export type ProjectCollaborator = typeof projectCollaborators.$inferSelect;
+
+export type InsertProjectShareLink = z.infer<typeof insertProjectShareLinkSchema>;
+export type ProjectShareLink = typeof projectShareLinks.$inferSelect;
+
 export type InsertFile = z.infer<typeof insertFileSchema>;
 export type File = typeof files.$inferSelect;
 
+// An update that writes text to a binary asset without a new blob turns it
+// into a text file, so the asset's blob fields are cleared along with it
+export function withoutStaleBlob(file: File, fileData: Partial<InsertFile>): Partial<InsertFile> {
+  if (fileData.content === undefined || fileData.blobKey !== undefined || !file.blobKey) {
+    return fileData;
+  }
+  return { ...fileData, blobKey: null, mimeType: null, size: null };
+}
+
+export type InsertFileRevision = z.infer<typeof insertFileRevisionSchema>;
+export type FileRevision = typeof fileRevisions.$inferSelect;
+
+export type InsertProjectSnapshot = z.infer<typeof insertProjectSnapshotSchema>;
+export type ProjectSnapshot = typeof projectSnapshots.$inferSelect;
+
 export type InsertTemplate = z.infer<typeof insertTemplateSchema>;
 export type Template = typeof templates.$inferSelect;
+
+// One step of a file batch. Paths are full paths within the project; a delete
+// or move whose path names a directory covers everything beneath it.
+export const fileOperationSchema = z.discriminatedUnion("op", [
+  // With overwrite, an existing file at the path gets the new content instead of failing
+  z.object({ op: z.literal("create"), path: z.string(), content: z.string(), overwrite: z.boolean().optional() }),
+  // With version, the update fails if the file has changed since that version
+  z.object({ op: z.literal("update"), path: z.string(), content: z.string(), version: z.number().int().optional() }),
+  // Deleted files go to the trash unless permanent is set
+  z.object({ op: z.literal("delete"), path: z.string(), permanent: z.boolean().optional() }),
+  z.object({ op: z.literal("move"), from: z.string(), to: z.string() }),
+]);
+
+export type FileOperation = z.infer<typeof fileOperationSchema>;
+
+// What one operation did: the file(s) it wrote, moved or deleted, as they are
+// afterwards (permanently deleted files as they were)
+export interface FileOperationResult {
+  op: FileOperation["op"];
+  path: string;
+  files: File[];
+}
@@ -0,0 +1,17 @@
+// A member's role in a workspace, from most to least trusted. Each role may do
+// what the ones below it may:
+// - viewer: open the workspace's projects and copy them elsewhere
+// - editor: create projects and change their files and settings
+// - admin: invite and manage members below owner, delete projects for good
+// - owner: rename or delete the workspace and manage every member
+export const workspaceRoles = ["owner", "admin", "editor", "viewer"] as const;
+export type WorkspaceRole = typeof workspaceRoles[number];
+
+export function hasRole(role: WorkspaceRole | null | undefined, least: WorkspaceRole): boolean {
+  return !!role && workspaceRoles.indexOf(role) <= workspaceRoles.indexOf(least);
+}
+
+// The roles a single project can be shared with, to people outside its
+// workspace; they mean the same on that project as in a workspace
+export const collaboratorRoles = ["editor", "viewer"] as const satisfies readonly WorkspaceRole[];
+export type CollaboratorRole = typeof collaboratorRoles[number];
@@ -3,5 +3,15 @@ import 'express-session';
 declare module 'express-session' {
   interface SessionData {
     userId: number;
+    // The device that signed in, shown in the session list
+    userAgent: string;
+    ipAddress: string;
+    // When this session passed two-factor authentication (epoch ms); unset
+    // when the user signed in without it
+    twoFactorVerifiedAt: number;
+    // A sign-in that is waiting for the user's second factor
+    twoFactorPending: { userId: number; expiresAt: number };
+    // The secret being set up, until the user confirms it with a first code
+    pendingTotpSecret: string;
   }
-}
\ No newline at end of file
+}
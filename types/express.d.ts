@@ -0,0 +1,12 @@
+import type { AccessToken } from '@shared/schema';
+
+declare global {
+  namespace Express {
+    interface Request {
+      // Set when the request authenticated with a personal access token
+      accessToken?: AccessToken;
+    }
+  }
+}
+
+export {};